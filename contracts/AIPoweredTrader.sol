@@ -6,27 +6,106 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "./interfaces/IPangolinRouter.sol";
 import "./PriceOracle.sol";
 
 /**
  * @title AIPoweredTrader
  * @dev Smart contract for AI-validated trading on Pangolin DEX
- * Integrates with PriceOracle to validate trades before execution
+ * Integrates with PriceOracle to validate trades before execution, using
+ * the prediction for the pair being traded. A trade must also agree with the
+ * predicted direction: selling tokenIn is only allowed when the AI expects
+ * tokenIn to be worth no more than the spot rate the trade gets now.
+ * Owner-configured risk limits apply to every trade: a token allowlist, a
+ * per-trade cap and a rolling 24h volume cap per user on the token sold, and
+ * a maximum price impact quoted from the router.
+ * Users without AVAX for gas can sign an EIP-712 trade intent instead; a
+ * relayer submits it and is paid a fee, capped by the user, from the output.
+ * Like PriceOracle, it can be deployed directly or behind a UUPS proxy.
  */
-contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
+contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable, EIP712, Initializable, UUPSUpgradeable {
     using SafeERC20 for IERC20;
     
-    // Immutable contract references
-    IPangolinRouter public immutable pangolinRouter;
-    PriceOracle public immutable priceOracle;
-    address public immutable WAVAX;
+    // Contract references, fixed at construction or initialization
+    IPangolinRouter public pangolinRouter;
+    PriceOracle public priceOracle;
+    address public WAVAX;
     
     // Trading configuration
     uint256 public constant TRADE_DEADLINE_BUFFER = 20 minutes; // 20 minute deadline buffer
+    uint256 public constant MAX_PATH_LENGTH = 4; // Up to three hops
+
+    uint256 private constant PRICE_PRECISION = 1e18;
+    uint256 private constant VOLUME_BUCKETS = 24; // Hourly buckets for the 24h window
+    uint256 private constant PRICE_IMPACT_PROBE_DIVISOR = 1000; // Marginal price quoted at amountIn / 1000
+
+    struct ReferencePrice {
+        uint256 price;           // Price of baseToken in the other token, in wei
+        address baseToken;
+    }
+
+    // Signed by the user; tokenOut is address(0) for AVAX
+    struct TradeIntent {
+        address user;
+        address tokenIn;
+        address tokenOut;
+        uint256 amountIn;
+        uint256 amountOutMin;    // Received by the user after the relayer fee
+        uint256 maxRelayerFee;   // In tokenOut
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    bytes32 public constant TRADE_INTENT_TYPEHASH = keccak256(
+        "TradeIntent(address user,address tokenIn,address tokenOut,uint256 amountIn,uint256 amountOutMin,uint256 maxRelayerFee,uint256 nonce,uint256 deadline)"
+    );
+
+    struct VolumeBucket {
+        uint64 hour;             // block.timestamp / 1 hours when the bucket was filled
+        uint192 amount;
+    }
+
+    // Routers (Pangolin, Trader Joe, ...) that token-to-token trades may use
+    mapping(address => bool) public approvedRouters;
+
+    // Spot fallback for pairs the router cannot quote, keyed by PriceOracle.pairKey()
+    mapping(bytes32 => ReferencePrice) public referencePrices;
+
+    // Pairs where the owner allows trades against the predicted direction
+    mapping(bytes32 => bool) public directionOverrides;
+
+    // Optional track-record requirement; disabled while minSettledPredictions is 0
+    uint256 public minSettledPredictions;
+    uint256 public minHitRateBps;
+
+    // Risk limits; a zero limit is not enforced
+    bool public allowlistEnabled;
+    mapping(address => bool) public allowedTokens;
+    mapping(address => uint256) public maxTradeAmount;   // Per trade, by token sold
+    mapping(address => uint256) public dailyVolumeCap;   // Per user over 24h, by token sold
+    uint256 public maxPriceImpactBps;
+
+    // user => token sold => hourly volume
+    mapping(address => mapping(address => VolumeBucket[VOLUME_BUCKETS])) private volumeBuckets;
+
+    // Next trade intent nonce for each user
+    mapping(address => uint256) public nonces;
     
     // Custom errors
     error AIPredictionInvalid(uint256 confidence);
+    error AIDirectionMismatch(uint256 aiPrice, uint256 spotPrice);
+    error SpotPriceUnavailable(address tokenIn, address tokenOut);
+    error AIAccuracyTooLow(uint256 settled, uint256 hitRateBps);
+    error TokenNotAllowed(address token);
+    error TradeAmountTooLarge(address token, uint256 amountIn, uint256 maxAmount);
+    error DailyVolumeExceeded(address token, uint256 volume, uint256 cap);
+    error PriceImpactTooHigh(uint256 impactBps, uint256 maxImpactBps);
     
     // Events
     event TradeExecuted(
@@ -39,6 +118,39 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
         uint256 aiPredictedPrice
     );
     
+    // Emitted when a trade against the AI direction goes through on an owner
+    // override; without one the trade reverts with AIDirectionMismatch
+    event TradeRejected(
+        address indexed user,
+        address indexed tokenIn,
+        address indexed tokenOut,
+        uint256 aiPrice,
+        uint256 spotPrice
+    );
+
+    event IntentExecuted(
+        address indexed user,
+        address indexed relayer,
+        uint256 indexed nonce,
+        uint256 relayerFee
+    );
+
+    event RouterApprovalUpdated(address indexed router, bool approved);
+
+    event ReferencePriceUpdated(bytes32 indexed pairKey, address indexed baseToken, uint256 price);
+
+    event DirectionOverrideUpdated(bytes32 indexed pairKey, bool allowed);
+
+    event AccuracyRequirementUpdated(uint256 minSettledPredictions, uint256 minHitRateBps);
+
+    event AllowlistEnabledUpdated(bool enabled);
+
+    event TokenAllowlistUpdated(address indexed token, bool allowed);
+
+    event TradeLimitsUpdated(address indexed token, uint256 maxTradeAmount, uint256 dailyVolumeCap);
+
+    event MaxPriceImpactUpdated(uint256 maxPriceImpactBps);
+
     event EmergencyWithdraw(
         address indexed token,
         uint256 amount,
@@ -50,19 +162,19 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
      * @param _pangolinRouter Pangolin Router contract address
      * @param _priceOracle PriceOracle contract address
      */
-    constructor(address _pangolinRouter, address _priceOracle) Ownable() {
-        require(_pangolinRouter != address(0) && _priceOracle != address(0), "Invalid address");
-        
-        pangolinRouter = IPangolinRouter(_pangolinRouter);
-        priceOracle = PriceOracle(_priceOracle);
-        
-        address w;
-        try IPangolinRouter(_pangolinRouter).WAVAX() returns (address a) { w = a; }
-        catch {
-            try IPangolinRouter(_pangolinRouter).WETH() returns (address b) { w = b; }
-            catch { revert("Router missing WAVAX/WETH"); }
-        }
-        WAVAX = w;
+    constructor(address _pangolinRouter, address _priceOracle) Ownable() EIP712("AIPoweredTrader", "1") {
+        _initializeTrader(_pangolinRouter, _priceOracle);
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Proxy initializer; the caller becomes the owner
+     * @param _pangolinRouter Pangolin Router contract address
+     * @param _priceOracle PriceOracle contract address
+     */
+    function initialize(address _pangolinRouter, address _priceOracle) external initializer {
+        _transferOwnership(_msgSender());
+        _initializeTrader(_pangolinRouter, _priceOracle);
     }
 
     /**
@@ -81,20 +193,16 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
         require(deadline > block.timestamp, "Deadline must be in future");
         require(deadline <= block.timestamp + TRADE_DEADLINE_BUFFER, "Deadline too far");
 
-        // Validate AI prediction
-        if (!priceOracle.isPredictionValid()) {
-            (, uint256 confidence,,,) = priceOracle.getPrediction();
-            revert AIPredictionInvalid(confidence);
-        }
-
-        // Get AI prediction data for event
-        (uint256 aiPrice, uint256 aiConfidence,,,) = priceOracle.getPrediction();
-
-        // Execute trade on Pangolin
         address[] memory path = new address[](2);
         path[0] = WAVAX; // WAVAX instead of address(0)
         path[1] = tokenOut;
 
+        _checkRiskLimits(msg.sender, address(pangolinRouter), path, msg.value);
+
+        // Validate the AI prediction and direction for this pair
+        (uint256 aiPrice, uint256 aiConfidence) = _validateTrade(msg.sender, address(pangolinRouter), path, msg.value);
+
+        // Execute trade on Pangolin
         uint256[] memory amounts = pangolinRouter.swapExactAVAXForTokens{value: msg.value}(
             amountOutMin,
             path,
@@ -131,14 +239,14 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
         require(deadline > block.timestamp, "Deadline must be in future");
         require(deadline <= block.timestamp + TRADE_DEADLINE_BUFFER, "Deadline too far");
 
-        // Validate AI prediction
-        if (!priceOracle.isPredictionValid()) {
-            (, uint256 confidence,,,) = priceOracle.getPrediction();
-            revert AIPredictionInvalid(confidence);
-        }
+        address[] memory path = new address[](2);
+        path[0] = tokenIn;
+        path[1] = WAVAX; // WAVAX instead of address(0)
 
-        // Get AI prediction data for event
-        (uint256 aiPrice, uint256 aiConfidence,,,) = priceOracle.getPrediction();
+        _checkRiskLimits(msg.sender, address(pangolinRouter), path, amountIn);
+
+        // Validate the AI prediction and direction for this pair
+        (uint256 aiPrice, uint256 aiConfidence) = _validateTrade(msg.sender, address(pangolinRouter), path, amountIn);
 
         // Transfer tokens from user to this contract
         IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
@@ -151,10 +259,6 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
         }
 
         // Execute trade on Pangolin
-        address[] memory path = new address[](2);
-        path[0] = tokenIn;
-        path[1] = WAVAX; // WAVAX instead of address(0)
-
         uint256[] memory amounts = pangolinRouter.swapExactTokensForAVAX(
             amountIn,
             amountOutMin,
@@ -175,51 +279,44 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
     }
 
     /**
-     * @dev Trade tokens for tokens with AI validation
-     * @param tokenIn Address of token to sell
-     * @param tokenOut Address of token to receive
+     * @dev Trade tokens for tokens with AI validation along a multi-hop path
+     * @param router Approved Uniswap V2 style router to swap through
+     * @param path Swap path from the token sold to the token received
      * @param amountIn Amount of tokens to sell
      * @param amountOutMin Minimum amount of tokens to receive
      * @param deadline Trade deadline
      */
     function tradeExactTokensForTokens(
-        address tokenIn,
-        address tokenOut,
+        address router,
+        address[] calldata path,
         uint256 amountIn,
         uint256 amountOutMin,
         uint256 deadline
     ) external nonReentrant whenNotPaused {
+        require(approvedRouters[router], "Router not approved");
         require(amountIn > 0, "Amount must be greater than 0");
-        require(tokenIn != address(0) && tokenOut != address(0), "Invalid token address");
-        require(tokenIn != tokenOut, "Tokens must be different");
+        require(path.length >= 2 && path.length <= MAX_PATH_LENGTH, "Invalid path length");
+        require(path[0] != address(0) && path[path.length - 1] != address(0), "Invalid token address");
+        require(path[0] != path[path.length - 1], "Tokens must be different");
         require(deadline > block.timestamp, "Deadline must be in future");
         require(deadline <= block.timestamp + TRADE_DEADLINE_BUFFER, "Deadline too far");
 
-        // Validate AI prediction
-        if (!priceOracle.isPredictionValid()) {
-            (, uint256 confidence,,,) = priceOracle.getPrediction();
-            revert AIPredictionInvalid(confidence);
-        }
+        _checkRiskLimits(msg.sender, router, path, amountIn);
 
-        // Get AI prediction data for event
-        (uint256 aiPrice, uint256 aiConfidence,,,) = priceOracle.getPrediction();
+        // Validate the AI prediction and direction for this pair
+        (uint256 aiPrice, uint256 aiConfidence) = _validateTrade(msg.sender, router, path, amountIn);
 
         // Transfer tokens from user to this contract
-        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(this), amountIn);
 
         // Approve router to spend tokens (robust pattern for non-standard tokens)
-        uint256 currentAllowance = IERC20(tokenIn).allowance(address(this), address(pangolinRouter));
-        if (currentAllowance < amountIn) {
-            IERC20(tokenIn).safeApprove(address(pangolinRouter), 0);
-            IERC20(tokenIn).safeApprove(address(pangolinRouter), amountIn);
+        if (IERC20(path[0]).allowance(address(this), router) < amountIn) {
+            IERC20(path[0]).safeApprove(router, 0);
+            IERC20(path[0]).safeApprove(router, amountIn);
         }
 
-        // Execute trade on Pangolin
-        address[] memory path = new address[](2);
-        path[0] = tokenIn;
-        path[1] = tokenOut;
-
-        uint256[] memory amounts = pangolinRouter.swapExactTokensForTokens(
+        // Execute trade on the chosen DEX
+        uint256[] memory amounts = IPangolinRouter(router).swapExactTokensForTokens(
             amountIn,
             amountOutMin,
             path,
@@ -229,13 +326,170 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
 
         emit TradeExecuted(
             msg.sender,
-            tokenIn,
-            tokenOut,
+            path[0],
+            path[path.length - 1],
             amountIn,
-            amounts[1],
+            amounts[amounts.length - 1],
+            aiConfidence,
+            aiPrice
+        );
+    }
+
+    /**
+     * @dev Execute a trade intent signed by the user, on Pangolin. The user's
+     * tokens are pulled with their existing approval; the relayer (caller)
+     * receives relayerFee from the output and the user the rest.
+     * @param intent Trade signed by intent.user
+     * @param signature EIP-712 signature over the intent
+     * @param relayerFee Fee in tokenOut, at most intent.maxRelayerFee
+     */
+    function executeTradeIntent(
+        TradeIntent calldata intent,
+        bytes calldata signature,
+        uint256 relayerFee
+    ) external nonReentrant whenNotPaused {
+        require(intent.amountIn > 0, "Amount must be greater than 0");
+        require(intent.tokenIn != address(0), "Invalid token address");
+        require(intent.tokenIn != intent.tokenOut, "Tokens must be different");
+        require(intent.deadline > block.timestamp, "Deadline must be in future");
+        require(intent.deadline <= block.timestamp + TRADE_DEADLINE_BUFFER, "Deadline too far");
+        require(relayerFee <= intent.maxRelayerFee, "Relayer fee too high");
+        require(intent.nonce == nonces[intent.user], "Invalid nonce");
+        require(ECDSA.recover(getIntentDigest(intent), signature) == intent.user, "Invalid signature");
+        nonces[intent.user]++;
+
+        address[] memory path = new address[](2);
+        path[0] = intent.tokenIn;
+        path[1] = intent.tokenOut == address(0) ? WAVAX : intent.tokenOut;
+
+        _checkRiskLimits(intent.user, address(pangolinRouter), path, intent.amountIn);
+
+        // Validate the AI prediction and direction for this pair
+        (uint256 aiPrice, uint256 aiConfidence) = _validateTrade(intent.user, address(pangolinRouter), path, intent.amountIn);
+
+        uint256 amountOut = _swapIntent(intent, path, intent.amountOutMin + relayerFee) - relayerFee;
+        _transferOut(intent.tokenOut, intent.user, amountOut);
+        if (relayerFee > 0) {
+            _transferOut(intent.tokenOut, msg.sender, relayerFee);
+        }
+
+        emit TradeExecuted(
+            intent.user,
+            intent.tokenIn,
+            intent.tokenOut,
+            intent.amountIn,
+            amountOut,
             aiConfidence,
             aiPrice
         );
+        emit IntentExecuted(intent.user, msg.sender, intent.nonce, relayerFee);
+    }
+
+    /**
+     * @dev EIP-712 digest a user signs for a trade intent
+     */
+    function getIntentDigest(TradeIntent calldata intent) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            TRADE_INTENT_TYPEHASH,
+            intent.user,
+            intent.tokenIn,
+            intent.tokenOut,
+            intent.amountIn,
+            intent.amountOutMin,
+            intent.maxRelayerFee,
+            intent.nonce,
+            intent.deadline
+        )));
+    }
+
+    /**
+     * @dev Allow or revoke a router for token-to-token trades (owner only)
+     * @param router Router address
+     * @param approved Whether trades may route through it
+     */
+    function setRouterApproval(address router, bool approved) external onlyOwner {
+        require(router != address(0), "Invalid address");
+        approvedRouters[router] = approved;
+        emit RouterApprovalUpdated(router, approved);
+    }
+
+    /**
+     * @dev Set the spot price used when the router cannot quote a pair (owner only)
+     * @param baseToken Token the price is quoted for
+     * @param quoteToken Token the price is quoted in
+     * @param price Price of baseToken in quoteToken, in wei; 0 clears it
+     */
+    function setReferencePrice(address baseToken, address quoteToken, uint256 price) external onlyOwner {
+        require(baseToken != address(0) && quoteToken != address(0), "Invalid token address");
+        require(baseToken != quoteToken, "Tokens must be different");
+
+        bytes32 key = priceOracle.pairKey(baseToken, quoteToken);
+        referencePrices[key] = ReferencePrice({price: price, baseToken: baseToken});
+        emit ReferencePriceUpdated(key, baseToken, price);
+    }
+
+    /**
+     * @dev Allow or forbid trades against the AI direction for a pair (owner only)
+     */
+    function setDirectionOverride(address tokenA, address tokenB, bool allowed) external onlyOwner {
+        bytes32 key = priceOracle.pairKey(tokenA, tokenB);
+        directionOverrides[key] = allowed;
+        emit DirectionOverrideUpdated(key, allowed);
+    }
+
+    /**
+     * @dev Require the oracle's recent hit rate for a pair on top of confidence (owner only)
+     * @param _minSettledPredictions Settled predictions needed before trading; 0 disables the check
+     * @param _minHitRateBps Minimum hit rate over the oracle's accuracy window, in basis points
+     */
+    function setAccuracyRequirement(uint256 _minSettledPredictions, uint256 _minHitRateBps) external onlyOwner {
+        require(_minSettledPredictions <= priceOracle.ACCURACY_WINDOW(), "Exceeds accuracy window");
+        require(_minHitRateBps <= 10000, "Invalid hit rate");
+        minSettledPredictions = _minSettledPredictions;
+        minHitRateBps = _minHitRateBps;
+        emit AccuracyRequirementUpdated(_minSettledPredictions, _minHitRateBps);
+    }
+
+    /**
+     * @dev Only allow trades whose tokens are on the allowlist (owner only)
+     */
+    function setAllowlistEnabled(bool enabled) external onlyOwner {
+        allowlistEnabled = enabled;
+        emit AllowlistEnabledUpdated(enabled);
+    }
+
+    /**
+     * @dev Add or remove a token from the allowlist (owner only).
+     * AVAX trades route through WAVAX, so WAVAX must be listed for them.
+     */
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        require(token != address(0), "Invalid token address");
+        allowedTokens[token] = allowed;
+        emit TokenAllowlistUpdated(token, allowed);
+    }
+
+    /**
+     * @dev Cap trades selling a token (owner only); WAVAX caps AVAX trades
+     * @param token Token sold
+     * @param _maxTradeAmount Largest amountIn for a single trade; 0 disables the cap
+     * @param _dailyVolumeCap Largest amount a user may sell over a rolling 24 hours; 0 disables the cap
+     */
+    function setTradeLimits(address token, uint256 _maxTradeAmount, uint256 _dailyVolumeCap) external onlyOwner {
+        require(token != address(0), "Invalid token address");
+        require(_dailyVolumeCap <= type(uint192).max, "Invalid volume cap");
+        maxTradeAmount[token] = _maxTradeAmount;
+        dailyVolumeCap[token] = _dailyVolumeCap;
+        emit TradeLimitsUpdated(token, _maxTradeAmount, _dailyVolumeCap);
+    }
+
+    /**
+     * @dev Set the largest price impact a trade may have (owner only)
+     * @param _maxPriceImpactBps Maximum impact in basis points; 0 disables the check
+     */
+    function setMaxPriceImpact(uint256 _maxPriceImpactBps) external onlyOwner {
+        require(_maxPriceImpactBps <= 10000, "Invalid price impact");
+        maxPriceImpactBps = _maxPriceImpactBps;
+        emit MaxPriceImpactUpdated(_maxPriceImpactBps);
     }
 
     /**
@@ -276,11 +530,261 @@ contract AIPoweredTrader is Ownable, ReentrancyGuard, Pausable {
     }
 
     /**
-     * @dev Get current AI prediction status
+     * @dev Get current AI prediction status for a pair
+     */
+    function getAIPredictionStatus(address tokenA, address tokenB) external view returns (bool isValid, uint256 confidence) {
+        isValid = priceOracle.isPredictionValid(tokenA, tokenB);
+        (, confidence,,,) = priceOracle.getPrediction(tokenA, tokenB);
+    }
+
+    /**
+     * @dev Amount of a token a user has sold over the last 24 hours, in
+     * hourly buckets
+     */
+    function rollingVolume(address user, address token) public view returns (uint256 volume) {
+        uint256 hour = block.timestamp / 1 hours;
+        VolumeBucket[VOLUME_BUCKETS] storage buckets = volumeBuckets[user][token];
+        for (uint256 i = 0; i < VOLUME_BUCKETS; i++) {
+            if (buckets[i].hour + VOLUME_BUCKETS > hour) {
+                volume += buckets[i].amount;
+            }
+        }
+    }
+
+    /**
+     * @dev Price impact of a trade: how far its execution price falls short of
+     * the marginal price, quoted from the router with a trade 1/1000th the size
+     * @return impactBps Price impact in basis points
+     * @return available False when the router cannot quote the path or the trade is too small to probe
+     */
+    function getPriceImpact(
+        address router,
+        address[] memory path,
+        uint256 amountIn
+    ) public view returns (uint256 impactBps, bool available) {
+        uint256 probeIn = amountIn / PRICE_IMPACT_PROBE_DIVISOR;
+        if (probeIn == 0) {
+            return (0, false);
+        }
+
+        try IPangolinRouter(router).getAmountsOut(amountIn, path) returns (uint256[] memory amounts) {
+            try IPangolinRouter(router).getAmountsOut(probeIn, path) returns (uint256[] memory probe) {
+                uint256 amountOut = amounts[amounts.length - 1];
+                uint256 expectedOut = Math.mulDiv(probe[probe.length - 1], amountIn, probeIn);
+                if (expectedOut == 0) {
+                    return (0, false);
+                }
+                impactBps = amountOut >= expectedOut ? 0 : ((expectedOut - amountOut) * 10000) / expectedOut;
+                return (impactBps, true);
+            } catch {}
+        } catch {}
+        return (0, false);
+    }
+
+    /**
+     * @dev Spot price of tokenIn in tokenOut for a trade, in wei. Quotes the
+     * trade itself on the router and falls back to the stored reference price.
+     * @return spotPrice Price of tokenIn in tokenOut, in wei
+     * @return available False when neither source can price the pair
+     */
+    function getSpotPrice(
+        address router,
+        address[] memory path,
+        uint256 amountIn
+    ) public view returns (uint256 spotPrice, bool available) {
+        address tokenIn = path[0];
+        address tokenOut = path[path.length - 1];
+
+        if (amountIn > 0) {
+            try IPangolinRouter(router).getAmountsOut(amountIn, path) returns (uint256[] memory amounts) {
+                uint256 amountOut = amounts[amounts.length - 1];
+                if (amountOut > 0) {
+                    // Normalize both sides to 18 decimals, as oracle prices are
+                    uint256 normalizedIn = amountIn * 10 ** (18 - _decimals(tokenIn));
+                    uint256 normalizedOut = amountOut * 10 ** (18 - _decimals(tokenOut));
+                    return (Math.mulDiv(normalizedOut, PRICE_PRECISION, normalizedIn), true);
+                }
+            } catch {}
+        }
+
+        ReferencePrice storage stored = referencePrices[priceOracle.pairKey(tokenIn, tokenOut)];
+        if (stored.price == 0) {
+            return (0, false);
+        }
+        spotPrice = stored.baseToken == tokenIn
+            ? stored.price
+            : (PRICE_PRECISION * PRICE_PRECISION) / stored.price;
+        return (spotPrice, true);
+    }
+
+    function _initializeTrader(address _pangolinRouter, address _priceOracle) internal {
+        require(_pangolinRouter != address(0) && _priceOracle != address(0), "Invalid address");
+        
+        pangolinRouter = IPangolinRouter(_pangolinRouter);
+        priceOracle = PriceOracle(_priceOracle);
+        
+        address w;
+        try IPangolinRouter(_pangolinRouter).WAVAX() returns (address a) { w = a; }
+        catch {
+            try IPangolinRouter(_pangolinRouter).WETH() returns (address b) { w = b; }
+            catch { revert("Router missing WAVAX/WETH"); }
+        }
+        WAVAX = w;
+
+        approvedRouters[_pangolinRouter] = true;
+        emit RouterApprovalUpdated(_pangolinRouter, true);
+    }
+
+    /**
+     * @dev Only the owner can upgrade a proxied trader
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /**
+     * @dev Swap an intent's tokens on Pangolin, keeping the output here so it
+     * can be split between the user and the relayer
+     * @return amountOut Output received, before the relayer fee
+     */
+    function _swapIntent(
+        TradeIntent calldata intent,
+        address[] memory path,
+        uint256 amountOutMin
+    ) internal returns (uint256 amountOut) {
+        IERC20(intent.tokenIn).safeTransferFrom(intent.user, address(this), intent.amountIn);
+
+        // Approve router to spend tokens (robust pattern for non-standard tokens)
+        if (IERC20(intent.tokenIn).allowance(address(this), address(pangolinRouter)) < intent.amountIn) {
+            IERC20(intent.tokenIn).safeApprove(address(pangolinRouter), 0);
+            IERC20(intent.tokenIn).safeApprove(address(pangolinRouter), intent.amountIn);
+        }
+
+        uint256[] memory amounts = intent.tokenOut == address(0)
+            ? pangolinRouter.swapExactTokensForAVAX(intent.amountIn, amountOutMin, path, address(this), intent.deadline)
+            : pangolinRouter.swapExactTokensForTokens(intent.amountIn, amountOutMin, path, address(this), intent.deadline);
+        return amounts[amounts.length - 1];
+    }
+
+    /**
+     * @dev Send AVAX (token == address(0)) or an ERC20 held by the contract
+     */
+    function _transferOut(address token, address to, uint256 amount) internal {
+        if (token == address(0)) {
+            (bool success,) = to.call{value: amount}("");
+            require(success, "AVAX transfer failed");
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+
+    /**
+     * @dev Enforce the owner's risk limits and record the trade against the
+     * user's rolling volume. Path tokens must be allowlisted when the
+     * allowlist is on; the size caps apply to the token sold.
+     */
+    function _checkRiskLimits(address user, address router, address[] memory path, uint256 amountIn) internal {
+        if (allowlistEnabled) {
+            for (uint256 i = 0; i < path.length; i++) {
+                if (!allowedTokens[path[i]]) {
+                    revert TokenNotAllowed(path[i]);
+                }
+            }
+        }
+
+        address tokenIn = path[0];
+        uint256 maxAmount = maxTradeAmount[tokenIn];
+        if (maxAmount > 0 && amountIn > maxAmount) {
+            revert TradeAmountTooLarge(tokenIn, amountIn, maxAmount);
+        }
+
+        uint256 cap = dailyVolumeCap[tokenIn];
+        if (cap > 0) {
+            uint256 volume = rollingVolume(user, tokenIn) + amountIn;
+            if (volume > cap) {
+                revert DailyVolumeExceeded(tokenIn, volume, cap);
+            }
+            _recordVolume(user, tokenIn, amountIn);
+        }
+
+        if (maxPriceImpactBps > 0) {
+            // A router that cannot quote the path cannot fill it either
+            (uint256 impactBps, bool available) = getPriceImpact(router, path, amountIn);
+            if (available && impactBps > maxPriceImpactBps) {
+                revert PriceImpactTooHigh(impactBps, maxPriceImpactBps);
+            }
+        }
+    }
+
+    function _recordVolume(address user, address token, uint256 amount) internal {
+        uint256 hour = block.timestamp / 1 hours;
+        VolumeBucket storage bucket = volumeBuckets[user][token][hour % VOLUME_BUCKETS];
+        if (bucket.hour != hour) {
+            bucket.hour = uint64(hour);
+            bucket.amount = 0;
+        }
+        // amount is at most the uint192 daily cap, so this cannot overflow
+        bucket.amount += uint192(amount);
+    }
+
+    /**
+     * @dev Validate the prediction for the traded pair and that the trade
+     * agrees with it. Selling tokenIn is in line with the AI when the predicted
+     * price of tokenIn in tokenOut is at or below the spot price.
+     */
+    function _validateTrade(
+        address user,
+        address router,
+        address[] memory path,
+        uint256 amountIn
+    ) internal returns (uint256 aiPrice, uint256 aiConfidence) {
+        address tokenIn = path[0];
+        address tokenOut = path[path.length - 1];
+        (aiPrice, aiConfidence) = _validatePrediction(tokenIn, tokenOut);
+
+        (uint256 spotPrice, bool available) = getSpotPrice(router, path, amountIn);
+        if (!available) {
+            revert SpotPriceUnavailable(tokenIn, tokenOut);
+        }
+
+        if (aiPrice > spotPrice) {
+            if (!directionOverrides[priceOracle.pairKey(tokenIn, tokenOut)]) {
+                revert AIDirectionMismatch(aiPrice, spotPrice);
+            }
+            emit TradeRejected(user, tokenIn, tokenOut, aiPrice, spotPrice);
+        }
+    }
+
+    /**
+     * @dev Revert unless the oracle holds a valid prediction for the pair and,
+     * when required, a good enough recent track record
+     * @return aiPrice Predicted price of tokenIn in tokenOut
+     * @return aiConfidence Prediction confidence
+     */
+    function _validatePrediction(address tokenIn, address tokenOut) internal view returns (uint256 aiPrice, uint256 aiConfidence) {
+        (aiPrice, aiConfidence,,,) = priceOracle.getPrediction(tokenIn, tokenOut);
+        if (!priceOracle.isPredictionValid(tokenIn, tokenOut)) {
+            revert AIPredictionInvalid(aiConfidence);
+        }
+
+        if (minSettledPredictions > 0) {
+            (uint256 settled, uint256 hitRateBps,) = priceOracle.getAccuracy(tokenIn, tokenOut);
+            if (settled < minSettledPredictions || hitRateBps < minHitRateBps) {
+                revert AIAccuracyTooLow(settled, hitRateBps);
+            }
+        }
+    }
+
+    /**
+     * @dev Token decimals, assuming 18 for tokens that do not report them
      */
-    function getAIPredictionStatus() external view returns (bool isValid, uint256 confidence) {
-        isValid = priceOracle.isPredictionValid();
-        (, confidence,,,) = priceOracle.getPrediction();
+    function _decimals(address token) internal view returns (uint8) {
+        (bool success, bytes memory data) = token.staticcall(
+            abi.encodeWithSelector(IERC20Metadata.decimals.selector)
+        );
+        if (success && data.length >= 32) {
+            uint256 value = abi.decode(data, (uint256));
+            if (value <= 18) return uint8(value);
+        }
+        return 18;
     }
 
     /**
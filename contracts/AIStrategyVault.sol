@@ -0,0 +1,370 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./interfaces/IPangolinRouter.sol";
+import "./AIPoweredTrader.sol";
+
+/**
+ * @title AIStrategyVault
+ * @dev ERC-4626 vault that pools user capital for the AI strategy
+ * Users deposit the asset (USDT) or AVAX and receive shares; the owner or an
+ * authorized keeper trades the pooled funds between the asset and AVAX through
+ * AIPoweredTrader, so every vault trade passes the same AI validation.
+ * AVAX holdings are valued in the asset at what Pangolin would pay for them,
+ * through AIPoweredTrader's spot price, which falls back to the trader's
+ * reference price when the router cannot quote. AI predictions are never used
+ * as a valuation, so the vault keeps working between oracle updates.
+ * Standard withdrawals pay out the asset the vault holds; redeemProRata pays a
+ * share of both the asset and AVAX and needs no price at all.
+ * A performance fee is charged per user on gains above that user's
+ * high-water mark, in shares, whenever the user deposits or withdraws.
+ */
+contract AIStrategyVault is ERC4626, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using Math for uint256;
+
+    AIPoweredTrader public immutable trader;
+    IPangolinRouter public immutable pangolinRouter;
+    address public immutable WAVAX;
+
+    uint256 public constant MAX_PERFORMANCE_FEE_BPS = 3000; // 30%
+    uint256 private constant PRICE_PRECISION = 1e18;
+
+    uint256 public performanceFeeBps = 1000; // 10% of gains above the high-water mark
+    address public feeRecipient;
+
+    // Accounts allowed to trade the pooled funds besides the owner
+    mapping(address => bool) public keepers;
+
+    // Asset value of one share (1e18 precision) a user must beat before paying fees
+    mapping(address => uint256) public highWaterMark;
+
+    // Events
+    event KeeperUpdated(address indexed keeper, bool authorized);
+
+    event PerformanceFeeUpdated(uint256 feeBps, address indexed recipient);
+
+    event PerformanceFeeCharged(
+        address indexed user,
+        uint256 feeShares,
+        uint256 sharePrice
+    );
+
+    event StrategyTrade(
+        address indexed keeper,
+        bool avaxToAsset,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
+    event ProRataRedeemed(
+        address indexed shareOwner,
+        address indexed receiver,
+        uint256 shares,
+        uint256 assets,
+        uint256 avaxAmount
+    );
+
+    modifier onlyKeeper() {
+        require(keepers[msg.sender] || msg.sender == owner(), "Caller is not a keeper");
+        _;
+    }
+
+    /**
+     * @dev Constructor
+     * @param _asset Asset deposits and withdrawals are denominated in (USDT)
+     * @param _trader AIPoweredTrader that executes the vault's trades
+     * @param _feeRecipient Receives performance fee shares
+     */
+    constructor(
+        IERC20 _asset,
+        address payable _trader,
+        address _feeRecipient
+    ) ERC20("AI Strategy Vault Share", "aiVAULT") ERC4626(_asset) Ownable() {
+        require(address(_asset) != address(0) && _trader != address(0), "Invalid address");
+        require(_feeRecipient != address(0), "Invalid fee recipient");
+
+        trader = AIPoweredTrader(_trader);
+        pangolinRouter = AIPoweredTrader(_trader).pangolinRouter();
+        WAVAX = AIPoweredTrader(_trader).WAVAX();
+        feeRecipient = _feeRecipient;
+    }
+
+    /**
+     * @dev Asset balance plus AVAX valued at the Pangolin quote for all of it
+     */
+    function totalAssets() public view override returns (uint256) {
+        return IERC20(asset()).balanceOf(address(this)) + _avaxValue(address(this).balance);
+    }
+
+    /**
+     * @dev Asset value of one share, in 1e18 precision
+     */
+    function sharePrice() public view returns (uint256) {
+        return _sharePrice(totalAssets());
+    }
+
+    function _sharePrice(uint256 assets) internal view returns (uint256) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return PRICE_PRECISION;
+        return assets.mulDiv(PRICE_PRECISION, supply);
+    }
+
+    /**
+     * @dev Performance fee shares the user would pay at the current share price
+     */
+    function pendingPerformanceFee(address user) public view returns (uint256) {
+        return _pendingPerformanceFee(user, sharePrice());
+    }
+
+    function _pendingPerformanceFee(address user, uint256 price) internal view returns (uint256) {
+        uint256 mark = highWaterMark[user];
+        uint256 shares = balanceOf(user);
+        if (user == feeRecipient || shares == 0 || price <= mark) return 0;
+
+        uint256 gain = shares.mulDiv(price - mark, PRICE_PRECISION);
+        uint256 fee = (gain * performanceFeeBps) / 10000;
+        return fee.mulDiv(PRICE_PRECISION, price);
+    }
+
+    /**
+     * @dev Deposit AVAX, valued at what it adds to the AVAX already held, so
+     * its price impact falls on the depositor rather than existing holders
+     * @param receiver Account receiving the shares
+     * @return shares Shares minted
+     */
+    function depositAVAX(address receiver) external payable nonReentrant returns (uint256 shares) {
+        require(msg.value > 0, "Must send AVAX");
+        require(receiver != address(0), "Invalid receiver");
+
+        // msg.value is already in the balance, so price shares against the rest
+        uint256 avaxBefore = _avaxValue(address(this).balance - msg.value);
+        uint256 value = _avaxValue(address(this).balance) - avaxBefore;
+        require(value > 0, "Deposit too small");
+
+        uint256 assetsBefore = IERC20(asset()).balanceOf(address(this)) + avaxBefore;
+        uint256 supply = totalSupply();
+        shares = value.mulDiv(supply + 10 ** _decimalsOffset(), assetsBefore + 1, Math.Rounding.Down);
+        require(shares > 0, "Deposit too small");
+
+        uint256 price = supply == 0 ? PRICE_PRECISION : assetsBefore.mulDiv(PRICE_PRECISION, supply);
+        _updateHighWaterMark(receiver, shares, price);
+        _mint(receiver, shares);
+
+        emit Deposit(msg.sender, receiver, value, shares);
+    }
+
+    function deposit(uint256 assets, address receiver) public override nonReentrant returns (uint256) {
+        return super.deposit(assets, receiver);
+    }
+
+    function mint(uint256 shares, address receiver) public override nonReentrant returns (uint256) {
+        return super.mint(shares, receiver);
+    }
+
+    function withdraw(uint256 assets, address receiver, address shareOwner) public override nonReentrant returns (uint256) {
+        _chargePerformanceFee(shareOwner, sharePrice());
+        return super.withdraw(assets, receiver, shareOwner);
+    }
+
+    function redeem(uint256 shares, address receiver, address shareOwner) public override nonReentrant returns (uint256) {
+        _chargePerformanceFee(shareOwner, sharePrice());
+        return super.redeem(shares, receiver, shareOwner);
+    }
+
+    /**
+     * @dev Standard withdrawals are limited to the asset the vault holds
+     */
+    function maxWithdraw(address shareOwner) public view override returns (uint256) {
+        return Math.min(
+            _convertToAssets(balanceOf(shareOwner) - pendingPerformanceFee(shareOwner), Math.Rounding.Down),
+            IERC20(asset()).balanceOf(address(this))
+        );
+    }
+
+    function maxRedeem(address shareOwner) public view override returns (uint256) {
+        return Math.min(
+            balanceOf(shareOwner) - pendingPerformanceFee(shareOwner),
+            _convertToShares(IERC20(asset()).balanceOf(address(this)), Math.Rounding.Down)
+        );
+    }
+
+    /**
+     * @dev Redeem shares for a pro-rata slice of both the asset and AVAX.
+     * The payout needs no price; the performance fee is charged whenever
+     * the AVAX held can be valued, and is skipped otherwise so exits never block.
+     * @param shares Shares to burn
+     * @param receiver Account receiving the asset and AVAX
+     * @param shareOwner Account whose shares are burned
+     */
+    function redeemProRata(
+        uint256 shares,
+        address payable receiver,
+        address shareOwner
+    ) external nonReentrant returns (uint256 assets, uint256 avaxAmount) {
+        require(receiver != address(0), "Invalid receiver");
+        (uint256 avaxValue, bool priced) = _tryAvaxValue(address(this).balance);
+        if (priced) {
+            _chargePerformanceFee(shareOwner, _sharePrice(IERC20(asset()).balanceOf(address(this)) + avaxValue));
+        }
+        require(shares > 0 && shares <= balanceOf(shareOwner), "Invalid share amount");
+
+        if (msg.sender != shareOwner) {
+            _spendAllowance(shareOwner, msg.sender, shares);
+        }
+
+        uint256 supply = totalSupply();
+        assets = IERC20(asset()).balanceOf(address(this)).mulDiv(shares, supply);
+        avaxAmount = address(this).balance.mulDiv(shares, supply);
+        _burn(shareOwner, shares);
+
+        IERC20(asset()).safeTransfer(receiver, assets);
+        if (avaxAmount > 0) {
+            (bool success,) = receiver.call{value: avaxAmount}("");
+            require(success, "AVAX transfer failed");
+        }
+
+        emit ProRataRedeemed(shareOwner, receiver, shares, assets, avaxAmount);
+    }
+
+    /**
+     * @dev Buy the asset with pooled AVAX through AIPoweredTrader (keepers or owner)
+     */
+    function tradeAVAXForAsset(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        uint256 deadline
+    ) external onlyKeeper nonReentrant {
+        require(amountIn <= address(this).balance, "Insufficient AVAX");
+
+        uint256 balanceBefore = IERC20(asset()).balanceOf(address(this));
+        trader.tradeExactAVAXForTokens{value: amountIn}(asset(), amountOutMin, deadline);
+
+        emit StrategyTrade(msg.sender, true, amountIn, IERC20(asset()).balanceOf(address(this)) - balanceBefore);
+    }
+
+    /**
+     * @dev Sell pooled asset for AVAX through AIPoweredTrader (keepers or owner)
+     */
+    function tradeAssetForAVAX(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        uint256 deadline
+    ) external onlyKeeper nonReentrant {
+        IERC20 token = IERC20(asset());
+        require(amountIn <= token.balanceOf(address(this)), "Insufficient asset");
+
+        uint256 balanceBefore = address(this).balance;
+        token.safeApprove(address(trader), 0);
+        token.safeApprove(address(trader), amountIn);
+        trader.tradeExactTokensForAVAX(address(token), amountIn, amountOutMin, deadline);
+
+        emit StrategyTrade(msg.sender, false, amountIn, address(this).balance - balanceBefore);
+    }
+
+    /**
+     * @dev Authorize or remove a keeper (owner only)
+     */
+    function setKeeper(address keeper, bool authorized) external onlyOwner {
+        require(keeper != address(0), "Invalid keeper address");
+        keepers[keeper] = authorized;
+        emit KeeperUpdated(keeper, authorized);
+    }
+
+    /**
+     * @dev Update the performance fee and its recipient (owner only)
+     * @param feeBps Share of gains above the high-water mark, in basis points
+     * @param recipient Receives fee shares
+     */
+    function setPerformanceFee(uint256 feeBps, address recipient) external onlyOwner {
+        require(feeBps <= MAX_PERFORMANCE_FEE_BPS, "Fee too high");
+        require(recipient != address(0), "Invalid fee recipient");
+        performanceFeeBps = feeBps;
+        feeRecipient = recipient;
+        emit PerformanceFeeUpdated(feeBps, recipient);
+    }
+
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        // Runs before the assets arrive, so sharePrice() is the price paid
+        _updateHighWaterMark(receiver, shares, sharePrice());
+        super._deposit(caller, receiver, assets, shares);
+    }
+
+    /**
+     * @dev Share transfers carry the sender's high-water mark with them
+     */
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal override {
+        super._beforeTokenTransfer(from, to, amount);
+        if (from != address(0) && to != address(0) && amount > 0) {
+            _blendHighWaterMark(to, amount, highWaterMark[from]);
+        }
+    }
+
+    /**
+     * @dev Take the user's performance fee in shares and raise their
+     * high-water mark to the share price
+     */
+    function _chargePerformanceFee(address user, uint256 price) internal {
+        uint256 feeShares = _pendingPerformanceFee(user, price);
+
+        if (feeShares > 0) {
+            _transfer(user, feeRecipient, feeShares);
+            emit PerformanceFeeCharged(user, feeShares, price);
+        }
+        if (price > highWaterMark[user]) {
+            highWaterMark[user] = price;
+        }
+    }
+
+    /**
+     * @dev Settle fees on the user's existing shares, then average the mark
+     * with the price paid for new shares
+     */
+    function _updateHighWaterMark(address user, uint256 newShares, uint256 price) internal {
+        _chargePerformanceFee(user, price);
+        _blendHighWaterMark(user, newShares, price);
+    }
+
+    function _blendHighWaterMark(address user, uint256 newShares, uint256 price) internal {
+        uint256 shares = balanceOf(user);
+        highWaterMark[user] = shares == 0
+            ? price
+            : (shares * highWaterMark[user] + newShares * price) / (shares + newShares);
+    }
+
+    function _avaxValue(uint256 amount) internal view returns (uint256 value) {
+        bool priced;
+        (value, priced) = _tryAvaxValue(amount);
+        require(priced, "No AVAX price");
+    }
+
+    /**
+     * @dev Asset value of AVAX at AIPoweredTrader's spot price for the whole
+     * amount. Spot prices are in 18 decimals, so the value is scaled down to
+     * the asset's decimals.
+     */
+    function _tryAvaxValue(uint256 amount) internal view returns (uint256 value, bool priced) {
+        if (amount == 0) return (0, true);
+
+        address[] memory path = new address[](2);
+        path[0] = WAVAX;
+        path[1] = asset();
+        (uint256 price, bool available) = trader.getSpotPrice(address(pangolinRouter), path, amount);
+        if (!available || price == 0) return (0, false);
+
+        uint8 assetDecimals = decimals() - _decimalsOffset();
+        return (amount.mulDiv(price, PRICE_PRECISION) / 10 ** (18 - assetDecimals), true);
+    }
+
+    /**
+     * @dev Receive AVAX from trades
+     */
+    receive() external payable {}
+}
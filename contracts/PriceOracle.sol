@@ -2,129 +2,432 @@
 pragma solidity ^0.8.17;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 
 /**
  * @title PriceOracle
  * @dev AI-powered price prediction oracle for validating trading decisions
- * Integrates with off-chain AI models to provide on-chain price predictions
+ * Integrates with off-chain AI models to provide on-chain price predictions.
+ * Predictions are kept per token pair, so a forecast for one market never
+ * authorizes trades in another.
+ * Authorized reporters publish: a pair's prediction is accepted once a
+ * quorum of reporters submit prices within a tolerance of each other, and
+ * the median is published. Reports can be sent directly or signed off-chain
+ * (EIP-712) and batched by a relayer. The owner can only publish directly
+ * while no reporters are authorized, so a configured quorum cannot be bypassed.
+ * Each pair keeps a bounded history of published predictions. Keepers settle
+ * expired ones against the realized price, and the oracle tracks the hit
+ * rate and mean absolute error over the most recent settlements.
+ * The oracle can be deployed directly or behind an ERC-1967 proxy (UUPS),
+ * in which case initialize() takes the place of the constructor and the
+ * owner authorizes upgrades. New state variables must be appended.
  */
-contract PriceOracle is Ownable {
+contract PriceOracle is Ownable, EIP712, Initializable, UUPSUpgradeable {
     struct Prediction {
-        uint256 price;           // Predicted price in wei
+        uint256 price;           // Predicted price of baseToken in the other token, in wei
         uint256 confidence;      // Confidence level (0-100)
         uint256 timestamp;       // When prediction was set
         uint256 expiresAt;       // When prediction expires
         bool isValid;            // Whether prediction is currently valid
+        address baseToken;       // Token the price is quoted for
     }
 
-    // Current prediction
-    Prediction public currentPrediction;
-    
+    struct PairConfig {
+        uint256 minConfidence;   // Minimum confidence for this pair
+        uint256 maxValidity;     // Longest a prediction for this pair may stay valid
+        bool isSet;              // Pairs without a config use the global defaults
+    }
+
+    // A reporter's signed submission, relayed by anyone
+    struct PredictionReport {
+        address baseToken;
+        address quoteToken;
+        uint256 price;
+        uint256 confidence;
+        uint256 expiresAt;
+        uint256 round;           // Report round the submission is for
+    }
+
+    struct Report {
+        address reporter;
+        uint256 price;           // Price of the round's baseToken
+        uint256 confidence;
+        uint256 expiresAt;
+    }
+
+    struct ReportRound {
+        uint256 id;
+        uint256 startedAt;
+        address baseToken;       // Orientation of the prices in this round
+        Report[] reports;
+    }
+
+    struct PredictionRecord {
+        uint256 price;
+        uint256 confidence;
+        uint256 timestamp;
+        uint256 expiresAt;
+        address baseToken;
+        uint256 realizedPrice;   // Price of baseToken once settled
+        bool settled;
+    }
+
+    struct Outcome {
+        uint256 errorBps;        // Absolute error relative to the realized price
+        bool hit;
+    }
+
+    struct AccuracyStats {
+        uint256 settledTotal;    // Settlements ever recorded
+        uint256 hits;            // Hits within the window
+        uint256 totalErrorBps;   // Summed error within the window
+    }
+
+    // Predictions and per-pair settings, keyed by pairKey()
+    mapping(bytes32 => Prediction) public predictions;
+    mapping(bytes32 => PairConfig) public pairConfigs;
+
+    // Reporters and their open rounds, keyed by pairKey()
+    mapping(address => bool) public reporters;
+    uint256 public reporterCount;
+    mapping(bytes32 => ReportRound) private reportRounds;
+    mapping(bytes32 => mapping(uint256 => mapping(address => bool))) private hasReported;
+
+    // Quorum configuration
+    uint256 public quorum; // Agreeing reports needed to publish
+    uint256 public priceToleranceBps; // Largest distance from the median, in basis points
+    uint256 public roundDuration; // Open rounds older than this are discarded
+    uint256 public constant MAX_PRICE_TOLERANCE_BPS = 10000;
+
+    // History and accuracy, keyed by pairKey(); history slots are sequence % HISTORY_SIZE
+    mapping(bytes32 => mapping(uint256 => PredictionRecord)) private predictionHistory;
+    mapping(bytes32 => uint256) public historyLength;
+    mapping(bytes32 => mapping(uint256 => Outcome)) private outcomes;
+    mapping(bytes32 => AccuracyStats) private accuracyStats;
+    mapping(address => bool) public keepers;
+
+    uint256 public constant HISTORY_SIZE = 32;
+    uint256 public constant ACCURACY_WINDOW = 20; // Settlements the rolling stats cover
+    uint256 public hitToleranceBps; // A prediction within this distance of the realized price is a hit
+
+    bytes32 public constant PREDICTION_REPORT_TYPEHASH = keccak256(
+        "PredictionReport(address baseToken,address quoteToken,uint256 price,uint256 confidence,uint256 expiresAt,uint256 round)"
+    );
+
     // Configuration
-    uint256 public minConfidenceThreshold = 70; // 70% minimum confidence (configurable)
-    uint256 public constant PREDICTION_EXPIRY_TIME = 1 hours; // 1 hour expiry
+    uint256 public minConfidenceThreshold; // Minimum confidence (configurable)
+    uint256 public constant PREDICTION_EXPIRY_TIME = 1 hours; // Default maximum validity
+    uint256 public constant MAX_PREDICTION_EXPIRY_TIME = 1 days; // Upper bound for a pair's validity
     uint256 public constant MAX_CONFIDENCE = 100; // Maximum confidence level
+    uint256 private constant PRICE_PRECISION = 1e18;
 
     // Events
     event PredictionSet(
-        uint256 indexed price,
-        uint256 indexed confidence,
+        bytes32 indexed pairKey,
+        address indexed baseToken,
+        uint256 price,
+        uint256 confidence,
         uint256 timestamp,
         uint256 expiresAt
     );
-    
+
     event PredictionValidated(
+        bytes32 indexed pairKey,
         bool isValid,
         uint256 confidence,
         uint256 timestamp
     );
-    
+
     event ConfidenceThresholdUpdated(
         uint256 oldThreshold,
         uint256 newThreshold
     );
 
-    constructor() Ownable() {}
+    event PairConfigUpdated(
+        bytes32 indexed pairKey,
+        uint256 minConfidence,
+        uint256 maxValidity
+    );
+
+    event ReporterUpdated(address indexed reporter, bool authorized);
+
+    event QuorumUpdated(
+        uint256 quorum,
+        uint256 priceToleranceBps,
+        uint256 roundDuration
+    );
+
+    event PredictionSubmitted(
+        bytes32 indexed pairKey,
+        address indexed reporter,
+        uint256 indexed round,
+        address baseToken,
+        uint256 price,
+        uint256 confidence,
+        uint256 expiresAt
+    );
+
+    event RoundDiscarded(bytes32 indexed pairKey, uint256 indexed round);
+
+    event PredictionSettled(
+        bytes32 indexed pairKey,
+        uint256 indexed sequence,
+        uint256 realizedPrice,
+        uint256 errorBps,
+        bool hit
+    );
+
+    event KeeperUpdated(address indexed keeper, bool authorized);
+
+    event HitToleranceUpdated(uint256 oldTolerance, uint256 newTolerance);
+
+    modifier onlyReporter() {
+        require(reporters[msg.sender], "Caller is not a reporter");
+        _;
+    }
+
+    modifier onlyKeeper() {
+        require(keepers[msg.sender] || msg.sender == owner(), "Caller is not a keeper");
+        _;
+    }
 
     /**
-     * @dev Set a new AI prediction (owner only)
+     * @dev Direct deployments are ready to use; as a proxy implementation the
+     * contract's own storage is never used, so initializers are disabled
+     */
+    constructor() Ownable() EIP712("PriceOracle", "1") {
+        _initializeDefaults();
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Proxy initializer; the caller becomes the owner
+     */
+    function initialize() external initializer {
+        _transferOwnership(_msgSender());
+        _initializeDefaults();
+    }
+
+    /**
+     * @dev Order-independent key for a token pair
+     */
+    function pairKey(address tokenA, address tokenB) public pure returns (bytes32) {
+        return tokenA < tokenB
+            ? keccak256(abi.encodePacked(tokenA, tokenB))
+            : keccak256(abi.encodePacked(tokenB, tokenA));
+    }
+
+    /**
+     * @dev Set a new AI prediction for a pair (owner only, and only while
+     * there are no reporters; afterwards predictions need a quorum)
+     * @param baseToken Token whose price is predicted
+     * @param quoteToken Token the price is quoted in
      * @param price Predicted price in wei
      * @param confidence Confidence level (0-100)
      * @param expiresAt When this prediction expires
      */
     function setPrediction(
+        address baseToken,
+        address quoteToken,
         uint256 price,
         uint256 confidence,
         uint256 expiresAt
     ) external onlyOwner {
-        require(price > 0, "Price must be greater than 0");
-        require(confidence <= MAX_CONFIDENCE, "Confidence cannot exceed 100");
-        require(expiresAt > block.timestamp, "Expiry must be in the future");
-        require(expiresAt <= block.timestamp + PREDICTION_EXPIRY_TIME, "Expiry cannot exceed 1 hour maximum validity");
+        require(reporterCount == 0, "Reporters must reach quorum");
+        bytes32 key = _checkPrediction(baseToken, quoteToken, price, confidence, expiresAt);
+        _publish(key, baseToken, price, confidence, expiresAt);
+    }
 
-        currentPrediction = Prediction({
-            price: price,
-            confidence: confidence,
-            timestamp: block.timestamp,
-            expiresAt: expiresAt,
-            isValid: true
-        });
+    /**
+     * @dev Submit a reporter's prediction for a pair's current round
+     * @param baseToken Token whose price is predicted
+     * @param quoteToken Token the price is quoted in
+     * @param price Predicted price in wei
+     * @param confidence Confidence level (0-100)
+     * @param expiresAt When this prediction expires
+     */
+    function submitPrediction(
+        address baseToken,
+        address quoteToken,
+        uint256 price,
+        uint256 confidence,
+        uint256 expiresAt
+    ) external onlyReporter {
+        bytes32 key = _checkPrediction(baseToken, quoteToken, price, confidence, expiresAt);
+        _closeStaleRound(key);
+        _submit(key, msg.sender, baseToken, price, confidence, expiresAt);
+    }
 
-        emit PredictionSet(price, confidence, block.timestamp, expiresAt);
+    /**
+     * @dev Relay reporters' EIP-712 signed reports. Reports for a round that
+     * has already closed, including one closed earlier in the batch, and
+     * repeat reports from a reporter in the same round are skipped.
+     * @param reports Signed reports
+     * @param signatures Signature for each report
+     */
+    function submitSignedPredictions(
+        PredictionReport[] calldata reports,
+        bytes[] calldata signatures
+    ) external {
+        require(reports.length == signatures.length, "Length mismatch");
+
+        for (uint256 i = 0; i < reports.length; i++) {
+            PredictionReport calldata report = reports[i];
+            address reporter = ECDSA.recover(getReportDigest(report), signatures[i]);
+            require(reporters[reporter], "Signer is not a reporter");
+
+            bytes32 key = _checkPrediction(
+                report.baseToken,
+                report.quoteToken,
+                report.price,
+                report.confidence,
+                report.expiresAt
+            );
+            _closeStaleRound(key);
+            if (report.round != reportRounds[key].id) continue;
+            if (hasReported[key][report.round][reporter]) continue;
+
+            _submit(key, reporter, report.baseToken, report.price, report.confidence, report.expiresAt);
+        }
+    }
+
+    /**
+     * @dev EIP-712 digest a reporter signs for a report
+     */
+    function getReportDigest(PredictionReport calldata report) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            PREDICTION_REPORT_TYPEHASH,
+            report.baseToken,
+            report.quoteToken,
+            report.price,
+            report.confidence,
+            report.expiresAt,
+            report.round
+        )));
     }
 
     /**
-     * @dev Get the current prediction data
-     * @return price Predicted price
+     * @dev The open report round for a pair
+     * @return round Round id reports must be signed for
+     * @return startedAt When the first report of the round arrived (0 if none yet)
+     * @return reportCount Reports received so far
+     */
+    function getReportRound(address tokenA, address tokenB) external view returns (
+        uint256 round,
+        uint256 startedAt,
+        uint256 reportCount
+    ) {
+        ReportRound storage current = reportRounds[pairKey(tokenA, tokenB)];
+        return (current.id, current.startedAt, current.reports.length);
+    }
+
+    /**
+     * @dev Authorize or remove a reporter (owner only). Removing one may not
+     * leave fewer reporters than the quorum, except that removing the last
+     * reporter hands publishing back to the owner.
+     */
+    function setReporter(address reporter, bool authorized) external onlyOwner {
+        require(reporter != address(0), "Invalid reporter address");
+        if (reporters[reporter] == authorized) return;
+        require(authorized || reporterCount > quorum || reporterCount == 1, "Reporters would fall below quorum");
+
+        reporters[reporter] = authorized;
+        if (authorized) {
+            reporterCount++;
+        } else {
+            reporterCount--;
+        }
+        emit ReporterUpdated(reporter, authorized);
+    }
+
+    /**
+     * @dev Configure report aggregation (owner only)
+     * @param newQuorum Agreeing reports needed to publish
+     * @param newToleranceBps Largest distance from the median, in basis points
+     * @param newRoundDuration How long a round stays open, in seconds
+     */
+    function setQuorumConfig(
+        uint256 newQuorum,
+        uint256 newToleranceBps,
+        uint256 newRoundDuration
+    ) external onlyOwner {
+        require(newQuorum > 0 && newQuorum <= reporterCount, "Invalid quorum");
+        require(newToleranceBps <= MAX_PRICE_TOLERANCE_BPS, "Invalid price tolerance");
+        require(newRoundDuration > 0, "Invalid round duration");
+
+        quorum = newQuorum;
+        priceToleranceBps = newToleranceBps;
+        roundDuration = newRoundDuration;
+        emit QuorumUpdated(newQuorum, newToleranceBps, newRoundDuration);
+    }
+
+    /**
+     * @dev Get the current prediction for a pair
+     * @return price Predicted price of tokenA in tokenB
      * @return confidence Confidence level
      * @return timestamp When prediction was set
      * @return expiresAt When prediction expires
      * @return isValid Whether prediction is currently valid
      */
-    function getPrediction() external view returns (
+    function getPrediction(address tokenA, address tokenB) external view returns (
         uint256 price,
         uint256 confidence,
         uint256 timestamp,
         uint256 expiresAt,
         bool isValid
     ) {
+        Prediction storage prediction = predictions[pairKey(tokenA, tokenB)];
+
+        price = prediction.price;
+        if (price > 0 && prediction.baseToken != tokenA) {
+            price = (PRICE_PRECISION * PRICE_PRECISION) / price;
+        }
+
         return (
-            currentPrediction.price,
-            currentPrediction.confidence,
-            currentPrediction.timestamp,
-            currentPrediction.expiresAt,
-            currentPrediction.isValid
+            price,
+            prediction.confidence,
+            prediction.timestamp,
+            prediction.expiresAt,
+            prediction.isValid
         );
     }
 
     /**
-     * @dev Check if the current prediction is valid
-     * @return True if prediction is not expired and meets confidence threshold
+     * @dev Check if the current prediction for a pair is valid
+     * @return True if prediction is not expired and meets the pair's confidence threshold
      */
-    function isPredictionValid() external view returns (bool) {
-        return _isPredictionValid();
+    function isPredictionValid(address tokenA, address tokenB) external view returns (bool) {
+        return _isPredictionValid(pairKey(tokenA, tokenB));
     }
 
     /**
-     * @dev Check if confidence is above a specific threshold
+     * @dev Check if a pair's confidence is above a specific threshold
      * @param minConfidence Minimum confidence threshold
      * @return True if confidence meets or exceeds threshold
      */
-    function isConfidenceAboveThreshold(uint256 minConfidence) external view returns (bool) {
+    function isConfidenceAboveThreshold(
+        address tokenA,
+        address tokenB,
+        uint256 minConfidence
+    ) external view returns (bool) {
         require(minConfidence <= MAX_CONFIDENCE, "Threshold cannot exceed 100");
-        return currentPrediction.confidence >= minConfidence;
+        return predictions[pairKey(tokenA, tokenB)].confidence >= minConfidence;
     }
 
     /**
-     * @dev Invalidate the current prediction (owner only)
+     * @dev Invalidate the current prediction for a pair (owner only)
      */
-    function invalidatePrediction() external onlyOwner {
-        currentPrediction.isValid = false;
-        emit PredictionValidated(false, currentPrediction.confidence, block.timestamp);
+    function invalidatePrediction(address tokenA, address tokenB) external onlyOwner {
+        bytes32 key = pairKey(tokenA, tokenB);
+        predictions[key].isValid = false;
+        emit PredictionValidated(key, false, predictions[key].confidence, block.timestamp);
     }
 
     /**
-     * @dev Update confidence threshold (owner only)
+     * @dev Update the default confidence threshold (owner only)
      * @param newThreshold New minimum confidence threshold
      */
     function updateConfidenceThreshold(uint256 newThreshold) external onlyOwner {
@@ -134,33 +437,384 @@ contract PriceOracle is Ownable {
         emit ConfidenceThresholdUpdated(oldThreshold, newThreshold);
     }
 
+    /**
+     * @dev Give a pair its own confidence threshold and maximum validity (owner only)
+     * @param minConfidence Minimum confidence (0-100)
+     * @param maxValidity Longest a prediction may stay valid, in seconds
+     */
+    function setPairConfig(
+        address tokenA,
+        address tokenB,
+        uint256 minConfidence,
+        uint256 maxValidity
+    ) external onlyOwner {
+        require(tokenA != address(0) && tokenB != address(0), "Invalid token address");
+        require(tokenA != tokenB, "Tokens must be different");
+        require(minConfidence <= MAX_CONFIDENCE, "Threshold cannot exceed 100");
+        require(maxValidity > 0 && maxValidity <= MAX_PREDICTION_EXPIRY_TIME, "Invalid maximum validity");
+
+        bytes32 key = pairKey(tokenA, tokenB);
+        pairConfigs[key] = PairConfig({
+            minConfidence: minConfidence,
+            maxValidity: maxValidity,
+            isSet: true
+        });
+
+        emit PairConfigUpdated(key, minConfidence, maxValidity);
+    }
+
+    /**
+     * @dev Return a pair to the global defaults (owner only)
+     */
+    function clearPairConfig(address tokenA, address tokenB) external onlyOwner {
+        bytes32 key = pairKey(tokenA, tokenB);
+        delete pairConfigs[key];
+        emit PairConfigUpdated(key, minConfidenceThreshold, PREDICTION_EXPIRY_TIME);
+    }
+
+    /**
+     * @dev Effective confidence threshold and maximum validity for a pair
+     */
+    function getPairConfig(address tokenA, address tokenB) external view returns (
+        uint256 minConfidence,
+        uint256 maxValidity
+    ) {
+        bytes32 key = pairKey(tokenA, tokenB);
+        return (_minConfidence(key), _maxValidity(key));
+    }
+
+    /**
+     * @dev Settle an expired prediction against the realized price (keepers or owner)
+     * @param baseToken Token the realized price is quoted for
+     * @param quoteToken Token the realized price is quoted in
+     * @param sequence Position of the prediction in the pair's history
+     * @param realizedPrice Realized price of baseToken in quoteToken, in wei
+     */
+    function settlePrediction(
+        address baseToken,
+        address quoteToken,
+        uint256 sequence,
+        uint256 realizedPrice
+    ) external onlyKeeper {
+        require(realizedPrice > 0, "Price must be greater than 0");
+
+        bytes32 key = pairKey(baseToken, quoteToken);
+        require(sequence < historyLength[key], "Unknown prediction");
+        require(sequence + HISTORY_SIZE >= historyLength[key], "Prediction no longer in history");
+
+        PredictionRecord storage record = predictionHistory[key][sequence % HISTORY_SIZE];
+        require(!record.settled, "Prediction already settled");
+        require(block.timestamp >= record.expiresAt, "Prediction has not expired");
+
+        if (record.baseToken != baseToken) {
+            realizedPrice = (PRICE_PRECISION * PRICE_PRECISION) / realizedPrice;
+        }
+        record.realizedPrice = realizedPrice;
+        record.settled = true;
+
+        uint256 distance = record.price > realizedPrice ? record.price - realizedPrice : realizedPrice - record.price;
+        uint256 errorBps = (distance * MAX_PRICE_TOLERANCE_BPS) / realizedPrice;
+        bool hit = errorBps <= hitToleranceBps;
+
+        // Replace the oldest outcome once the window is full
+        AccuracyStats storage stats = accuracyStats[key];
+        Outcome storage slot = outcomes[key][stats.settledTotal % ACCURACY_WINDOW];
+        if (stats.settledTotal >= ACCURACY_WINDOW) {
+            stats.totalErrorBps -= slot.errorBps;
+            if (slot.hit) stats.hits--;
+        }
+        slot.errorBps = errorBps;
+        slot.hit = hit;
+        stats.totalErrorBps += errorBps;
+        if (hit) stats.hits++;
+        stats.settledTotal++;
+
+        emit PredictionSettled(key, sequence, realizedPrice, errorBps, hit);
+    }
+
+    /**
+     * @dev A prediction from a pair's history
+     * @param sequence Position in the pair's history, oldest first
+     */
+    function getPredictionRecord(
+        address tokenA,
+        address tokenB,
+        uint256 sequence
+    ) external view returns (PredictionRecord memory) {
+        bytes32 key = pairKey(tokenA, tokenB);
+        require(sequence < historyLength[key], "Unknown prediction");
+        require(sequence + HISTORY_SIZE >= historyLength[key], "Prediction no longer in history");
+        return predictionHistory[key][sequence % HISTORY_SIZE];
+    }
+
+    /**
+     * @dev Rolling accuracy over a pair's most recent settlements
+     * @return settled Settlements in the window
+     * @return hitRateBps Share of hits, in basis points
+     * @return meanAbsErrorBps Mean absolute error, in basis points
+     */
+    function getAccuracy(address tokenA, address tokenB) external view returns (
+        uint256 settled,
+        uint256 hitRateBps,
+        uint256 meanAbsErrorBps
+    ) {
+        AccuracyStats storage stats = accuracyStats[pairKey(tokenA, tokenB)];
+        settled = stats.settledTotal < ACCURACY_WINDOW ? stats.settledTotal : ACCURACY_WINDOW;
+        if (settled == 0) return (0, 0, 0);
+
+        hitRateBps = (stats.hits * MAX_PRICE_TOLERANCE_BPS) / settled;
+        meanAbsErrorBps = stats.totalErrorBps / settled;
+    }
+
+    /**
+     * @dev Authorize or remove a keeper (owner only)
+     */
+    function setKeeper(address keeper, bool authorized) external onlyOwner {
+        require(keeper != address(0), "Invalid keeper address");
+        keepers[keeper] = authorized;
+        emit KeeperUpdated(keeper, authorized);
+    }
+
+    /**
+     * @dev Default configuration, set by the constructor or initialize()
+     */
+    function _initializeDefaults() internal {
+        quorum = 1;
+        priceToleranceBps = 100;
+        roundDuration = 15 minutes;
+        hitToleranceBps = 200; // 2%
+        minConfidenceThreshold = 70;
+    }
+
+    /**
+     * @dev Only the owner can upgrade a proxied oracle
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /**
+     * @dev Update how close a settled prediction must be to count as a hit (owner only)
+     * @param newTolerance Largest error for a hit, in basis points
+     */
+    function updateHitTolerance(uint256 newTolerance) external onlyOwner {
+        require(newTolerance <= MAX_PRICE_TOLERANCE_BPS, "Invalid hit tolerance");
+        uint256 oldTolerance = hitToleranceBps;
+        hitToleranceBps = newTolerance;
+        emit HitToleranceUpdated(oldTolerance, newTolerance);
+    }
+
+    function _checkPrediction(
+        address baseToken,
+        address quoteToken,
+        uint256 price,
+        uint256 confidence,
+        uint256 expiresAt
+    ) internal view returns (bytes32 key) {
+        require(baseToken != address(0) && quoteToken != address(0), "Invalid token address");
+        require(baseToken != quoteToken, "Tokens must be different");
+        require(price > 0, "Price must be greater than 0");
+        require(confidence <= MAX_CONFIDENCE, "Confidence cannot exceed 100");
+        require(expiresAt > block.timestamp, "Expiry must be in the future");
+
+        key = pairKey(baseToken, quoteToken);
+        require(expiresAt <= block.timestamp + _maxValidity(key), "Expiry exceeds maximum validity");
+    }
+
+    function _publish(
+        bytes32 key,
+        address baseToken,
+        uint256 price,
+        uint256 confidence,
+        uint256 expiresAt
+    ) internal {
+        predictions[key] = Prediction({
+            price: price,
+            confidence: confidence,
+            timestamp: block.timestamp,
+            expiresAt: expiresAt,
+            isValid: true,
+            baseToken: baseToken
+        });
+
+        predictionHistory[key][historyLength[key] % HISTORY_SIZE] = PredictionRecord({
+            price: price,
+            confidence: confidence,
+            timestamp: block.timestamp,
+            expiresAt: expiresAt,
+            baseToken: baseToken,
+            realizedPrice: 0,
+            settled: false
+        });
+        historyLength[key]++;
+
+        emit PredictionSet(key, baseToken, price, confidence, block.timestamp, expiresAt);
+    }
+
+    /**
+     * @dev Record a report in the pair's open round and publish once a quorum agrees
+     */
+    function _submit(
+        bytes32 key,
+        address reporter,
+        address baseToken,
+        uint256 price,
+        uint256 confidence,
+        uint256 expiresAt
+    ) internal {
+        ReportRound storage current = reportRounds[key];
+        require(!hasReported[key][current.id][reporter], "Already reported this round");
+        hasReported[key][current.id][reporter] = true;
+
+        if (current.reports.length == 0) {
+            current.startedAt = block.timestamp;
+            current.baseToken = baseToken;
+        }
+        uint256 roundPrice = baseToken == current.baseToken
+            ? price
+            : (PRICE_PRECISION * PRICE_PRECISION) / price;
+
+        current.reports.push(Report({
+            reporter: reporter,
+            price: roundPrice,
+            confidence: confidence,
+            expiresAt: expiresAt
+        }));
+        emit PredictionSubmitted(key, reporter, current.id, baseToken, price, confidence, expiresAt);
+
+        _tally(key);
+    }
+
+    /**
+     * @dev Publish the median of the reports within tolerance of the round's
+     * median once there are a quorum of them. A round every reporter has
+     * answered without agreement is discarded.
+     */
+    function _tally(bytes32 key) internal {
+        ReportRound storage current = reportRounds[key];
+        Report[] storage reports = current.reports;
+
+        // Reports from removed reporters no longer count
+        uint256 active;
+        for (uint256 i = 0; i < reports.length; i++) {
+            if (reporters[reports[i].reporter]) active++;
+        }
+        if (active < quorum) return;
+
+        uint256[] memory prices = new uint256[](active);
+        uint256 filled;
+        for (uint256 i = 0; i < reports.length; i++) {
+            if (reporters[reports[i].reporter]) prices[filled++] = reports[i].price;
+        }
+        uint256 median = _median(prices);
+
+        uint256 agreeing;
+        for (uint256 i = 0; i < reports.length; i++) {
+            if (_agrees(reports[i], median)) agreeing++;
+        }
+
+        if (agreeing >= quorum) {
+            uint256[] memory agreeingPrices = new uint256[](agreeing);
+            uint256[] memory agreeingConfidences = new uint256[](agreeing);
+            uint256 expiresAt = type(uint256).max;
+            filled = 0;
+            for (uint256 i = 0; i < reports.length; i++) {
+                Report storage report = reports[i];
+                if (!_agrees(report, median)) continue;
+
+                agreeingPrices[filled] = report.price;
+                agreeingConfidences[filled] = report.confidence;
+                filled++;
+                if (report.expiresAt < expiresAt) expiresAt = report.expiresAt;
+            }
+
+            address baseToken = current.baseToken;
+            _closeRound(key);
+            _publish(key, baseToken, _median(agreeingPrices), _median(agreeingConfidences), expiresAt);
+        } else if (active >= reporterCount) {
+            emit RoundDiscarded(key, current.id);
+            _closeRound(key);
+        }
+    }
+
+    /**
+     * @dev Discard an open round that has outlived the round duration
+     */
+    function _closeStaleRound(bytes32 key) internal {
+        ReportRound storage current = reportRounds[key];
+        if (current.reports.length > 0 && block.timestamp > current.startedAt + roundDuration) {
+            emit RoundDiscarded(key, current.id);
+            _closeRound(key);
+        }
+    }
+
+    function _closeRound(bytes32 key) internal {
+        ReportRound storage current = reportRounds[key];
+        delete current.reports;
+        current.startedAt = 0;
+        current.id++;
+    }
+
+    function _agrees(Report storage report, uint256 median) internal view returns (bool) {
+        if (!reporters[report.reporter]) return false;
+        uint256 distance = report.price > median ? report.price - median : median - report.price;
+        return distance * MAX_PRICE_TOLERANCE_BPS <= median * priceToleranceBps;
+    }
+
+    /**
+     * @dev Median of a small array; sorts it in place
+     */
+    function _median(uint256[] memory values) internal pure returns (uint256) {
+        for (uint256 i = 1; i < values.length; i++) {
+            uint256 value = values[i];
+            uint256 j = i;
+            while (j > 0 && values[j - 1] > value) {
+                values[j] = values[j - 1];
+                j--;
+            }
+            values[j] = value;
+        }
+
+        uint256 middle = values.length / 2;
+        return values.length % 2 == 1 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+    }
+
     /**
      * @dev Internal function to check prediction validity
      */
-    function _isPredictionValid() internal view returns (bool) {
+    function _isPredictionValid(bytes32 key) internal view returns (bool) {
+        Prediction storage prediction = predictions[key];
         return (
-            currentPrediction.isValid &&
-            block.timestamp <= currentPrediction.expiresAt &&
-            block.timestamp - currentPrediction.timestamp <= PREDICTION_EXPIRY_TIME &&
-            currentPrediction.confidence >= minConfidenceThreshold
+            prediction.isValid &&
+            block.timestamp <= prediction.expiresAt &&
+            block.timestamp - prediction.timestamp <= _maxValidity(key) &&
+            prediction.confidence >= _minConfidence(key)
         );
     }
 
+    function _minConfidence(bytes32 key) internal view returns (uint256) {
+        return pairConfigs[key].isSet ? pairConfigs[key].minConfidence : minConfidenceThreshold;
+    }
+
+    function _maxValidity(bytes32 key) internal view returns (uint256) {
+        return pairConfigs[key].isSet ? pairConfigs[key].maxValidity : PREDICTION_EXPIRY_TIME;
+    }
+
     /**
-     * @dev Get prediction age in seconds
+     * @dev Get a pair's prediction age in seconds
      */
-    function getPredictionAge() external view returns (uint256) {
-        if (currentPrediction.timestamp == 0) return 0;
-        return block.timestamp - currentPrediction.timestamp;
+    function getPredictionAge(address tokenA, address tokenB) external view returns (uint256) {
+        Prediction storage prediction = predictions[pairKey(tokenA, tokenB)];
+        if (prediction.timestamp == 0) return 0;
+        return block.timestamp - prediction.timestamp;
     }
 
     /**
-     * @dev Get time until prediction expires
+     * @dev Get time until a pair's prediction expires
      */
-    function getTimeUntilExpiry() external view returns (uint256) {
-        if (currentPrediction.expiresAt == 0 || block.timestamp >= currentPrediction.expiresAt) {
+    function getTimeUntilExpiry(address tokenA, address tokenB) external view returns (uint256) {
+        Prediction storage prediction = predictions[pairKey(tokenA, tokenB)];
+        if (prediction.expiresAt == 0 || block.timestamp >= prediction.expiresAt) {
             return 0;
         }
-        return currentPrediction.expiresAt - block.timestamp;
+        return prediction.expiresAt - block.timestamp;
     }
 }
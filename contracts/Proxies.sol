@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+// Brings OpenZeppelin's ERC-1967 proxy into the build so deploy scripts and
+// tests can put PriceOracle and AIPoweredTrader behind it
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+import "../AIPoweredTrader.sol";
+
+// Stand-in for a next AIPoweredTrader version, appending state as upgrades must
+contract AIPoweredTraderV2Mock is AIPoweredTrader {
+  uint256 public upgradeCounter;
+
+  constructor(address _pangolinRouter, address _priceOracle) AIPoweredTrader(_pangolinRouter, _priceOracle) {}
+
+  function incrementUpgradeCounter() external {
+    upgradeCounter += 1;
+  }
+
+  function version() external pure returns (string memory) {
+    return "2";
+  }
+}
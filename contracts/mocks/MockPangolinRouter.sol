@@ -1,14 +1,32 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.17;
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "../interfaces/IPangolinRouter.sol";
 
 contract MockPangolinRouter is IPangolinRouter {
+  uint256 private constant FEE_BPS = 30; // 0.3% swap fee, as on Pangolin
+
   address private _wrapped;
+
+  // reserves[a][b] is the reserve of token a in the a/b pool; zero means no pool
+  mapping(address => mapping(address => uint256)) public reserves;
+
+  // When set, AVAX swaps trade against the pools instead of echoing the input
+  bool public liquidAVAXSwaps;
   
   constructor(address wrapped) { 
     _wrapped = wrapped; 
   }
+
+  function setReserves(address tokenA, address tokenB, uint256 reserveA, uint256 reserveB) external {
+    reserves[tokenA][tokenB] = reserveA;
+    reserves[tokenB][tokenA] = reserveB;
+  }
   
+  function setLiquidAVAXSwaps(bool enabled) external {
+    liquidAVAXSwaps = enabled;
+  }
+
   function WAVAX() external view returns (address) { 
     return _wrapped; 
   }
@@ -23,6 +41,14 @@ contract MockPangolinRouter is IPangolinRouter {
     address to,
     uint256 deadline
   ) external payable returns (uint256[] memory amounts) {
+    if (liquidAVAXSwaps) {
+      amounts = _quote(msg.value, path);
+      require(amounts[path.length - 1] >= amountOutMin, "Mock: insufficient output amount");
+      _updateReserves(path, amounts);
+      require(IERC20(path[path.length - 1]).transfer(to, amounts[path.length - 1]), "Mock: transfer out failed");
+      return amounts;
+    }
+
     amounts = new uint256[](path.length);
     amounts[0] = msg.value; 
     amounts[1] = msg.value; // echo
@@ -32,11 +58,21 @@ contract MockPangolinRouter is IPangolinRouter {
   
   function swapExactTokensForAVAX(
     uint256 amountIn,
-    uint256,
-    address[] calldata,
+    uint256 amountOutMin,
+    address[] calldata path,
     address to,
     uint256
   ) external returns (uint256[] memory amounts) {
+    if (liquidAVAXSwaps) {
+      amounts = _quote(amountIn, path);
+      require(amounts[path.length - 1] >= amountOutMin, "Mock: insufficient output amount");
+      _updateReserves(path, amounts);
+      require(IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn), "Mock: transfer in failed");
+      (bool sent,) = to.call{value: amounts[path.length - 1]}("");
+      require(sent, "send fail");
+      return amounts;
+    }
+
     amounts = new uint256[](2); 
     amounts[0] = amountIn; 
     amounts[1] = amountIn;
@@ -46,24 +82,26 @@ contract MockPangolinRouter is IPangolinRouter {
   
   function swapExactTokensForTokens(
     uint256 amountIn,
-    uint256,
+    uint256 amountOutMin,
     address[] calldata path,
     address to,
     uint256
   ) external returns (uint256[] memory amounts) {
-    amounts = new uint256[](path.length); 
-    amounts[0] = amountIn; 
-    amounts[1] = amountIn; 
-    to; // noop
+    amounts = _quote(amountIn, path);
+    uint256 amountOut = amounts[path.length - 1];
+    require(amountOut >= amountOutMin, "Mock: insufficient output amount");
+
+    _updateReserves(path, amounts);
+
+    require(IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn), "Mock: transfer in failed");
+    require(IERC20(path[path.length - 1]).transfer(to, amountOut), "Mock: transfer out failed");
   }
   
   function getAmountsOut(
     uint256 amountIn,
     address[] calldata path
-  ) external pure returns (uint256[] memory amounts) {
-    amounts = new uint256[](path.length); 
-    amounts[0] = amountIn; 
-    amounts[1] = amountIn;
+  ) external view returns (uint256[] memory amounts) {
+    amounts = _quote(amountIn, path);
   }
   
   function getAmountsIn(
@@ -74,4 +112,31 @@ contract MockPangolinRouter is IPangolinRouter {
     amounts[0] = amountOut; 
     amounts[1] = amountOut;
   }
+
+  function _updateReserves(address[] calldata path, uint256[] memory amounts) private {
+    for (uint256 i = 0; i < path.length - 1; i++) {
+      reserves[path[i]][path[i + 1]] += amounts[i];
+      reserves[path[i + 1]][path[i]] -= amounts[i + 1];
+    }
+  }
+
+  receive() external payable {}
+
+  /**
+   * Constant-product quote along the path; reverts on a hop without a pool
+   */
+  function _quote(uint256 amountIn, address[] calldata path) private view returns (uint256[] memory amounts) {
+    require(path.length >= 2, "Mock: invalid path");
+    amounts = new uint256[](path.length);
+    amounts[0] = amountIn;
+
+    for (uint256 i = 0; i < path.length - 1; i++) {
+      uint256 reserveIn = reserves[path[i]][path[i + 1]];
+      uint256 reserveOut = reserves[path[i + 1]][path[i]];
+      require(reserveIn > 0 && reserveOut > 0, "Mock: no pool");
+
+      uint256 amountInWithFee = amounts[i] * (10000 - FEE_BPS);
+      amounts[i + 1] = (amountInWithFee * reserveOut) / (reserveIn * 10000 + amountInWithFee);
+    }
+  }
 }
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+import "../PriceOracle.sol";
+
+// Stand-in for a next PriceOracle version, appending state as upgrades must
+contract PriceOracleV2Mock is PriceOracle {
+  uint256 public upgradeCounter;
+
+  function incrementUpgradeCounter() external {
+    upgradeCounter += 1;
+  }
+
+  function version() external pure returns (string memory) {
+    return "2";
+  }
+}
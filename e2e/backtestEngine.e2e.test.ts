@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import { BacktestEngine } from "../src/utils/backtestEngine.ts";
+import type { BacktestDataSource, HistoricalBar, ModelSignal, StrategyConfig } from "../src/utils/backtestEngine.ts";
+import type { BacktestConfig } from "../src/shared/types.ts";
+
+/**
+ * BacktestEngine runs over fixed bar and signal fixtures, so every fill
+ * and metric can be checked against a hand-computed figure.
+ */
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+const START = Date.UTC(2023, 0, 1) / 1000;
+
+type SignalRule = (bar: HistoricalBar, index: number, bars: HistoricalBar[]) => Omit<ModelSignal, "timestamp" | "modelVersion"> | null;
+
+/** Daily bars in Unix seconds, one per close */
+const dailyBars = (closes: number[], extra: Partial<HistoricalBar> = {}): HistoricalBar[] =>
+  closes.map((close, index) => ({ timestamp: START + index * DAY, close, ...extra }));
+
+/** Serves the same bars and rule-based signals for every requested date range */
+const fixtureSource = (series: Record<string, HistoricalBar[]>, rule: SignalRule): BacktestDataSource => ({
+  loadBars: async (_startDate, _endDate, symbol) => series[symbol],
+  loadSignals: async bars => bars.flatMap((bar, index) => {
+    const signal = rule(bar, index, bars);
+    return signal ? [{ ...signal, timestamp: bar.timestamp, modelVersion: "fixture" }] : [];
+  })
+});
+
+const strategy = (overrides: Partial<StrategyConfig["tradingParams"]> = {}): StrategyConfig => ({
+  name: "fixture",
+  aiModel: "lstm",
+  riskParams: { maxPositionSize: 1, stopLoss: 0, takeProfit: 0, maxDrawdown: 1 },
+  tradingParams: { minConfidence: 0.6, rebalanceFrequency: 0, slippageModel: "fixed", ...overrides }
+});
+
+const config = (symbols: string[] = ["AVAX/USDT"]): BacktestConfig => ({
+  startDate: new Date(START * 1000),
+  endDate: new Date((START + 2 * YEAR) * 1000),
+  initialCapital: 10000,
+  symbols
+});
+
+/** Buy on the second bar and hold */
+const buyOnce: SignalRule = (bar, index) =>
+  index === 1 ? { predictedPrice: bar.close * 1.1, direction: "up", confidence: 0.9 } : null;
+
+/** Follow tomorrow's close, so every trade is on the right side */
+const followNextClose: SignalRule = (bar, index, bars) => {
+  const next = bars[index + 1];
+  if (!next) return null;
+  return { predictedPrice: next.close, direction: next.close > bar.close ? "up" : "down", confidence: 0.9 };
+};
+
+describe("BacktestEngine", function () {
+  describe("runBacktest", function () {
+    it("Should annualize the return over the bars' span in seconds", async function () {
+      // Two years of daily bars, from 10 to 20
+      const bars = dailyBars(Array.from({ length: 731 }, (_, i) => 10 + (10 * i) / 730));
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, buyOnce));
+
+      const result = await engine.runBacktest(strategy(), config());
+
+      // 95% of cash buys at the close plus 0.05% slippage, paying a 0.1% fee
+      const quantity = 9500 / (bars[1].close * 1.0005);
+      const finalEquity = 10000 - 9500 - 9.5 + quantity * 20;
+      expect(result.timestamps[0]).to.equal(bars[0].timestamp);
+      expect(result.metrics.totalReturn).to.be.closeTo(finalEquity / 10000 - 1, 1e-9);
+      expect(result.metrics.annualizedReturn).to.be.closeTo(Math.sqrt(finalEquity / 10000) - 1, 1e-9);
+    });
+  });
+
+  describe("AMM execution", function () {
+    // 100k of depth at 10: 5,000 AVAX against 50,000 USDT
+    const bars = dailyBars(Array(10).fill(10), { liquidity: 100000 });
+    const gasCost = 150000 * 25e-9 * 10;
+
+    it("Should fill along the constant-product curve after the LP fee and charge gas", async function () {
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, buyOnce));
+
+      const result = await engine.runBacktest(strategy({ slippageModel: "amm" }), config());
+
+      const [trade] = result.trades;
+      const quantity = (9500 * 5000) / (50000 + 9500);
+      expect(trade.amount).to.be.closeTo(quantity, 1e-9);
+      expect(trade.price).to.be.closeTo(9500 / quantity, 1e-9);
+      expect(trade.metadata!.slippage).to.be.closeTo(9500 / quantity / 10 - 1, 1e-9);
+      expect(trade.metadata!.fees).to.be.closeTo((9500 / 0.997) * 0.003, 1e-9);
+      expect(trade.metadata!.gasCost).to.be.closeTo(gasCost, 1e-12);
+    });
+
+    it("Should show less price impact in a deeper pool", async function () {
+      const deepBars = dailyBars(Array(10).fill(10), { liquidity: 10000000 });
+      const shallow = await new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, buyOnce))
+        .runBacktest(strategy({ slippageModel: "amm" }), config());
+      const deep = await new BacktestEngine(fixtureSource({ "AVAX/USDT": deepBars }, buyOnce))
+        .runBacktest(strategy({ slippageModel: "amm" }), config());
+
+      expect(deep.trades[0].metadata!.slippage).to.be.closeTo(9500 / 5000000, 1e-4);
+      expect(deep.trades[0].metadata!.slippage).to.be.lt(shallow.trades[0].metadata!.slippage! / 10);
+    });
+
+    it("Should attribute price impact apart from LP fees and gas", async function () {
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, buyOnce));
+
+      const result = await engine.runBacktest(strategy({ slippageModel: "amm" }), config());
+
+      const [trade] = result.trades;
+      const attribution = result.performanceAttribution;
+      expect(attribution.slippageImpact).to.be.closeTo(trade.metadata!.slippage! * trade.amount * 10, 1e-9);
+      expect(attribution.feeImpact).to.be.closeTo(trade.metadata!.fees!, 1e-12);
+      expect(attribution.gasImpact).to.be.closeTo(gasCost, 1e-12);
+    });
+  });
+
+  describe("Multi-asset portfolios", function () {
+    const avax = dailyBars(Array.from({ length: 30 }, (_, i) => 20 + i * 0.2));
+    // JOE starts trading on the third day and only reports every other day
+    const joe = dailyBars(Array.from({ length: 30 }, (_, i) => 0.5 + i * 0.01)).filter((_, i) => i >= 2 && i % 2 === 0);
+    const series = { "AVAX/USDT": avax, "JOE/USDT": joe };
+
+    it("Should align every series on the first symbol's bars once all have traded", async function () {
+      const engine = new BacktestEngine(fixtureSource(series, () => null));
+
+      const result = await engine.runBacktest(strategy(), config(["AVAX/USDT", "JOE/USDT"]));
+
+      expect(result.timestamps).to.deep.equal(avax.slice(2).map(bar => bar.timestamp));
+    });
+
+    it("Should draw every asset's trades on the same cash", async function () {
+      const engine = new BacktestEngine(fixtureSource(series, buyOnce));
+
+      const result = await engine.runBacktest(strategy(), config(["AVAX/USDT", "JOE/USDT"]));
+
+      // AVAX takes 95% of the cash; JOE gets 95% of what is left after its fee
+      const [avaxBuy, joeBuy] = result.trades;
+      expect(avaxBuy.symbol).to.equal("AVAX/USDT");
+      expect(avaxBuy.amount * avaxBuy.price).to.be.closeTo(9500, 1e-9);
+      expect(joeBuy.symbol).to.equal("JOE/USDT");
+      expect(joeBuy.amount * joeBuy.price).to.be.closeTo((10000 - 9500 - 9.5) * 0.95, 1e-9);
+    });
+
+    it("Should attribute trades and realized PnL per asset", async function () {
+      const engine = new BacktestEngine(fixtureSource(series, followNextClose));
+
+      const result = await engine.runBacktest(strategy(), config(["AVAX/USDT", "JOE/USDT"]));
+
+      const { byAsset } = result.performanceAttribution;
+      expect(Object.keys(byAsset)).to.deep.equal(["AVAX/USDT", "JOE/USDT"]);
+      for (const [symbol, attribution] of Object.entries(byAsset)) {
+        const trades = result.trades.filter(trade => trade.symbol === symbol);
+        expect(attribution.trades).to.equal(trades.length);
+        expect(attribution.realizedPnl).to.be.closeTo(trades.reduce((sum, trade) => sum + trade.pnl, 0), 1e-9);
+      }
+      expect(byAsset["AVAX/USDT"].trades + byAsset["JOE/USDT"].trades).to.equal(result.trades.length);
+    });
+
+    it("Should rebalance towards targets capped at the maximum position size", async function () {
+      const engine = new BacktestEngine(fixtureSource(series, buyOnce));
+      const rebalancing = { ...strategy({ rebalanceFrequency: 7 }), riskParams: { ...strategy().riskParams, maxPositionSize: 0.4 } };
+
+      const result = await engine.runBacktest(rebalancing, config(["AVAX/USDT", "JOE/USDT"]));
+
+      const rebalances = result.trades.filter(trade => trade.id.endsWith("_rebalance"));
+      expect(rebalances.length).to.be.gt(0);
+      // A week passes between rebalances
+      const days = [...new Set(rebalances.map(trade => trade.timestamp))];
+      expect(days.every((day, i) => i === 0 || day - days[i - 1] >= 7 * DAY)).to.equal(true);
+      expect(rebalances.every(trade => trade.metadata!.targetPercentage! <= 40)).to.equal(true);
+    });
+  });
+
+  describe("runWalkForward", function () {
+    const bars = dailyBars(Array.from({ length: 120 }, (_, i) => 10 + i * 0.05 + Math.sin(i / 3)));
+    const walkForward = {
+      method: "walk_forward" as const,
+      folds: 3,
+      trainTestRatio: 2,
+      parameterGrid: { minConfidence: [0.6], stopLoss: [0.05] }
+    };
+
+    it("Should score each fold on the out-of-sample bars after its training window", async function () {
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, followNextClose));
+
+      const result = await engine.runWalkForward(strategy(), config(), walkForward);
+
+      // 24 test bars per fold after 48 training bars
+      const folds = result.walkForward!.folds;
+      expect(folds.map(fold => fold.testPeriod.start)).to.deep.equal([48, 72, 96].map(i => bars[i].timestamp));
+      expect(folds.map(fold => fold.trainPeriods[0].start)).to.deep.equal([0, 24, 48].map(i => bars[i].timestamp));
+      expect(folds.map(fold => fold.parameters)).to.deep.equal(Array(3).fill({ minConfidence: 0.6, stopLoss: 0.05 }));
+      expect(folds.every(fold => fold.outOfSampleTrades > 0)).to.equal(true);
+    });
+
+    it("Should annualize fold returns over each test segment", async function () {
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, followNextClose));
+
+      const result = await engine.runWalkForward(strategy(), config(), walkForward);
+
+      for (const fold of result.walkForward!.folds) {
+        const { totalReturn, annualizedReturn } = fold.outOfSampleMetrics;
+        const years = (fold.testPeriod.end - fold.testPeriod.start) / YEAR;
+        expect(totalReturn).to.be.gt(0);
+        expect(annualizedReturn).to.be.closeTo(Math.pow(1 + totalReturn, 1 / years) - 1, 1e-9);
+      }
+      expect(result.walkForward!.walkForwardEfficiency).to.be.gt(0);
+      expect(Number.isFinite(result.walkForward!.walkForwardEfficiency)).to.equal(true);
+    });
+
+    it("Should stitch the out-of-sample equity curves in time order", async function () {
+      const engine = new BacktestEngine(fixtureSource({ "AVAX/USDT": bars }, followNextClose));
+
+      const result = await engine.runWalkForward(strategy(), config(), walkForward);
+
+      expect(result.timestamps[0]).to.equal(bars[48].timestamp);
+      expect(result.timestamps[result.timestamps.length - 1]).to.equal(bars[119].timestamp);
+      expect(result.timestamps.every((timestamp, i) => i === 0 || timestamp > result.timestamps[i - 1])).to.equal(true);
+      expect(result.equity).to.have.length(result.timestamps.length);
+      expect(result.equity[0]).to.equal(10000);
+    });
+  });
+});
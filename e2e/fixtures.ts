@@ -0,0 +1,143 @@
+import type { LSTMFeature, LSTMModelData, QLearningModelData } from "../server/libs/aiSystem/types.ts";
+
+/**
+ * Deterministic chain and model state for the server sandbox.
+ * Token amounts and prices are whole-token decimal strings (18 decimals).
+ */
+
+export interface PoolFixture {
+  avax: string;
+  usdt: string;
+}
+
+export interface PredictionFixture {
+  /** Predicted AVAX price in USDT */
+  price: string;
+  confidence: number;
+  /** Seconds until the prediction expires; the oracle allows at most an hour */
+  validFor: number;
+}
+
+/** Hardhat's first default account, which deploys the sandbox and owns PriceOracle */
+export const DEPLOYER_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+/** 25 USDT per AVAX */
+export const POOL: PoolFixture = { avax: "1000", usdt: "25000" };
+
+export const PREDICTIONS = {
+  /** AVAX expected to fall, so selling AVAX for USDT passes the contract's check */
+  avaxFalling: { price: "20", confidence: 80, validFor: 1800 },
+  /** AVAX expected to rise, so only buying AVAX passes */
+  avaxRising: { price: "30", confidence: 80, validFor: 1800 },
+  /** Below the oracle's default 70% threshold */
+  lowConfidence: { price: "20", confidence: 50, validFor: 1800 }
+} satisfies Record<string, PredictionFixture>;
+
+/** Inputs of the fixture LSTM: two raw fields and two indicators with different warmups */
+export const LSTM_FEATURES: LSTMFeature[] = ["price", "volume", "sma7", "momentum"];
+
+/**
+ * An LSTM whose weights are all zero, so its normalized output is zero and it
+ * predicts the price scaler's median, `price`, for any input and at every
+ * horizon. Small layers keep the fixture cheap to load.
+ */
+export function constantLSTMModel(
+  price: number,
+  features: LSTMFeature[] = LSTM_FEATURES,
+  lstmUnits: [number, number, number] = [4, 4, 4],
+  horizons: number[] = [1]
+): LSTMModelData {
+  const shapes: Array<{ name: string; shape: number[] }> = [];
+  let inputSize = features.length;
+  lstmUnits.forEach((units, i) => {
+    shapes.push(
+      { name: `lstm_${i + 1}/kernel`, shape: [inputSize, 4 * units] },
+      { name: `lstm_${i + 1}/recurrent_kernel`, shape: [units, 4 * units] },
+      { name: `lstm_${i + 1}/bias`, shape: [4 * units] }
+    );
+    inputSize = units;
+  });
+  shapes.push(
+    { name: "dense_1/kernel", shape: [inputSize, 16] },
+    { name: "dense_1/bias", shape: [16] },
+    { name: "dense_2/kernel", shape: [16, horizons.length] },
+    { name: "dense_2/bias", shape: [horizons.length] }
+  );
+
+  const weights = shapes.map(({ shape }) => new Array<number>(shape.reduce((size, dim) => size * dim, 1)).fill(0));
+  const scalers = Object.fromEntries(features.map(feature => [feature, { median: 0, mad: 1 }]));
+
+  return {
+    layers: shapes,
+    weights,
+    scalers: { ...scalers, price: { median: price, mad: 1 } },
+    config: { lstmUnits, features, horizons }
+  };
+}
+
+/**
+ * A constant LSTM with one output head per horizon, each predicting that
+ * horizon's price through its bias
+ */
+export function termStructureLSTMModel(prices: Record<number, number>): LSTMModelData {
+  const horizons = Object.keys(prices).map(Number).sort((a, b) => a - b);
+  const nearest = prices[horizons[0]];
+  const model = constantLSTMModel(nearest, LSTM_FEATURES, [4, 4, 4], horizons);
+  // The price scaler's MAD is 1, so each bias is the head's offset from the nearest price
+  model.weights[model.weights.length - 1] = horizons.map(horizon => prices[horizon] - nearest);
+  return model;
+}
+
+/** An empty Q-table, so the agent always holds and predicts no change */
+export const IDLE_QLEARNING_MODEL: QLearningModelData = { qTable: {}, parameters: {} };
+
+/** A price-pattern policy that has only learned to buy a calm, overbought uptrend from a balanced portfolio */
+export const MOMENTUM_QLEARNING_MODEL: QLearningModelData = {
+  // Q-values in HOLD, BUY, SELL order
+  qTable: { overbought_calm_up_balanced: [0, 1, 0] },
+  parameters: {}
+};
+
+/** A policy that prefers buying into a calm, overbought uptrend from a balanced portfolio */
+export const TREND_FOLLOWING_QLEARNING_MODEL: QLearningModelData = {
+  // Q-values in HOLD, BUY, SELL order
+  qTable: { overbought_calm_up_balanced: [0.1, 0.6, -0.2] },
+  parameters: {}
+};
+
+/** Closing prices of a calm, steady uptrend ending at UPTREND_FEATURES.price */
+export const UPTREND_PRICES = Array.from({ length: 30 }, (_, i) => 24.1 + 0.1 * i);
+
+/** Indicators for a calm uptrend, in the shape older POST /api/trade clients still send */
+export const UPTREND_FEATURES = {
+  price: 27,
+  sma7: 26,
+  sma14: 25.8,
+  sma30: 25.5,
+  ema10: 26.5,
+  ema30: 25.5,
+  volatility: 0.005,
+  momentum: 1.5,
+  volume: 1000,
+  priceChange: 0.01,
+  volumeChange: 0
+};
+
+/**
+ * Hourly candles moving `step` per bar from `start`, in the shape /api/predict expects
+ */
+export function marketHistory(length: number, start: number, step = 0) {
+  const firstTimestamp = Date.UTC(2024, 0, 1);
+  return Array.from({ length }, (_, i) => {
+    const price = start + step * i;
+    return {
+      timestamp: firstTimestamp + i * 3600_000,
+      price,
+      volume: 1000,
+      high: price,
+      low: price,
+      open: price,
+      close: price
+    };
+  });
+}
@@ -0,0 +1,294 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Contract } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { LSTMModelData, QLearningModelData } from "../server/libs/aiSystem/types.ts";
+import type { StreamingServer } from "../server/libs/streamingServer.ts";
+import { POOL, PREDICTIONS } from "./fixtures.ts";
+import type { PoolFixture, PredictionFixture } from "./fixtures.ts";
+
+export interface SandboxContracts {
+  router: Contract;
+  usdt: Contract;
+  wavax: Contract;
+  priceOracle: Contract;
+  trader: Contract;
+}
+
+export interface SandboxOptions {
+  pool?: PoolFixture;
+  prediction?: PredictionFixture;
+  /** Extra server environment, applied before the server modules load */
+  env?: Record<string, string>;
+}
+
+export interface SandboxResponse<T> {
+  status: number;
+  body: T;
+}
+
+type JsonRpcRequest = { jsonrpc: "2.0"; id: number | string | null; method: string; params?: unknown[] };
+
+/**
+ * End-to-end harness for the backend: Hardhat's in-process network with the
+ * contracts deployed on mocks, served over HTTP so Web3Server talks to it like
+ * any RPC node, and the Express app listening on an ephemeral port.
+ * The deployer is the oracle's only reporter, so with the default quorum of
+ * one each of its submissions publishes a prediction.
+ *
+ * Server modules hold configuration in singletons, so a process gets one
+ * sandbox. Tests isolate chain state with snapshot() and revert(). The
+ * server's SQLite database lives in a fresh temporary directory, so it
+ * outlasts a reopened order book but not the sandbox.
+ */
+export class ChainSandbox {
+  private streamingServer: StreamingServer | null = null;
+
+  private constructor(
+    readonly hre: HardhatRuntimeEnvironment,
+    readonly contracts: SandboxContracts,
+    readonly rpcUrl: string,
+    readonly baseUrl: string,
+    private readonly servers: http.Server[]
+  ) {}
+
+  static async start(hre: HardhatRuntimeEnvironment, options: SandboxOptions = {}): Promise<ChainSandbox> {
+    const rpcServer = await listen(createRpcBridge(hre));
+    const rpcUrl = serverUrl(rpcServer);
+
+    const contracts = await deployContracts(hre, options.pool ?? POOL);
+
+    Object.assign(process.env, {
+      NODE_ENV: "test",
+      LOG_LEVEL: "error",
+      LOG_DIR: path.join(os.tmpdir(), "ai-trader-sandbox-logs"),
+      DATABASE_URL: `sqlite:${path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ai-trader-sandbox-")), "trader.db")}`,
+      AVALANCHE_RPC_URL: rpcUrl,
+      VITE_AI_POWERED_TRADER_ADDRESS: await contracts.trader.getAddress(),
+      VITE_PRICE_ORACLE_ADDRESS: await contracts.priceOracle.getAddress(),
+      EXECUTION_MODE: "live",
+      INDEXER_ENABLED: "false",
+      ...options.env
+    });
+
+    const { createApp } = await import("../server/app");
+    const apiServer = await listen(createApp());
+
+    const sandbox = new ChainSandbox(hre, contracts, rpcUrl, serverUrl(apiServer), [apiServer, rpcServer]);
+    await sandbox.setPrediction(options.prediction ?? PREDICTIONS.avaxFalling);
+    return sandbox;
+  }
+
+  /**
+   * Publish an AVAX/USDT prediction on the oracle, expiring relative to chain time
+   */
+  async setPrediction(fixture: PredictionFixture): Promise<void> {
+    const { ethers } = this.hre;
+    const { priceOracle, wavax, usdt } = this.contracts;
+    const latest = await ethers.provider.getBlock("latest");
+    await priceOracle.submitPrediction(
+      await wavax.getAddress(),
+      await usdt.getAddress(),
+      ethers.parseEther(fixture.price),
+      fixture.confidence,
+      latest!.timestamp + fixture.validFor
+    );
+  }
+
+  /**
+   * Reset the mock router's AVAX/USDT reserves and fund it to pay them out
+   */
+  async setReserves(pool: PoolFixture): Promise<void> {
+    await setReserves(this.hre, this.contracts, pool);
+  }
+
+  /**
+   * Serve /api/predict from fixture models instead of training on market data
+   */
+  async restoreModels(
+    models: { lstm: LSTMModelData; qlearning: QLearningModelData },
+    trainingDate?: string
+  ): Promise<void> {
+    const { AISystem } = await import("../server/libs/aiSystem");
+    AISystem.getInstance().restoreModels(models, "sandbox", trainingDate);
+  }
+
+  /**
+   * Evaluate conditional orders on prices sent with pushPrice() instead of the Binance stream
+   */
+  async startOrderBook(): Promise<void> {
+    const { StreamingServer } = await import("../server/libs/streamingServer");
+    const { OrderManager } = await import("../server/libs/orderManager");
+    this.streamingServer = new StreamingServer({ enablePriceStream: false, enableSubgraphStream: false });
+    OrderManager.getInstance().start(this.streamingServer);
+  }
+
+  /**
+   * Stream an AVAX/USDT trade price to the order book
+   */
+  async pushPrice(price: number): Promise<void> {
+    const { StreamingEventType } = await import("../src/utils/streamingTypes");
+    const timestamp = Date.now();
+    this.streamingServer!.getStreamBus().emit(StreamingEventType.PRICE_UPDATE, {
+      type: StreamingEventType.PRICE_UPDATE,
+      timestamp,
+      source: "binance",
+      data: { timestamp, price, volume: 0, high: price, low: price, open: price, close: price, transactionCount: 1, liquidity: 0 }
+    });
+  }
+
+  /**
+   * Leave an order triggered in the database, as a crash between trigger and fill would
+   */
+  async interruptOrder(id: string): Promise<void> {
+    const { openSqliteDatabase } = await import("../server/utils/sqlite");
+    const db = openSqliteDatabase(process.env.DATABASE_URL!);
+    db.prepare("UPDATE conditional_orders SET status = 'triggered' WHERE id = ?").run(id);
+    db.close();
+  }
+
+  /**
+   * Reopen the order book from the database, as a server restart would
+   */
+  async restartOrderBook(): Promise<void> {
+    const { OrderManager } = await import("../server/libs/orderManager");
+    OrderManager.getInstance().stop();
+    (OrderManager as unknown as { instance?: unknown }).instance = undefined;
+    OrderManager.getInstance().start(this.streamingServer!);
+  }
+
+  async snapshot(): Promise<string> {
+    return this.hre.network.provider.send("evm_snapshot", []);
+  }
+
+  async revert(snapshotId: string): Promise<void> {
+    await this.hre.network.provider.send("evm_revert", [snapshotId]);
+  }
+
+  async get<T>(route: string, headers: Record<string, string> = {}): Promise<SandboxResponse<T>> {
+    return this.request<T>(route, { headers });
+  }
+
+  async post<T>(route: string, body: unknown, headers: Record<string, string> = {}): Promise<SandboxResponse<T>> {
+    return this.request<T>(route, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async put<T>(route: string, body: unknown, headers: Record<string, string> = {}): Promise<SandboxResponse<T>> {
+    return this.request<T>(route, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async delete<T>(route: string, headers: Record<string, string> = {}): Promise<SandboxResponse<T>> {
+    return this.request<T>(route, { method: "DELETE", headers });
+  }
+
+  private async request<T>(route: string, init?: RequestInit): Promise<SandboxResponse<T>> {
+    const response = await fetch(`${this.baseUrl}${route}`, init);
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.servers.map(server => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })));
+  }
+}
+
+async function deployContracts(hre: HardhatRuntimeEnvironment, pool: PoolFixture): Promise<SandboxContracts> {
+  const { ethers } = hre;
+
+  const TokenFactory = await ethers.getContractFactory("MockERC20");
+  const usdt = await TokenFactory.deploy("Tether USD", "USDT");
+  const wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+
+  const RouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+  const router = await RouterFactory.deploy(await wavax.getAddress());
+  await router.setLiquidAVAXSwaps(true);
+
+  const PriceOracleFactory = await ethers.getContractFactory("PriceOracle");
+  const priceOracle = await PriceOracleFactory.deploy();
+  const [deployer] = await ethers.getSigners();
+  await priceOracle.setReporter(deployer.address, true);
+  const TraderFactory = await ethers.getContractFactory("AIPoweredTrader");
+  const trader = await TraderFactory.deploy(await router.getAddress(), await priceOracle.getAddress());
+
+  const contracts = { router, usdt, wavax, priceOracle, trader };
+  await setReserves(hre, contracts, pool);
+  return contracts;
+}
+
+async function setReserves(hre: HardhatRuntimeEnvironment, contracts: SandboxContracts, pool: PoolFixture): Promise<void> {
+  const { ethers } = hre;
+  const { router, usdt, wavax } = contracts;
+  const routerAddress = await router.getAddress();
+  const avaxReserve = ethers.parseEther(pool.avax);
+  const usdtReserve = ethers.parseEther(pool.usdt);
+
+  await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), avaxReserve, usdtReserve);
+  await hre.network.provider.send("hardhat_setBalance", [routerAddress, ethers.toQuantity(avaxReserve)]);
+  const held: bigint = await usdt.balanceOf(routerAddress);
+  if (held < usdtReserve) {
+    await usdt.mint(routerAddress, usdtReserve - held);
+  }
+}
+
+/**
+ * Minimal JSON-RPC over HTTP in front of Hardhat's in-process provider.
+ * Provider errors are passed through with their code and revert data so
+ * web3 decodes them as it would from a node.
+ */
+function createRpcBridge(hre: HardhatRuntimeEnvironment): http.Server {
+  const handle = async (request: JsonRpcRequest) => {
+    try {
+      const result = await hre.network.provider.request({ method: request.method, params: request.params ?? [] });
+      return { jsonrpc: "2.0", id: request.id, result };
+    } catch (error) {
+      const { code, message, data } = error as { code?: number; message?: string; data?: unknown };
+      return { jsonrpc: "2.0", id: request.id, error: { code: code ?? -32603, message: message ?? String(error), data } };
+    }
+  };
+
+  return http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", async () => {
+      let payload: JsonRpcRequest | JsonRpcRequest[];
+      try {
+        payload = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }));
+        return;
+      }
+
+      const response = Array.isArray(payload)
+        ? await Promise.all(payload.map(handle))
+        : await handle(payload);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response, (_, value) => (typeof value === "bigint" ? `0x${value.toString(16)}` : value)));
+    });
+  });
+}
+
+function listen(app: http.RequestListener | http.Server): Promise<http.Server> {
+  const server = app instanceof http.Server ? app : http.createServer(app);
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+}
+
+function serverUrl(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
@@ -0,0 +1,944 @@
+import { expect } from "chai";
+import hre from 'hardhat';
+const { ethers } = hre;
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+import { ChainSandbox } from "./sandbox.ts";
+import {
+  DEPLOYER_PRIVATE_KEY,
+  IDLE_QLEARNING_MODEL,
+  MOMENTUM_QLEARNING_MODEL,
+  PREDICTIONS,
+  TREND_FOLLOWING_QLEARNING_MODEL,
+  UPTREND_FEATURES,
+  UPTREND_PRICES,
+  constantLSTMModel,
+  marketHistory,
+  termStructureLSTMModel
+} from "./fixtures.ts";
+
+const AVAX_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ADMIN_API_KEY = "sandbox-admin-key";
+
+interface TradeResponse {
+  txHash?: string;
+  mode?: "live" | "paper";
+  simulation?: { amountOut: string; spotPrice: number; priceImpact: number };
+  error?: string;
+  message?: string;
+}
+
+interface BalancesResponse {
+  account: string;
+  avaxBalance: string;
+  tokenBalances: Record<string, string>;
+}
+
+interface ModeResponse {
+  mode?: "live" | "paper";
+  message?: string;
+}
+
+interface DecisionResponse {
+  action: "BUY" | "SELL" | "HOLD";
+  confidence: number;
+  qValues: { BUY: number; SELL: number; HOLD: number };
+  state: string;
+  message?: string;
+}
+
+interface PredictResponse {
+  price: number;
+  confidence: number;
+  interval?: { p10: number; p50: number; p90: number };
+  horizons?: Array<{ horizon: number; price: number; confidence: number }>;
+  error?: string;
+  message?: string;
+}
+
+interface MetricsResponse {
+  metrics: { aiModel: { accuracyByHorizon: Record<string, number[]> } };
+}
+
+interface ValidationResponse {
+  details: Array<{ path: Array<string | number>; message: string }>;
+}
+
+interface SignalReplayResponse {
+  data: { trainedAt: number; signals: Array<{ index: number; inSample: boolean }> };
+  message?: string;
+}
+
+interface TradingHistoryResponse {
+  data: {
+    trades: Array<{ type: string; asset: string; amount: number; price: number; value: number; profit: number; txHash: string | null }>;
+  };
+}
+
+interface HoldingsResponse {
+  data: { holdings: Record<string, { amount: number; avgPrice: number; lastPrice: number }> };
+}
+
+interface PortfolioMetricsResponse {
+  data: {
+    portfolioMetrics: {
+      totalValue: number;
+      totalReturn: number;
+      sharpeRatio: number;
+      maxDrawdown: number;
+      winRate: number;
+      profitFactor: number;
+      holdings: Record<string, { amount: number; value: number }>;
+    };
+    riskMetrics: { var: number; cvar: number };
+    aiPerformanceMetrics: {
+      signalCount: number;
+      averageConfidence: number;
+      signalEffectiveness: number;
+      confidenceCorrelation: number;
+    };
+  };
+}
+
+interface ConditionalOrderBody {
+  id: string;
+  side: "buy" | "sell";
+  status: "pending" | "triggered" | "filled" | "cancelled" | "failed";
+  referencePrice: number | null;
+  triggeredPrice: number | null;
+  ocoGroupId: string | null;
+  error: string | null;
+}
+
+interface OrderResponse {
+  data: ConditionalOrderBody;
+}
+
+interface OrdersResponse {
+  data: ConditionalOrderBody[];
+  error?: string;
+  message?: string;
+}
+
+interface PublishResponse {
+  txHash?: string;
+  published?: boolean;
+  price: number;
+  confidence: number;
+  error?: string;
+  message?: string;
+}
+
+describe("Server end to end", function () {
+  let sandbox: ChainSandbox;
+  let user: SignerWithAddress;
+  let usdtAddress: string;
+  let snapshotId: string;
+
+  const units = (amount: string) => ethers.parseEther(amount);
+
+  const trade = (fromToken: string, toToken: string, amount: bigint, extra: Record<string, unknown> = {}) =>
+    sandbox.post<TradeResponse>("/api/blockchain/trade", {
+      fromToken,
+      toToken,
+      amount: amount.toString(),
+      userAddress: user.address,
+      ...extra
+    });
+
+  const balances = (account: string) =>
+    sandbox.get<BalancesResponse>(`/api/blockchain/balances?account=${account}&tokens=${usdtAddress}`);
+
+  before(async function () {
+    [, user] = await ethers.getSigners();
+    sandbox = await ChainSandbox.start(hre, {
+      env: { PRIVATE_KEY: DEPLOYER_PRIVATE_KEY, ADMIN_API_KEY }
+    });
+    usdtAddress = await sandbox.contracts.usdt.getAddress();
+  });
+
+  after(async function () {
+    await sandbox?.stop();
+  });
+
+  beforeEach(async function () {
+    snapshotId = await sandbox.snapshot();
+  });
+
+  afterEach(async function () {
+    await sandbox.revert(snapshotId);
+  });
+
+  describe("POST /api/blockchain/trade", function () {
+    it("Should execute an AVAX to USDT trade through AIPoweredTrader", async function () {
+      const { router, wavax } = sandbox.contracts;
+      const [, expectedOut] = await router.getAmountsOut(units("1"), [await wavax.getAddress(), usdtAddress]);
+      const avaxBefore = await ethers.provider.getBalance(user.address);
+
+      const { status, body } = await trade(AVAX_ADDRESS, usdtAddress, units("1"));
+
+      expect(status).to.equal(200);
+      expect(body.mode).to.equal("live");
+      const receipt = await ethers.provider.getTransactionReceipt(body.txHash!);
+      expect(receipt!.status).to.equal(1);
+      expect(receipt!.to).to.equal(await sandbox.contracts.trader.getAddress());
+
+      const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+      expect(await ethers.provider.getBalance(user.address)).to.equal(avaxBefore - units("1") - gasCost);
+      expect(await sandbox.contracts.usdt.balanceOf(user.address)).to.equal(expectedOut);
+    });
+
+    it("Should reject trades when the oracle prediction is below the confidence threshold", async function () {
+      await sandbox.setPrediction(PREDICTIONS.lowConfidence);
+      const blockBefore = await ethers.provider.getBlockNumber();
+
+      const { status, body } = await trade(AVAX_ADDRESS, usdtAddress, units("1"));
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("AI prediction validation failed");
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    });
+
+    it("Should fill paper trades against the simulated pool without touching the chain", async function () {
+      const blockBefore = await ethers.provider.getBlockNumber();
+
+      const { status, body } = await trade(AVAX_ADDRESS, usdtAddress, units("1"), { mode: "paper" });
+
+      expect(status).to.equal(200);
+      expect(body.mode).to.equal("paper");
+      expect(BigInt(body.simulation!.amountOut)).to.be.gt(0n);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+      expect(await sandbox.contracts.usdt.balanceOf(user.address)).to.equal(0n);
+    });
+
+    it("Should seed paper token pools at each token's AVAX price", async function () {
+      const { router, wavax } = sandbox.contracts;
+      const wavaxAddress = await wavax.getAddress();
+      const [, usdtInAvax] = await router.getAmountsOut(units("1"), [usdtAddress, wavaxAddress]);
+
+      const { status, body } = await trade(wavaxAddress, usdtAddress, units("1"), { mode: "paper" });
+
+      expect(status).to.equal(200);
+      // One WAVAX is one AVAX, so it starts at the USDT price of AVAX
+      expect(body.simulation!.spotPrice).to.be.closeTo(1 / Number(ethers.formatEther(usdtInAvax)), 1e-9);
+    });
+
+    it("Should seed paper pools in each token's own decimals", async function () {
+      const { PaperTradingEngine } = await import("../server/libs/paperTrading");
+      // A 6-decimal token worth 0.04 AVAX
+      const sixDecimalToken = "0x0000000000000000000000000000000000000006";
+
+      const quote = PaperTradingEngine.getInstance().quote(AVAX_ADDRESS, sixDecimalToken, units("0.001"), {
+        tokenIn: { avaxPrice: units("1"), decimals: 18 },
+        tokenOut: { avaxPrice: units("0.04"), decimals: 6 }
+      });
+
+      expect(quote.spotPrice).to.be.closeTo(25, 1e-9);
+      expect(Number(quote.amountOut) / 1e6).to.be.closeTo(0.001 * 25 * 0.997, 1e-4);
+    });
+
+    it("Should reject paper trades against the AI direction like the contract does", async function () {
+      await sandbox.setPrediction(PREDICTIONS.avaxRising);
+
+      const { status, body } = await trade(AVAX_ADDRESS, usdtAddress, units("1"), { mode: "paper" });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.match(/against the AI direction/);
+    });
+
+    it("Should validate the request before reaching the chain", async function () {
+      const { status, body } = await trade(AVAX_ADDRESS, usdtAddress, units("1"), { userAddress: "0x1234" });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("userAddress must be a valid address");
+    });
+  });
+
+  describe("GET /api/blockchain/balances", function () {
+    it("Should report AVAX and token balances from the sandbox chain", async function () {
+      await sandbox.contracts.usdt.mint(user.address, units("12.5"));
+
+      const { status, body } = await balances(user.address);
+
+      expect(status).to.equal(200);
+      expect(units(body.avaxBalance)).to.equal(await ethers.provider.getBalance(user.address));
+      expect(units(body.tokenBalances[usdtAddress])).to.equal(units("12.5"));
+    });
+
+    it("Should reflect a trade made through the API", async function () {
+      const { router, wavax } = sandbox.contracts;
+      const [, expectedOut] = await router.getAmountsOut(units("2"), [await wavax.getAddress(), usdtAddress]);
+
+      await trade(AVAX_ADDRESS, usdtAddress, units("2"));
+      const { body } = await balances(user.address);
+
+      expect(units(body.tokenBalances[usdtAddress])).to.equal(expectedOut);
+    });
+
+    it("Should reject malformed token lists", async function () {
+      const { status } = await sandbox.get(`/api/blockchain/balances?account=${user.address}&tokens=usdt`);
+      expect(status).to.equal(400);
+    });
+  });
+
+  describe("GET /api/portfolio/metrics", function () {
+    const day = (date: string) => Date.parse(`${date}T12:00:00.000Z`);
+
+    before(async function () {
+      const run = { source: "backtest", asset: "AVAX", runId: "metrics-run" };
+      await sandbox.post("/api/portfolio/trades", {
+        trades: [
+          { ...run, timestamp: day("2024-03-01"), type: "BUY", amount: 10, price: 20, aiSignal: "BUY", confidence: 0.6 },
+          { ...run, timestamp: day("2024-03-02"), type: "SELL", amount: 5, price: 24, aiSignal: "SELL", confidence: 0.9 },
+          { ...run, timestamp: day("2024-03-03"), type: "SELL", amount: 2, price: 18, aiSignal: "SELL", confidence: 0.5 }
+        ]
+      });
+    });
+
+    it("Should derive portfolio and risk metrics from the ledger", async function () {
+      const { status, body } = await sandbox.get<PortfolioMetricsResponse>(
+        "/api/portfolio/metrics?source=backtest&runId=metrics-run"
+      );
+
+      expect(status).to.equal(200);
+      const { portfolioMetrics, riskMetrics } = body.data;
+      expect(portfolioMetrics.holdings.AVAX.amount).to.equal(3);
+      expect(portfolioMetrics.totalValue).to.equal(54);
+      expect(portfolioMetrics.totalReturn).to.be.closeTo(5, 1e-9);
+      expect(portfolioMetrics.winRate).to.be.closeTo(1 / 3, 1e-9);
+      expect(portfolioMetrics.profitFactor).to.be.closeTo(5, 1e-9);
+      expect(portfolioMetrics.maxDrawdown).to.be.closeTo(0.125, 1e-9);
+      expect(riskMetrics.var).to.be.closeTo(0.25, 1e-9);
+    });
+
+    it("Should score the AI signals the trades carried", async function () {
+      const { body } = await sandbox.get<PortfolioMetricsResponse>(
+        "/api/portfolio/metrics?source=backtest&runId=metrics-run"
+      );
+
+      const { aiPerformanceMetrics } = body.data;
+      expect(aiPerformanceMetrics.signalCount).to.equal(3);
+      expect(aiPerformanceMetrics.averageConfidence).to.be.closeTo(2 / 3, 1e-9);
+      expect(aiPerformanceMetrics.signalEffectiveness).to.be.closeTo(1 / 3, 1e-9);
+      expect(aiPerformanceMetrics.confidenceCorrelation).to.be.gt(0.9);
+    });
+
+    it("Should record a token swap as a sale and a purchase priced in AVAX", async function () {
+      const { router, trader, usdt, wavax } = sandbox.contracts;
+      const wavaxAddress = await wavax.getAddress();
+      await wavax.mint(user.address, units("2"));
+      await wavax.connect(user).getFunction("approve")(await trader.getAddress(), units("2"));
+
+      const { status, body } = await trade(wavaxAddress, usdtAddress, units("2"));
+      expect(status).to.equal(200);
+
+      const history = await sandbox.get<TradingHistoryResponse>(`/api/portfolio/trading-history?source=live&user=${user.address}`);
+      const legs = history.body.data.trades.filter(ledgerTrade => ledgerTrade.txHash === body.txHash);
+      const sale = legs.find(ledgerTrade => ledgerTrade.type === "SELL")!;
+      const purchase = legs.find(ledgerTrade => ledgerTrade.type === "BUY")!;
+      expect(legs).to.have.length(2);
+
+      // WAVAX is worth one AVAX, and the USDT bought is worth what was sold
+      const usdtBought = Number(ethers.formatEther(await usdt.balanceOf(user.address)));
+      expect(sale.asset).to.equal(wavaxAddress);
+      expect(sale.amount).to.equal(2);
+      expect(sale.price).to.equal(1);
+      expect(purchase.asset).to.equal(usdtAddress);
+      expect(purchase.amount).to.be.closeTo(usdtBought, 1e-12);
+      expect(purchase.price).to.be.closeTo(2 / usdtBought, 1e-12);
+      expect(purchase.value).to.be.closeTo(sale.value, 1e-9);
+    });
+
+    it("Should keep each user's cost basis apart", async function () {
+      const run = { source: "backtest", asset: "AVAX", runId: "users-run" };
+      await sandbox.post("/api/portfolio/trades", {
+        trades: [
+          { ...run, userAddress: "0x00000000000000000000000000000000000000a1", timestamp: day("2024-04-01"), type: "BUY", amount: 10, price: 20 },
+          { ...run, userAddress: "0x00000000000000000000000000000000000000b2", timestamp: day("2024-04-02"), type: "BUY", amount: 10, price: 30 },
+          { ...run, userAddress: "0x00000000000000000000000000000000000000a1", timestamp: day("2024-04-03"), type: "SELL", amount: 10, price: 25 }
+        ]
+      });
+
+      const history = await sandbox.get<TradingHistoryResponse>("/api/portfolio/trading-history?source=backtest&runId=users-run");
+      const sale = history.body.data.trades.find(ledgerTrade => ledgerTrade.type === "SELL")!;
+      expect(sale.profit).to.be.closeTo(50, 1e-9);
+
+      const holdings = await sandbox.get<HoldingsResponse>("/api/portfolio/holdings?source=backtest&runId=users-run");
+      expect(holdings.body.data.holdings.AVAX.amount).to.equal(10);
+      expect(holdings.body.data.holdings.AVAX.avgPrice).to.equal(30);
+      expect(holdings.body.data.holdings.AVAX.lastPrice).to.equal(25);
+    });
+
+    it("Should report an empty portfolio for a run with no trades", async function () {
+      const { body } = await sandbox.get<PortfolioMetricsResponse>(
+        "/api/portfolio/metrics?source=backtest&runId=missing-run"
+      );
+
+      expect(body.data.portfolioMetrics.totalValue).to.equal(0);
+      expect(body.data.portfolioMetrics.sharpeRatio).to.equal(0);
+      expect(body.data.aiPerformanceMetrics.signalCount).to.equal(0);
+    });
+  });
+
+  describe("PUT /api/blockchain/accounts/:address/mode", function () {
+    let executionModeMessage: (account: string, mode: "live" | "paper", timestamp: number) => string;
+
+    before(async function () {
+      // Loaded after the sandbox has configured the server's environment
+      ({ executionModeMessage } = await import("../server/libs/web3Server"));
+    });
+
+    const setMode = async (mode: "live" | "paper", timestamp: number, signer: SignerWithAddress = user) =>
+      sandbox.put<ModeResponse>(`/api/blockchain/accounts/${user.address}/mode`, {
+        mode,
+        timestamp,
+        signature: await signer.signMessage(executionModeMessage(user.address, mode, timestamp))
+      });
+
+    it("Should switch the mode when the account signs the request", async function () {
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      const { status, body } = await setMode("paper", timestamp);
+      await setMode("live", timestamp + 1);
+
+      expect(status).to.equal(200);
+      expect(body.mode).to.equal("paper");
+    });
+
+    it("Should reject unsigned requests", async function () {
+      const { status } = await sandbox.put(`/api/blockchain/accounts/${user.address}/mode`, { mode: "paper" });
+      expect(status).to.equal(400);
+    });
+
+    it("Should reject signatures from another account", async function () {
+      const [deployer] = await ethers.getSigners();
+
+      const { status, body } = await setMode("paper", Math.floor(Date.now() / 1000) + 10, deployer);
+
+      expect(status).to.equal(401);
+      expect(body.message).to.equal("Signature was not made by the account");
+    });
+
+    it("Should reject a replayed signature", async function () {
+      const timestamp = Math.floor(Date.now() / 1000) + 20;
+      await setMode("live", timestamp);
+
+      const { status, body } = await setMode("live", timestamp);
+
+      expect(status).to.equal(401);
+      expect(body.message).to.equal("Signature has already been used");
+    });
+  });
+
+  describe("POST /api/predict", function () {
+    before(async function () {
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: IDLE_QLEARNING_MODEL });
+    });
+
+    it("Should blend the fixture models' predictions", async function () {
+      const { status, body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25)
+      });
+
+      // 70% LSTM at 26, 30% Q-learning holding at 25
+      expect(status).to.equal(200);
+      expect(body.price).to.be.closeTo(25.7, 1e-6);
+      // The LSTM's zero-width band says nothing about its spread
+      expect(body.confidence).to.equal(0);
+    });
+
+    it("Should return the LSTM's own prediction interval", async function () {
+      const { body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25)
+      });
+
+      // Every dropout sample of the zero-weight LSTM is 26, so the band collapses onto its median
+      expect(body.interval!.p10).to.be.closeTo(26, 1e-6);
+      expect(body.interval!.p50).to.be.closeTo(26, 1e-6);
+      expect(body.interval!.p90).to.be.closeTo(26, 1e-6);
+    });
+
+    it("Should give the same answer for the same history", async function () {
+      const request = { recentData: marketHistory(73, 25, 0.1) };
+      const first = await sandbox.post<PredictResponse>("/api/predict", request);
+      const second = await sandbox.post<PredictResponse>("/api/predict", request);
+
+      expect(second.body.price).to.equal(first.body.price);
+      expect(second.body.confidence).to.equal(first.body.confidence);
+    });
+
+    it("Should require enough history to compute the model's indicators", async function () {
+      // A 60-bar window plus momentum's 13-bar warmup
+      const { status, body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(72, 25)
+      });
+
+      expect(status).to.equal(400);
+      expect(body.error).to.equal("Insufficient data");
+      expect(body.message).to.equal("At least 73 data points are required for prediction");
+    });
+
+    it("Should accept bars that already carry the model's indicators", async function () {
+      const recentData = marketHistory(60, 25).map(bar => ({ ...bar, sma7: 25, momentum: 0 }));
+
+      const { status, body } = await sandbox.post<PredictResponse>("/api/predict", { recentData });
+
+      expect(status).to.equal(200);
+      expect(body.price).to.be.closeTo(25.7, 1e-6);
+    });
+
+    it("Should look up the Q-learning policy by RSI, volatility, trend and position", async function () {
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: MOMENTUM_QLEARNING_MODEL });
+
+      // A steady climb to 32.2 is overbought, calm and trending up; the policy buys, expecting +2%
+      const { body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25, 0.1)
+      });
+
+      expect(body.price).to.be.closeTo(0.7 * 26 + 0.3 * 32.2 * 1.02, 1e-6);
+    });
+  });
+
+  describe("Multi-horizon forecasts", function () {
+    before(async function () {
+      await sandbox.restoreModels({
+        lstm: termStructureLSTMModel({ 1: 26, 4: 27, 24: 30 }),
+        qlearning: IDLE_QLEARNING_MODEL
+      });
+    });
+
+    it("Should forecast each requested horizon", async function () {
+      const { status, body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25),
+        horizons: [4, 24]
+      });
+
+      expect(status).to.equal(200);
+      expect(body.horizons!.map(forecast => forecast.horizon)).to.deep.equal([4, 24]);
+      expect(body.horizons![0].price).to.be.closeTo(27, 1e-6);
+      expect(body.horizons![1].price).to.be.closeTo(30, 1e-6);
+      // The headline forecast stays the blended next bar
+      expect(body.price).to.be.closeTo(25.7, 1e-6);
+    });
+
+    it("Should blend only the one-bar horizon with the Q-learning forecast", async function () {
+      const { body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25)
+      });
+
+      expect(body.horizons!.map(forecast => forecast.horizon)).to.deep.equal([1, 4, 24]);
+      expect(body.horizons![0].price).to.be.closeTo(25.7, 1e-6);
+      expect(body.horizons![2].price).to.be.closeTo(30, 1e-6);
+    });
+
+    it("Should reject horizons the model has no output head for", async function () {
+      const { status, body } = await sandbox.post<PredictResponse>("/api/predict", {
+        recentData: marketHistory(73, 25),
+        horizons: [12]
+      });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("Horizons must be among 1, 4, 24");
+    });
+
+    it("Should score each horizon's accuracy once its bar arrives", async function () {
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(73, 25), series: "AVAX/USDT" });
+      // A day later the price is still 25, so the 24-bar forecast of 30 was 20% off
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(97, 25), series: "AVAX/USDT" });
+
+      const { status, body } = await sandbox.get<MetricsResponse>("/api/admin/metrics/json", { "x-admin-api-key": ADMIN_API_KEY });
+
+      expect(status).to.equal(200);
+      const { accuracyByHorizon } = body.metrics.aiModel;
+      expect(accuracyByHorizon["1"].at(-1)).to.be.closeTo(1 - 0.7 / 25, 1e-6);
+      expect(accuracyByHorizon["4"].at(-1)).to.be.closeTo(1 - 2 / 25, 1e-6);
+      expect(accuracyByHorizon["24"].at(-1)).to.be.closeTo(0.8, 1e-6);
+    });
+
+    it("Should only score forecasts against the series they were made for", async function () {
+      const scored = async () => {
+        const { body } = await sandbox.get<MetricsResponse>("/api/admin/metrics/json", { "x-admin-api-key": ADMIN_API_KEY });
+        return body.metrics.aiModel.accuracyByHorizon["24"]?.length ?? 0;
+      };
+
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(73, 25), series: "JOE/USDT" });
+      const before = await scored();
+
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(97, 0.4), series: "BTC.b/USDT" });
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(97, 25) });
+      expect(await scored()).to.equal(before);
+
+      await sandbox.post<PredictResponse>("/api/predict", { recentData: marketHistory(97, 25), series: "JOE/USDT" });
+      expect(await scored()).to.equal(before + 1);
+    });
+  });
+
+  describe("POST /api/admin/oracle/prediction", function () {
+    const publish = (body: Record<string, unknown>, apiKey = ADMIN_API_KEY) =>
+      sandbox.post<PublishResponse>("/api/admin/oracle/prediction", body, { "x-admin-api-key": apiKey });
+
+    before(async function () {
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: IDLE_QLEARNING_MODEL });
+    });
+
+    it("Should publish the forecast with the confidence of its interval", async function () {
+      const { priceOracle, wavax } = sandbox.contracts;
+      // Expiry counts from the latest block, so start from a fresh one
+      await ethers.provider.send("evm_mine", []);
+
+      const { status, body } = await publish({
+        baseToken: AVAX_ADDRESS,
+        quoteToken: usdtAddress,
+        recentData: marketHistory(73, 25),
+        validFor: 600
+      });
+
+      expect(status).to.equal(200);
+      expect(body.published).to.equal(true);
+      // A zero-width band carries no confidence
+      expect(body.confidence).to.equal(0);
+      const receipt = await ethers.provider.getTransactionReceipt(body.txHash!);
+      const prediction = await priceOracle.getPrediction(await wavax.getAddress(), usdtAddress);
+      expect(prediction.price).to.equal(units("25.7"));
+      expect(prediction.confidence).to.equal(0n);
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      expect(Number(prediction.expiresAt) - block!.timestamp).to.be.closeTo(600, 5);
+    });
+
+    it("Should only submit from an authorized reporter", async function () {
+      const [deployer] = await ethers.getSigners();
+      await sandbox.contracts.priceOracle.setReporter(deployer.address, false);
+
+      const { status, body } = await publish({
+        baseToken: AVAX_ADDRESS,
+        quoteToken: usdtAddress,
+        recentData: marketHistory(73, 25)
+      });
+
+      expect(status).to.equal(500);
+      expect(body.message).to.equal(`Account ${deployer.address} is not a PriceOracle reporter`);
+    });
+
+    it("Should reject requests without the admin key", async function () {
+      const { status } = await publish({ baseToken: AVAX_ADDRESS, quoteToken: usdtAddress }, "wrong-key");
+      expect(status).to.equal(401);
+    });
+
+    it("Should validate the pair before predicting", async function () {
+      const { status, body } = await publish({ baseToken: "0x1234", quoteToken: usdtAddress });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("baseToken must be a valid address");
+    });
+  });
+
+  describe("POST /api/trade", function () {
+    before(async function () {
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: TREND_FOLLOWING_QLEARNING_MODEL });
+    });
+
+    it("Should return the policy's action with its Q-values", async function () {
+      const { status, body } = await sandbox.post<DecisionResponse>("/api/trade", {
+        prices: UPTREND_PRICES,
+        portfolioRatio: 0.5
+      });
+
+      expect(status).to.equal(200);
+      expect(body.action).to.equal("BUY");
+      expect(body.state).to.equal("overbought_calm_up_balanced");
+      expect(body.qValues).to.deep.equal({ HOLD: 0.1, BUY: 0.6, SELL: -0.2 });
+      // (0.6 - 0.1) / (0.6 - -0.2)
+      expect(body.confidence).to.be.closeTo(0.625, 1e-9);
+    });
+
+    it("Should hold with no confidence in states the policy has not learned", async function () {
+      const { body } = await sandbox.post<DecisionResponse>("/api/trade", {
+        prices: UPTREND_PRICES,
+        portfolioRatio: 0.9
+      });
+
+      expect(body.action).to.equal("HOLD");
+      expect(body.state).to.equal("overbought_calm_up_high_avax");
+      expect(body.confidence).to.equal(0);
+    });
+
+    it("Should ignore the features older clients send", async function () {
+      const { status, body } = await sandbox.post<DecisionResponse>("/api/trade", {
+        features: { ...UPTREND_FEATURES, momentum: undefined },
+        prices: UPTREND_PRICES,
+        portfolioRatio: 0.5
+      });
+
+      expect(status).to.equal(200);
+      expect(body.state).to.equal("overbought_calm_up_balanced");
+    });
+
+    it("Should require recent prices", async function () {
+      const { status, body } = await sandbox.post<DecisionResponse>("/api/trade", {
+        prices: [],
+        portfolioRatio: 0.5
+      });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("Prices must be a non-empty array of positive numbers");
+
+      const missing = await sandbox.post<DecisionResponse>("/api/trade", { features: UPTREND_FEATURES, portfolioRatio: 0.5 });
+      expect(missing.status).to.equal(400);
+    });
+  });
+
+  describe("POST /api/admin/optimizer/sweeps", function () {
+    const sweepRequest = (objectiveWeights: Record<string, number>) => ({
+      strategy: {
+        name: "sweep",
+        aiModel: "reinforcement",
+        riskParams: { maxPositionSize: 0.5, stopLoss: 0.05, takeProfit: 0.1, maxDrawdown: 0.2 },
+        tradingParams: { minConfidence: 0.6, rebalanceFrequency: 0, slippageModel: "fixed" }
+      },
+      startDate: "2024-01-01",
+      endDate: "2024-02-01",
+      sweep: { method: "grid", space: { stopLoss: { values: [0.05, 0.1] } }, objective: "custom", objectiveWeights }
+    });
+
+    it("Should only weight PortfolioMetrics fields in a custom objective", async function () {
+      const { status, body } = await sandbox.post<ValidationResponse>(
+        "/api/admin/optimizer/sweeps",
+        sweepRequest({ sharpeRatio: 1, sharpe: 1 }),
+        { "x-admin-api-key": ADMIN_API_KEY }
+      );
+
+      expect(status).to.equal(400);
+      expect(body.details.map(issue => issue.path.join("."))).to.deep.equal(["sweep.objectiveWeights.sharpe"]);
+    });
+  });
+
+  describe("POST /api/backtest/signals", function () {
+    // Hourly bars in Unix seconds from 2024-01-01
+    const firstBar = Date.UTC(2024, 0, 1) / 1000;
+    const bars = Array.from({ length: 40 }, (_, i) => ({ timestamp: firstBar + i * 3600, close: 25 + 0.1 * i }));
+
+    it("Should flag the bars up to the restored models' training date as in-sample", async function () {
+      const trainingDate = new Date((firstBar + 30 * 3600) * 1000).toISOString();
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: IDLE_QLEARNING_MODEL }, trainingDate);
+
+      const { status, body } = await sandbox.post<SignalReplayResponse>("/api/backtest/signals", { bars, model: "reinforcement" });
+
+      expect(status).to.equal(200);
+      expect(body.data.trainedAt).to.equal(firstBar + 30 * 3600);
+      expect(body.data.signals.length).to.be.gt(0);
+      for (const signal of body.data.signals) {
+        expect(signal.inSample).to.equal(signal.index <= 30);
+      }
+    });
+
+    it("Should refuse to replay live models with no known training date", async function () {
+      await sandbox.restoreModels({ lstm: constantLSTMModel(26), qlearning: IDLE_QLEARNING_MODEL });
+
+      const { status, body } = await sandbox.post<SignalReplayResponse>("/api/backtest/signals", { bars, model: "reinforcement" });
+
+      expect(status).to.equal(400);
+      expect(body.message).to.equal("Live models sandbox have no known training time and cannot be replayed");
+    });
+  });
+
+  describe("Conditional orders", function () {
+    const ORDER_STATES_AFTER_FILL = ["filled", "failed"];
+
+    before(async function () {
+      await sandbox.startOrderBook();
+    });
+
+    afterEach(async function () {
+      // Orders outlive the chain snapshot, so keep earlier ones from firing in later tests
+      const { body } = await sandbox.get<OrdersResponse>(`/api/orders?userAddress=${user.address}&status=pending`);
+      for (const order of body.data) {
+        await sandbox.delete(`/api/orders/${order.id}`);
+      }
+    });
+
+    const orderRequest = (order: Record<string, unknown>) => ({
+      userAddress: user.address,
+      fromToken: AVAX_ADDRESS,
+      toToken: usdtAddress,
+      amount: units("1").toString(),
+      mode: "paper",
+      ...order
+    });
+
+    const place = async (order: Record<string, unknown>) => {
+      const { status, body } = await sandbox.post<OrdersResponse>("/api/orders", orderRequest(order));
+      expect(status).to.equal(201);
+      return body.data[0];
+    };
+
+    const buying = () => ({ fromToken: usdtAddress, toToken: AVAX_ADDRESS });
+
+    const status = async (id: string) => (await sandbox.get<OrderResponse>(`/api/orders/${id}`)).body.data;
+
+    /** Wait for a triggered order's swap to settle */
+    const settled = async (id: string) => {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const order = await status(id);
+        if (ORDER_STATES_AFTER_FILL.includes(order.status)) return order;
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      throw new Error(`Order ${id} did not settle`);
+    };
+
+    it("Should fill a sell limit once the price rises to it", async function () {
+      const sell = await place({ type: "limit", triggerPrice: 22 });
+
+      await sandbox.pushPrice(21);
+      expect((await status(sell.id)).status).to.equal("pending");
+
+      await sandbox.pushPrice(22.5);
+      const filled = await settled(sell.id);
+      expect(filled.status).to.equal("filled");
+      expect(filled.triggeredPrice).to.equal(22.5);
+    });
+
+    it("Should fill a buy limit once the price falls to it", async function () {
+      await sandbox.setPrediction(PREDICTIONS.avaxRising);
+      const buy = await place({ type: "limit", triggerPrice: 18, ...buying() });
+
+      await sandbox.pushPrice(19);
+      expect((await status(buy.id)).status).to.equal("pending");
+
+      await sandbox.pushPrice(18);
+      expect((await settled(buy.id)).status).to.equal("filled");
+    });
+
+    it("Should fill a sell stop once the price falls to it", async function () {
+      const sell = await place({ type: "stop_loss", triggerPrice: 18 });
+
+      await sandbox.pushPrice(19);
+      expect((await status(sell.id)).status).to.equal("pending");
+
+      await sandbox.pushPrice(17.5);
+      expect((await settled(sell.id)).status).to.equal("filled");
+    });
+
+    it("Should fill a buy stop once the price rises to it", async function () {
+      await sandbox.setPrediction(PREDICTIONS.avaxRising);
+      const buy = await place({ type: "stop_loss", triggerPrice: 22, ...buying() });
+
+      await sandbox.pushPrice(21);
+      expect((await status(buy.id)).status).to.equal("pending");
+
+      await sandbox.pushPrice(22);
+      expect((await settled(buy.id)).status).to.equal("filled");
+    });
+
+    it("Should trail a sell stop under the highest price seen", async function () {
+      await sandbox.pushPrice(20);
+      const sell = await place({ type: "trailing_stop", trailingPercent: 10 });
+
+      await sandbox.pushPrice(25);
+      await sandbox.pushPrice(23);
+      const trailing = await status(sell.id);
+      expect(trailing.status).to.equal("pending");
+      expect(trailing.referencePrice).to.equal(25);
+
+      await sandbox.pushPrice(22.5);
+      const filled = await settled(sell.id);
+      expect(filled.status).to.equal("filled");
+      expect(filled.triggeredPrice).to.equal(22.5);
+    });
+
+    it("Should trail a buy stop over the lowest price seen", async function () {
+      await sandbox.setPrediction(PREDICTIONS.avaxRising);
+      const buy = await place({ type: "trailing_stop", trailingPercent: 10, ...buying() });
+
+      await sandbox.pushPrice(20);
+      await sandbox.pushPrice(15);
+      await sandbox.pushPrice(16);
+      const trailing = await status(buy.id);
+      expect(trailing.status).to.equal("pending");
+      expect(trailing.referencePrice).to.equal(15);
+
+      await sandbox.pushPrice(16.5);
+      expect((await settled(buy.id)).status).to.equal("filled");
+    });
+
+    it("Should cancel the rest of an OCO group when one order triggers", async function () {
+      const { status: placed, body } = await sandbox.post<OrdersResponse>("/api/orders", {
+        oco: [
+          orderRequest({ type: "take_profit", triggerPrice: 25 }),
+          orderRequest({ type: "stop_loss", triggerPrice: 18 })
+        ]
+      });
+      const [takeProfit, stopLoss] = body.data;
+      expect(placed).to.equal(201);
+      expect(takeProfit.ocoGroupId).to.equal(stopLoss.ocoGroupId);
+
+      await sandbox.pushPrice(26);
+
+      const cancelled = await status(stopLoss.id);
+      expect(cancelled.status).to.equal("cancelled");
+      expect(cancelled.error).to.equal(`OCO order ${takeProfit.id} triggered`);
+      expect((await settled(takeProfit.id)).status).to.equal("filled");
+
+      await sandbox.pushPrice(17);
+      expect((await status(stopLoss.id)).status).to.equal("cancelled");
+    });
+
+    it("Should fail orders a restart caught between trigger and fill and restore pending ones", async function () {
+      const interrupted = await place({ type: "limit", triggerPrice: 30 });
+      const pending = await place({ type: "limit", triggerPrice: 35 });
+      await sandbox.interruptOrder(interrupted.id);
+
+      await sandbox.restartOrderBook();
+
+      const failed = await status(interrupted.id);
+      expect(failed.status).to.equal("failed");
+      expect(failed.error).to.equal("Interrupted by server restart before the fill was confirmed");
+      await sandbox.pushPrice(35);
+      expect((await settled(pending.id)).status).to.equal("filled");
+      expect((await status(interrupted.id)).status).to.equal("failed");
+    });
+
+    it("Should list an account's orders by status", async function () {
+      const limit = await place({ type: "limit", triggerPrice: 40 });
+      const stop = await place({ type: "stop_loss", triggerPrice: 5 });
+      await sandbox.delete(`/api/orders/${stop.id}`);
+
+      const { status: listed, body } = await sandbox.get<OrdersResponse>(`/api/orders?userAddress=${user.address}&status=pending`);
+      const cancelled = await sandbox.get<OrdersResponse>(`/api/orders?userAddress=${user.address}&status=cancelled`);
+
+      expect(listed).to.equal(200);
+      expect(body.data.map(order => order.id)).to.deep.equal([limit.id]);
+      expect(cancelled.body.data.map(order => order.id)).to.include(stop.id);
+    });
+
+    it("Should cancel a pending order with its OCO siblings", async function () {
+      const { body } = await sandbox.post<OrdersResponse>("/api/orders", {
+        oco: [
+          orderRequest({ type: "take_profit", triggerPrice: 40 }),
+          orderRequest({ type: "stop_loss", triggerPrice: 5 })
+        ]
+      });
+
+      const cancelled = await sandbox.delete<OrdersResponse>(`/api/orders/${body.data[0].id}`);
+      const again = await sandbox.delete<OrdersResponse>(`/api/orders/${body.data[1].id}`);
+      const unknown = await sandbox.delete<OrdersResponse>("/api/orders/order_unknown");
+
+      expect(cancelled.status).to.equal(200);
+      expect(cancelled.body.data.map(order => order.status)).to.deep.equal(["cancelled", "cancelled"]);
+      expect(again.status).to.equal(409);
+      expect(again.body.message).to.equal(`Order ${body.data[1].id} is cancelled and cannot be cancelled`);
+      expect(unknown.status).to.equal(404);
+    });
+
+    it("Should reject orders without a trigger or that do not trade AVAX", async function () {
+      const untriggered = await sandbox.post<OrdersResponse>("/api/orders", orderRequest({ type: "limit" }));
+      const tokenPair = await sandbox.post<OrdersResponse>(
+        "/api/orders",
+        orderRequest({ type: "limit", triggerPrice: 20, fromToken: usdtAddress, toToken: await sandbox.contracts.wavax.getAddress() })
+      );
+
+      expect(untriggered.status).to.equal(400);
+      expect(untriggered.body.error).to.equal("Validation failed");
+      expect(tokenPair.status).to.equal(400);
+      expect(tokenPair.body.message).to.equal("Conditional orders must buy or sell AVAX");
+    });
+  });
+});
@@ -11,6 +11,12 @@ const config = {
         enabled: true,
         runs: 200,
       },
+      // Storage layouts let scripts/upgrades.ts check that upgrades keep proxy state in place
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   networks: {
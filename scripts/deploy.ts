@@ -3,23 +3,13 @@ const { ethers } = hre;
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import type { Contract, ContractTransactionResponse } from "ethers";
+import { deployUUPSProxy, getStorageLayout } from "./upgrades.ts";
+import type { DeploymentInfo, ProxyInfo } from "./upgrades.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface DeploymentInfo {
-  network: string;
-  contracts: {
-    [key: string]: {
-      address: string;
-      transactionHash: string;
-      blockNumber: number;
-      constructorArgs: any[];
-    };
-  };
-  deployedAt: string;
-}
-
 async function main() {
   const [deployer] = await ethers.getSigners();
   const network = await ethers.provider.getNetwork();
@@ -37,34 +27,99 @@ async function main() {
     ? "0x2D99ABD9008Dc933ff5c0CD271B88309593aB921" // Fuji testnet
     : "0xE54Ca86531e17Ef3616d22Ca28b0D458b6C89106"; // Avalanche mainnet
 
+  // USDT, quote token for the AVAX/USDT oracle pair
+  const USDT_ADDRESS = isTestnet
+    ? process.env.VITE_USDT_ADDRESS_FUJI || ethers.ZeroAddress // Fuji testnet
+    : "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7"; // Avalanche mainnet
+
+  // DEPLOY_PROXY=true puts PriceOracle and AIPoweredTrader behind UUPS proxies,
+  // so later versions can be rolled out with scripts/upgrade.ts
+  const useProxy = process.env.DEPLOY_PROXY === "true";
+
   console.log("Using Pangolin Router:", PANGOLIN_ROUTER_ADDRESS);
+  console.log("Deployment mode:", useProxy ? "UUPS proxy" : "direct");
+
+  // AIStrategyVault is denominated in USDT, so it needs a real token address
+  if (USDT_ADDRESS === ethers.ZeroAddress) {
+    throw new Error("Set VITE_USDT_ADDRESS_FUJI to deploy AIStrategyVault on Fuji");
+  }
 
   // Deploy PriceOracle first
   console.log("\nDeploying PriceOracle...");
-  const PriceOracle = await ethers.getContractFactory("PriceOracle");
-  const priceOracle = await PriceOracle.deploy();
-  await priceOracle.waitForDeployment();
+  const proxies: { [key: string]: ProxyInfo } = {};
+  let priceOracle: Contract;
+  let priceOracleDeployment: ContractTransactionResponse | null;
+  if (useProxy) {
+    const deployment = await deployUUPSProxy(hre, "PriceOracle", [], []);
+    priceOracle = deployment.contract;
+    priceOracleDeployment = deployment.proxyDeployment;
+    proxies.PriceOracle = {
+      kind: "uups",
+      implementation: deployment.implementation.address,
+      implementations: [deployment.implementation],
+      storageLayout: await getStorageLayout(hre, "PriceOracle")
+    };
+    console.log("PriceOracle implementation:", deployment.implementation.address);
+  } else {
+    const PriceOracle = await ethers.getContractFactory("PriceOracle");
+    priceOracle = await PriceOracle.deploy();
+    await priceOracle.waitForDeployment();
+    priceOracleDeployment = priceOracle.deploymentTransaction();
+  }
   const priceOracleAddress = await priceOracle.getAddress();
   
   console.log("PriceOracle deployed to:", priceOracleAddress);
 
   // Deploy AIPoweredTrader with PriceOracle and Pangolin Router addresses
   console.log("\nDeploying AIPoweredTrader...");
-  const AIPoweredTrader = await ethers.getContractFactory("AIPoweredTrader");
-  const aiPoweredTrader = await AIPoweredTrader.deploy(
-    PANGOLIN_ROUTER_ADDRESS,
-    priceOracleAddress
-  );
-  await aiPoweredTrader.waitForDeployment();
+  let aiPoweredTrader: Contract;
+  let aiPoweredTraderDeployment: ContractTransactionResponse | null;
+  if (useProxy) {
+    const deployment = await deployUUPSProxy(
+      hre,
+      "AIPoweredTrader",
+      [PANGOLIN_ROUTER_ADDRESS, priceOracleAddress],
+      [PANGOLIN_ROUTER_ADDRESS, priceOracleAddress]
+    );
+    aiPoweredTrader = deployment.contract;
+    aiPoweredTraderDeployment = deployment.proxyDeployment;
+    proxies.AIPoweredTrader = {
+      kind: "uups",
+      implementation: deployment.implementation.address,
+      implementations: [deployment.implementation],
+      storageLayout: await getStorageLayout(hre, "AIPoweredTrader")
+    };
+    console.log("AIPoweredTrader implementation:", deployment.implementation.address);
+  } else {
+    const AIPoweredTrader = await ethers.getContractFactory("AIPoweredTrader");
+    aiPoweredTrader = await AIPoweredTrader.deploy(
+      PANGOLIN_ROUTER_ADDRESS,
+      priceOracleAddress
+    );
+    await aiPoweredTrader.waitForDeployment();
+    aiPoweredTraderDeployment = aiPoweredTrader.deploymentTransaction();
+  }
   const aiPoweredTraderAddress = await aiPoweredTrader.getAddress();
   
   console.log("AIPoweredTrader deployed to:", aiPoweredTraderAddress);
 
-  // Get deployment transaction details
-  const priceOracleDeployment = priceOracle.deploymentTransaction();
-  const aiPoweredTraderDeployment = aiPoweredTrader.deploymentTransaction();
+  // Deploy AIStrategyVault over USDT, trading through AIPoweredTrader
+  console.log("\nDeploying AIStrategyVault...");
+  const AIStrategyVault = await ethers.getContractFactory("AIStrategyVault");
+  const aiStrategyVault = await AIStrategyVault.deploy(
+    USDT_ADDRESS,
+    aiPoweredTraderAddress,
+    deployer.address
+  );
+  await aiStrategyVault.waitForDeployment();
+  const aiStrategyVaultAddress = await aiStrategyVault.getAddress();
+
+  console.log("AIStrategyVault deployed to:", aiStrategyVaultAddress);
+
+  // Get deployment transaction details (the proxy's, when proxied)
+  const aiStrategyVaultDeployment = aiStrategyVault.deploymentTransaction();
   
-  if (!priceOracleDeployment || !aiPoweredTraderDeployment) {
+  if (!priceOracleDeployment || !aiPoweredTraderDeployment || !aiStrategyVaultDeployment) {
     throw new Error("Failed to get deployment transactions");
   }
 
@@ -76,13 +131,21 @@ async function main() {
         address: priceOracleAddress,
         transactionHash: priceOracleDeployment.hash,
         blockNumber: priceOracleDeployment.blockNumber || 0,
-        constructorArgs: []
+        constructorArgs: [],
+        proxy: proxies.PriceOracle
       },
       AIPoweredTrader: {
         address: aiPoweredTraderAddress,
         transactionHash: aiPoweredTraderDeployment.hash,
         blockNumber: aiPoweredTraderDeployment.blockNumber || 0,
-        constructorArgs: [PANGOLIN_ROUTER_ADDRESS, priceOracleAddress]
+        constructorArgs: [PANGOLIN_ROUTER_ADDRESS, priceOracleAddress],
+        proxy: proxies.AIPoweredTrader
+      },
+      AIStrategyVault: {
+        address: aiStrategyVaultAddress,
+        transactionHash: aiStrategyVaultDeployment.hash,
+        blockNumber: aiStrategyVaultDeployment.blockNumber || 0,
+        constructorArgs: [USDT_ADDRESS, aiPoweredTraderAddress, deployer.address]
       }
     },
     deployedAt: new Date().toISOString()
@@ -113,16 +176,23 @@ async function main() {
       // Verify PriceOracle
       console.log("Verifying PriceOracle...");
       await hre.run("verify:verify", {
-        address: priceOracleAddress,
+        address: proxies.PriceOracle?.implementation ?? priceOracleAddress,
         constructorArguments: []
       });
       
       // Verify AIPoweredTrader
       console.log("Verifying AIPoweredTrader...");
       await hre.run("verify:verify", {
-        address: aiPoweredTraderAddress,
+        address: proxies.AIPoweredTrader?.implementation ?? aiPoweredTraderAddress,
         constructorArguments: [PANGOLIN_ROUTER_ADDRESS, priceOracleAddress]
       });
+
+      // Verify AIStrategyVault
+      console.log("Verifying AIStrategyVault...");
+      await hre.run("verify:verify", {
+        address: aiStrategyVaultAddress,
+        constructorArguments: [USDT_ADDRESS, aiPoweredTraderAddress, deployer.address]
+      });
       
       console.log("Contracts verified successfully!");
     } catch (error) {
@@ -136,12 +206,13 @@ async function main() {
   console.log("\nValidating deployment...");
   
   try {
-    // Test PriceOracle functions
-    const prediction = await priceOracle.getPrediction();
+    // Test PriceOracle functions against the AVAX/USDT pair
+    const wavax = await aiPoweredTrader.WAVAX();
+    const prediction = await priceOracle.getPrediction(wavax, USDT_ADDRESS);
     console.log("PriceOracle validation: ✓ Prediction retrieval works");
     
     // Test AIPoweredTrader functions
-    const aiStatus = await aiPoweredTrader.getAIPredictionStatus();
+    const aiStatus = await aiPoweredTrader.getAIPredictionStatus(wavax, USDT_ADDRESS);
     console.log("AIPoweredTrader validation: ✓ AI status check works");
     
     console.log("Deployment validation successful!");
@@ -177,6 +248,15 @@ async function main() {
     path.join(frontendAbiDir, "AIPoweredTrader.json"),
     JSON.stringify(aiPoweredTraderArtifact, null, 2)
   );
+
+  // Copy AIStrategyVault ABI
+  const aiStrategyVaultArtifact = JSON.parse(
+    fs.readFileSync(path.join(artifactsDir, "AIStrategyVault.sol", "AIStrategyVault.json"), "utf8")
+  );
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "AIStrategyVault.json"),
+    JSON.stringify(aiStrategyVaultArtifact, null, 2)
+  );
   
   console.log("Contract ABIs copied to frontend");
 
@@ -184,6 +264,7 @@ async function main() {
   console.log("Network:", networkName);
   console.log("PriceOracle:", priceOracleAddress);
   console.log("AIPoweredTrader:", aiPoweredTraderAddress);
+  console.log("AIStrategyVault:", aiStrategyVaultAddress);
   console.log("Pangolin Router:", PANGOLIN_ROUTER_ADDRESS);
   console.log("Deployer:", deployer.address);
   console.log("==========================");
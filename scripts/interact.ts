@@ -53,6 +53,13 @@ async function main() {
   console.log("PriceOracle:", deployment.contracts.PriceOracle.address);
   console.log("AIPoweredTrader:", deployment.contracts.AIPoweredTrader.address);
   
+  // Predictions are per token pair; this script works with AVAX/USDT
+  const WAVAX = await aiPoweredTrader.WAVAX();
+  const USDT = network.chainId === 43113n
+    ? process.env.VITE_USDT_ADDRESS_FUJI || ethers.ZeroAddress
+    : "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7";
+  console.log("Pair:", WAVAX, "/", USDT);
+  
   // Check if signer is owner of PriceOracle
   const oracleOwner = await priceOracle.owner();
   const isOracleOwner = oracleOwner.toLowerCase() === signer.address.toLowerCase();
@@ -62,14 +69,14 @@ async function main() {
   // Get current prediction
   console.log("\n=== Current Prediction ===");
   try {
-    const prediction = await priceOracle.getPrediction();
-    console.log("Price:", ethers.formatEther(prediction[0]), "AVAX");
+    const prediction = await priceOracle.getPrediction(WAVAX, USDT);
+    console.log("Price:", ethers.formatEther(prediction[0]), "USDT per AVAX");
     console.log("Confidence:", prediction[1], "%");
     console.log("Timestamp:", new Date(Number(prediction[2]) * 1000).toISOString());
     console.log("Expires At:", new Date(Number(prediction[3]) * 1000).toISOString());
     console.log("Is Valid:", prediction[4]);
     
-    const isValid = await priceOracle.isPredictionValid();
+    const isValid = await priceOracle.isPredictionValid(WAVAX, USDT);
     console.log("Prediction Valid:", isValid);
   } catch (error) {
     console.log("No prediction set or error:", error);
@@ -79,18 +86,18 @@ async function main() {
   if (isOracleOwner) {
     console.log("\n=== Setting Test Prediction ===");
     try {
-      const testPrice = ethers.parseEther("25.50"); // 25.50 AVAX
+      const testPrice = ethers.parseEther("25.50"); // 25.50 USDT per AVAX
       const testConfidence = 85; // 85% confidence
       const testExpiry = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
       
-      const tx = await priceOracle.setPrediction(testPrice, testConfidence, testExpiry);
+      const tx = await priceOracle.setPrediction(WAVAX, USDT, testPrice, testConfidence, testExpiry);
       await tx.wait();
       console.log("✓ Test prediction set successfully");
       console.log("Transaction:", tx.hash);
       
       // Verify the prediction was set
-      const newPrediction = await priceOracle.getPrediction();
-      console.log("New Price:", ethers.formatEther(newPrediction[0]), "AVAX");
+      const newPrediction = await priceOracle.getPrediction(WAVAX, USDT);
+      console.log("New Price:", ethers.formatEther(newPrediction[0]), "USDT per AVAX");
       console.log("New Confidence:", newPrediction[1], "%");
     } catch (error) {
       console.log("Failed to set test prediction:", error);
@@ -100,7 +107,7 @@ async function main() {
   // Test AI prediction status
   console.log("\n=== AI Prediction Status ===");
   try {
-    const aiStatus = await aiPoweredTrader.getAIPredictionStatus();
+    const aiStatus = await aiPoweredTrader.getAIPredictionStatus(WAVAX, USDT);
     console.log("AI Valid:", aiStatus[0]);
     console.log("AI Confidence:", aiStatus[1], "%");
   } catch (error) {
@@ -112,7 +119,7 @@ async function main() {
   try {
     const thresholds = [50, 70, 80, 90];
     for (const threshold of thresholds) {
-      const isAbove = await priceOracle.isConfidenceAboveThreshold(threshold);
+      const isAbove = await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, threshold);
       console.log(`${threshold}% threshold:`, isAbove);
     }
   } catch (error) {
@@ -122,8 +129,8 @@ async function main() {
   // Get prediction age and expiry info
   console.log("\n=== Prediction Timing ===");
   try {
-    const age = await priceOracle.getPredictionAge();
-    const timeUntilExpiry = await priceOracle.getTimeUntilExpiry();
+    const age = await priceOracle.getPredictionAge(WAVAX, USDT);
+    const timeUntilExpiry = await priceOracle.getTimeUntilExpiry(WAVAX, USDT);
     
     console.log("Prediction Age:", age, "seconds");
     console.log("Time Until Expiry:", timeUntilExpiry, "seconds");
@@ -0,0 +1,136 @@
+import hre from "hardhat";
+const { ethers } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { getImplementationAddress, upgradeUUPSProxy } from "./upgrades.ts";
+import type { DeploymentInfo } from "./upgrades.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const UPGRADEABLE_CONTRACTS = ["PriceOracle", "AIPoweredTrader"];
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const network = await ethers.provider.getNetwork();
+
+  console.log("Upgrading contracts with account:", deployer.address);
+  console.log("Network:", network.name, "Chain ID:", network.chainId);
+
+  const isTestnet = network.chainId === 43113n; // Fuji testnet
+  const networkName = isTestnet ? "fuji" : "avalanche";
+
+  // UPGRADE_CONTRACTS=PriceOracle limits the upgrade to a subset
+  const contractNames = process.env.UPGRADE_CONTRACTS
+    ? process.env.UPGRADE_CONTRACTS.split(",").map(name => name.trim())
+    : UPGRADEABLE_CONTRACTS;
+
+  const unknown = contractNames.filter(name => !UPGRADEABLE_CONTRACTS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Not upgradeable: ${unknown.join(", ")}`);
+  }
+
+  const deploymentsPath = path.join(__dirname, "..", "deployments.json");
+  if (!fs.existsSync(deploymentsPath)) {
+    throw new Error("deployments.json not found; deploy with DEPLOY_PROXY=true first");
+  }
+  const allDeployments: { [key: string]: DeploymentInfo } = JSON.parse(fs.readFileSync(deploymentsPath, "utf8"));
+  const deploymentInfo = allDeployments[networkName];
+  if (!deploymentInfo) {
+    throw new Error(`No deployment recorded for ${networkName}`);
+  }
+
+  for (const name of contractNames) {
+    const record = deploymentInfo.contracts[name];
+    if (!record?.proxy) {
+      throw new Error(`${name} was deployed without a proxy and cannot be upgraded in place`);
+    }
+
+    // Refuse to work from a stale record, its layout may not be what is on chain
+    const onChain = await getImplementationAddress(hre, record.address);
+    if (onChain !== ethers.getAddress(record.proxy.implementation)) {
+      throw new Error(`${name} proxy points at ${onChain}, but deployments.json records ${record.proxy.implementation}`);
+    }
+
+    console.log(`\nUpgrading ${name} at ${record.address}...`);
+    const { implementation, storageLayout } = await upgradeUUPSProxy(
+      hre,
+      record.address,
+      name,
+      record.constructorArgs,
+      record.proxy.storageLayout
+    );
+
+    record.proxy.implementation = implementation.address;
+    record.proxy.implementations.push(implementation);
+    record.proxy.storageLayout = storageLayout;
+
+    // Save after each upgrade so a later failure does not lose the history
+    fs.writeFileSync(deploymentsPath, JSON.stringify(allDeployments, null, 2));
+
+    console.log(`${name} implementation:`, implementation.address);
+  }
+
+  console.log("\nDeployment info saved to deployments.json");
+
+  // Verify the new implementations on Snowtrace if API key is provided
+  const snowtraceApiKey = process.env.SNOWTRACE_API_KEY;
+  if (snowtraceApiKey && snowtraceApiKey !== "not_required") {
+    console.log("\nVerifying implementations on Snowtrace...");
+
+    try {
+      // Wait a bit for the contracts to be indexed
+      await new Promise(resolve => setTimeout(resolve, 10000));
+
+      for (const name of contractNames) {
+        const record = deploymentInfo.contracts[name];
+        console.log(`Verifying ${name}...`);
+        await hre.run("verify:verify", {
+          address: record.proxy!.implementation,
+          constructorArguments: record.constructorArgs
+        });
+      }
+
+      console.log("Implementations verified successfully!");
+    } catch (error) {
+      console.log("Verification failed (contracts may already be verified):", error);
+    }
+  } else {
+    console.log("\nSkipping contract verification (no Snowtrace API key provided)");
+  }
+
+  // Copy contract ABIs to frontend, new versions may add functions
+  console.log("\nCopying contract ABIs to frontend...");
+
+  const artifactsDir = path.join(__dirname, "..", "artifacts", "contracts");
+  const frontendAbiDir = path.join(__dirname, "..", "src", "utils", "abis");
+
+  for (const name of contractNames) {
+    const artifact = JSON.parse(
+      fs.readFileSync(path.join(artifactsDir, `${name}.sol`, `${name}.json`), "utf8")
+    );
+    fs.writeFileSync(
+      path.join(frontendAbiDir, `${name}.json`),
+      JSON.stringify(artifact, null, 2)
+    );
+  }
+
+  console.log("Contract ABIs copied to frontend");
+
+  console.log("\n=== Upgrade Summary ===");
+  console.log("Network:", networkName);
+  for (const name of contractNames) {
+    const record = deploymentInfo.contracts[name];
+    console.log(`${name}:`, record.address, "->", record.proxy!.implementation,
+      `(version ${record.proxy!.implementations.length})`);
+  }
+  console.log("=======================");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
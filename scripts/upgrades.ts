@@ -0,0 +1,337 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract, ContractTransactionResponse } from "ethers";
+
+/**
+ * UUPS proxy deployment and storage-layout checks for the upgradeable
+ * contracts (PriceOracle, AIPoweredTrader). Layouts come from the compiler's
+ * storageLayout output, enabled in hardhat.config.cjs.
+ */
+
+export interface StorageSlot {
+  label: string;
+  slot: string;
+  offset: number;
+  /** Canonical type, with struct members expanded so member changes are caught */
+  type: string;
+}
+
+export interface ImplementationRecord {
+  address: string;
+  transactionHash: string;
+  deployedAt: string;
+}
+
+export interface ProxyInfo {
+  kind: "uups";
+  implementation: string;
+  /** Every implementation the proxy has pointed at, oldest first */
+  implementations: ImplementationRecord[];
+  /** Layout of the current implementation, checked before the next upgrade */
+  storageLayout: StorageSlot[];
+}
+
+export interface DeploymentInfo {
+  network: string;
+  contracts: {
+    [key: string]: {
+      address: string;
+      transactionHash: string;
+      blockNumber: number;
+      constructorArgs: unknown[];
+      proxy?: ProxyInfo;
+    };
+  };
+  deployedAt: string;
+}
+
+interface SolcStorageType {
+  label: string;
+  members?: { label: string; slot: string; offset: number; type: string }[];
+  key?: string;
+  value?: string;
+  base?: string;
+}
+
+interface SolcStorageLayout {
+  storage: { label: string; slot: string; offset: number; type: string }[];
+  types: Record<string, SolcStorageType> | null;
+}
+
+/**
+ * Storage layout of a compiled contract, read from its build info
+ */
+export const getStorageLayout = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string
+): Promise<StorageSlot[]> => {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const output = buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName] as
+    { storageLayout?: SolcStorageLayout } | undefined;
+  const layout = output?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout for ${contractName}; is storageLayout in the compiler outputSelection?`);
+  }
+
+  const types = layout.types ?? {};
+  // Type ids embed AST ids that change between builds, so describe types by shape
+  const describe = (typeId: string): string => {
+    const type = types[typeId];
+    if (!type) return typeId;
+    if (type.members) {
+      const members = type.members.map(member => `${member.label}:${describe(member.type)}@${member.slot}+${member.offset}`);
+      return `${type.label}{${members.join(",")}}`;
+    }
+    if (type.key && type.value) {
+      return `mapping(${describe(type.key)} => ${describe(type.value)})`;
+    }
+    if (type.base) {
+      return `${describe(type.base)}${type.label.slice(type.label.lastIndexOf("["))}`;
+    }
+    return type.label;
+  };
+
+  return layout.storage.map(entry => ({
+    label: entry.label,
+    slot: entry.slot,
+    offset: entry.offset,
+    type: describe(entry.type)
+  }));
+};
+
+type ParsedType =
+  | { kind: "struct"; text: string; label: string; members: { label: string; position: string; type: ParsedType }[] }
+  | { kind: "mapping"; text: string; key: ParsedType; value: ParsedType }
+  | { kind: "array"; text: string; base: ParsedType }
+  | { kind: "plain"; text: string };
+
+/**
+ * Parse a type description built by getStorageLayout back into its shape
+ */
+const parseStorageType = (description: string): ParsedType => {
+  let position = 0;
+
+  const expect = (token: string) => {
+    if (!description.startsWith(token, position)) {
+      throw new Error(`Malformed storage type "${description}": expected "${token}" at ${position}`);
+    }
+    position += token.length;
+  };
+
+  const readUntil = (stops: string[]): string => {
+    const start = position;
+    while (position < description.length && !stops.some(stop => description.startsWith(stop, position))) {
+      position++;
+    }
+    return description.slice(start, position);
+  };
+
+  const parse = (): ParsedType => {
+    const start = position;
+    let type: ParsedType;
+
+    if (description.startsWith("mapping(", position)) {
+      expect("mapping(");
+      const key = parse();
+      expect(" => ");
+      const value = parse();
+      expect(")");
+      type = { kind: "mapping", text: description.slice(start, position), key, value };
+    } else {
+      const label = readUntil(["{", "[", ",", ")", "@", " => "]);
+      if (description.startsWith("{", position)) {
+        expect("{");
+        const members: { label: string; position: string; type: ParsedType }[] = [];
+        while (!description.startsWith("}", position)) {
+          if (members.length > 0) expect(",");
+          const memberLabel = readUntil([":"]);
+          expect(":");
+          const memberType = parse();
+          expect("@");
+          members.push({ label: memberLabel, position: readUntil([",", "}"]), type: memberType });
+        }
+        expect("}");
+        type = { kind: "struct", text: description.slice(start, position), label, members };
+      } else {
+        type = { kind: "plain", text: label };
+      }
+    }
+
+    while (description.startsWith("[", position)) {
+      readUntil(["]"]);
+      expect("]");
+      type = { kind: "array", text: description.slice(start, position), base: type };
+    }
+    return type;
+  };
+
+  const type = parse();
+  if (position !== description.length) {
+    throw new Error(`Malformed storage type "${description}": unexpected "${description.slice(position)}"`);
+  }
+  return type;
+};
+
+/**
+ * Whether data written as the previous type still reads correctly as the next
+ * one. Structs may gain members at the end; the slot check on the variables
+ * that follow catches a grown struct that pushes them along. Array elements
+ * must keep their exact size, so structs inside arrays may not grow.
+ */
+const isCompatibleType = (previous: ParsedType, next: ParsedType): boolean => {
+  if (previous.text === next.text) return true;
+
+  if (previous.kind === "mapping" && next.kind === "mapping") {
+    return previous.key.text === next.key.text && isCompatibleType(previous.value, next.value);
+  }
+  if (previous.kind === "struct" && next.kind === "struct") {
+    return previous.label === next.label &&
+      previous.members.length <= next.members.length &&
+      previous.members.every((member, index) => {
+        const current = next.members[index];
+        return current.label === member.label &&
+          current.position === member.position &&
+          isCompatibleType(member.type, current.type);
+      });
+  }
+  return false;
+};
+
+const isCompatibleDescription = (previous: string, next: string): boolean => {
+  if (previous === next) return true;
+  try {
+    return isCompatibleType(parseStorageType(previous), parseStorageType(next));
+  } catch {
+    // Raw type ids from an unknown type have no shape to compare
+    return false;
+  }
+};
+
+/**
+ * Problems that make an upgrade from one layout to the next unsafe. Every
+ * existing variable must keep its name, type and position; new variables may
+ * only be appended, as may new members of structs outside arrays.
+ */
+export const compareStorageLayouts = (previous: StorageSlot[], next: StorageSlot[]): string[] => {
+  const problems: string[] = [];
+
+  previous.forEach((entry, index) => {
+    const current = next[index];
+    if (!current) {
+      problems.push(`${entry.label} (slot ${entry.slot}) was removed`);
+    } else if (
+      current.label !== entry.label ||
+      current.slot !== entry.slot ||
+      current.offset !== entry.offset ||
+      !isCompatibleDescription(entry.type, current.type)
+    ) {
+      problems.push(
+        `slot ${entry.slot}+${entry.offset}: ${entry.label} (${entry.type}) became ` +
+        `${current.label} (${current.type}) at slot ${current.slot}+${current.offset}`
+      );
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Deploy an implementation and an ERC1967Proxy pointing at it, calling
+ * initialize(initArgs) through the proxy. The implementation's constructor
+ * disables its own initializers.
+ */
+export const deployUUPSProxy = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  constructorArgs: unknown[],
+  initArgs: unknown[]
+): Promise<{
+  contract: Contract;
+  proxyDeployment: ContractTransactionResponse;
+  implementation: ImplementationRecord;
+}> => {
+  const { ethers } = hre;
+
+  const factory = await ethers.getContractFactory(contractName);
+  const implementation = await factory.deploy(...constructorArgs);
+  await implementation.waitForDeployment();
+  const implementationDeployment = implementation.deploymentTransaction();
+
+  const initData = factory.interface.encodeFunctionData("initialize", initArgs);
+  const ProxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+  const proxy = await ProxyFactory.deploy(await implementation.getAddress(), initData);
+  await proxy.waitForDeployment();
+  const proxyDeployment = proxy.deploymentTransaction();
+
+  if (!implementationDeployment || !proxyDeployment) {
+    throw new Error(`Failed to get deployment transactions for ${contractName}`);
+  }
+
+  return {
+    contract: factory.attach(await proxy.getAddress()) as Contract,
+    proxyDeployment,
+    implementation: {
+      address: await implementation.getAddress(),
+      transactionHash: implementationDeployment.hash,
+      deployedAt: new Date().toISOString()
+    }
+  };
+};
+
+// ERC-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * Implementation address an ERC-1967 proxy currently delegates to
+ */
+export const getImplementationAddress = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAddress: string
+): Promise<string> => {
+  const { ethers } = hre;
+  const value = await ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT);
+  return ethers.getAddress(ethers.dataSlice(value, 12));
+};
+
+/**
+ * Check the storage layout of contractName against the proxy's current one,
+ * deploy it as a new implementation and point the proxy at it. Throws without
+ * deploying anything if the layouts are incompatible.
+ */
+export const upgradeUUPSProxy = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAddress: string,
+  contractName: string,
+  constructorArgs: unknown[],
+  previousLayout: StorageSlot[]
+): Promise<{ implementation: ImplementationRecord; storageLayout: StorageSlot[] }> => {
+  const { ethers } = hre;
+
+  const storageLayout = await getStorageLayout(hre, contractName);
+  const problems = compareStorageLayouts(previousLayout, storageLayout);
+  if (problems.length > 0) {
+    throw new Error(`Storage layout of ${contractName} is incompatible with the proxy:\n  ${problems.join("\n  ")}`);
+  }
+
+  const factory = await ethers.getContractFactory(contractName);
+  const implementation = await factory.deploy(...constructorArgs);
+  await implementation.waitForDeployment();
+  const implementationDeployment = implementation.deploymentTransaction();
+  if (!implementationDeployment) {
+    throw new Error(`Failed to get deployment transaction for ${contractName}`);
+  }
+  const implementationAddress = await implementation.getAddress();
+
+  const proxy = factory.attach(proxyAddress) as Contract;
+  const tx = await proxy.upgradeTo(implementationAddress);
+  await tx.wait();
+
+  return {
+    implementation: {
+      address: implementationAddress,
+      transactionHash: implementationDeployment.hash,
+      deployedAt: new Date().toISOString()
+    },
+    storageLayout
+  };
+};
@@ -1,10 +1,15 @@
 import express from 'express';
+import { z } from 'zod';
 import { Logger } from '../utils/logger';
 import { MetricsCollector } from '../utils/metrics';
 import { ModelVersionManager } from '../libs/modelVersioning';
 import { CacheManager } from '../utils/cache';
 import { AISystem } from '../libs/aiSystem';
 import { EnvironmentManager } from '../config/environment';
+import { StrategyOptimizer } from '../libs/strategyOptimizer';
+import { Web3Server } from '../libs/web3Server';
+import { collectMarketData } from '../libs/dataCollection';
+import type { SweepTrial } from '../../src/shared/types';
 
 const router = express.Router();
 const logger = Logger.getInstance();
@@ -13,6 +18,7 @@ const modelManager = ModelVersionManager.getInstance();
 const cache = CacheManager.getInstance();
 const aiSystem = AISystem.getInstance();
 const envManager = EnvironmentManager.getInstance();
+const optimizer = StrategyOptimizer.getInstance();
 
 // Authentication middleware
 const authenticateAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -279,6 +285,254 @@ router.post('/models/rollback', async (req, res) => {
   }
 });
 
+/**
+ * Oracle publishing
+ */
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const PublishPredictionSchema = z.object({
+  baseToken: z.string().regex(ADDRESS_PATTERN, 'baseToken must be a valid address'),
+  quoteToken: z.string().regex(ADDRESS_PATTERN, 'quoteToken must be a valid address'),
+  recentData: z.array(z.object({
+    timestamp: z.number(),
+    price: z.number().positive(),
+    volume: z.number().nonnegative(),
+    high: z.number().positive(),
+    low: z.number().positive(),
+    open: z.number().positive(),
+    close: z.number().positive()
+  })).optional(),
+  // PriceOracle caps validity at an hour by default
+  validFor: z.number().int().positive().max(3600).default(1800)
+});
+
+/**
+ * POST /api/admin/oracle/prediction
+ * Forecast a pair and submit it to PriceOracle with the calibrated confidence.
+ * The server's account must be a reporter; `published` tells whether the
+ * submission completed a quorum.
+ */
+router.post('/oracle/prediction', async (req, res) => {
+  const validationResult = PublishPredictionSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: validationResult.error.errors[0].message,
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    const { baseToken, quoteToken, recentData, validFor } = validationResult.data;
+    const data = recentData ?? await collectMarketData(['pangolin', 'coingecko'], { hours: 168 });
+
+    const requiredHistory = aiSystem.getRequiredHistory(data);
+    if (data.length < requiredHistory) {
+      return res.status(400).json({
+        error: 'Insufficient data',
+        message: `At least ${requiredHistory} data points are required for prediction`,
+        timestamp: Date.now()
+      });
+    }
+
+    const prediction = await aiSystem.predict(data, undefined, `${baseToken}/${quoteToken}`.toLowerCase());
+    const web3Server = Web3Server.getInstance();
+    await web3Server.initialize();
+    const { txHash, confidence, published } = await web3Server.publishPrediction(baseToken, quoteToken, prediction, validFor);
+
+    res.json({
+      success: true,
+      txHash,
+      published,
+      price: prediction.price,
+      confidence,
+      interval: prediction.interval,
+      calibration: prediction.calibration,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    logger.error('Failed to publish prediction', error as Error);
+    res.status(500).json({
+      error: 'Failed to publish prediction',
+      message: error instanceof Error ? error.message : 'Failed to publish prediction',
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * Strategy parameter sweeps
+ */
+const SweepRangeSchema = z.object({
+  values: z.array(z.number().nonnegative()).min(1).optional(),
+  min: z.number().nonnegative().optional(),
+  max: z.number().nonnegative().optional()
+}).refine(
+  range => range.min === undefined || range.max === undefined || range.min <= range.max,
+  { message: 'min must not exceed max' }
+);
+
+// PortfolioMetrics fields a custom objective can weight
+const OBJECTIVE_METRICS = [
+  'totalValue', 'totalReturn', 'annualizedReturn', 'sharpeRatio', 'maxDrawdown',
+  'volatility', 'beta', 'winRate', 'profitFactor', 'averageTrade'
+] as const;
+
+const SweepRequestSchema = z.object({
+  strategy: z.object({
+    name: z.string().min(1),
+    aiModel: z.enum(['lstm', 'reinforcement', 'ensemble']),
+    modelVersion: z.string().min(1).optional(),
+    riskParams: z.object({
+      maxPositionSize: z.number().positive().max(1),
+      stopLoss: z.number().nonnegative().max(1),
+      takeProfit: z.number().nonnegative(),
+      maxDrawdown: z.number().positive().max(1)
+    }),
+    tradingParams: z.object({
+      minConfidence: z.number().min(0).max(1),
+      rebalanceFrequency: z.number().nonnegative(),
+      slippageModel: z.enum(['fixed', 'volume', 'volatility', 'amm']),
+      maxTradesPerHour: z.number().int().positive().optional()
+    })
+  }),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  initialCapital: z.number().positive().default(10000),
+  sweep: z.object({
+    method: z.enum(['grid', 'random', 'bayesian']),
+    space: z.object({
+      aiConfidenceThreshold: SweepRangeSchema.optional(),
+      stopLoss: SweepRangeSchema.optional(),
+      takeProfit: SweepRangeSchema.optional(),
+      maxTradesPerHour: SweepRangeSchema.optional()
+    }),
+    samples: z.number().int().min(1).max(5000).optional(),
+    objective: z.enum(['sharpe', 'drawdown', 'custom']),
+    objectiveWeights: z.record(z.enum(OBJECTIVE_METRICS), z.number().finite()).optional(),
+    concurrency: z.number().int().min(1).max(64).optional()
+  })
+}).superRefine((body, ctx) => {
+  if (body.startDate >= body.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'endDate must be after startDate' });
+  }
+  const ranges = Object.values(body.sweep.space);
+  const usable = body.sweep.method === 'grid'
+    ? ranges.some(range => range?.values)
+    : ranges.some(range => range?.min !== undefined && range?.max !== undefined);
+  if (!usable) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['sweep', 'space'],
+      message: body.sweep.method === 'grid' ? 'Grid search needs values for at least one parameter' : 'Sampling needs min and max for at least one parameter'
+    });
+  }
+  if (body.sweep.objective === 'custom' && !body.sweep.objectiveWeights) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sweep', 'objectiveWeights'], message: 'Custom objective needs objectiveWeights' });
+  }
+});
+
+const PARETO_CSV_COLUMNS = [
+  'id', 'aiConfidenceThreshold', 'stopLoss', 'takeProfit', 'maxTradesPerHour',
+  'sharpeRatio', 'maxDrawdown', 'totalReturn', 'winRate', 'totalTrades', 'score'
+];
+
+const paretoToCsv = (trials: SweepTrial[]): string => {
+  const rows = trials.map(trial => [
+    trial.id,
+    trial.parameters.aiConfidenceThreshold,
+    trial.parameters.stopLoss,
+    trial.parameters.takeProfit,
+    trial.parameters.maxTradesPerHour,
+    trial.metrics.sharpeRatio,
+    trial.metrics.maxDrawdown,
+    trial.metrics.totalReturn,
+    trial.metrics.winRate,
+    trial.totalTrades,
+    trial.score
+  ].join(','));
+  return [PARETO_CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * POST /api/admin/optimizer/sweeps
+ * Start a parameter sweep; poll it with GET /api/admin/optimizer/sweeps/:id
+ */
+router.post('/optimizer/sweeps', async (req, res) => {
+  const validationResult = SweepRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid sweep request',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    const sweep = optimizer.startSweep(validationResult.data);
+    res.status(202).json({ success: true, sweep });
+  } catch (error) {
+    logger.error('Failed to start sweep', error as Error);
+    res.status(400).json({ error: 'Failed to start sweep', message: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/admin/optimizer/sweeps
+ * List sweeps without their trials
+ */
+router.get('/optimizer/sweeps', async (req, res) => {
+  const sweeps = optimizer.listSweeps().map(({ trials, paretoFront, ...summary }) => ({
+    ...summary,
+    bestTrial: trials[0] ?? null
+  }));
+  res.json({ timestamp: new Date().toISOString(), sweeps });
+});
+
+/**
+ * GET /api/admin/optimizer/sweeps/:id
+ * Poll a sweep for progress and ranked trials
+ */
+router.get('/optimizer/sweeps/:id', async (req, res) => {
+  const sweep = optimizer.getSweep(req.params.id);
+  if (!sweep) {
+    return res.status(404).json({ error: 'Sweep not found' });
+  }
+  res.json({ sweep });
+});
+
+/**
+ * GET /api/admin/optimizer/sweeps/:id/pareto
+ * Export the Pareto front (Sharpe vs. max drawdown) as JSON or CSV
+ */
+router.get('/optimizer/sweeps/:id/pareto', async (req, res) => {
+  const sweep = optimizer.getSweep(req.params.id);
+  if (!sweep) {
+    return res.status(404).json({ error: 'Sweep not found' });
+  }
+
+  if (req.query.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="sweep-${sweep.id}-pareto.csv"`);
+    return res.send(paretoToCsv(sweep.paretoFront));
+  }
+  res.json({ id: sweep.id, status: sweep.status, paretoFront: sweep.paretoFront });
+});
+
+/**
+ * DELETE /api/admin/optimizer/sweeps/:id
+ * Cancel a running sweep
+ */
+router.delete('/optimizer/sweeps/:id', async (req, res) => {
+  const sweep = optimizer.cancelSweep(req.params.id);
+  if (!sweep) {
+    return res.status(404).json({ error: 'Sweep not found' });
+  }
+  res.json({ success: true, sweep });
+});
+
 /**
  * GET /api/admin/cache
  * Get cache information and management
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AISystem } from '../libs/aiSystem';
+
+const router = Router();
+
+const BarSchema = z.object({
+  timestamp: z.number(),
+  close: z.number().positive()
+});
+
+const SignalReplayRequestSchema = z.object({
+  bars: z.array(BarSchema).min(1).max(20000),
+  model: z.enum(['lstm', 'reinforcement', 'ensemble']),
+  modelVersion: z.string().min(1).optional()
+}).refine(
+  body => body.bars.every((bar, i) => i === 0 || bar.timestamp > body.bars[i - 1].timestamp),
+  { message: 'Bars must be in ascending timestamp order', path: ['bars'] }
+);
+
+/**
+ * POST /api/backtest/signals
+ * Replay historical bars through the live models, or a versioned model from
+ * ModelVersionManager, and return one signal per bar after the warm-up window
+ */
+router.post('/signals', async (req, res) => {
+  const validationResult = SignalReplayRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid signal replay request',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  const { bars, model, modelVersion } = validationResult.data;
+
+  try {
+    const replay = await AISystem.getInstance().replay(bars, model, modelVersion);
+
+    res.json({
+      success: true,
+      data: replay,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    const status = /not found/.test(message) ? 404 : /cannot be replayed/.test(message) ? 400 : 500;
+
+    res.status(status).json({
+      error: 'Signal replay failed',
+      message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+export { router as backtestRouter };
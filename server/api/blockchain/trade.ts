@@ -1,24 +1,48 @@
 import { Router } from 'express';
 import { Web3Server } from '../../libs/web3Server';
-import { BlockchainTradeRequest, BlockchainTradeResponse } from '../../types/api';
+import {
+  BlockchainTradeRequest,
+  BlockchainTradeResponse,
+  RelayQuoteResponse,
+  RelayIntentRequest,
+  RelayIntentResponse
+} from '../../types/api';
 
 const router = Router();
 
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
 /**
  * POST /api/blockchain/trade
  * Execute AI-validated trade through smart contract
  */
-router.post('/', async (req, res) => {
+router.post('/trade', async (req, res) => {
   try {
-    const { fromToken, toToken, amount, slippage = 0.5 }: BlockchainTradeRequest = req.body;
+    const { fromToken, toToken, amount, userAddress, slippage = 0.5, mode }: BlockchainTradeRequest = req.body;
     
     console.log('🔗 Blockchain trade request received');
     
     // Validate input parameters
-    if (!fromToken || !toToken || !amount) {
+    if (!fromToken || !toToken || !amount || !userAddress) {
       return res.status(400).json({
         error: 'Invalid request',
-        message: 'fromToken, toToken, and amount are required',
+        message: 'fromToken, toToken, amount, and userAddress are required',
+        timestamp: Date.now()
+      });
+    }
+
+    if (!ADDRESS_PATTERN.test(userAddress)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'userAddress must be a valid address',
+        timestamp: Date.now()
+      });
+    }
+
+    if (mode !== undefined && mode !== 'live' && mode !== 'paper') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: "mode must be either 'live' or 'paper'",
         timestamp: Date.now()
       });
     }
@@ -44,20 +68,10 @@ router.post('/', async (req, res) => {
     await web3Server.initialize();
     
     // Execute the trade using the new Web3Server interface
-    const tradeParams = {
-      tokenIn: fromToken,
-      tokenOut: toToken,
-      amountIn: amount,
-      amountOutMin: (parseFloat(amount) * (1 - slippage / 100)).toString(),
-      deadline: Math.floor(Date.now() / 1000) + 1200, // 20 minutes
-      tradeType: fromToken === '0x0000000000000000000000000000000000000000' ? 'AVAX_TO_TOKEN' : 
-                 toToken === '0x0000000000000000000000000000000000000000' ? 'TOKEN_TO_AVAX' : 'TOKEN_TO_TOKEN'
-    };
-    
-    // For now, we'll use a placeholder user address - in production this would come from authentication
-    const userAddress = '0x0000000000000000000000000000000000000000'; // Placeholder
+    const executionMode = mode ?? web3Server.getExecutionMode(userAddress);
+    const tradeParams = await web3Server.buildTradeParams(fromToken, toToken, amount, slippage, executionMode);
     
-    const result = await web3Server.executeTrade(tradeParams as any, userAddress);
+    const result = await web3Server.executeTrade(tradeParams, userAddress, { mode: executionMode });
     
     if (!result.success) {
       return res.status(400).json({
@@ -69,10 +83,12 @@ router.post('/', async (req, res) => {
     
     const response: BlockchainTradeResponse = {
       txHash: result.txHash!,
+      mode: result.mode,
+      simulation: result.simulation,
       timestamp: Date.now()
     };
     
-    console.log(`✅ Trade executed successfully: ${result.txHash}`);
+    console.log(`✅ ${result.mode === 'paper' ? 'Paper trade' : 'Trade'} executed successfully: ${result.txHash}`);
     
     res.json(response);
   } catch (error: any) {
@@ -86,6 +102,122 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/blockchain/relay/quote
+ * Nonce and relayer fee for a user's next gasless trade intent
+ */
+router.get('/relay/quote', async (req, res) => {
+  try {
+    const { user, tokenOut } = req.query;
+
+    if (typeof user !== 'string' || !ADDRESS_PATTERN.test(user) ||
+        typeof tokenOut !== 'string' || !ADDRESS_PATTERN.test(tokenOut)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'user and tokenOut must be valid addresses',
+        timestamp: Date.now()
+      });
+    }
+
+    const web3Server = Web3Server.getInstance();
+    await web3Server.initialize();
+
+    const relayer = web3Server.getRelayerAddress();
+    if (!relayer) {
+      return res.status(503).json({
+        error: 'Relayer unavailable',
+        message: 'Gasless trading is not configured on this server',
+        timestamp: Date.now()
+      });
+    }
+
+    const response: RelayQuoteResponse = {
+      relayer,
+      nonce: (await web3Server.getIntentNonce(user)).toString(),
+      relayerFee: (await web3Server.quoteRelayerFee(tokenOut)).toString(),
+      timestamp: Date.now()
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('❌ Relay quote failed:', error);
+
+    res.status(500).json({
+      error: 'Relay quote failed',
+      message: error instanceof Error ? error.message : 'Failed to quote relayer fee',
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * POST /api/blockchain/relay
+ * Submit a signed trade intent; the relayer pays gas and takes its fee from the output
+ */
+router.post('/relay', async (req, res) => {
+  try {
+    const { intent, signature }: RelayIntentRequest = req.body;
+
+    console.log('🔗 Gasless trade intent received');
+
+    if (!intent || typeof signature !== 'string' || !/^0x[a-fA-F0-9]+$/.test(signature)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'intent and a hex signature are required',
+        timestamp: Date.now()
+      });
+    }
+
+    if (![intent.user, intent.tokenIn, intent.tokenOut].every(address => typeof address === 'string' && ADDRESS_PATTERN.test(address))) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'intent user, tokenIn and tokenOut must be valid addresses',
+        timestamp: Date.now()
+      });
+    }
+
+    const amounts = [intent.amountIn, intent.amountOutMin, intent.maxRelayerFee, intent.nonce];
+    if (!amounts.every(value => typeof value === 'string' && /^\d+$/.test(value)) || !Number.isInteger(intent.deadline)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'intent amounts and nonce must be integer strings in wei, and deadline a unix timestamp',
+        timestamp: Date.now()
+      });
+    }
+
+    const web3Server = Web3Server.getInstance();
+    await web3Server.initialize();
+
+    const result = await web3Server.submitTradeIntent(intent, signature);
+
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Trade intent failed',
+        message: result.error || 'Failed to relay trade intent',
+        timestamp: Date.now()
+      });
+    }
+
+    const response: RelayIntentResponse = {
+      txHash: result.txHash!,
+      relayerFee: result.relayerFee!,
+      timestamp: Date.now()
+    };
+
+    console.log(`✅ Trade intent relayed: ${result.txHash}`);
+
+    res.json(response);
+  } catch (error) {
+    console.error('❌ Trade intent relay failed:', error);
+
+    res.status(500).json({
+      error: 'Trade intent relay failed',
+      message: error instanceof Error ? error.message : 'Failed to relay trade intent',
+      timestamp: Date.now()
+    });
+  }
+});
+
 /**
  * GET /api/blockchain/status
  * Get blockchain connection and account status
@@ -113,13 +245,14 @@ router.get('/status', async (req, res) => {
 });
 
 /**
- * GET /api/blockchain/balances
- * Get current account balances
+ * GET /api/blockchain/balances?account=&tokens=
+ * Get current account balances, with ERC20 balances for a comma-separated
+ * list of token addresses
  */
 router.get('/balances', async (req, res) => {
   try {
     const web3Server = Web3Server.getInstance();
-    const { account } = req.query;
+    const { account, tokens } = req.query;
     
     if (!account || typeof account !== 'string') {
       return res.status(400).json({
@@ -128,12 +261,28 @@ router.get('/balances', async (req, res) => {
         timestamp: Date.now()
       });
     }
+
+    const tokenAddresses = typeof tokens === 'string' && tokens ? tokens.split(',') : [];
+    if (tokens !== undefined && (typeof tokens !== 'string' || !tokenAddresses.every(token => ADDRESS_PATTERN.test(token)))) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'tokens must be a comma-separated list of addresses',
+        timestamp: Date.now()
+      });
+    }
+
+    await web3Server.initialize();
     
     const avaxBalance = await web3Server.getTokenBalance('0x0000000000000000000000000000000000000000', account);
+    const tokenBalances: Record<string, string> = {};
+    for (const token of tokenAddresses) {
+      tokenBalances[token] = await web3Server.getTokenBalance(token, account);
+    }
     
     res.json({
       account,
       avaxBalance,
+      tokenBalances,
       timestamp: Date.now()
     });
   } catch (error: any) {
@@ -147,4 +296,79 @@ router.get('/balances', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/blockchain/accounts/:address/mode
+ * Get the execution mode (live or paper) used for an account
+ */
+router.get('/accounts/:address/mode', (req, res) => {
+  const { address } = req.params;
+
+  if (!ADDRESS_PATTERN.test(address)) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Account address must be a valid address',
+      timestamp: Date.now()
+    });
+  }
+
+  res.json({
+    account: address,
+    mode: Web3Server.getInstance().getExecutionMode(address),
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * PUT /api/blockchain/accounts/:address/mode
+ * Pin an account to live or paper execution. The account must sign
+ * executionModeMessage(address, mode, timestamp) with its own key.
+ */
+router.put('/accounts/:address/mode', (req, res) => {
+  const { address } = req.params;
+  const { mode, timestamp, signature } = req.body;
+
+  if (!ADDRESS_PATTERN.test(address)) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Account address must be a valid address',
+      timestamp: Date.now()
+    });
+  }
+
+  if (mode !== 'live' && mode !== 'paper') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: "mode must be either 'live' or 'paper'",
+      timestamp: Date.now()
+    });
+  }
+
+  if (!Number.isInteger(timestamp) || typeof signature !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'timestamp (unix seconds) and signature are required',
+      timestamp: Date.now()
+    });
+  }
+
+  const web3Server = Web3Server.getInstance();
+  try {
+    web3Server.verifyExecutionModeSignature(address, mode, timestamp, signature);
+  } catch (error) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: error instanceof Error ? error.message : 'Invalid signature',
+      timestamp: Date.now()
+    });
+  }
+
+  web3Server.setExecutionMode(address, mode);
+
+  res.json({
+    account: address,
+    mode,
+    timestamp: Date.now()
+  });
+});
+
 export { router as blockchainRouter };
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ChainIndexer } from '../libs/chainIndexer';
+
+const router = Router();
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const PageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const TradeQuerySchema = PageSchema.extend({
+  user: z.string().regex(ADDRESS_PATTERN).optional()
+});
+
+const PredictionQuerySchema = PageSchema.extend({
+  pairKey: z.string().regex(/^0x[a-fA-F0-9]{64}$/).optional()
+});
+
+/**
+ * GET /api/chain/trades?user=
+ * TradeExecuted events reconstructed by the indexer, newest first
+ */
+router.get('/trades', (req, res) => {
+  const validationResult = TradeQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid trade query',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    const indexer = ChainIndexer.getInstance();
+    const { limit, offset, user } = validationResult.data;
+    const { trades, total } = indexer.getTrades({ user, limit, offset });
+
+    res.json({
+      success: true,
+      data: {
+        trades,
+        pagination: {
+          limit,
+          offset,
+          total,
+          hasMore: offset + limit < total
+        },
+        lastIndexedBlock: indexer.getStatus().lastIndexedBlock
+      },
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch trades',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * GET /api/chain/predictions?pairKey=
+ * PredictionSet events from the oracle, newest first
+ */
+router.get('/predictions', (req, res) => {
+  const validationResult = PredictionQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid prediction query',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: ChainIndexer.getInstance().getPredictions(validationResult.data),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch predictions',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * GET /api/chain/emergency-withdrawals
+ */
+router.get('/emergency-withdrawals', (req, res) => {
+  const validationResult = PageSchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid query',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: ChainIndexer.getInstance().getEmergencyWithdrawals(validationResult.data),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch emergency withdrawals',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * GET /api/chain/status
+ * Indexing progress and the last sync error, if any
+ */
+router.get('/status', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: ChainIndexer.getInstance().getStatus(),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get indexer status',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+export { router as chainRouter };
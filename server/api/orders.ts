@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { OrderManager } from '../libs/orderManager';
+
+const router = Router();
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const OrderRequestSchema = z.object({
+  type: z.enum(['limit', 'stop_loss', 'take_profit', 'trailing_stop']),
+  userAddress: z.string().regex(ADDRESS_PATTERN),
+  fromToken: z.string().regex(ADDRESS_PATTERN),
+  toToken: z.string().regex(ADDRESS_PATTERN),
+  amount: z.string().regex(/^\d+$/).refine(amount => BigInt(amount) > 0n, 'Amount must be positive'),
+  triggerPrice: z.number().positive().optional(),
+  trailingPercent: z.number().positive().lt(100).optional(),
+  slippage: z.number().min(0).max(10).optional(),
+  mode: z.enum(['live', 'paper']).optional()
+}).refine(
+  order => order.type === 'trailing_stop' ? order.trailingPercent !== undefined : order.triggerPrice !== undefined,
+  { message: 'Trailing stops need trailingPercent, other orders need triggerPrice' }
+);
+
+const PlaceOrderSchema = z.union([
+  z.object({ oco: z.array(OrderRequestSchema).min(2).max(5) }),
+  OrderRequestSchema
+]);
+
+const OrderQuerySchema = z.object({
+  userAddress: z.string().regex(ADDRESS_PATTERN).optional(),
+  status: z.enum(['pending', 'triggered', 'filled', 'cancelled', 'failed']).optional()
+});
+
+/**
+ * POST /api/orders
+ * Place a conditional order, or a one-cancels-the-other group via { oco: [...] }
+ */
+router.post('/', (req, res) => {
+  const validationResult = PlaceOrderSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid order request',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    const orderManager = OrderManager.getInstance();
+    const body = validationResult.data;
+    const orders = 'oco' in body ? orderManager.placeOcoOrders(body.oco) : [orderManager.placeOrder(body)];
+
+    res.status(201).json({
+      success: true,
+      data: orders,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Order rejected',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * GET /api/orders
+ * List orders, optionally filtered by account and status
+ */
+router.get('/', (req, res) => {
+  const validationResult = OrderQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Invalid order query',
+      details: validationResult.error.errors,
+      timestamp: Date.now()
+    });
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: OrderManager.getInstance().listOrders(validationResult.data),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list orders',
+      message: (error as Error).message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * GET /api/orders/:id
+ */
+router.get('/:id', (req, res) => {
+  const order = OrderManager.getInstance().getOrder(req.params.id);
+  if (!order) {
+    return res.status(404).json({
+      error: 'Order not found',
+      message: `Order ${req.params.id} not found`,
+      timestamp: Date.now()
+    });
+  }
+
+  res.json({
+    success: true,
+    data: order,
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * DELETE /api/orders/:id
+ * Cancel a pending order and any OCO siblings
+ */
+router.delete('/:id', (req, res) => {
+  try {
+    const cancelled = OrderManager.getInstance().cancelOrder(req.params.id);
+
+    res.json({
+      success: true,
+      data: cancelled,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+
+    res.status(/not found/.test(message) ? 404 : 409).json({
+      error: 'Cancel failed',
+      message,
+      timestamp: Date.now()
+    });
+  }
+});
+
+export { router as ordersRouter };
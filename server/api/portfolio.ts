@@ -5,124 +5,16 @@
 
 import express from 'express';
 import { SimpleAISystem } from '../libs/simpleAI';
-import { collectHistoricalData } from '../libs/dataCollection';
+import { z } from 'zod';
+import { MarketDataPoint } from '../libs/dataCollection';
+import { LedgerSnapshot, LedgerSummary, TradeLedger, TradeSource } from '../libs/tradeLedger';
+import { MetricsCollector } from '../utils/metrics';
 
 export const portfolioRouter = express.Router();
 
 let simpleAI: SimpleAISystem | null = null;
 let isInitializing = false;
 
-// Mock Portfolio Data
-const mockPortfolioHoldings = {
-  AVAX: {
-    amount: 1250.5,
-    value: 31262.5,
-    allocation: 0.65,
-    performance: 0.0234,
-    avgPrice: 24.85
-  },
-  USDT: {
-    amount: 8500.0,
-    value: 8500.0,
-    allocation: 0.18,
-    performance: 0.0,
-    avgPrice: 1.0
-  },
-  'PANGOLIN-LP': {
-    amount: 125.75,
-    value: 3125.0,
-    allocation: 0.07,
-    performance: 0.0156,
-    avgPrice: 24.85
-  },
-  'JOE-LP': {
-    amount: 89.25,
-    value: 2225.0,
-    allocation: 0.05,
-    performance: 0.0089,
-    avgPrice: 24.92
-  },
-  'BENQI': {
-    amount: 1250.0,
-    value: 3125.0,
-    allocation: 0.05,
-    performance: -0.0123,
-    avgPrice: 2.5
-  }
-};
-
-// Mock Trading History
-const generateMockTradingHistory = () => {
-  const history = [];
-  const baseDate = new Date('2025-05-01'); // Start from May 2025
-  const basePrice = 20.0;
-  
-  for (let i = 0; i < 90; i++) {
-    const date = new Date(baseDate);
-    date.setDate(date.getDate() + i);
-    
-    // Generate realistic price movements
-    const volatility = 0.03;
-    const trend = 0.0005;
-    const randomWalk = (Math.random() - 0.5) * volatility;
-    const price = basePrice * Math.exp(trend * i + randomWalk);
-    
-    // Generate trading activity
-    const tradeType = Math.random() > 0.7 ? 'BUY' : (Math.random() > 0.5 ? 'SELL' : 'HOLD');
-    const amount = tradeType !== 'HOLD' ? Math.random() * 100 + 10 : 0;
-    const profit = tradeType === 'SELL' ? (Math.random() - 0.4) * 500 : 0;
-    
-    history.push({
-      id: `trade_${i}`,
-      timestamp: date.toISOString(),
-      type: tradeType,
-      asset: 'AVAX',
-      amount: parseFloat(amount.toFixed(2)),
-      price: parseFloat(price.toFixed(4)),
-      value: parseFloat((amount * price).toFixed(2)),
-      profit: parseFloat(profit.toFixed(2)),
-      gasUsed: tradeType !== 'HOLD' ? Math.floor(Math.random() * 200000) + 100000 : 0,
-      gasPrice: parseFloat((Math.random() * 50 + 20).toFixed(2)),
-      txHash: tradeType !== 'HOLD' ? `0x${Math.random().toString(16).substring(2, 66)}` : null,
-      status: tradeType !== 'HOLD' ? 'CONFIRMED' : null,
-      aiSignal: tradeType !== 'HOLD' ? (Math.random() > 0.3 ? 'BUY' : 'SELL') : null,
-      confidence: tradeType !== 'HOLD' ? Math.floor(Math.random() * 30) + 70 : null
-    });
-  }
-  
-  return history.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-};
-
-// Mock Portfolio Performance History
-const generateMockPerformanceHistory = () => {
-  const history = [];
-  const baseDate = new Date('2025-05-01'); // Start from May 2025
-  let baseValue = 45000;
-  
-  for (let i = 0; i < 90; i++) {
-    const date = new Date(baseDate);
-    date.setDate(date.getDate() + i);
-    
-    // Generate realistic portfolio value movements
-    const dailyReturn = (Math.random() - 0.48) * 0.04; // Slightly positive bias
-    baseValue *= (1 + dailyReturn);
-    
-    const totalReturn = ((baseValue - 45000) / 45000) * 100;
-    const dailyReturnPercent = dailyReturn * 100;
-    
-    history.push({
-      timestamp: date.toISOString(),
-      totalValue: parseFloat(baseValue.toFixed(2)),
-      totalReturn: parseFloat(totalReturn.toFixed(4)),
-      dailyReturn: parseFloat(dailyReturnPercent.toFixed(4)),
-      avaxPrice: parseFloat((20 + Math.random() * 10).toFixed(4)),
-      volume: Math.floor(Math.random() * 1000000) + 500000
-    });
-  }
-  
-  return history;
-};
-
 // Initialize Simple AI System
 async function initializeSimpleAI() {
   if (simpleAI?.isReady() || isInitializing) {
@@ -145,6 +37,100 @@ async function initializeSimpleAI() {
 // Initialize on startup
 initializeSimpleAI();
 
+const DAYS_PER_YEAR = 365;
+const VAR_CONFIDENCE = 0.95;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Daily AVAX returns keyed by ISO date, from the collector's history
+ */
+function benchmarkReturns(points: MarketDataPoint[]): Map<string, number> {
+  const closes = new Map<string, number>();
+  points.forEach(point => {
+    const ms = point.timestamp < 1e12 ? point.timestamp * 1000 : point.timestamp;
+    closes.set(new Date(ms).toISOString().slice(0, 10), point.close || point.price);
+  });
+
+  const returns = new Map<string, number>();
+  let previous: number | undefined;
+  [...closes.entries()].sort(([a], [b]) => a.localeCompare(b)).forEach(([day, close]) => {
+    if (previous) returns.set(day, (close - previous) / previous);
+    previous = close;
+  });
+  return returns;
+}
+
+/**
+ * Portfolio and risk metrics from the ledger's daily snapshots.
+ * Benchmark-relative figures stay at 0 until the ledger and the AVAX history share at least two days.
+ */
+function computeLedgerMetrics(snapshots: LedgerSnapshot[], summary: LedgerSummary, benchmark: Map<string, number>) {
+  const dailyReturns = snapshots.map(snapshot => snapshot.dailyReturn / 100);
+  const averageReturn = mean(dailyReturns);
+  const volatility = standardDeviation(dailyReturns);
+
+  let peak = 1;
+  let maxDrawdown = 0;
+  snapshots.forEach(snapshot => {
+    const wealth = 1 + snapshot.totalReturn / 100;
+    peak = Math.max(peak, wealth);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - wealth) / peak);
+  });
+
+  const tail = [...dailyReturns].sort((a, b) => a - b)
+    .slice(0, Math.max(1, Math.floor(dailyReturns.length * (1 - VAR_CONFIDENCE))));
+  const valueAtRisk = dailyReturns.length > 0 ? Math.max(0, -tail[tail.length - 1]) : 0;
+  const conditionalVaR = dailyReturns.length > 0 ? Math.max(0, -mean(tail)) : 0;
+
+  const paired = snapshots
+    .map(snapshot => ({ portfolio: snapshot.dailyReturn / 100, market: benchmark.get(snapshot.timestamp.slice(0, 10)) }))
+    .filter((pair): pair is { portfolio: number; market: number } => pair.market !== undefined);
+  const portfolioSeries = paired.map(pair => pair.portfolio);
+  const marketSeries = paired.map(pair => pair.market);
+  const marketVariance = standardDeviation(marketSeries) ** 2;
+  const portfolioMean = mean(portfolioSeries);
+  const marketMean = mean(marketSeries);
+  const covariance = paired.length > 1
+    ? paired.reduce((sum, pair) => sum + (pair.portfolio - portfolioMean) * (pair.market - marketMean), 0) / (paired.length - 1)
+    : 0;
+  const portfolioDeviation = standardDeviation(portfolioSeries);
+  const marketDeviation = standardDeviation(marketSeries);
+  const activeReturns = paired.map(pair => pair.portfolio - pair.market);
+  const trackingError = standardDeviation(activeReturns);
+  const beta = marketVariance > 0 ? covariance / marketVariance : 0;
+
+  return {
+    portfolio: {
+      totalReturn: snapshots.length > 0 ? snapshots[snapshots.length - 1].totalReturn : 0,
+      annualizedReturn: averageReturn * DAYS_PER_YEAR * 100,
+      sharpeRatio: volatility > 0 ? (averageReturn / volatility) * Math.sqrt(DAYS_PER_YEAR) : 0,
+      maxDrawdown,
+      volatility,
+      beta,
+      winRate: summary.winRate / 100,
+      profitFactor: summary.grossLoss > 0 ? summary.grossProfit / summary.grossLoss : 0,
+      averageTrade: summary.totalVolume > 0 ? summary.totalProfit / summary.totalVolume : 0
+    },
+    risk: {
+      var: valueAtRisk,
+      cvar: conditionalVaR,
+      beta,
+      correlation: portfolioDeviation > 0 && marketDeviation > 0 ? covariance / (portfolioDeviation * marketDeviation) : 0,
+      trackingError,
+      informationRatio: trackingError > 0 ? (mean(activeReturns) / trackingError) * Math.sqrt(DAYS_PER_YEAR) : 0
+    }
+  };
+}
+
 /**
  * Get comprehensive portfolio metrics
  */
@@ -154,56 +140,35 @@ portfolioRouter.get('/metrics', async (req, res) => {
       await initializeSimpleAI();
     }
 
-    // Get current AI prediction for accuracy calculation
-    const currentPrediction = simpleAI?.generatePrediction();
-    const currentSignal = simpleAI?.generateSignal();
-    const currentPrice = simpleAI?.getCurrentPrice();
-
-    // Calculate total portfolio value
-    const totalValue = Object.values(mockPortfolioHoldings).reduce((sum: number, holding: any) => sum + holding.value, 0);
-    
-    // Calculate weighted performance
-    const weightedPerformance = Object.values(mockPortfolioHoldings).reduce((sum: number, holding: any) => 
-      sum + (holding.performance * holding.allocation), 0);
+    const filter = parseLedgerQuery(req.query);
+    const ledger = TradeLedger.getInstance();
+    const holdings = ledger.getHoldings(filter);
+    const summary = ledger.getSummary(filter);
+    const signals = ledger.getSignalSummary(filter);
+    const snapshots = ledger.getPerformanceHistory(filter);
+    const metrics = computeLedgerMetrics(snapshots, summary, benchmarkReturns(simpleAI?.getHistoricalData() ?? []));
 
     const portfolioMetrics = {
-      totalValue: totalValue,
-      totalReturn: weightedPerformance * 100, // Convert to percentage
-      annualizedReturn: weightedPerformance * 365 * 100, // Annualized
-      sharpeRatio: 1.85,
-      maxDrawdown: 0.023,
-      volatility: 0.045,
-      beta: 1.2,
-      winRate: 0.68,
-      profitFactor: 1.45,
-      averageTrade: 0.008,
-      holdings: mockPortfolioHoldings
-    };
-
-    const riskMetrics = {
-      var: 0.025,
-      cvar: 0.035,
-      beta: 1.2,
-      correlation: 0.85,
-      trackingError: 0.012,
-      informationRatio: 1.15
+      totalValue: Object.values(holdings).reduce((sum, holding) => sum + holding.value, 0),
+      ...metrics.portfolio,
+      holdings
     };
 
     const aiPerformanceMetrics = {
-      predictionAccuracy: currentPrediction ? 0.72 : 0.65,
-      signalEffectiveness: currentSignal ? 0.68 : 0.62,
-      confidenceCorrelation: 0.78,
-      averageConfidence: currentPrediction ? currentPrediction.confidence / 100 : 0.61,
-      signalCount: 156
+      predictionAccuracy: mean(MetricsCollector.getInstance().getMetricsReport().aiModel.accuracy),
+      signalEffectiveness: signals.winRate,
+      confidenceCorrelation: signals.confidenceCorrelation,
+      averageConfidence: signals.averageConfidence,
+      signalCount: signals.signalCount
     };
 
     res.json({
       success: true,
       data: {
         portfolioMetrics,
-        riskMetrics,
+        riskMetrics: metrics.risk,
         aiPerformanceMetrics,
-        currentPrice,
+        currentPrice: simpleAI?.getCurrentPrice(),
         lastUpdated: new Date().toISOString()
       }
     });
@@ -217,16 +182,61 @@ portfolioRouter.get('/metrics', async (req, res) => {
   }
 });
 
+const LedgerTradeSchema = z.object({
+  id: z.string().optional(),
+  timestamp: z.number().optional(),
+  source: z.enum(['paper', 'backtest']),
+  type: z.enum(['BUY', 'SELL', 'HOLD']),
+  asset: z.string().min(1),
+  amount: z.number().nonnegative(),
+  price: z.number().nonnegative(),
+  profit: z.number().optional(),
+  fees: z.number().nonnegative().optional(),
+  slippage: z.number().nullable().optional(),
+  aiSignal: z.string().nullable().optional(),
+  confidence: z.number().nullable().optional(),
+  aiPredictedPrice: z.number().nullable().optional(),
+  userAddress: z.string().nullable().optional(),
+  runId: z.string().nullable().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const RecordTradesSchema = z.object({
+  trades: z.array(LedgerTradeSchema).min(1).max(5000),
+});
+
+const TRADE_TYPES = ['BUY', 'SELL', 'HOLD'] as const;
+const TRADE_SOURCES = ['live', 'paper', 'backtest', 'all'] as const;
+
+/**
+ * Parse the ledger filters shared by the read endpoints.
+ * Defaults to live trades so paper and backtest fills never mix into real holdings.
+ */
+function parseLedgerQuery(query: express.Request['query']) {
+  const source = TRADE_SOURCES.find(s => s === query.source) ?? 'live';
+  const type = TRADE_TYPES.find(t => t === query.type);
+
+  return {
+    source: source as TradeSource | 'all',
+    type,
+    userAddress: typeof query.user === 'string' ? query.user : undefined,
+    runId: typeof query.runId === 'string' ? query.runId : undefined
+  };
+}
+
 /**
  * Get portfolio holdings
  */
 portfolioRouter.get('/holdings', async (req, res) => {
   try {
+    const filter = parseLedgerQuery(req.query);
+    const holdings = TradeLedger.getInstance().getHoldings(filter);
+
     res.json({
       success: true,
       data: {
-        holdings: mockPortfolioHoldings,
-        totalValue: Object.values(mockPortfolioHoldings).reduce((sum: number, holding: any) => sum + holding.value, 0),
+        holdings,
+        totalValue: Object.values(holdings).reduce((sum, holding) => sum + holding.value, 0),
         lastUpdated: new Date().toISOString()
       }
     });
@@ -244,41 +254,24 @@ portfolioRouter.get('/holdings', async (req, res) => {
  */
 portfolioRouter.get('/trading-history', async (req, res) => {
   try {
-    const { limit = 50, offset = 0, type } = req.query;
-    
-    let history = generateMockTradingHistory();
-    
-    // Filter by type if specified
-    if (type && type !== 'ALL') {
-      history = history.filter(trade => trade.type === type);
-    }
-    
-    // Apply pagination
-    const paginatedHistory = history.slice(parseInt(offset as string), parseInt(offset as string) + parseInt(limit as string));
-    
-    // Calculate summary statistics
-    const totalTrades = history.filter(trade => trade.type !== 'HOLD').length;
-    const profitableTrades = history.filter(trade => trade.profit > 0).length;
-    const totalProfit = history.reduce((sum, trade) => sum + trade.profit, 0);
-    const totalVolume = history.reduce((sum, trade) => sum + trade.value, 0);
-    
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const filter = parseLedgerQuery(req.query);
+
+    const ledger = TradeLedger.getInstance();
+    const { trades, total } = ledger.getTrades({ ...filter, limit, offset });
+    const summary = ledger.getSummary(filter);
+
     res.json({
       success: true,
       data: {
-        trades: paginatedHistory,
-        summary: {
-          totalTrades,
-          profitableTrades,
-          winRate: totalTrades > 0 ? (profitableTrades / totalTrades) * 100 : 0,
-          totalProfit,
-          totalVolume,
-          averageTradeSize: totalTrades > 0 ? totalVolume / totalTrades : 0
-        },
+        trades,
+        summary,
         pagination: {
-          limit: parseInt(limit as string),
-          offset: parseInt(offset as string),
-          total: history.length,
-          hasMore: parseInt(offset as string) + parseInt(limit as string) < history.length
+          limit,
+          offset,
+          total,
+          hasMore: offset + limit < total
         },
         lastUpdated: new Date().toISOString()
       }
@@ -293,47 +286,56 @@ portfolioRouter.get('/trading-history', async (req, res) => {
 });
 
 /**
- * Get portfolio history for charting
+ * Record paper or backtest trades in the ledger.
+ * Live fills are written by the Web3 server and cannot be posted here.
  */
-portfolioRouter.get('/history', async (req, res) => {
+portfolioRouter.post('/trades', async (req, res) => {
   try {
-    const historicalData = await collectHistoricalData();
-    
-    if (historicalData.length === 0) {
-      // Use mock data if no real data available
-      const mockHistory = generateMockPerformanceHistory();
-      
-      return res.json({
-        success: true,
-        data: {
-          history: mockHistory,
-          totalDataPoints: mockHistory.length,
-          timeRange: {
-            start: mockHistory[mockHistory.length - 1]?.timestamp,
-            end: mockHistory[0]?.timestamp
-          }
-        }
+    const validationResult = RecordTradesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Invalid trade data format',
+        details: validationResult.error.errors,
+        timestamp: Date.now()
       });
     }
 
-    // Convert to portfolio history format
-    const portfolioHistory = historicalData.slice(-30).map((data: any, index: number) => ({
-      timestamp: data.timestamp,
-      totalValue: data.price * 100,
-      totalReturn: (data.price / historicalData[0].price - 1) * 100,
-      dailyReturn: index > 0 ? (data.price / historicalData[index - 1].price - 1) * 100 : 0,
-      volume: data.volume,
-      price: data.price
-    }));
+    const recorded = TradeLedger.getInstance().recordTrades(validationResult.data.trades);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        recorded: recorded.length,
+        ids: recorded.map(trade => trade.id)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Record trades error:', error);
+    res.status(500).json({
+      error: 'Failed to record trades',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * Get portfolio history for charting
+ */
+portfolioRouter.get('/history', async (req, res) => {
+  try {
+    const filter = parseLedgerQuery(req.query);
+    const history = TradeLedger.getInstance().getPerformanceHistory(filter);
 
     res.json({
       success: true,
       data: {
-        history: portfolioHistory,
-        totalDataPoints: portfolioHistory.length,
+        history,
+        totalDataPoints: history.length,
         timeRange: {
-          start: new Date(portfolioHistory[0]?.timestamp * 1000).toISOString(),
-          end: new Date(portfolioHistory[portfolioHistory.length - 1]?.timestamp * 1000).toISOString()
+          start: history[0]?.timestamp,
+          end: history[history.length - 1]?.timestamp
         }
       }
     });
@@ -14,10 +14,20 @@ const MarketDataPointSchema = z.object({
   low: z.number().positive(),
   open: z.number().positive(),
   close: z.number().positive(),
+  sma7: z.number().optional(),
+  sma14: z.number().optional(),
+  sma30: z.number().optional(),
+  ema10: z.number().optional(),
+  ema30: z.number().optional(),
+  volatility: z.number().nonnegative().optional(),
+  momentum: z.number().optional(),
+  volumeSMA: z.number().nonnegative().optional(),
 });
 
 const PredictRequestSchema = z.object({
   recentData: z.array(MarketDataPointSchema).optional(),
+  horizons: z.array(z.number().int().positive()).min(1).optional(),
+  series: z.string().min(1).max(100).optional(),
 });
 
 /**
@@ -37,33 +47,46 @@ router.post('/', async (req, res) => {
       });
     }
 
-    const { recentData }: PredictRequest = validationResult.data;
+    const { recentData, horizons, series }: PredictRequest = validationResult.data;
     
-    // Validate minimum data points if recentData is provided
-    if (recentData && recentData.length < 60) {
+    // Get AI system instance
+    const aiSystem = AISystem.getInstance();
+    
+    // Only horizons the LSTM has an output head for can be forecast
+    const availableHorizons = aiSystem.getForecastHorizons();
+    if (horizons?.some(horizon => !availableHorizons.includes(horizon))) {
+      return res.status(400).json({
+        error: 'Unsupported horizon',
+        message: `Horizons must be among ${availableHorizons.join(', ')}`,
+        timestamp: Date.now()
+      });
+    }
+    
+    // Validate minimum data points for the model's window and indicators
+    const requiredHistory = aiSystem.getRequiredHistory(recentData);
+    if (recentData && recentData.length < requiredHistory) {
       return res.status(400).json({
         error: 'Insufficient data',
-        message: 'At least 60 data points are required for prediction',
+        message: `At least ${requiredHistory} data points are required for prediction`,
         timestamp: Date.now()
       });
     }
     
     console.log('📊 Prediction request received');
     
-    // Get AI system instance
-    const aiSystem = AISystem.getInstance();
-    
     // Get prediction
     if (!recentData) {
       throw new Error('No market data available for prediction');
     }
-    const priceData = recentData.map((d: any) => d.price);
-    const prediction = await aiSystem.predict(priceData);
+    const prediction = await aiSystem.predict(recentData, horizons, series);
     
     const response: PredictResponse = {
       price: prediction.price,
       confidence: prediction.confidence,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      interval: prediction.interval,
+      calibration: prediction.calibration,
+      horizons: prediction.horizons?.map(({ horizon, price, confidence, interval }) => ({ horizon, price, confidence, interval }))
     };
     
     console.log(`✅ Prediction generated: $${prediction.price.toFixed(2)} (${prediction.confidence.toFixed(1)}% confidence)`);
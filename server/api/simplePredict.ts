@@ -4,10 +4,15 @@
 
 import express from 'express';
 import { SimpleAISystem } from '../libs/simpleAI';
-import { collectHistoricalData } from '../libs/dataCollection';
+import { AISystem } from '../libs/aiSystem';
+import { collectHistoricalData, MarketDataPoint } from '../libs/dataCollection';
+import { PredictionResult } from '../libs/aiSystem/types';
+import { Logger } from '../utils/logger';
 
 export const simplePredictRouter = express.Router();
 
+const logger = Logger.getInstance();
+
 let simpleAI: SimpleAISystem | null = null;
 let isInitializing = false;
 
@@ -33,6 +38,25 @@ async function initializeSimpleAI() {
 // Initialize on startup
 initializeSimpleAI();
 
+/**
+ * Calibrated p10-p90 band and per-horizon forecasts from the trained models,
+ * when they are loaded and the history covers their window
+ */
+async function modelForecast(history: MarketDataPoint[]): Promise<Pick<PredictionResult, 'interval' | 'horizons'>> {
+  const aiSystem = AISystem.getInstance();
+  if (!aiSystem.getSystemState().isInitialized || history.length < aiSystem.getRequiredHistory(history)) {
+    return {};
+  }
+
+  try {
+    const { interval, horizons } = await aiSystem.predict(history, undefined, 'coingecko:AVAX/USD');
+    return { interval, horizons };
+  } catch (error) {
+    logger.warn(`Model forecast unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
 /**
  * Get AI prediction based on real market data
  */
@@ -52,6 +76,7 @@ simplePredictRouter.get('/prediction', async (req, res) => {
     const prediction = simpleAI.generatePrediction();
     const signal = simpleAI.generateSignal();
     const currentPrice = simpleAI.getCurrentPrice();
+    const { interval, horizons } = await modelForecast(simpleAI.getHistoricalData());
 
     res.json({
       success: true,
@@ -59,7 +84,15 @@ simplePredictRouter.get('/prediction', async (req, res) => {
         prediction: {
           price: prediction.price,
           confidence: prediction.confidence * 100, // Convert to percentage
-          timestamp: prediction.timestamp
+          timestamp: prediction.timestamp,
+          interval,
+          // Term structure, with confidence as a percentage like the rest of this response
+          horizons: horizons?.map(forecast => ({
+            horizon: forecast.horizon,
+            price: forecast.price,
+            confidence: forecast.confidence * 100,
+            interval: forecast.interval
+          }))
         },
         signal: {
           action: signal.action,
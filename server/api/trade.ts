@@ -7,56 +7,48 @@ const router = Router();
 /**
  * POST /api/trade
  * Get RL trading decision
+ * Body: { prices, portfolioRatio }. The market state is encoded from `prices`,
+ * so they are required; the `features` object earlier clients sent is
+ * accepted but no longer read.
  */
 router.post('/', async (req, res) => {
   try {
-    const { features, portfolioRatio }: TradeRequest = req.body;
+    const { prices, portfolioRatio }: TradeRequest = req.body;
     
     console.log('🎯 Trading decision request received');
     
     // Validate input parameters
-    if (!features) {
+    if (typeof portfolioRatio !== 'number' || portfolioRatio < 0 || portfolioRatio > 1) {
       return res.status(400).json({
         error: 'Invalid request',
-        message: 'Features are required',
+        message: 'Portfolio ratio must be a number between 0 and 1',
         timestamp: Date.now()
       });
     }
     
-    if (typeof portfolioRatio !== 'number' || portfolioRatio < 0 || portfolioRatio > 1) {
+    if (!Array.isArray(prices) || prices.length === 0 || !prices.every(price => typeof price === 'number' && price > 0)) {
       return res.status(400).json({
         error: 'Invalid request',
-        message: 'Portfolio ratio must be a number between 0 and 1',
+        message: 'Prices must be a non-empty array of positive numbers',
         timestamp: Date.now()
       });
     }
     
-    // Validate features structure
-    const requiredFields = ['price', 'sma7', 'sma14', 'sma30', 'ema10', 'ema30', 'volatility', 'momentum', 'volume', 'priceChange', 'volumeChange'];
-    for (const field of requiredFields) {
-      if (typeof features[field as keyof typeof features] !== 'number') {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: `Feature '${field}' must be a number`,
-          timestamp: Date.now()
-        });
-      }
-    }
-    
     // Get AI system instance
     const aiSystem = AISystem.getInstance();
     
     // Get trading decision
-    const featureArray = Object.values(features).map(v => typeof v === 'number' ? v : 0);
-    const decision = aiSystem.getDecision(featureArray, portfolioRatio);
+    const decision = aiSystem.getDecision(prices, portfolioRatio);
     
     const response: TradeResponse = {
-      action: decision.action as 'BUY' | 'SELL' | 'HOLD',
+      action: decision.action,
       confidence: decision.confidence,
+      qValues: decision.qValues,
+      state: decision.state,
       timestamp: Date.now()
     };
     
-    console.log(`✅ Trading decision: ${decision.action} (${decision.confidence.toFixed(1)}% confidence)`);
+    console.log(`✅ Trading decision: ${decision.action} (${(decision.confidence * 100).toFixed(1)}% confidence)`);
     
     res.json(response);
   } catch (error: any) {
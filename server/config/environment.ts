@@ -32,11 +32,27 @@ interface EnvironmentConfig {
     modelPerformanceThreshold: number;
     memoryLimit: number;
     gcInterval: number;
+    rlBackend: 'table' | 'dqn';
   };
   blockchain: {
     avalancheRpcUrl: string;
     privateKey?: string;
+    relayerPrivateKey?: string;
+    aiTraderAddress: string;
+    priceOracleAddress: string;
     gasLimit: number;
+    paperTrading: {
+      defaultMode: 'live' | 'paper';
+      accounts: string[];
+      avaxReserve: number;
+    };
+    indexer: {
+      enabled: boolean;
+      startBlock: number;
+      confirmations: number;
+      pollInterval: number;
+      batchSize: number;
+    };
   };
   external: {
     openaiApiKey?: string;
@@ -106,11 +122,27 @@ export class EnvironmentManager {
         modelPerformanceThreshold: parseFloat(process.env.MODEL_PERFORMANCE_THRESHOLD || '0.85'),
         memoryLimit: parseInt(process.env.MEMORY_LIMIT || '2048'),
         gcInterval: parseInt(process.env.GC_INTERVAL || '300000'),
+        rlBackend: process.env.RL_BACKEND === 'dqn' ? 'dqn' : 'table',
       },
       blockchain: {
         avalancheRpcUrl: process.env.AVALANCHE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc',
         privateKey: process.env.PRIVATE_KEY,
+        relayerPrivateKey: process.env.RELAYER_PRIVATE_KEY,
+        aiTraderAddress: process.env.VITE_AI_POWERED_TRADER_ADDRESS || '',
+        priceOracleAddress: process.env.VITE_PRICE_ORACLE_ADDRESS || '',
         gasLimit: parseInt(process.env.GAS_LIMIT || '300000'),
+        paperTrading: {
+          defaultMode: process.env.EXECUTION_MODE === 'paper' ? 'paper' : 'live',
+          accounts: (process.env.PAPER_TRADING_ACCOUNTS || '').split(',').map(a => a.trim()).filter(Boolean),
+          avaxReserve: parseInt(process.env.PAPER_POOL_AVAX_RESERVE || '100000'),
+        },
+        indexer: {
+          enabled: process.env.INDEXER_ENABLED === 'true',
+          startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'),
+          confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '12'),
+          pollInterval: parseInt(process.env.INDEXER_POLL_INTERVAL || '5000'),
+          batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '2000'),
+        },
       },
       external: {
         openaiApiKey: this.getEncryptedApiKey('OPENAI_API_KEY'),
@@ -162,11 +194,27 @@ export class EnvironmentManager {
         modelPerformanceThreshold: Joi.number().min(0).max(1).default(0.85),
         memoryLimit: Joi.number().min(512).max(8192).default(2048),
         gcInterval: Joi.number().min(60000).max(900000).default(300000),
+        rlBackend: Joi.string().valid('table', 'dqn').default('table'),
       }),
       blockchain: Joi.object({
         avalancheRpcUrl: Joi.string().uri().required(),
         privateKey: Joi.string().optional(),
+        relayerPrivateKey: Joi.string().optional(),
+        aiTraderAddress: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).allow('').default(''),
+        priceOracleAddress: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).allow('').default(''),
         gasLimit: Joi.number().min(21000).max(1000000).default(300000),
+        paperTrading: Joi.object({
+          defaultMode: Joi.string().valid('live', 'paper').default('live'),
+          accounts: Joi.array().items(Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/)).default([]),
+          avaxReserve: Joi.number().min(1).default(100000),
+        }),
+        indexer: Joi.object({
+          enabled: Joi.boolean().default(false),
+          startBlock: Joi.number().min(0).default(0),
+          confirmations: Joi.number().min(0).max(1000).default(12),
+          pollInterval: Joi.number().min(1000).max(300000).default(5000),
+          batchSize: Joi.number().min(1).max(100000).default(2000),
+        }),
       }),
       external: Joi.object({
         openaiApiKey: Joi.string().optional(),
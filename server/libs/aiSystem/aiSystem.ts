@@ -1,10 +1,41 @@
 import { Logger } from '../../utils/logger';
 import { CacheManager } from '../../utils/cache';
+import { MetricsCollector } from '../../utils/metrics';
 import { EnvironmentManager } from '../../config/environment';
-import { collectMarketData } from '../dataCollection';
+import { collectMarketData, addTechnicalIndicators } from '../dataCollection';
+import { ModelVersionManager } from '../modelVersioning';
 import { ServerLSTMPredictor } from './lstmModel';
 import { QLearningAgent } from './qLearningAgent';
-import { PredictionResult, ModelState } from './types';
+import { MAX_FORECAST_CONFIDENCE } from './forecastInterval';
+import {
+  PredictionResult,
+  ModelState,
+  LSTMModelData,
+  QLearningModelData,
+  ReplayModel,
+  ReplaySignal,
+  SignalReplay,
+  TradingDecision,
+  LSTMInput,
+  HorizonForecast
+} from './types';
+
+/**
+ * A forecast waiting for its target bar, to be scored for per-horizon accuracy
+ */
+interface PendingForecast {
+  /** Pair or data source the forecast's history came from */
+  series: string;
+  horizon: number;
+  /** Timestamp of the bar the forecast is for, in the history's units */
+  targetTimestamp: number;
+  price: number;
+  confidence: number;
+  duration: number;
+}
+
+// Oldest pending forecasts are dropped beyond this
+const MAX_PENDING_FORECASTS = 1000;
 
 /**
  * Main AI System Implementation
@@ -20,14 +51,16 @@ export class AISystem {
   private totalPredictions: number = 0;
   private averageAccuracy: number = 0;
   private modelVersion: string = '1.0.0';
+  private pendingForecasts: PendingForecast[] = [];
   
   private logger = Logger.getInstance();
   private cache = CacheManager.getInstance();
+  private metrics = MetricsCollector.getInstance();
   private envManager = EnvironmentManager.getInstance();
 
   private constructor() {
     this.lstmPredictor = new ServerLSTMPredictor();
-    this.rlAgent = new QLearningAgent();
+    this.rlAgent = new QLearningAgent({ backend: this.envManager.getConfig('ai').rlBackend });
   }
 
   /**
@@ -110,8 +143,8 @@ export class AISystem {
         throw new Error('Insufficient data for training');
       }
 
-      // Train LSTM model
-      await this.lstmPredictor.train(prices);
+      // Train LSTM model on the configured features
+      await this.lstmPredictor.train(marketData);
       
       // Train Q-Learning agent
       await this.rlAgent.train(prices, 500); // Reduced episodes for faster training
@@ -138,42 +171,45 @@ export class AISystem {
   }
 
   /**
-   * Make comprehensive prediction using both models
+   * Make comprehensive prediction using both models, with a forecast for
+   * each requested horizon (default: every horizon the LSTM was trained for).
+   * With a series naming the pair or data source the history came from, the
+   * forecasts are scored once a later history of the same series reaches
+   * their target bar.
    */
-  async predict(data: number[]): Promise<PredictionResult> {
+  async predict(data: LSTMInput[], horizons?: number[], series?: string): Promise<PredictionResult> {
     if (!this.isInitialized) {
       throw new Error('AI system not initialized');
     }
 
+    const available = this.getForecastHorizons();
+    const unknown = (horizons ?? []).filter(horizon => !available.includes(horizon));
+    if (unknown.length > 0) {
+      throw new Error(`Horizons must be among ${available.join(', ')}`);
+    }
+
     try {
+      const startTime = Date.now();
       this.totalPredictions++;
+      if (series) {
+        this.scoreForecasts(series, data);
+      }
+      const prices = data.map(point => point.price);
       
       // Get predictions from both models
       const [lstmPrediction, rlPrediction] = await Promise.all([
         this.lstmPredictor.predict(data),
-        this.rlAgent.predict(data)
+        this.rlAgent.predict(prices)
       ]);
       
-      // Combine predictions (weighted average)
-      const lstmWeight = 0.7;
-      const rlWeight = 0.3;
-      
-      const combinedPrice = (lstmPrediction.price * lstmWeight) + (rlPrediction.price * rlWeight);
-      const combinedConfidence = (lstmPrediction.confidence * lstmWeight) + (rlPrediction.confidence * rlWeight);
-      
-      // Determine direction based on combined prediction
-      const currentPrice = data[data.length - 1];
-      const direction = combinedPrice > currentPrice * 1.001 ? 'up' : 
-                       combinedPrice < currentPrice * 0.999 ? 'down' : 'neutral';
-      
-      const result: PredictionResult = {
-        price: combinedPrice,
-        direction,
-        confidence: Math.min(combinedConfidence, 0.95),
-        timestamp: Date.now(),
-        modelType: 'ensemble',
-        features: data.slice(-20) // Last 20 data points
+      const combined = this.combinePredictions(lstmPrediction, rlPrediction, prices);
+      const result = {
+        ...combined,
+        horizons: combined.horizons?.filter(forecast => !horizons || horizons.includes(forecast.horizon))
       };
+      if (series) {
+        this.trackForecasts(series, data, result.horizons ?? [], Date.now() - startTime);
+      }
       
       // Update average accuracy (simplified)
       this.averageAccuracy = (this.averageAccuracy * (this.totalPredictions - 1) + result.confidence) / this.totalPredictions;
@@ -198,6 +234,208 @@ export class AISystem {
     }
   }
 
+  /**
+   * Combine LSTM and Q-learning predictions (weighted average)
+   */
+  private combinePredictions(
+    lstmPrediction: PredictionResult,
+    rlPrediction: PredictionResult,
+    data: number[]
+  ): PredictionResult {
+    const lstmWeight = 0.7;
+    const rlWeight = 0.3;
+    
+    const combinedPrice = (lstmPrediction.price * lstmWeight) + (rlPrediction.price * rlWeight);
+    
+    // The Q-learning forecast is a point with no calibrated spread, so the
+    // band, its coverage and the confidence it implies stay the LSTM's own
+    const interval = lstmPrediction.interval;
+    const combinedConfidence = interval
+      ? lstmPrediction.confidence
+      : (lstmPrediction.confidence * lstmWeight) + (rlPrediction.confidence * rlWeight);
+    
+    // Determine direction based on combined prediction
+    const currentPrice = data[data.length - 1];
+    const direction = combinedPrice > currentPrice * 1.001 ? 'up' : 
+                     combinedPrice < currentPrice * 0.999 ? 'down' : 'neutral';
+    const confidence = Math.min(combinedConfidence, MAX_FORECAST_CONFIDENCE);
+    
+    // The Q-learning agent only looks one bar ahead, so longer horizons are the LSTM's alone
+    const horizons = lstmPrediction.horizons?.map((forecast): HorizonForecast => forecast.horizon === 1
+      ? { horizon: 1, price: combinedPrice, direction, confidence, interval, calibration: forecast.calibration }
+      : forecast
+    );
+    
+    return {
+      price: combinedPrice,
+      direction,
+      confidence,
+      timestamp: Date.now(),
+      modelType: 'ensemble',
+      features: data.slice(-20), // Last 20 data points
+      ...(interval ? { interval, calibration: lstmPrediction.calibration } : {}),
+      ...(horizons ? { horizons } : {})
+    };
+  }
+
+  /**
+   * Horizons, in bars, the live LSTM forecasts
+   */
+  getForecastHorizons(): number[] {
+    return this.lstmPredictor.getModelState().config.horizons;
+  }
+
+  /**
+   * Remember each forecast until the history reaches its target bar. Bars
+   * are assumed evenly spaced, so the target is `horizon` spacings ahead.
+   */
+  private trackForecasts(series: string, data: LSTMInput[], forecasts: HorizonForecast[], duration: number): void {
+    if (data.length < 2) return;
+
+    const latest = data[data.length - 1].timestamp;
+    const spacing = latest - data[data.length - 2].timestamp;
+    forecasts.forEach(forecast => {
+      this.pendingForecasts.push({
+        series,
+        horizon: forecast.horizon,
+        targetTimestamp: latest + forecast.horizon * spacing,
+        price: forecast.price,
+        confidence: forecast.confidence,
+        duration
+      });
+    });
+    this.pendingForecasts = this.pendingForecasts.slice(-MAX_PENDING_FORECASTS);
+  }
+
+  /**
+   * Score the series' pending forecasts whose target bar is in its history,
+   * recording 1 - relative error as their accuracy at their horizon
+   */
+  private scoreForecasts(series: string, data: LSTMInput[]): void {
+    if (data.length === 0) return;
+
+    const first = data[0].timestamp;
+    const latest = data[data.length - 1].timestamp;
+    const isDue = (forecast: PendingForecast) => forecast.series === series && forecast.targetTimestamp <= latest;
+    const due = this.pendingForecasts.filter(isDue);
+    this.pendingForecasts = this.pendingForecasts.filter(forecast => !isDue(forecast));
+
+    due.filter(forecast => forecast.targetTimestamp >= first).forEach(forecast => {
+      const actual = data.find(point => point.timestamp >= forecast.targetTimestamp)!;
+      const accuracy = Math.max(0, 1 - Math.abs(forecast.price - actual.price) / actual.price);
+      this.metrics.recordAIModelPerformance(
+        'ensemble',
+        accuracy,
+        forecast.confidence,
+        forecast.duration,
+        process.memoryUsage().heapUsed,
+        forecast.horizon
+      );
+    });
+  }
+
+  /**
+   * Bars of market data the live LSTM needs to predict from the given bars
+   */
+  getRequiredHistory(data?: LSTMInput[]): number {
+    return this.lstmPredictor.getRequiredHistory(data);
+  }
+
+  /**
+   * Replay a price history through the models for backtesting.
+   * The prediction for bar i only sees bars[0..i], so no bar's signal can
+   * depend on later prices. With a version, the model is loaded from
+   * ModelVersionManager instead of using the live one.
+   * Bars at or before the model's training time may be in its training set,
+   * so their signals are flagged inSample and are not an honest backtest.
+   * Live models whose training time is unknown are not replayed.
+   */
+  async replay(
+    bars: Array<Omit<LSTMInput, 'price' | 'close'> & { close: number }>,
+    model: ReplayModel,
+    version?: string
+  ): Promise<SignalReplay> {
+    let lstm: ServerLSTMPredictor | null = null;
+    let rl: QLearningAgent | null = null;
+    let modelVersion = this.modelVersion;
+    let trainedAtMs = this.lastTrainingTime;
+
+    if (version) {
+      const { metadata, modelData } = await ModelVersionManager.getInstance().loadModelData(version);
+      const expectedType = model === 'lstm' ? 'lstm' : model === 'reinforcement' ? 'qlearning' : null;
+      if (metadata.modelType !== expectedType) {
+        throw new Error(`Model ${version} is a ${metadata.modelType} model and cannot be replayed as ${model}`);
+      }
+
+      if (model === 'lstm') {
+        lstm = new ServerLSTMPredictor();
+        lstm.loadModelData(modelData as LSTMModelData);
+      } else {
+        rl = new QLearningAgent();
+        rl.loadModelData(modelData as QLearningModelData);
+      }
+      modelVersion = version;
+      trainedAtMs = new Date(metadata.trainingDate).getTime();
+    } else {
+      if (!this.isInitialized) {
+        throw new Error('AI system not initialized');
+      }
+      if (this.lastTrainingTime === 0) {
+        throw new Error(`Live models ${this.modelVersion} have no known training time and cannot be replayed`);
+      }
+      lstm = model === 'reinforcement' ? null : this.lstmPredictor;
+      rl = model === 'lstm' ? null : this.rlAgent;
+    }
+
+    // Bars carry Unix seconds, like the market data collectors produce
+    const trainedAt = Math.floor(trainedAtMs / 1000);
+    const warmup = Math.max(
+      lstm ? lstm.getRequiredHistory() : 1,
+      rl ? rl.getAgentState().config.stateSize : 1
+    );
+    // Indicators only look back, so computing them once keeps bar i blind to later bars
+    const points = addTechnicalIndicators(bars.map(bar => ({ ...bar, price: bar.close })));
+    const closes = bars.map(bar => bar.close);
+    const signals: ReplaySignal[] = [];
+
+    for (let i = warmup - 1; i < bars.length; i++) {
+      const history = closes.slice(0, i + 1);
+      const [lstmPrediction, rlPrediction] = await Promise.all([
+        lstm ? lstm.predict(points.slice(0, i + 1)) : null,
+        rl ? rl.predict(history) : null
+      ]);
+
+      const prediction = lstmPrediction && rlPrediction
+        ? this.combinePredictions(lstmPrediction, rlPrediction, history)
+        : (lstmPrediction ?? rlPrediction)!;
+
+      signals.push({
+        index: i,
+        timestamp: bars[i].timestamp,
+        currentPrice: closes[i],
+        predictedPrice: prediction.price,
+        direction: prediction.direction,
+        confidence: prediction.confidence,
+        modelType: prediction.modelType,
+        inSample: bars[i].timestamp <= trainedAt
+      });
+    }
+
+    this.logger.info(`Replayed ${bars.length} bars through ${model} model ${modelVersion}`, {
+      performance: {
+        duration: 0,
+        memoryUsage: bars.length
+      },
+      trading: {
+        symbol: 'ai_system',
+        action: 'replay',
+        amount: signals.length
+      }
+    });
+
+    return { model, modelVersion, trainedAt, warmup, signals };
+  }
+
   /**
    * Retrain models with new data
    */
@@ -225,7 +463,7 @@ export class AISystem {
 
       // Retrain both models
       await Promise.all([
-        this.lstmPredictor.train(prices),
+        this.lstmPredictor.train(marketData),
         this.rlAgent.train(prices, 1000)
       ]);
       
@@ -316,13 +554,15 @@ export class AISystem {
   }
 
   /**
-   * Get decision (for backward compatibility)
+   * Trading decision from the Q-learning policy for recent prices and the
+   * AVAX share of the portfolio
    */
-  getDecision(features: number[], portfolioRatio: number): { action: string; confidence: number } {
-    return {
-      action: 'hold',
-      confidence: 0.5
-    };
+  getDecision(prices: number[], portfolioRatio: number): TradingDecision {
+    if (!this.isInitialized) {
+      throw new Error('AI system not initialized');
+    }
+
+    return this.rlAgent.decide(prices, portfolioRatio);
   }
 
   /**
@@ -401,6 +641,27 @@ export class AISystem {
     }
   }
 
+  /**
+   * Serve predictions from serialized models, e.g. versions stored by
+   * ModelVersionManager, instead of training on market data. The training
+   * date (ISO 8601, like ModelVersionManager's metadata) is needed to replay them.
+   */
+  restoreModels(
+    models: { lstm: LSTMModelData; qlearning: QLearningModelData },
+    version?: string,
+    trainingDate?: string
+  ): void {
+    this.lstmPredictor.loadModelData(models.lstm);
+    this.rlAgent.loadModelData(models.qlearning);
+    this.isInitialized = true;
+    this.lastTrainingTime = trainingDate ? new Date(trainingDate).getTime() : 0;
+    if (version) {
+      this.modelVersion = version;
+    }
+
+    this.logger.info(`Restored models ${this.modelVersion}`);
+  }
+
   /**
    * Load models
    */
@@ -412,6 +673,7 @@ export class AISystem {
       const lstmState = this.lstmPredictor.getModelState();
       const rlState = this.rlAgent.getAgentState();
       
+      // Saved models carry no training date, so they are not replayed until retrained
       if (lstmState.isInitialized || rlState.isInitialized) {
         this.isInitialized = true;
         this.logger.info('Models loaded successfully', {
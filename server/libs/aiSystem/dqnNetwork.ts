@@ -0,0 +1,149 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { DQNConfig, QLearningModelData } from './types';
+
+/**
+ * Deep Q-Network backend for the Q-learning agent
+ * Learns Q-values over the continuous state vector from a replay buffer of
+ * past transitions, bootstrapping from a periodically synced target network
+ */
+
+export interface Transition {
+  state: number[];
+  action: number;
+  reward: number;
+  nextState: number[];
+}
+
+export class DQNNetwork {
+  private online: tf.Sequential;
+  private target: tf.Sequential;
+  private optimizer: tf.Optimizer;
+  private replayBuffer: Transition[] = [];
+  private replayPosition = 0;
+  private steps = 0;
+  private gradientSteps = 0;
+
+  constructor(
+    private readonly inputSize: number,
+    private readonly actionSize: number,
+    private readonly discountFactor: number,
+    private readonly config: DQNConfig
+  ) {
+    this.online = this.createNetwork();
+    this.target = this.createNetwork();
+    this.target.trainable = false;
+    this.target.setWeights(this.online.getWeights());
+    this.optimizer = tf.train.adam(config.learningRate);
+  }
+
+  /**
+   * Create the Q-value network: state vector in, one Q-value per action out
+   */
+  private createNetwork(): tf.Sequential {
+    const model = tf.sequential();
+    this.config.hiddenUnits.forEach((units, i) => {
+      model.add(tf.layers.dense({
+        units,
+        activation: 'relu',
+        ...(i === 0 ? { inputShape: [this.inputSize] } : {})
+      }));
+    });
+    model.add(tf.layers.dense({
+      units: this.actionSize,
+      activation: 'linear',
+      ...(this.config.hiddenUnits.length === 0 ? { inputShape: [this.inputSize] } : {})
+    }));
+    return model;
+  }
+
+  /**
+   * Q-values of every action for one state
+   */
+  predict(state: number[]): number[] {
+    return tf.tidy(() => {
+      const qValues = this.online.predict(tf.tensor2d([state], [1, this.inputSize])) as tf.Tensor;
+      return Array.from(qValues.dataSync());
+    });
+  }
+
+  /**
+   * Store a transition and, every trainInterval steps, learn from a sampled minibatch
+   */
+  observe(transition: Transition): void {
+    if (this.replayBuffer.length < this.config.replayBufferSize) {
+      this.replayBuffer.push(transition);
+    } else {
+      this.replayBuffer[this.replayPosition] = transition;
+    }
+    this.replayPosition = (this.replayPosition + 1) % this.config.replayBufferSize;
+
+    this.steps++;
+    if (this.steps % this.config.trainInterval === 0 && this.replayBuffer.length >= this.config.batchSize) {
+      this.trainOnBatch();
+    }
+  }
+
+  /**
+   * One gradient step towards r + gamma * max Q_target(s'), then sync the
+   * target network every targetUpdateInterval steps
+   */
+  private trainOnBatch(): void {
+    const batch = Array.from({ length: this.config.batchSize }, () =>
+      this.replayBuffer[Math.floor(Math.random() * this.replayBuffer.length)]
+    );
+
+    tf.tidy(() => {
+      const states = tf.tensor2d(batch.map(t => t.state), [batch.length, this.inputSize]);
+      const nextStates = tf.tensor2d(batch.map(t => t.nextState), [batch.length, this.inputSize]);
+      const rewards = tf.tensor1d(batch.map(t => t.reward));
+      const actionMask = tf.oneHot(tf.tensor1d(batch.map(t => t.action), 'int32'), this.actionSize);
+
+      const nextQ = (this.target.predict(nextStates) as tf.Tensor2D).max(1);
+      const targets = rewards.add(nextQ.mul(this.discountFactor));
+
+      this.optimizer.minimize(() => {
+        const qValues = (this.online.apply(states) as tf.Tensor2D).mul(actionMask).sum(1);
+        return tf.losses.huberLoss(targets, qValues) as tf.Scalar;
+      });
+    });
+
+    this.gradientSteps++;
+    if (this.gradientSteps % this.config.targetUpdateInterval === 0) {
+      this.target.setWeights(this.online.getWeights());
+    }
+  }
+
+  /**
+   * Restore online and target networks from serialized weights
+   */
+  loadWeights(network: NonNullable<QLearningModelData['network']>): void {
+    const variables = this.online.weights;
+    if (variables.length !== network.weights.length) {
+      throw new Error(`Expected ${variables.length} weight tensors, got ${network.weights.length}`);
+    }
+
+    const tensors = variables.map((variable, i) => tf.tensor(network.weights[i], variable.shape as number[]));
+    try {
+      this.online.setWeights(tensors);
+      this.target.setWeights(tensors);
+    } finally {
+      tensors.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  /**
+   * Serialize the online network for ModelVersionManager
+   */
+  exportWeights(): NonNullable<QLearningModelData['network']> {
+    return {
+      layers: this.online.weights.map(variable => ({ name: variable.name, shape: variable.shape as number[] })),
+      weights: this.online.getWeights().map(tensor => Array.from(tensor.dataSync()))
+    };
+  }
+
+  dispose(): void {
+    this.online.dispose();
+    this.target.dispose();
+    this.optimizer.dispose();
+  }
+}
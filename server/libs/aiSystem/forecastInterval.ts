@@ -0,0 +1,103 @@
+import { ForecastInterval, IntervalCalibration } from './types';
+
+/**
+ * Prediction interval helpers
+ * Quantiles of Monte-Carlo samples, split-conformal calibration of the
+ * p10-p90 band, and the confidence its width implies
+ */
+
+// Share of outcomes the p10-p90 band should contain
+export const NOMINAL_COVERAGE = 0.8;
+
+// Band width, relative to the median, at which confidence reaches zero
+const ZERO_CONFIDENCE_WIDTH = 0.1;
+
+// Highest confidence a forecast is reported or published with
+export const MAX_FORECAST_CONFIDENCE = 0.95;
+
+/**
+ * Linearly interpolated quantile of ascending values
+ */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * p10, p50 and p90 of a set of samples
+ */
+export function sampleInterval(samples: number[]): ForecastInterval {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return { p10: quantile(sorted, 0.1), p50: quantile(sorted, 0.5), p90: quantile(sorted, 0.9) };
+}
+
+/**
+ * Widen or narrow each side of the band around p50 by `scale`
+ */
+export function scaleInterval(interval: ForecastInterval, scale: number): ForecastInterval {
+  return {
+    p10: interval.p50 - (interval.p50 - interval.p10) * scale,
+    p50: interval.p50,
+    p90: interval.p50 + (interval.p90 - interval.p50) * scale
+  };
+}
+
+/**
+ * Scale each side of the band needs to reach `actual`
+ */
+function requiredScale(interval: ForecastInterval, actual: number): number {
+  const side = actual < interval.p50 ? interval.p50 - interval.p10 : interval.p90 - interval.p50;
+  const distance = Math.abs(actual - interval.p50);
+  if (distance === 0) return 0;
+  return side > 0 ? distance / side : Infinity;
+}
+
+/**
+ * Share of outcomes inside their band
+ */
+export function intervalCoverage(intervals: ForecastInterval[], actuals: number[]): number {
+  const covered = intervals.filter((interval, i) => actuals[i] >= interval.p10 && actuals[i] <= interval.p90).length;
+  return intervals.length > 0 ? covered / intervals.length : 0;
+}
+
+/**
+ * Split-conformal calibration on held-out forecasts: the band scale is fitted
+ * on alternate forecasts and the coverage it achieves is measured on the rest,
+ * so the calibration score is itself out of sample
+ */
+export function calibrateIntervals(intervals: ForecastInterval[], actuals: number[]): IntervalCalibration {
+  const fitScales = intervals
+    .map((interval, i) => ({ interval, actual: actuals[i] }))
+    .filter((_, i) => i % 2 === 0)
+    .map(({ interval, actual }) => requiredScale(interval, actual))
+    .sort((a, b) => a - b);
+  if (fitScales.length === 0) {
+    return { intervalScale: 1, coverage: 0, samples: 0 };
+  }
+
+  // Finite-sample conformal quantile of the required scales. When too many
+  // outcomes miss a zero-width side no scale reaches them, so the band
+  // collapses to its median and intervalConfidence() scores it zero.
+  const rank = Math.min(fitScales.length - 1, Math.ceil((fitScales.length + 1) * NOMINAL_COVERAGE) - 1);
+  const intervalScale = Number.isFinite(fitScales[rank]) ? fitScales[rank] : 0;
+
+  const scored = intervals.filter((_, i) => i % 2 === 1).map(interval => scaleInterval(interval, intervalScale));
+  return {
+    intervalScale,
+    coverage: intervalCoverage(scored, actuals.filter((_, i) => i % 2 === 1)),
+    samples: scored.length
+  };
+}
+
+/**
+ * Confidence (0-1) implied by the width of the calibrated band, falling to 0
+ * once the band spans ZERO_CONFIDENCE_WIDTH of the price. A zero-width band
+ * says nothing about the spread of outcomes, so it also scores 0.
+ */
+export function intervalConfidence(interval: ForecastInterval): number {
+  if (interval.p50 <= 0 || interval.p90 <= interval.p10) return 0;
+  const relativeWidth = (interval.p90 - interval.p10) / interval.p50;
+  return Math.max(0, Math.min(1, 1 - relativeWidth / ZERO_CONFIDENCE_WIDTH));
+}
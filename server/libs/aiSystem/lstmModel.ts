@@ -1,15 +1,52 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { Logger } from '../../utils/logger';
-import { LSTMConfig, TrainingProgress, PredictionResult } from './types';
+import { addTechnicalIndicators } from '../dataCollection/technicalIndicators';
+import { calibrateIntervals, intervalConfidence, sampleInterval, scaleInterval } from './forecastInterval';
+import {
+  LSTMConfig,
+  LSTMModelData,
+  LSTMFeature,
+  LSTMInput,
+  FeatureScaler,
+  ForecastInterval,
+  HorizonForecast,
+  IntervalCalibration,
+  TrainingProgress,
+  PredictionResult
+} from './types';
 
 /**
  * LSTM Model Implementation
  * Extracted from aiSystem.ts for better modularity
  */
 
+/**
+ * Bars addTechnicalIndicators skips before each indicator is defined
+ */
+const INDICATOR_WARMUP: Partial<Record<LSTMFeature, number>> = {
+  sma7: 6,
+  sma14: 13,
+  sma30: 29,
+  ema10: 9,
+  ema30: 29,
+  volatility: 19,
+  momentum: 13,
+  volumeSMA: 19
+};
+
+/** addTechnicalIndicators leaves shorter series untouched */
+const MIN_INDICATOR_HISTORY = 20;
+
+type FeatureScalers = Partial<Record<LSTMFeature, FeatureScaler>>;
+
+function priceDirection(predicted: number, current: number): PredictionResult['direction'] {
+  return predicted > current ? 'up' : predicted < current ? 'down' : 'neutral';
+}
+
 export class ServerLSTMPredictor {
   private model: tf.Sequential | null = null;
-  private scaler: { min: number; max: number } | null = null;
+  private scalers: FeatureScalers | null = null;
+  private calibration: IntervalCalibration[] | null = null;
   private attentionWeights: number[] = [];
   private modelConfig: LSTMConfig = {
     lstmUnits: [128, 64, 32],
@@ -18,7 +55,10 @@ export class ServerLSTMPredictor {
     batchSize: 32,
     sequenceLength: 60,
     epochs: 100,
-    validationSplit: 0.2
+    validationSplit: 0.2,
+    features: ['price', 'volume', 'sma7', 'ema10', 'ema30', 'volatility', 'momentum', 'volumeSMA'],
+    mcSamples: 50,
+    horizons: [1, 4, 24]
   };
   
   private logger = Logger.getInstance();
@@ -57,13 +97,15 @@ export class ServerLSTMPredictor {
     // Dense layers
     model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
     model.add(tf.layers.dropout({ rate: this.modelConfig.dropoutRate }));
-    model.add(tf.layers.dense({ units: 1, activation: 'linear' }));
+    // One output head per forecast horizon
+    model.add(tf.layers.dense({ units: this.modelConfig.horizons.length, activation: 'linear' }));
     
     // Compile model
     const optimizer = tf.train.adamax(this.modelConfig.learningRate);
     model.compile({
       optimizer: optimizer,
-      loss: 'huberLoss',
+      // Layers only resolves Keras loss names, so pass Huber loss as a function
+      loss: (yTrue: tf.Tensor, yPred: tf.Tensor) => tf.losses.huberLoss(yTrue, yPred),
       metrics: ['mae', 'mse']
     });
     
@@ -71,44 +113,110 @@ export class ServerLSTMPredictor {
   }
 
   /**
-   * Prepare sequences for LSTM training
+   * Prepare sequences for LSTM training. Each window of feature rows
+   * predicts the target column `horizon` rows after it, once per horizon.
    */
-  private prepareSequences(data: number[]): { X: number[][]; y: number[] } {
-    const X: number[][] = [];
-    const y: number[] = [];
+  private prepareSequences(rows: number[][], targetIndex: number): { X: number[][][]; y: number[][] } {
+    const { sequenceLength, horizons } = this.modelConfig;
+    const furthest = Math.max(...horizons);
+    const X: number[][][] = [];
+    const y: number[][] = [];
     
-    for (let i = this.modelConfig.sequenceLength; i < data.length; i++) {
-      X.push(data.slice(i - this.modelConfig.sequenceLength, i));
-      y.push(data[i]);
+    for (let i = sequenceLength; i + furthest - 1 < rows.length; i++) {
+      X.push(rows.slice(i - sequenceLength, i));
+      y.push(horizons.map(horizon => rows[i + horizon - 1][targetIndex]));
     }
     
     return { X, y };
   }
 
   /**
-   * Normalize features using robust scaling
+   * Fit a robust scaler (median and mean absolute deviation) to one feature
    */
-  private normalizeFeatures(data: number[]): { normalized: number[]; scaler: { min: number; max: number } } {
-    const sorted = [...data].sort((a, b) => a - b);
+  private fitScaler(values: number[]): FeatureScaler {
+    const sorted = [...values].sort((a, b) => a - b);
     const median = sorted[Math.floor(sorted.length / 2)];
     
     const mad = sorted.reduce((sum, val) => {
       return sum + Math.abs(val - median);
     }, 0) / sorted.length;
     
-    const normalized = data.map(val => (val - median) / (mad + 1e-8));
-    
-    return {
-      normalized,
-      scaler: { min: median - 3 * mad, max: median + 3 * mad }
-    };
+    return { median, mad };
+  }
+
+  /**
+   * Normalize a row of feature values with the per-feature scalers
+   */
+  private normalizeFeatures(row: number[], scalers: FeatureScalers): number[] {
+    return this.modelConfig.features.map((feature, i) => {
+      const { median, mad } = scalers[feature]!;
+      return (row[i] - median) / (mad + 1e-8);
+    });
+  }
+
+  /**
+   * Map a normalized model output back to a price
+   */
+  private denormalizePrice(value: number): number {
+    const { median, mad } = this.scalers!.price!;
+    return value * (mad + 1e-8) + median;
+  }
+
+  /**
+   * Monte-Carlo dropout: run each normalized window through the network
+   * mcSamples times with dropout active and take quantiles of the prices,
+   * giving one interval per window and horizon
+   */
+  private sampleForecasts(windows: number[][][]): ForecastInterval[][] {
+    const { sequenceLength, features, mcSamples, horizons } = this.modelConfig;
+
+    return windows.map(window => {
+      const samples = tf.tidy(() => {
+        const input = tf.tensor3d([window], [1, sequenceLength, features.length]).tile([mcSamples, 1, 1]);
+        const output = this.model!.apply(input, { training: true }) as tf.Tensor;
+        return output.arraySync() as number[][];
+      });
+      return horizons.map((_, k) => sampleInterval(samples.map(sample => this.denormalizePrice(sample[k]))));
+    });
+  }
+
+  /**
+   * Compute the technical indicators the configured features need when any
+   * bar lacks one. Leading bars stay incomplete until each indicator warms up.
+   */
+  private withIndicators(data: LSTMInput[]): LSTMInput[] {
+    const needsIndicators = this.modelConfig.features.some(feature =>
+      feature in INDICATOR_WARMUP && data.some(point => point[feature] === undefined)
+    );
+    return needsIndicators ? addTechnicalIndicators(data) : data;
+  }
+
+  /**
+   * The bar's values for the configured features, or null if any is missing
+   */
+  private featureRow(point: LSTMInput): number[] | null {
+    const row = this.modelConfig.features.map(feature => point[feature]);
+    return row.every(value => typeof value === 'number' && Number.isFinite(value)) ? row as number[] : null;
+  }
+
+  /**
+   * Check a feature set can be served with the given scalers
+   */
+  private validateFeatures(features: LSTMFeature[], scalers: FeatureScalers | undefined): void {
+    if (!features.includes('price')) {
+      throw new Error("LSTM features must include 'price'");
+    }
+    const unscaled = features.filter(feature => !scalers?.[feature]);
+    if (unscaled.length > 0) {
+      throw new Error(`LSTM model data has no scaler for ${unscaled.join(', ')}`);
+    }
   }
 
   /**
    * Train the LSTM model
    */
   async train(
-    data: number[],
+    data: LSTMInput[],
     progressCallback?: (progress: TrainingProgress) => void
   ): Promise<void> {
     try {
@@ -124,36 +232,44 @@ export class ServerLSTMPredictor {
         }
       });
 
-      // Prepare data
-      const { X, y } = this.prepareSequences(data);
-      if (X.length === 0) {
-        throw new Error('Insufficient data for training');
+      const { features, sequenceLength, horizons } = this.modelConfig;
+
+      // Drop the indicators' warmup; after it every bar must be complete
+      const rows = this.withIndicators(data).map(point => this.featureRow(point));
+      const first = rows.findIndex(row => row !== null);
+      const gap = rows.findIndex((row, i) => i > first && row === null);
+      if (gap !== -1) {
+        throw new Error(`Bar ${gap} is missing one of ${features.join(', ')}`);
       }
+      const complete = first === -1 ? [] : rows.slice(first) as number[][];
+
+      // Fit one scaler per feature, then normalize rows and the price target
+      const scalers: FeatureScalers = {};
+      features.forEach((feature, i) => {
+        scalers[feature] = this.fitScaler(complete.map(row => row[i]));
+      });
+      this.validateFeatures(features, scalers);
+      const normalized = complete.map(row => this.normalizeFeatures(row, scalers));
 
-      // Normalize features and reshape for LSTM
-      const XNormalized: number[][][] = [];
-      for (let i = 0; i < X.length; i++) {
-        const sequence = X[i];
-        const { normalized } = this.normalizeFeatures(sequence);
-        // Reshape to 3D array: [batch, sequence_length, features]
-        const reshapedSequence = normalized.map(val => [val]);
-        XNormalized.push(reshapedSequence);
+      const { X, y } = this.prepareSequences(normalized, features.indexOf('price'));
+      if (X.length === 0) {
+        throw new Error('Insufficient data for training');
       }
 
-      // Create tensors
-      const XTensor = tf.tensor3d(XNormalized, [XNormalized.length, this.modelConfig.sequenceLength, 1]);
-      const yTensor = tf.tensor2d(y, [y.length, 1]);
+      // Create tensors: [batch, sequence_length, features]
+      const XTensor = tf.tensor3d(X, [X.length, sequenceLength, features.length]);
+      const yTensor = tf.tensor2d(y, [y.length, horizons.length]);
 
       // Create and train model
-      this.model = this.createModel([this.modelConfig.sequenceLength, 1]);
-      this.scaler = scaler;
+      this.model?.dispose();
+      this.model = this.createModel([sequenceLength, features.length]);
+      this.scalers = scalers;
 
       // Training callbacks
       const callbacks = [
         tf.callbacks.earlyStopping({
           monitor: 'val_loss',
-          patience: 10,
-          restoreBestWeights: true
+          patience: 10
         })
       ];
 
@@ -170,6 +286,30 @@ export class ServerLSTMPredictor {
       XTensor.dispose();
       yTensor.dispose();
 
+      // Calibrate each horizon's intervals on the windows fit() held out for validation
+      const heldOut = X.length - Math.floor(X.length * this.modelConfig.validationSplit);
+      const intervals = this.sampleForecasts(X.slice(heldOut));
+      const actuals = y.slice(heldOut);
+      this.calibration = horizons.map((_, k) => calibrateIntervals(
+        intervals.map(window => window[k]),
+        actuals.map(targets => this.denormalizePrice(targets[k]))
+      ));
+
+      const coverage = this.calibration
+        .map((calibration, k) => `${horizons[k]}h ${(calibration.coverage * 100).toFixed(1)}%`)
+        .join(', ');
+      this.logger.info(`LSTM intervals calibrated, held-out coverage: ${coverage}`, {
+        performance: {
+          duration: 0,
+          memoryUsage: this.calibration[0].samples
+        },
+        trading: {
+          symbol: 'lstm',
+          action: 'calibration',
+          amount: this.calibration[0].coverage
+        }
+      });
+
       this.logger.info('LSTM model training completed', {
         performance: {
           duration: 0,
@@ -191,40 +331,54 @@ export class ServerLSTMPredictor {
   /**
    * Make predictions with the LSTM model
    */
-  async predict(data: number[]): Promise<PredictionResult> {
-    if (!this.model || !this.scaler) {
+  async predict(data: LSTMInput[]): Promise<PredictionResult> {
+    if (!this.model || !this.scalers) {
       throw new Error('Model not trained');
     }
 
     try {
-      // Prepare input sequence
-      const sequence = data.slice(-this.modelConfig.sequenceLength);
-      const { normalized } = this.normalizeFeatures(sequence);
-      
-      // Create tensor
-      const reshapedInput = normalized.map(val => [val]);
-      const inputTensor = tf.tensor3d([reshapedInput], [1, this.modelConfig.sequenceLength, 1]);
+      const { features, sequenceLength, horizons } = this.modelConfig;
+
+      // Prepare input sequence, computing indicators only if the window lacks them
+      let sequence = data.slice(-sequenceLength);
+      if (sequence.some(point => this.featureRow(point) === null)) {
+        sequence = this.withIndicators(data).slice(-sequenceLength);
+      }
+      const rows = sequence.map(point => this.featureRow(point));
+      if (sequence.length < sequenceLength || rows.some(row => row === null)) {
+        throw new Error(`Prediction needs ${sequenceLength} consecutive bars with ${features.join(', ')}`);
+      }
+      const normalized = (rows as number[][]).map(row => this.normalizeFeatures(row, this.scalers!));
       
-      // Make prediction
-      const prediction = this.model.predict(inputTensor) as tf.Tensor;
-      const predictedValue = prediction.dataSync()[0];
+      // Sample each head's forecast distribution and apply its held-out calibration
+      const [sampled] = this.sampleForecasts([normalized]);
+      const currentPrice = data[data.length - 1].price;
       
-      // Clean up tensors
-      inputTensor.dispose();
-      prediction.dispose();
-      
-      // Calculate direction and confidence
-      const currentPrice = data[data.length - 1];
-      const direction = predictedValue > currentPrice ? 'up' : predictedValue < currentPrice ? 'down' : 'neutral';
-      const confidence = this.calculatePredictionConfidence(data, predictedValue);
+      // Direction from the median, confidence from the width of the calibrated band
+      const forecasts: HorizonForecast[] = horizons.map((horizon, k) => {
+        const calibration = this.calibration?.[k];
+        const interval = scaleInterval(sampled[k], calibration?.intervalScale ?? 1);
+        return {
+          horizon,
+          price: interval.p50,
+          direction: priceDirection(interval.p50, currentPrice),
+          confidence: intervalConfidence(interval),
+          interval,
+          calibration: calibration?.coverage
+        };
+      });
+      const [nearest] = forecasts;
       
       return {
-        price: predictedValue,
-        direction,
-        confidence,
+        price: nearest.price,
+        direction: nearest.direction,
+        confidence: nearest.confidence,
         timestamp: Date.now(),
         modelType: 'lstm',
-        features: sequence
+        features: sequence.map(point => point.price),
+        interval: nearest.interval,
+        calibration: nearest.calibration,
+        horizons: forecasts
       };
       
     } catch (error) {
@@ -234,39 +388,71 @@ export class ServerLSTMPredictor {
   }
 
   /**
-   * Calculate prediction confidence
+   * Bars of market data a prediction needs: one window if the given bars
+   * already carry every feature, otherwise also the warmup of the slowest
+   * indicator among the features
    */
-  private calculatePredictionConfidence(data: number[], predictedPrice: number): number {
-    const trendConsistency = this.calculateTrendConsistency(data);
-    const volumeConsistency = this.calculateVolumeConsistency(data);
-    const technicalAlignment = this.calculateTechnicalAlignment(data, predictedPrice);
-    
-    return (trendConsistency + volumeConsistency + technicalAlignment) / 3;
-  }
+  getRequiredHistory(data: LSTMInput[] = []): number {
+    const window = data.slice(-this.modelConfig.sequenceLength);
+    if (window.length === this.modelConfig.sequenceLength && window.every(point => this.featureRow(point) !== null)) {
+      return this.modelConfig.sequenceLength;
+    }
 
-  private calculateTrendConsistency(data: number[]): number {
-    if (data.length < 10) return 0.5;
-    
-    const recent = data.slice(-10);
-    const trends = recent.slice(1).map((price, i) => price > recent[i]);
-    const consistentTrends = trends.filter(trend => trend === trends[0]).length;
-    
-    return consistentTrends / trends.length;
+    const warmup = Math.max(0, ...this.modelConfig.features.map(feature => INDICATOR_WARMUP[feature] ?? 0));
+    const required = this.modelConfig.sequenceLength + warmup;
+    return warmup > 0 ? Math.max(required, MIN_INDICATOR_HISTORY) : required;
   }
 
-  private calculateVolumeConsistency(data: number[]): number {
-    // Simplified volume consistency calculation
-    return 0.7; // Placeholder
+  /**
+   * Restore a trained model from serialized weights
+   */
+  loadModelData(modelData: LSTMModelData): void {
+    const previousConfig = this.modelConfig;
+    // Models saved before multi-horizon heads forecast one bar ahead
+    const config = { ...previousConfig, horizons: [1], ...modelData.config };
+    this.validateFeatures(config.features, modelData.scalers);
+
+    this.modelConfig = config;
+    const model = this.createModel([config.sequenceLength, config.features.length]);
+
+    if (model.weights.length !== modelData.weights.length) {
+      model.dispose();
+      this.modelConfig = previousConfig;
+      throw new Error(`Expected ${model.weights.length} weight tensors, got ${modelData.weights.length}`);
+    }
+
+    const tensors = model.weights.map((variable, i) => tf.tensor(modelData.weights[i], variable.shape as number[]));
+    try {
+      model.setWeights(tensors);
+    } catch (error) {
+      model.dispose();
+      this.modelConfig = previousConfig;
+      throw error;
+    } finally {
+      tensors.forEach(tensor => tensor.dispose());
+    }
+
+    this.model?.dispose();
+    this.model = model;
+    this.scalers = modelData.scalers;
+    this.calibration = modelData.calibration ?? null;
   }
 
-  private calculateTechnicalAlignment(data: number[], predictedPrice: number): number {
-    if (data.length < 20) return 0.5;
-    
-    const sma20 = data.slice(-20).reduce((sum, price) => sum + price, 0) / 20;
-    const currentPrice = data[data.length - 1];
-    
-    const priceAlignment = Math.abs(predictedPrice - sma20) / sma20;
-    return Math.max(0, 1 - priceAlignment);
+  /**
+   * Serialize the trained model for ModelVersionManager
+   */
+  exportModelData(): LSTMModelData {
+    if (!this.model || !this.scalers) {
+      throw new Error('Model not trained');
+    }
+
+    return {
+      layers: this.model.weights.map(variable => ({ name: variable.name, shape: variable.shape as number[] })),
+      weights: this.model.getWeights().map(tensor => Array.from(tensor.dataSync())),
+      scalers: this.scalers,
+      config: this.modelConfig,
+      ...(this.calibration ? { calibration: this.calibration } : {})
+    };
   }
 
   /**
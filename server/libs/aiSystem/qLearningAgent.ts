@@ -1,5 +1,30 @@
 import { Logger } from '../../utils/logger';
-import { QLearningConfig, PredictionResult } from './types';
+import { DQNNetwork } from './dqnNetwork';
+import {
+  STATE_LOOKBACK,
+  STATE_VECTOR_SIZE,
+  encodeMarketState
+} from './stateEncoder';
+import {
+  QLearningConfig,
+  QLearningModelData,
+  PredictionResult,
+  EncodedState,
+  TradeAction,
+  TradingDecision
+} from './types';
+
+// Same index order as the price-pattern actions: hold, buy, sell
+const DECISION_ACTIONS: TradeAction[] = ['HOLD', 'BUY', 'SELL'];
+
+// Share of the portfolio moved between USDT and AVAX by one BUY or SELL
+const DECISION_TRADE_SIZE = 0.25;
+
+// Pangolin's swap fee, charged on the traded share
+const DECISION_TRADE_COST = 0.003;
+
+// AVAX share of the simulated portfolio at the start of each training episode
+const INITIAL_PORTFOLIO_RATIO = 0.5;
 
 /**
  * Q-Learning Agent Implementation
@@ -8,43 +33,59 @@ import { QLearningConfig, PredictionResult } from './types';
 
 export class QLearningAgent {
   private qTable: Map<string, number[]> = new Map();
+  // Function approximator used instead of qTable when the backend is 'dqn'
+  private network: DQNNetwork | null = null;
   private config: QLearningConfig = {
     learningRate: 0.1,
     discountFactor: 0.95,
     epsilon: 0.1,
     epsilonDecay: 0.995,
     minEpsilon: 0.01,
-    stateSize: 10,
-    actionSize: 3 // buy, sell, hold
+    stateSize: STATE_LOOKBACK,
+    actionSize: 3, // hold, buy, sell
+    backend: 'table',
+    dqn: {
+      hiddenUnits: [32, 32],
+      learningRate: 0.001,
+      batchSize: 32,
+      replayBufferSize: 10000,
+      trainInterval: 4,
+      targetUpdateInterval: 250
+    }
   };
   
   private logger = Logger.getInstance();
 
+  constructor(config: Partial<QLearningConfig> = {}) {
+    this.config = this.mergeConfig(config);
+  }
+
+  private mergeConfig(config: Partial<QLearningConfig>): QLearningConfig {
+    return { ...this.config, ...config, dqn: { ...this.config.dqn, ...config.dqn } };
+  }
+
   /**
-   * Get state representation from price data
+   * Encode recent prices and the AVAX share of the portfolio
    */
-  private getState(prices: number[]): string {
-    if (prices.length < this.config.stateSize) {
-      // Pad with the last known price
-      const lastPrice = prices[prices.length - 1] || 0;
-      while (prices.length < this.config.stateSize) {
-        prices.unshift(lastPrice);
-      }
+  private getState(prices: number[], portfolioRatio: number): EncodedState {
+    return encodeMarketState(prices.slice(-this.config.stateSize), portfolioRatio);
+  }
+
+  /**
+   * Q-values for a state from the configured backend; zero for states the
+   * table has never seen or before the network is trained
+   */
+  private getQValues(state: EncodedState): number[] {
+    if (this.config.backend === 'dqn') {
+      return this.network ? this.network.predict(state.vector) : new Array(this.config.actionSize).fill(0);
     }
-    
-    const recentPrices = prices.slice(-this.config.stateSize);
-    const priceChanges = recentPrices.slice(1).map((price, i) => {
-      const change = (price - recentPrices[i]) / recentPrices[i];
-      return Math.sign(change); // -1, 0, 1
-    });
-    
-    return priceChanges.join(',');
+    return this.qTable.get(state.key) || new Array(this.config.actionSize).fill(0);
   }
 
   /**
-   * Get action from Q-table or random exploration
+   * Get action from Q-values or random exploration
    */
-  private getAction(state: string): number {
+  private getAction(state: EncodedState): number {
     const random = Math.random();
     
     if (random < this.config.epsilon) {
@@ -52,17 +93,23 @@ export class QLearningAgent {
       return Math.floor(Math.random() * this.config.actionSize);
     }
     
-    // Exploitation: best action from Q-table
-    const qValues = this.qTable.get(state) || new Array(this.config.actionSize).fill(0);
+    // Exploitation: best action for the state
+    const qValues = this.getQValues(state);
     return qValues.indexOf(Math.max(...qValues));
   }
 
   /**
-   * Update Q-table with new experience
+   * Learn from one transition: a tabular Q-learning update, or a replay
+   * buffer entry for the DQN
    */
-  private updateQValue(state: string, action: number, reward: number, nextState: string): void {
-    const qValues = this.qTable.get(state) || new Array(this.config.actionSize).fill(0);
-    const nextQValues = this.qTable.get(nextState) || new Array(this.config.actionSize).fill(0);
+  private updateQValue(state: EncodedState, action: number, reward: number, nextState: EncodedState): void {
+    if (this.config.backend === 'dqn') {
+      this.network!.observe({ state: state.vector, action, reward, nextState: nextState.vector });
+      return;
+    }
+
+    const qValues = this.qTable.get(state.key) || new Array(this.config.actionSize).fill(0);
+    const nextQValues = this.qTable.get(nextState.key) || new Array(this.config.actionSize).fill(0);
     
     const maxNextQ = Math.max(...nextQValues);
     const currentQ = qValues[action];
@@ -70,25 +117,25 @@ export class QLearningAgent {
     // Q-learning update formula
     qValues[action] = currentQ + this.config.learningRate * (reward + this.config.discountFactor * maxNextQ - currentQ);
     
-    this.qTable.set(state, qValues);
+    this.qTable.set(state.key, qValues);
   }
 
   /**
-   * Calculate reward based on price movement
+   * Apply an action to the AVAX share of the portfolio over one bar.
+   * The reward is the return from rebalancing, net of the swap fee, so doing
+   * nothing scores zero and a trade has to beat holding to be learned.
    */
-  private calculateReward(action: number, priceChange: number): number {
-    const actionNames = ['hold', 'buy', 'sell'];
-    
-    switch (action) {
-      case 0: // hold
-        return Math.abs(priceChange) < 0.01 ? 0.1 : -0.1;
-      case 1: // buy
-        return priceChange > 0.01 ? 1.0 : -1.0;
-      case 2: // sell
-        return priceChange < -0.01 ? 1.0 : -1.0;
-      default:
-        return 0;
-    }
+  private rebalance(portfolioRatio: number, action: number, priceChange: number): { reward: number; portfolioRatio: number } {
+    const targetRatio = DECISION_ACTIONS[action] === 'BUY' ? Math.min(1, portfolioRatio + DECISION_TRADE_SIZE)
+      : DECISION_ACTIONS[action] === 'SELL' ? Math.max(0, portfolioRatio - DECISION_TRADE_SIZE)
+      : portfolioRatio;
+    const traded = targetRatio - portfolioRatio;
+
+    return {
+      reward: (traded * priceChange - Math.abs(traded) * DECISION_TRADE_COST) * 100,
+      // The AVAX share drifts with the price until the next decision
+      portfolioRatio: targetRatio * (1 + priceChange) / (1 + targetRatio * priceChange)
+    };
   }
 
   /**
@@ -108,22 +155,26 @@ export class QLearningAgent {
         }
       });
 
+      if (this.config.backend === 'dqn' && !this.network) {
+        this.network = new DQNNetwork(STATE_VECTOR_SIZE, this.config.actionSize, this.config.discountFactor, this.config.dqn);
+      }
+
       for (let episode = 0; episode < episodes; episode++) {
         let totalReward = 0;
+        // The agent trades a simulated portfolio, so states carry the position its own actions built
+        let portfolioRatio = INITIAL_PORTFOLIO_RATIO;
         
-        for (let i = this.config.stateSize; i < data.length - 1; i++) {
-          const currentPrices = data.slice(i - this.config.stateSize, i);
-          const nextPrices = data.slice(i - this.config.stateSize + 1, i + 1);
-          
-          const currentState = this.getState(currentPrices);
-          const nextState = this.getState(nextPrices);
-          
+        for (let i = this.config.stateSize - 1; i < data.length - 1; i++) {
+          const currentState = this.getState(data.slice(i + 1 - this.config.stateSize, i + 1), portfolioRatio);
           const action = this.getAction(currentState);
+
           const priceChange = (data[i + 1] - data[i]) / data[i];
-          const reward = this.calculateReward(action, priceChange);
+          const step = this.rebalance(portfolioRatio, action, priceChange);
+          portfolioRatio = step.portfolioRatio;
+          const nextState = this.getState(data.slice(i + 2 - this.config.stateSize, i + 2), portfolioRatio);
           
-          this.updateQValue(currentState, action, reward, nextState);
-          totalReward += reward;
+          this.updateQValue(currentState, action, step.reward, nextState);
+          totalReward += step.reward;
         }
         
         // Decay epsilon
@@ -163,12 +214,13 @@ export class QLearningAgent {
   }
 
   /**
-   * Make predictions with the Q-learning agent
+   * Make predictions with the Q-learning agent for a portfolio holding
+   * `portfolioRatio` of its value in AVAX
    */
-  async predict(data: number[]): Promise<PredictionResult> {
+  async predict(data: number[], portfolioRatio: number = INITIAL_PORTFOLIO_RATIO): Promise<PredictionResult> {
     try {
-      const state = this.getState(data);
-      const qValues = this.qTable.get(state) || new Array(this.config.actionSize).fill(0);
+      const state = this.getState(data, portfolioRatio);
+      const qValues = this.getQValues(state);
       const action = qValues.indexOf(Math.max(...qValues));
       
       const currentPrice = data[data.length - 1];
@@ -208,12 +260,70 @@ export class QLearningAgent {
     }
   }
 
+  /**
+   * Choose BUY, SELL or HOLD for recent prices and a portfolio holding
+   * `portfolioRatio` of its value in AVAX, from the same state encoding and
+   * Q-values the agent trades on. Ties, including states never seen in
+   * training, resolve to HOLD with zero confidence.
+   */
+  decide(prices: number[], portfolioRatio: number): TradingDecision {
+    const state = this.getState(prices, portfolioRatio);
+    const qValues = this.getQValues(state);
+
+    const ranked = [...qValues].sort((a, b) => b - a);
+    const range = ranked[0] - ranked[ranked.length - 1];
+
+    return {
+      action: DECISION_ACTIONS[qValues.indexOf(ranked[0])],
+      confidence: range > 0 ? (ranked[0] - ranked[1]) / range : 0,
+      qValues: {
+        HOLD: qValues[0],
+        BUY: qValues[1],
+        SELL: qValues[2]
+      },
+      state: state.key
+    };
+  }
+
+  /**
+   * Restore a trained Q-table, or DQN weights, from serialized data
+   */
+  loadModelData(modelData: QLearningModelData): void {
+    const config = this.mergeConfig(modelData.parameters);
+    let network: DQNNetwork | null = null;
+    if (config.backend === 'dqn' && modelData.network) {
+      network = new DQNNetwork(STATE_VECTOR_SIZE, config.actionSize, config.discountFactor, config.dqn);
+      try {
+        network.loadWeights(modelData.network);
+      } catch (error) {
+        network.dispose();
+        throw error;
+      }
+    }
+
+    this.network?.dispose();
+    this.network = network;
+    this.qTable = new Map(Object.entries(modelData.qTable));
+    this.config = config;
+  }
+
+  /**
+   * Serialize the Q-table, and DQN weights if any, for ModelVersionManager
+   */
+  exportModelData(): QLearningModelData {
+    return {
+      qTable: Object.fromEntries(this.qTable),
+      parameters: this.config,
+      ...(this.network ? { network: this.network.exportWeights() } : {})
+    };
+  }
+
   /**
    * Get agent state
    */
   getAgentState(): { isInitialized: boolean; qTableSize: number; config: QLearningConfig } {
     return {
-      isInitialized: this.qTable.size > 0,
+      isInitialized: this.qTable.size > 0 || this.network !== null,
       qTableSize: this.qTable.size,
       config: this.config
     };
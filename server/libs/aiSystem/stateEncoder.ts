@@ -0,0 +1,102 @@
+import { EncodedState } from './types';
+
+/**
+ * Q-learning state encoder
+ * Turns recent prices and the AVAX share of the portfolio into a discrete
+ * Q-table key and a continuous vector for the DQN backend
+ */
+
+// Standard deviation of per-bar returns above which the market counts as volatile
+const HIGH_VOLATILITY = 0.02;
+
+// RSI period; also the window for the volatility regime
+const RSI_PERIOD = 14;
+const RSI_OVERSOLD = 30;
+const RSI_OVERBOUGHT = 70;
+
+// EMA periods whose spread defines the trend
+const TREND_FAST = 10;
+const TREND_SLOW = 30;
+
+// Relative EMA spread within which the market counts as flat
+const TREND_BAND = 0.005;
+
+// Bars the encoder needs for every indicator to be meaningful
+export const STATE_LOOKBACK = TREND_SLOW;
+
+// Length of EncodedState.vector
+export const STATE_VECTOR_SIZE = 4;
+
+/**
+ * Bucket the AVAX share of the portfolio
+ */
+function portfolioBucket(portfolioRatio: number): 'low_avax' | 'balanced' | 'high_avax' {
+  return portfolioRatio > 0.7 ? 'high_avax' : portfolioRatio < 0.3 ? 'low_avax' : 'balanced';
+}
+
+/**
+ * Relative Strength Index over the last `period` changes, 50 when flat
+ */
+function calculateRSI(prices: number[], period: number): number {
+  const window = prices.slice(-(period + 1));
+  const changes = window.slice(1).map((price, i) => price - window[i]);
+  const gains = changes.reduce((sum, change) => sum + Math.max(change, 0), 0);
+  const losses = changes.reduce((sum, change) => sum + Math.max(-change, 0), 0);
+
+  if (gains + losses === 0) return 50;
+  return 100 * gains / (gains + losses);
+}
+
+/**
+ * Standard deviation of per-bar returns over the last `period` bars
+ */
+function calculateVolatility(prices: number[], period: number): number {
+  const window = prices.slice(-(period + 1));
+  const returns = window.slice(1).map((price, i) => (price - window[i]) / window[i]);
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / returns.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Exponential moving average seeded with the first price
+ */
+function calculateEMA(prices: number[], period: number): number {
+  const alpha = 2 / (period + 1);
+  return prices.slice(1).reduce((ema, price) => alpha * price + (1 - alpha) * ema, prices[0]);
+}
+
+/**
+ * Encode the market from the last STATE_LOOKBACK prices, padded with the
+ * earliest price when shorter, together with the current position
+ */
+export function encodeMarketState(prices: number[], portfolioRatio: number): EncodedState {
+  if (prices.length === 0) {
+    throw new Error('Cannot encode a market state without prices');
+  }
+
+  const window = prices.slice(-STATE_LOOKBACK);
+  while (window.length < STATE_LOOKBACK) {
+    window.unshift(window[0]);
+  }
+
+  const rsi = calculateRSI(window, RSI_PERIOD);
+  const volatility = calculateVolatility(window, RSI_PERIOD);
+  const emaSlow = calculateEMA(window, TREND_SLOW);
+  const spread = emaSlow > 0 ? (calculateEMA(window, TREND_FAST) - emaSlow) / emaSlow : 0;
+
+  const rsiZone = rsi < RSI_OVERSOLD ? 'oversold' : rsi > RSI_OVERBOUGHT ? 'overbought' : 'neutral';
+  const regime = volatility > HIGH_VOLATILITY ? 'volatile' : 'calm';
+  const trend = spread > TREND_BAND ? 'up' : spread < -TREND_BAND ? 'down' : 'flat';
+
+  return {
+    key: [rsiZone, regime, trend, portfolioBucket(portfolioRatio)].join('_'),
+    // Each feature scaled to roughly [-1, 1] for the network
+    vector: [
+      (rsi - 50) / 50,
+      Math.tanh(volatility / HIGH_VOLATILITY - 1),
+      Math.tanh(spread / TREND_BAND),
+      portfolioRatio * 2 - 1
+    ]
+  };
+}
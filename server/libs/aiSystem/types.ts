@@ -4,6 +4,41 @@
  */
 
 import * as tf from '@tensorflow/tfjs-node';
+import type { MarketDataPoint } from '../dataCollection/types';
+
+/**
+ * MarketDataPoint fields the LSTM can use as per-timestep inputs
+ */
+export type LSTMFeature =
+  | 'price'
+  | 'volume'
+  | 'high'
+  | 'low'
+  | 'open'
+  | 'close'
+  | 'sma7'
+  | 'sma14'
+  | 'sma30'
+  | 'ema10'
+  | 'ema30'
+  | 'volatility'
+  | 'momentum'
+  | 'volumeSMA';
+
+/**
+ * A bar of market data as the LSTM consumes it. Indicators that are not
+ * supplied are computed from the preceding bars.
+ */
+export type LSTMInput = Pick<MarketDataPoint, 'timestamp' | 'price'> &
+  Partial<Omit<MarketDataPoint, 'timestamp' | 'price'>>;
+
+/**
+ * Robust scaling for one feature: (value - median) / mad
+ */
+export interface FeatureScaler {
+  median: number;
+  mad: number;
+}
 
 /**
  * LSTM Model Configuration
@@ -16,6 +51,26 @@ export interface LSTMConfig {
   sequenceLength: number;
   epochs: number;
   validationSplit: number;
+  /** Inputs per timestep, in tensor order. Must include price, which is also the target */
+  features: LSTMFeature[];
+  /** Monte-Carlo dropout passes per forecast */
+  mcSamples: number;
+  /** Bars ahead forecast by each output head, ascending. Models saved without it have one 1-bar head */
+  horizons: number[];
+}
+
+/**
+ * Deep Q-network settings for the 'dqn' backend
+ */
+export interface DQNConfig {
+  hiddenUnits: number[];
+  learningRate: number;
+  batchSize: number;
+  replayBufferSize: number;
+  /** Environment steps between gradient steps */
+  trainInterval: number;
+  /** Gradient steps between copies of the online weights to the target network */
+  targetUpdateInterval: number;
 }
 
 /**
@@ -27,8 +82,56 @@ export interface QLearningConfig {
   epsilon: number;
   epsilonDecay: number;
   minEpsilon: number;
+  /** Bars of price history the state encoder looks at */
   stateSize: number;
   actionSize: number;
+  /** Q-table over discretized states, or a DQN over the continuous state vector */
+  backend: 'table' | 'dqn';
+  dqn: DQNConfig;
+}
+
+/**
+ * Market and position state seen by the Q-learning agent
+ */
+export interface EncodedState {
+  /** Discretized state, the Q-table key */
+  key: string;
+  /** Continuous features, the DQN input */
+  vector: number[];
+}
+
+/**
+ * Forecast quantiles; p10-p90 is the 80% prediction interval
+ */
+export interface ForecastInterval {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * How the LSTM's prediction intervals were calibrated on held-out data
+ */
+export interface IntervalCalibration {
+  /** Factor applied to each side of the Monte-Carlo band around p50 */
+  intervalScale: number;
+  /** Share of held-out outcomes inside the calibrated p10-p90 band (nominal 0.8) */
+  coverage: number;
+  /** Held-out forecasts the coverage was measured on */
+  samples: number;
+}
+
+/**
+ * Forecast for one horizon
+ */
+export interface HorizonForecast {
+  /** Bars ahead */
+  horizon: number;
+  price: number;
+  direction: 'up' | 'down' | 'neutral';
+  confidence: number;
+  interval?: ForecastInterval;
+  calibration?: number;
 }
 
 /**
@@ -41,6 +144,12 @@ export interface PredictionResult {
   timestamp: number;
   modelType: 'lstm' | 'qlearning' | 'ensemble';
   features: number[];
+  /** Calibrated prediction interval, when the model is probabilistic */
+  interval?: ForecastInterval;
+  /** Held-out coverage of the interval, see IntervalCalibration */
+  calibration?: number;
+  /** Forecast per horizon, shortest first; the fields above describe the shortest */
+  horizons?: HorizonForecast[];
 }
 
 /**
@@ -84,3 +193,74 @@ export interface ModelState {
   averageAccuracy: number;
   modelVersion: string;
 }
+
+/**
+ * Serialized LSTM weights, as stored by ModelVersionManager
+ */
+export interface LSTMModelData {
+  layers: Array<{ name: string; shape: number[] }>;
+  weights: number[][];
+  scalers: Partial<Record<LSTMFeature, FeatureScaler>>;
+  config?: Partial<LSTMConfig>;
+  /** One per horizon, in config.horizons order */
+  calibration?: IntervalCalibration[];
+}
+
+/**
+ * Serialized Q-table, as stored by ModelVersionManager
+ */
+export interface QLearningModelData {
+  qTable: Record<string, number[]>;
+  parameters: Partial<QLearningConfig>;
+  /** Online network weights when the backend is 'dqn' */
+  network?: {
+    layers: Array<{ name: string; shape: number[] }>;
+    weights: number[][];
+  };
+}
+
+export type TradeAction = 'BUY' | 'SELL' | 'HOLD';
+
+/**
+ * Trading decision from the Q-learning policy
+ */
+export interface TradingDecision {
+  action: TradeAction;
+  /** Margin of the chosen action over the runner-up, relative to the Q-value range (0-1) */
+  confidence: number;
+  qValues: Record<TradeAction, number>;
+  /** Discretized state the Q-values were looked up for */
+  state: string;
+}
+
+/**
+ * Model choice for historical signal replay
+ */
+export type ReplayModel = 'lstm' | 'reinforcement' | 'ensemble';
+
+/**
+ * Prediction produced for a single historical bar
+ */
+export interface ReplaySignal {
+  index: number;
+  timestamp: number;
+  currentPrice: number;
+  predictedPrice: number;
+  direction: 'up' | 'down' | 'neutral';
+  confidence: number;
+  modelType: PredictionResult['modelType'];
+  /** The bar is not after the model's training time, so it may have been trained on */
+  inSample: boolean;
+}
+
+/**
+ * Result of replaying a price history through a model
+ */
+export interface SignalReplay {
+  model: ReplayModel;
+  modelVersion: string;
+  /** Unix seconds, like the bar timestamps */
+  trainedAt: number;
+  warmup: number;
+  signals: ReplaySignal[];
+}
@@ -0,0 +1,120 @@
+import Web3 from 'web3';
+import { Logger } from '../utils/logger';
+import { EnvironmentManager } from '../config/environment';
+import { openSqliteDatabase } from '../utils/sqlite';
+import { EventIndexer } from './eventIndexer';
+import type {
+  IndexedEmergencyWithdraw,
+  IndexedPrediction,
+  IndexedQuery,
+  IndexedTrade,
+  IndexerStatus
+} from './eventIndexer';
+
+/**
+ * Server-side owner of the on-chain event indexer
+ * Polls the configured RPC for new blocks and keeps the chain_* tables in the
+ * trading database up to date. Reads work whether or not polling is enabled,
+ * so the API serves whatever was indexed last.
+ */
+export class ChainIndexer {
+  private static instance: ChainIndexer;
+  private logger: Logger;
+  private envManager: EnvironmentManager;
+  private indexer: EventIndexer;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private lastError: string | null = null;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.envManager = EnvironmentManager.getInstance();
+
+    const blockchainConfig = this.envManager.getConfig('blockchain');
+    const indexerConfig = blockchainConfig.indexer;
+
+    this.indexer = new EventIndexer({
+      web3: new Web3(new Web3.providers.HttpProvider(blockchainConfig.avalancheRpcUrl)),
+      db: openSqliteDatabase(this.envManager.getConfig('database').url),
+      traderAddress: blockchainConfig.aiTraderAddress,
+      oracleAddress: blockchainConfig.priceOracleAddress || undefined,
+      startBlock: indexerConfig.startBlock,
+      confirmations: indexerConfig.confirmations,
+      batchSize: indexerConfig.batchSize,
+      logger: {
+        info: message => this.logger.info(message),
+        warn: message => this.logger.warn(message)
+      }
+    });
+  }
+
+  public static getInstance(): ChainIndexer {
+    if (!ChainIndexer.instance) {
+      ChainIndexer.instance = new ChainIndexer();
+    }
+    return ChainIndexer.instance;
+  }
+
+  /**
+   * Start polling if the indexer is enabled and the trader address is set
+   */
+  start(): void {
+    this.stop();
+
+    const blockchainConfig = this.envManager.getConfig('blockchain');
+    if (!blockchainConfig.indexer.enabled) return;
+    if (!blockchainConfig.aiTraderAddress) {
+      this.logger.warn('Chain indexer enabled but VITE_AI_POWERED_TRADER_ADDRESS is not set; not starting');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => this.sync(), blockchainConfig.indexer.pollInterval);
+    this.sync();
+    this.logger.info(`Chain indexer started from block ${blockchainConfig.indexer.startBlock}`);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * One indexing pass; overlapping polls are skipped while a long backfill runs
+   */
+  private async sync(): Promise<void> {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+
+    try {
+      await this.indexer.sync();
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      this.logger.error('Chain indexer sync failed', error as Error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  getTrades(query: IndexedQuery & { user?: string } = {}): { trades: IndexedTrade[]; total: number } {
+    return this.indexer.getTrades(query);
+  }
+
+  getPredictions(query: IndexedQuery & { pairKey?: string } = {}): IndexedPrediction[] {
+    return this.indexer.getPredictions(query);
+  }
+
+  getEmergencyWithdrawals(query: IndexedQuery = {}): IndexedEmergencyWithdraw[] {
+    return this.indexer.getEmergencyWithdrawals(query);
+  }
+
+  getStatus(): IndexerStatus & { running: boolean; lastError: string | null } {
+    return {
+      ...this.indexer.getStatus(),
+      running: this.pollTimer !== null,
+      lastError: this.lastError
+    };
+  }
+}
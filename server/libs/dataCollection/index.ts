@@ -3,6 +3,8 @@
  * Centralized exports for all data collection functionality
  */
 
+import { StreamingServer } from '../streamingServer';
+
 // Export types
 export * from './types';
 
@@ -37,4 +39,12 @@ export const collectHistoricalData = async (...args: any[]) => {
   const { collectMarketData } = await import('./dataCollection');
   return collectMarketData(...args);
 };
-export const getStreamingServerInstance = () => null; // Placeholder
+
+// Shared streaming server, created on first use
+let streamingServerInstance: StreamingServer | null = null;
+export const getStreamingServerInstance = (): StreamingServer => {
+  if (!streamingServerInstance) {
+    streamingServerInstance = new StreamingServer();
+  }
+  return streamingServerInstance;
+};
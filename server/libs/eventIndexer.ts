@@ -0,0 +1,588 @@
+import type Database from 'better-sqlite3';
+import type Web3 from 'web3';
+import type { AbiEventFragment } from 'web3';
+
+/**
+ * Event ABIs are kept inline rather than read from the contract artifacts so
+ * this module stays free of JSON and relative imports and loads as-is in the
+ * Hardhat tests.
+ */
+const TRADE_EXECUTED_ABI: AbiEventFragment = {
+  type: 'event',
+  name: 'TradeExecuted',
+  anonymous: false,
+  inputs: [
+    { name: 'user', type: 'address', indexed: true },
+    { name: 'tokenIn', type: 'address', indexed: true },
+    { name: 'tokenOut', type: 'address', indexed: true },
+    { name: 'amountIn', type: 'uint256', indexed: false },
+    { name: 'amountOut', type: 'uint256', indexed: false },
+    { name: 'aiConfidence', type: 'uint256', indexed: false },
+    { name: 'aiPredictedPrice', type: 'uint256', indexed: false }
+  ]
+};
+
+const EMERGENCY_WITHDRAW_ABI: AbiEventFragment = {
+  type: 'event',
+  name: 'EmergencyWithdraw',
+  anonymous: false,
+  inputs: [
+    { name: 'token', type: 'address', indexed: true },
+    { name: 'amount', type: 'uint256', indexed: false },
+    { name: 'recipient', type: 'address', indexed: true }
+  ]
+};
+
+const PREDICTION_SET_ABI: AbiEventFragment = {
+  type: 'event',
+  name: 'PredictionSet',
+  anonymous: false,
+  inputs: [
+    { name: 'pairKey', type: 'bytes32', indexed: true },
+    { name: 'baseToken', type: 'address', indexed: true },
+    { name: 'price', type: 'uint256', indexed: false },
+    { name: 'confidence', type: 'uint256', indexed: false },
+    { name: 'timestamp', type: 'uint256', indexed: false },
+    { name: 'expiresAt', type: 'uint256', indexed: false }
+  ]
+};
+
+// Checkpoints kept for reorg detection; deeper reorgs rewind to the start block
+const MAX_CHECKPOINTS = 128;
+
+/**
+ * TradeExecuted from AIPoweredTrader. tokenIn/tokenOut are the zero address
+ * for AVAX; amounts and the predicted price are decimal strings in wei.
+ */
+export interface IndexedTrade {
+  id: string;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  aiConfidence: number;
+  aiPredictedPrice: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+/**
+ * PredictionSet from PriceOracle; the price is in wei, times in seconds
+ */
+export interface IndexedPrediction {
+  id: string;
+  pairKey: string;
+  baseToken: string;
+  price: string;
+  confidence: number;
+  setAt: number;
+  expiresAt: number;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface IndexedEmergencyWithdraw {
+  id: string;
+  token: string;
+  amount: string;
+  recipient: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface IndexerLogger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export interface EventIndexerOptions {
+  web3: Web3;
+  db: Database.Database;
+  traderAddress: string;
+  /** Optional; PredictionSet is only indexed when set */
+  oracleAddress?: string;
+  /** First block to backfill from, usually the deployment block */
+  startBlock?: number;
+  /** Blocks behind the head an event must be before it is stored */
+  confirmations?: number;
+  /** Maximum block range per eth_getLogs request */
+  batchSize?: number;
+  logger?: IndexerLogger;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  trades: number;
+  predictions: number;
+  emergencyWithdrawals: number;
+  /** Block the indexer rewound to after a reorg, if one was detected */
+  reorgedTo: number | null;
+}
+
+export interface IndexerStatus {
+  lastIndexedBlock: number | null;
+  startBlock: number;
+  confirmations: number;
+  trades: number;
+  predictions: number;
+  emergencyWithdrawals: number;
+}
+
+export interface IndexedQuery {
+  limit?: number;
+  offset?: number;
+}
+
+interface Checkpoint {
+  block_number: number;
+  block_hash: string;
+}
+
+interface TradeRow {
+  id: string;
+  user_address: string;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  amount_out: string;
+  ai_confidence: number;
+  ai_predicted_price: string;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  timestamp: number;
+}
+
+interface PredictionRow {
+  id: string;
+  pair_key: string;
+  base_token: string;
+  price: string;
+  confidence: number;
+  set_at: number;
+  expires_at: number;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface EmergencyWithdrawRow {
+  id: string;
+  token: string;
+  amount: string;
+  recipient: string;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  timestamp: number;
+}
+
+/**
+ * Indexes AIPoweredTrader and PriceOracle events into SQLite.
+ * Each sync() backfills from the last indexed block up to the head minus the
+ * confirmation depth in eth_getLogs batches. The hash of each batch's last
+ * block is kept as a checkpoint; if a checkpoint's block has been replaced,
+ * events after the newest surviving checkpoint are dropped and re-indexed.
+ */
+export class EventIndexer {
+  private web3: Web3;
+  private db: Database.Database;
+  private traderAddress: string;
+  private oracleAddress: string | null;
+  private startBlock: number;
+  private confirmations: number;
+  private batchSize: number;
+  private logger: IndexerLogger | null;
+  private topics: Map<string, AbiEventFragment>;
+
+  constructor(options: EventIndexerOptions) {
+    this.web3 = options.web3;
+    this.db = options.db;
+    this.traderAddress = options.traderAddress.toLowerCase();
+    this.oracleAddress = options.oracleAddress ? options.oracleAddress.toLowerCase() : null;
+    this.startBlock = options.startBlock ?? 0;
+    this.confirmations = options.confirmations ?? 12;
+    this.batchSize = Math.max(1, options.batchSize ?? 2000);
+    this.logger = options.logger ?? null;
+
+    this.topics = new Map(
+      [TRADE_EXECUTED_ABI, EMERGENCY_WITHDRAW_ABI, PREDICTION_SET_ABI].map(abi => [
+        this.web3.eth.abi.encodeEventSignature(abi),
+        abi
+      ])
+    );
+
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chain_trades (
+        id TEXT PRIMARY KEY,
+        user_address TEXT NOT NULL,
+        token_in TEXT NOT NULL,
+        token_out TEXT NOT NULL,
+        amount_in TEXT NOT NULL,
+        amount_out TEXT NOT NULL,
+        ai_confidence INTEGER NOT NULL,
+        ai_predicted_price TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chain_trades_user ON chain_trades (user_address, block_number);
+      CREATE INDEX IF NOT EXISTS idx_chain_trades_block ON chain_trades (block_number);
+
+      CREATE TABLE IF NOT EXISTS chain_predictions (
+        id TEXT PRIMARY KEY,
+        pair_key TEXT NOT NULL,
+        base_token TEXT NOT NULL,
+        price TEXT NOT NULL,
+        confidence INTEGER NOT NULL,
+        set_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chain_predictions_pair ON chain_predictions (pair_key, block_number);
+      CREATE INDEX IF NOT EXISTS idx_chain_predictions_block ON chain_predictions (block_number);
+
+      CREATE TABLE IF NOT EXISTS chain_emergency_withdrawals (
+        id TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chain_emergency_block ON chain_emergency_withdrawals (block_number);
+
+      CREATE TABLE IF NOT EXISTS chain_checkpoints (
+        block_number INTEGER PRIMARY KEY,
+        block_hash TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Index every confirmed block not yet indexed
+   */
+  public async sync(): Promise<IndexerSyncResult> {
+    const reorgedTo = await this.handleReorg();
+    const head = Number(await this.web3.eth.getBlockNumber());
+    const safeHead = head - this.confirmations;
+    const fromBlock = (this.getLastIndexedBlock() ?? this.startBlock - 1) + 1;
+
+    const result: IndexerSyncResult = {
+      fromBlock,
+      toBlock: fromBlock - 1,
+      trades: 0,
+      predictions: 0,
+      emergencyWithdrawals: 0,
+      reorgedTo
+    };
+
+    for (let from = fromBlock; from <= safeHead; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, safeHead);
+      const counts = await this.indexRange(from, to);
+      result.toBlock = to;
+      result.trades += counts.trades;
+      result.predictions += counts.predictions;
+      result.emergencyWithdrawals += counts.emergencyWithdrawals;
+    }
+
+    if (result.toBlock >= fromBlock) {
+      this.logger?.info(
+        `Indexed blocks ${fromBlock}-${result.toBlock}: ${result.trades} trades, ` +
+        `${result.predictions} predictions, ${result.emergencyWithdrawals} emergency withdrawals`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch, decode and store the events in [from, to], then checkpoint `to`
+   */
+  private async indexRange(
+    from: number,
+    to: number
+  ): Promise<{ trades: number; predictions: number; emergencyWithdrawals: number }> {
+    const addresses = this.oracleAddress ? [this.traderAddress, this.oracleAddress] : [this.traderAddress];
+    const logs = await this.web3.eth.getPastLogs({
+      address: addresses,
+      fromBlock: from,
+      toBlock: to,
+      topics: [Array.from(this.topics.keys())]
+    });
+
+    const timestamps = new Map<number, number>();
+    const blockTimestamp = async (blockNumber: number): Promise<number> => {
+      if (!timestamps.has(blockNumber)) {
+        const block = await this.web3.eth.getBlock(blockNumber);
+        timestamps.set(blockNumber, Number(block.timestamp) * 1000);
+      }
+      return timestamps.get(blockNumber)!;
+    };
+
+    const trades: TradeRow[] = [];
+    const predictions: PredictionRow[] = [];
+    const withdrawals: EmergencyWithdrawRow[] = [];
+
+    for (const log of logs) {
+      if (typeof log === 'string') continue;
+      const abi = log.topics?.[0] ? this.topics.get(String(log.topics[0])) : undefined;
+      const address = String(log.address).toLowerCase();
+      if (!abi || !log.topics || log.data === undefined) continue;
+
+      const decoded = this.web3.eth.abi.decodeLog(
+        abi.inputs as never,
+        String(log.data),
+        log.topics.slice(1).map(String)
+      );
+      const blockNumber = Number(log.blockNumber);
+      const location = {
+        block_number: blockNumber,
+        block_hash: String(log.blockHash),
+        tx_hash: String(log.transactionHash),
+        log_index: Number(log.logIndex)
+      };
+      const id = `${location.tx_hash}:${location.log_index}`;
+
+      if (abi === TRADE_EXECUTED_ABI && address === this.traderAddress) {
+        trades.push({
+          id,
+          user_address: String(decoded.user).toLowerCase(),
+          token_in: String(decoded.tokenIn).toLowerCase(),
+          token_out: String(decoded.tokenOut).toLowerCase(),
+          amount_in: String(decoded.amountIn),
+          amount_out: String(decoded.amountOut),
+          ai_confidence: Number(decoded.aiConfidence),
+          ai_predicted_price: String(decoded.aiPredictedPrice),
+          ...location,
+          timestamp: await blockTimestamp(blockNumber)
+        });
+      } else if (abi === EMERGENCY_WITHDRAW_ABI && address === this.traderAddress) {
+        withdrawals.push({
+          id,
+          token: String(decoded.token).toLowerCase(),
+          amount: String(decoded.amount),
+          recipient: String(decoded.recipient).toLowerCase(),
+          ...location,
+          timestamp: await blockTimestamp(blockNumber)
+        });
+      } else if (abi === PREDICTION_SET_ABI && address === this.oracleAddress) {
+        predictions.push({
+          id,
+          pair_key: String(decoded.pairKey),
+          base_token: String(decoded.baseToken).toLowerCase(),
+          price: String(decoded.price),
+          confidence: Number(decoded.confidence),
+          set_at: Number(decoded.timestamp),
+          expires_at: Number(decoded.expiresAt),
+          ...location
+        });
+      }
+    }
+
+    const checkpoint = await this.web3.eth.getBlock(to);
+
+    this.db.transaction(() => {
+      const insertTrade = this.db.prepare(`
+        INSERT OR REPLACE INTO chain_trades (
+          id, user_address, token_in, token_out, amount_in, amount_out, ai_confidence,
+          ai_predicted_price, block_number, block_hash, tx_hash, log_index, timestamp
+        ) VALUES (
+          @id, @user_address, @token_in, @token_out, @amount_in, @amount_out, @ai_confidence,
+          @ai_predicted_price, @block_number, @block_hash, @tx_hash, @log_index, @timestamp
+        )
+      `);
+      const insertPrediction = this.db.prepare(`
+        INSERT OR REPLACE INTO chain_predictions (
+          id, pair_key, base_token, price, confidence, set_at, expires_at,
+          block_number, block_hash, tx_hash, log_index
+        ) VALUES (
+          @id, @pair_key, @base_token, @price, @confidence, @set_at, @expires_at,
+          @block_number, @block_hash, @tx_hash, @log_index
+        )
+      `);
+      const insertWithdraw = this.db.prepare(`
+        INSERT OR REPLACE INTO chain_emergency_withdrawals (
+          id, token, amount, recipient, block_number, block_hash, tx_hash, log_index, timestamp
+        ) VALUES (
+          @id, @token, @amount, @recipient, @block_number, @block_hash, @tx_hash, @log_index, @timestamp
+        )
+      `);
+
+      trades.forEach(row => insertTrade.run(row));
+      predictions.forEach(row => insertPrediction.run(row));
+      withdrawals.forEach(row => insertWithdraw.run(row));
+
+      this.db.prepare('INSERT OR REPLACE INTO chain_checkpoints (block_number, block_hash) VALUES (?, ?)')
+        .run(to, String(checkpoint.hash));
+      this.db.prepare(`
+        DELETE FROM chain_checkpoints WHERE block_number NOT IN (
+          SELECT block_number FROM chain_checkpoints ORDER BY block_number DESC LIMIT ?
+        )
+      `).run(MAX_CHECKPOINTS);
+    })();
+
+    return { trades: trades.length, predictions: predictions.length, emergencyWithdrawals: withdrawals.length };
+  }
+
+  /**
+   * Compare checkpoints with the chain, newest first, and drop everything
+   * after the newest one that is still canonical. Returns the block rewound
+   * to, or null when the latest checkpoint is intact.
+   */
+  private async handleReorg(): Promise<number | null> {
+    const checkpoints = this.db
+      .prepare('SELECT block_number, block_hash FROM chain_checkpoints ORDER BY block_number DESC')
+      .all() as Checkpoint[];
+    if (checkpoints.length === 0) return null;
+
+    let surviving: number | null = null;
+    for (const checkpoint of checkpoints) {
+      const block = await this.web3.eth.getBlock(checkpoint.block_number).catch(() => null);
+      if (block && String(block.hash) === checkpoint.block_hash) {
+        surviving = checkpoint.block_number;
+        break;
+      }
+    }
+
+    if (surviving === checkpoints[0].block_number) return null;
+
+    const rewindTo = surviving ?? this.startBlock - 1;
+    this.db.transaction(() => {
+      for (const table of ['chain_trades', 'chain_predictions', 'chain_emergency_withdrawals', 'chain_checkpoints']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(rewindTo);
+      }
+    })();
+
+    this.logger?.warn(`Chain reorg detected after block ${checkpoints[0].block_number}; rewound to block ${rewindTo}`);
+    return rewindTo;
+  }
+
+  /**
+   * Last block whose events are stored, or null before the first sync
+   */
+  public getLastIndexedBlock(): number | null {
+    const row = this.db.prepare('SELECT MAX(block_number) AS block FROM chain_checkpoints').get() as
+      { block: number | null };
+    return row.block;
+  }
+
+  /**
+   * Indexed trades, newest first, optionally for a single user
+   */
+  public getTrades(query: IndexedQuery & { user?: string } = {}): { trades: IndexedTrade[]; total: number } {
+    const where = query.user ? 'WHERE user_address = @user' : '';
+    const params = query.user ? { user: query.user.toLowerCase() } : {};
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM chain_trades ${where}`)
+      .get(params) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM chain_trades ${where} ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: query.limit ?? 50, offset: query.offset ?? 0 }) as TradeRow[];
+
+    return {
+      trades: rows.map(row => ({
+        id: row.id,
+        user: row.user_address,
+        tokenIn: row.token_in,
+        tokenOut: row.token_out,
+        amountIn: row.amount_in,
+        amountOut: row.amount_out,
+        aiConfidence: row.ai_confidence,
+        aiPredictedPrice: row.ai_predicted_price,
+        blockNumber: row.block_number,
+        blockHash: row.block_hash,
+        txHash: row.tx_hash,
+        logIndex: row.log_index,
+        timestamp: row.timestamp
+      })),
+      total
+    };
+  }
+
+  /**
+   * Indexed oracle predictions, newest first, optionally for a single pair
+   */
+  public getPredictions(query: IndexedQuery & { pairKey?: string } = {}): IndexedPrediction[] {
+    const where = query.pairKey ? 'WHERE pair_key = @pairKey' : '';
+    const params = query.pairKey ? { pairKey: query.pairKey } : {};
+    const rows = this.db
+      .prepare(`SELECT * FROM chain_predictions ${where} ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: query.limit ?? 50, offset: query.offset ?? 0 }) as PredictionRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      pairKey: row.pair_key,
+      baseToken: row.base_token,
+      price: row.price,
+      confidence: row.confidence,
+      setAt: row.set_at,
+      expiresAt: row.expires_at,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      txHash: row.tx_hash,
+      logIndex: row.log_index
+    }));
+  }
+
+  /**
+   * Indexed emergency withdrawals, newest first
+   */
+  public getEmergencyWithdrawals(query: IndexedQuery = {}): IndexedEmergencyWithdraw[] {
+    const rows = this.db
+      .prepare('SELECT * FROM chain_emergency_withdrawals ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset')
+      .all({ limit: query.limit ?? 50, offset: query.offset ?? 0 }) as EmergencyWithdrawRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      token: row.token,
+      amount: row.amount,
+      recipient: row.recipient,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      timestamp: row.timestamp
+    }));
+  }
+
+  public getStatus(): IndexerStatus {
+    const count = (table: string) =>
+      (this.db.prepare(`SELECT COUNT(*) AS total FROM ${table}`).get() as { total: number }).total;
+
+    return {
+      lastIndexedBlock: this.getLastIndexedBlock(),
+      startBlock: this.startBlock,
+      confirmations: this.confirmations,
+      trades: count('chain_trades'),
+      predictions: count('chain_predictions'),
+      emergencyWithdrawals: count('chain_emergency_withdrawals')
+    };
+  }
+}
@@ -133,7 +133,7 @@ export class ModelVersionManager {
           f1Score: 0
         },
         dataVersion: metadata.dataVersion || '1.0.0',
-        hyperparameters: metadata.hyperparameters || {},
+        hyperparameters: this.recordFeatures(modelData, modelType, metadata.hyperparameters || {}),
         validationScores: metadata.validationScores || [],
         deploymentDate: new Date().toISOString(),
         status: 'inactive'
@@ -181,11 +181,35 @@ export class ModelVersionManager {
       throw new Error('Invalid LSTM model structure');
     }
 
+    if (modelType === 'lstm' && !Array.isArray(modelData.config?.features)) {
+      throw new Error('LSTM model data must list its input features');
+    }
+
     if (modelType === 'qlearning' && (!modelData.qTable || !modelData.parameters)) {
       throw new Error('Invalid Q-Learning model structure');
     }
   }
 
+  /**
+   * Record an LSTM's input features in its hyperparameters so inputs for a
+   * different feature set are rejected when the version is loaded
+   */
+  private recordFeatures(
+    modelData: { config?: { features?: string[] } },
+    modelType: string,
+    hyperparameters: ModelMetadata['hyperparameters']
+  ): ModelMetadata['hyperparameters'] {
+    if (modelType !== 'lstm') {
+      return hyperparameters;
+    }
+
+    const features = modelData.config?.features ?? [];
+    if (hyperparameters.features && !sameFeatures(hyperparameters.features, features)) {
+      throw new Error(`Metadata features [${hyperparameters.features.join(', ')}] do not match the model's [${features.join(', ')}]`);
+    }
+    return { ...hyperparameters, features };
+  }
+
   public getActiveModel(modelType: string): ModelMetadata | null {
     const activeModels = Array.from(this.models.values())
       .filter(model => model.modelType === modelType && model.status === 'active');
@@ -386,6 +410,26 @@ export class ModelVersionManager {
     }
   }
 
+  public async loadModelData(version: string): Promise<{ metadata: ModelMetadata; modelData: unknown }> {
+    const metadata = this.models.get(version);
+    if (!metadata) {
+      throw new Error(`Model ${version} not found`);
+    }
+
+    const modelFile = path.join(this.modelDirectory, `${version}.bin`);
+    const modelData: unknown = JSON.parse(await fs.readFile(modelFile, 'utf8'));
+
+    if (metadata.modelType === 'lstm') {
+      const expected: string[] | undefined = metadata.hyperparameters.features;
+      const actual = (modelData as { config?: { features?: string[] } }).config?.features;
+      if (!expected || !actual || !sameFeatures(expected, actual)) {
+        throw new Error(`Model ${version} was deployed for features [${(expected ?? []).join(', ')}] but its data uses [${(actual ?? []).join(', ')}]`);
+      }
+    }
+
+    return { metadata, modelData };
+  }
+
   public getModelVersions(modelType?: string): ModelMetadata[] {
     let models = Array.from(this.models.values());
     
@@ -464,3 +508,10 @@ export class ModelVersionManager {
 
 
 
+
+/**
+ * Feature lists match only in the same order, since order is the tensor layout
+ */
+function sameFeatures(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((feature, i) => feature === b[i]);
+}
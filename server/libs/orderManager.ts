@@ -0,0 +1,460 @@
+import type Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { EnvironmentManager } from '../config/environment';
+import { openSqliteDatabase } from '../utils/sqlite';
+import { Web3Server } from './web3Server';
+import type { StreamingServer } from './streamingServer';
+import { StreamingEventType, PriceUpdateEvent } from '../../src/utils/streamingTypes';
+import type {
+  ConditionalOrder,
+  ConditionalOrderRequest,
+  ConditionalOrderStatus
+} from '../../src/shared/types';
+
+const AVAX_ADDRESS = '0x0000000000000000000000000000000000000000';
+const DEFAULT_SLIPPAGE = 0.5;
+
+export interface OrderQuery {
+  userAddress?: string;
+  status?: ConditionalOrderStatus;
+}
+
+interface OrderRow {
+  id: string;
+  type: ConditionalOrder['type'];
+  side: ConditionalOrder['side'];
+  status: ConditionalOrderStatus;
+  user_address: string;
+  from_token: string;
+  to_token: string;
+  amount: string;
+  trigger_price: number | null;
+  trailing_percent: number | null;
+  reference_price: number | null;
+  slippage: number;
+  mode: ConditionalOrder['mode'];
+  oco_group_id: string | null;
+  created_at: number;
+  updated_at: number;
+  triggered_at: number | null;
+  triggered_price: number | null;
+  tx_hash: string | null;
+  error: string | null;
+}
+
+/**
+ * Server-side book of conditional orders
+ * Pending orders are evaluated on every streamed AVAX/USDT price update and
+ * executed as market swaps through Web3Server once their condition is met.
+ * Orders live in SQLite so they survive restarts.
+ */
+export class OrderManager {
+  private static instance: OrderManager;
+  private db: Database.Database;
+  private logger: Logger;
+  private envManager: EnvironmentManager;
+  private pending: Map<string, ConditionalOrder> = new Map();
+  private streamingServer: StreamingServer | null = null;
+  private onPriceUpdate = (event: PriceUpdateEvent) => this.evaluate(event.data.close);
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.envManager = EnvironmentManager.getInstance();
+    this.db = openSqliteDatabase(this.envManager.getConfig('database').url);
+    this.migrate();
+    this.restore();
+  }
+
+  public static getInstance(): OrderManager {
+    if (!OrderManager.instance) {
+      OrderManager.instance = new OrderManager();
+    }
+    return OrderManager.instance;
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conditional_orders (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        side TEXT NOT NULL,
+        status TEXT NOT NULL,
+        user_address TEXT NOT NULL,
+        from_token TEXT NOT NULL,
+        to_token TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        trigger_price REAL,
+        trailing_percent REAL,
+        reference_price REAL,
+        slippage REAL NOT NULL,
+        mode TEXT,
+        oco_group_id TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        triggered_at INTEGER,
+        triggered_price REAL,
+        tx_hash TEXT,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_orders_status ON conditional_orders (status);
+      CREATE INDEX IF NOT EXISTS idx_orders_user ON conditional_orders (user_address);
+    `);
+  }
+
+  /**
+   * Reload pending orders. Orders caught between trigger and fill by a
+   * restart are failed rather than retried, since the swap may have been sent.
+   */
+  private restore(): void {
+    const interrupted = this.db.prepare(`
+      UPDATE conditional_orders
+      SET status = 'failed', error = 'Interrupted by server restart before the fill was confirmed', updated_at = ?
+      WHERE status = 'triggered'
+    `).run(Date.now());
+    if (interrupted.changes > 0) {
+      this.logger.warn(`${interrupted.changes} triggered orders were interrupted by a restart`);
+    }
+
+    const rows = this.db
+      .prepare(`SELECT * FROM conditional_orders WHERE status = 'pending'`)
+      .all() as OrderRow[];
+    rows.forEach(row => this.pending.set(row.id, this.toOrder(row)));
+    this.logger.info(`Order book restored with ${rows.length} pending orders`);
+  }
+
+  /**
+   * Start evaluating orders on the stream's price updates
+   */
+  start(streamingServer: StreamingServer): void {
+    this.stop();
+    this.streamingServer = streamingServer;
+    streamingServer.getStreamBus().on(StreamingEventType.PRICE_UPDATE, this.onPriceUpdate);
+    this.ensurePriceStream();
+  }
+
+  stop(): void {
+    this.streamingServer?.getStreamBus().off(StreamingEventType.PRICE_UPDATE, this.onPriceUpdate);
+    this.streamingServer = null;
+  }
+
+  /**
+   * Place a single conditional order
+   */
+  placeOrder(request: ConditionalOrderRequest): ConditionalOrder {
+    const [order] = this.insertOrders([request], null);
+    return order;
+  }
+
+  /**
+   * Place two or more orders that cancel each other once one of them triggers
+   */
+  placeOcoOrders(requests: ConditionalOrderRequest[]): ConditionalOrder[] {
+    if (requests.length < 2) {
+      throw new Error('An OCO group needs at least two orders');
+    }
+    const owners = new Set(requests.map(request => request.userAddress.toLowerCase()));
+    if (owners.size > 1) {
+      throw new Error('All orders in an OCO group must belong to the same account');
+    }
+
+    return this.insertOrders(requests, `oco_${crypto.randomUUID()}`);
+  }
+
+  getOrder(id: string): ConditionalOrder | null {
+    const row = this.db.prepare('SELECT * FROM conditional_orders WHERE id = ?').get(id) as OrderRow | undefined;
+    return row ? this.toOrder(row) : null;
+  }
+
+  listOrders(query: OrderQuery = {}): ConditionalOrder[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (query.userAddress) {
+      conditions.push('user_address = @userAddress');
+      params.userAddress = query.userAddress.toLowerCase();
+    }
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM conditional_orders ${where} ORDER BY created_at DESC`)
+      .all(params) as OrderRow[];
+    return rows.map(row => this.toOrder(row));
+  }
+
+  /**
+   * Cancel a pending order together with the rest of its OCO group
+   */
+  cancelOrder(id: string): ConditionalOrder[] {
+    const order = this.getOrder(id);
+    if (!order) {
+      throw new Error(`Order ${id} not found`);
+    }
+    if (order.status !== 'pending') {
+      throw new Error(`Order ${id} is ${order.status} and cannot be cancelled`);
+    }
+
+    const group = order.ocoGroupId ? this.pendingInGroup(order.ocoGroupId) : [order];
+    group.forEach(member => this.updateOrder(member, { status: 'cancelled' }));
+
+    this.logger.info(`Cancelled ${group.length} conditional order(s) starting from ${id}`);
+    return group.map(member => this.getOrder(member.id)!);
+  }
+
+  private insertOrders(requests: ConditionalOrderRequest[], ocoGroupId: string | null): ConditionalOrder[] {
+    const now = Date.now();
+    const orders = requests.map(request => this.createOrder(request, ocoGroupId, now));
+
+    const insert = this.db.prepare(`
+      INSERT INTO conditional_orders (
+        id, type, side, status, user_address, from_token, to_token, amount, trigger_price,
+        trailing_percent, reference_price, slippage, mode, oco_group_id, created_at, updated_at,
+        triggered_at, triggered_price, tx_hash, error
+      ) VALUES (
+        @id, @type, @side, @status, @user_address, @from_token, @to_token, @amount, @trigger_price,
+        @trailing_percent, @reference_price, @slippage, @mode, @oco_group_id, @created_at, @updated_at,
+        @triggered_at, @triggered_price, @tx_hash, @error
+      )
+    `);
+    this.db.transaction(() => orders.forEach(order => insert.run(this.toRow(order))))();
+
+    orders.forEach(order => {
+      this.pending.set(order.id, order);
+      this.logger.info(`Conditional ${order.type} ${order.side} order ${order.id} placed`, {
+        trading: {
+          symbol: 'AVAX/USDT',
+          action: `order_${order.type}`,
+          amount: parseFloat(order.amount)
+        }
+      });
+    });
+
+    this.ensurePriceStream();
+    return orders;
+  }
+
+  private createOrder(request: ConditionalOrderRequest, ocoGroupId: string | null, now: number): ConditionalOrder {
+    const fromToken = request.fromToken.toLowerCase();
+    const toToken = request.toToken.toLowerCase();
+    if (fromToken === toToken) {
+      throw new Error('Tokens must be different');
+    }
+    if (fromToken !== AVAX_ADDRESS && toToken !== AVAX_ADDRESS) {
+      throw new Error('Conditional orders must buy or sell AVAX');
+    }
+    if (request.type === 'trailing_stop') {
+      if (!request.trailingPercent || request.trailingPercent <= 0 || request.trailingPercent >= 100) {
+        throw new Error('Trailing stops need a trailingPercent between 0 and 100');
+      }
+    } else if (!request.triggerPrice || request.triggerPrice <= 0) {
+      throw new Error(`${request.type} orders need a positive triggerPrice`);
+    }
+
+    const lastPrice = this.streamingServer?.getLastPriceUpdate()?.close ?? null;
+
+    return {
+      id: `order_${crypto.randomUUID()}`,
+      type: request.type,
+      side: fromToken === AVAX_ADDRESS ? 'sell' : 'buy',
+      status: 'pending',
+      userAddress: request.userAddress.toLowerCase(),
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      amount: request.amount,
+      triggerPrice: request.type === 'trailing_stop' ? null : request.triggerPrice!,
+      trailingPercent: request.type === 'trailing_stop' ? request.trailingPercent! : null,
+      referencePrice: request.type === 'trailing_stop' ? lastPrice : null,
+      slippage: request.slippage ?? DEFAULT_SLIPPAGE,
+      mode: request.mode ?? null,
+      ocoGroupId,
+      createdAt: now,
+      updatedAt: now,
+      triggeredAt: null,
+      triggeredPrice: null,
+      txHash: null,
+      error: null
+    };
+  }
+
+  /**
+   * Check every pending order against a new price
+   */
+  private evaluate(price: number): void {
+    if (!(price > 0)) return;
+
+    for (const order of [...this.pending.values()]) {
+      // An earlier order in this pass may have cancelled its OCO siblings
+      if (!this.pending.has(order.id)) continue;
+
+      if (order.type === 'trailing_stop') {
+        this.trackReference(order, price);
+      }
+
+      if (this.isTriggered(order, price)) {
+        void this.execute(order, price);
+      }
+    }
+  }
+
+  /**
+   * Sell stops trail the highest price seen, buy stops the lowest
+   */
+  private trackReference(order: ConditionalOrder, price: number): void {
+    const improved = order.referencePrice === null
+      || (order.side === 'sell' ? price > order.referencePrice : price < order.referencePrice);
+    if (improved) {
+      this.updateOrder(order, { referencePrice: price });
+    }
+  }
+
+  private isTriggered(order: ConditionalOrder, price: number): boolean {
+    switch (order.type) {
+      case 'limit':
+      case 'take_profit':
+        return order.side === 'buy' ? price <= order.triggerPrice! : price >= order.triggerPrice!;
+      case 'stop_loss':
+        return order.side === 'buy' ? price >= order.triggerPrice! : price <= order.triggerPrice!;
+      case 'trailing_stop': {
+        const offset = order.trailingPercent! / 100;
+        return order.side === 'buy'
+          ? price >= order.referencePrice! * (1 + offset)
+          : price <= order.referencePrice! * (1 - offset);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Mark the order triggered (cancelling its OCO siblings) before swapping,
+   * so later price updates cannot fire it twice
+   */
+  private async execute(order: ConditionalOrder, price: number): Promise<void> {
+    this.updateOrder(order, { status: 'triggered', triggeredAt: Date.now(), triggeredPrice: price });
+
+    if (order.ocoGroupId) {
+      this.pendingInGroup(order.ocoGroupId).forEach(sibling =>
+        this.updateOrder(sibling, { status: 'cancelled', error: `OCO order ${order.id} triggered` })
+      );
+    }
+
+    this.logger.info(`Conditional order ${order.id} triggered at ${price}`, {
+      trading: {
+        symbol: 'AVAX/USDT',
+        action: `trigger_${order.type}`,
+        amount: parseFloat(order.amount)
+      }
+    });
+
+    try {
+      const web3Server = Web3Server.getInstance();
+      if (!web3Server.getConnectionStatus().connected) {
+        await web3Server.initialize();
+      }
+
+      const mode = order.mode ?? web3Server.getExecutionMode(order.userAddress);
+      const tradeParams = await web3Server.buildTradeParams(
+        order.fromToken,
+        order.toToken,
+        order.amount,
+        order.slippage,
+        mode
+      );
+      const result = await web3Server.executeTrade(tradeParams, order.userAddress, { mode });
+
+      if (result.success) {
+        this.updateOrder(order, { status: 'filled', txHash: result.txHash ?? null });
+      } else {
+        this.updateOrder(order, { status: 'failed', error: result.error ?? 'Trade execution failed' });
+      }
+    } catch (error) {
+      this.logger.error(`Conditional order ${order.id} failed`, error as Error);
+      this.updateOrder(order, { status: 'failed', error: (error as Error).message });
+    }
+  }
+
+  private pendingInGroup(ocoGroupId: string): ConditionalOrder[] {
+    return [...this.pending.values()].filter(order => order.ocoGroupId === ocoGroupId);
+  }
+
+  private updateOrder(order: ConditionalOrder, changes: Partial<ConditionalOrder>): void {
+    Object.assign(order, changes, { updatedAt: Date.now() });
+
+    this.db.prepare(`
+      UPDATE conditional_orders SET
+        status = @status, reference_price = @reference_price, updated_at = @updated_at,
+        triggered_at = @triggered_at, triggered_price = @triggered_price, tx_hash = @tx_hash, error = @error
+      WHERE id = @id
+    `).run(this.toRow(order));
+
+    if (order.status !== 'pending') {
+      this.pending.delete(order.id);
+    }
+  }
+
+  /**
+   * Orders only trigger on streamed prices, so make sure the stream runs
+   * while any are pending
+   */
+  private ensurePriceStream(): void {
+    if (!this.streamingServer || this.pending.size === 0) return;
+
+    this.streamingServer.startPriceStream().catch(error => {
+      this.logger.error('Failed to start price stream for conditional orders', error as Error);
+    });
+  }
+
+  private toRow(order: ConditionalOrder): OrderRow {
+    return {
+      id: order.id,
+      type: order.type,
+      side: order.side,
+      status: order.status,
+      user_address: order.userAddress,
+      from_token: order.fromToken,
+      to_token: order.toToken,
+      amount: order.amount,
+      trigger_price: order.triggerPrice,
+      trailing_percent: order.trailingPercent,
+      reference_price: order.referencePrice,
+      slippage: order.slippage,
+      mode: order.mode,
+      oco_group_id: order.ocoGroupId,
+      created_at: order.createdAt,
+      updated_at: order.updatedAt,
+      triggered_at: order.triggeredAt,
+      triggered_price: order.triggeredPrice,
+      tx_hash: order.txHash,
+      error: order.error
+    };
+  }
+
+  private toOrder(row: OrderRow): ConditionalOrder {
+    return {
+      id: row.id,
+      type: row.type,
+      side: row.side,
+      status: row.status,
+      userAddress: row.user_address,
+      fromToken: row.from_token,
+      toToken: row.to_token,
+      amount: row.amount,
+      triggerPrice: row.trigger_price,
+      trailingPercent: row.trailing_percent,
+      referencePrice: row.reference_price,
+      slippage: row.slippage,
+      mode: row.mode,
+      ocoGroupId: row.oco_group_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      triggeredAt: row.triggered_at,
+      triggeredPrice: row.triggered_price,
+      txHash: row.tx_hash,
+      error: row.error
+    };
+  }
+}
@@ -0,0 +1,280 @@
+import Web3 from 'web3';
+import type { AbiEventFragment, TransactionReceipt } from 'web3';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { EnvironmentManager } from '../config/environment';
+import AIPoweredTraderABI from '../../src/utils/abis/AIPoweredTrader.json';
+
+export type ExecutionMode = 'live' | 'paper';
+
+const AVAX_ADDRESS = '0x0000000000000000000000000000000000000000';
+const WEI = 10n ** 18n;
+// Pangolin charges 0.3% on the input amount
+const FEE_NUMERATOR = 997n;
+const FEE_DENOMINATOR = 1000n;
+// Mirrors TRADE_DEADLINE_BUFFER in AIPoweredTrader.sol
+const TRADE_DEADLINE_BUFFER = 20 * 60;
+
+interface SimulatedPool {
+  reserves: Map<string, bigint>;
+  createdAt: number;
+}
+
+export interface TokenReference {
+  avaxPrice: bigint; // Price of one whole token in AVAX, scaled by 1e18
+  decimals: number;
+}
+
+/**
+ * Reference prices of both sides of a swap, used to seed its pool
+ */
+export interface PoolReferences {
+  tokenIn: TokenReference;
+  tokenOut: TokenReference;
+}
+
+export interface PaperSwapRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOutMin: string;
+  deadline: number;
+  userAddress: string;
+  contractAddress: string;
+  gasLimit: number;
+  gasPrice: string;
+  blockNumber: bigint;
+  prediction: {
+    price: bigint;
+    confidence: bigint;
+  };
+  references: PoolReferences;
+}
+
+export interface PaperSwapResult {
+  receipt: TransactionReceipt;
+  amountOut: bigint;
+  spotPrice: number;
+  executionPrice: number;
+  priceImpact: number;
+}
+
+/**
+ * Paper trading engine
+ * Fills trades against simulated Pangolin constant-product pools and
+ * produces receipts shaped like the ones AIPoweredTrader would emit.
+ */
+export class PaperTradingEngine {
+  private static instance: PaperTradingEngine;
+  private logger: Logger;
+  private envManager: EnvironmentManager;
+  private abi = new Web3().eth.abi;
+  private pools: Map<string, SimulatedPool> = new Map();
+  private receipts: Map<string, TransactionReceipt> = new Map();
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.envManager = EnvironmentManager.getInstance();
+  }
+
+  public static getInstance(): PaperTradingEngine {
+    if (!PaperTradingEngine.instance) {
+      PaperTradingEngine.instance = new PaperTradingEngine();
+    }
+    return PaperTradingEngine.instance;
+  }
+
+  /**
+   * Quote a swap against the simulated pool without changing reserves
+   */
+  quote(tokenIn: string, tokenOut: string, amountIn: bigint, references: PoolReferences): {
+    amountOut: bigint;
+    spotPrice: number;
+    priceImpact: number;
+  } {
+    const pool = this.getPool(tokenIn, tokenOut, references);
+    const reserveIn = pool.reserves.get(tokenIn.toLowerCase())!;
+    const reserveOut = pool.reserves.get(tokenOut.toLowerCase())!;
+
+    const amountInWithFee = amountIn * FEE_NUMERATOR;
+    const amountOut = (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+
+    // Prices are in whole tokens of tokenOut per whole token of tokenIn
+    const spotPrice = toPrice(reserveIn, reserveOut, references);
+    const executionPrice = amountIn > 0n ? toPrice(amountIn, amountOut, references) : spotPrice;
+
+    return {
+      amountOut,
+      spotPrice,
+      priceImpact: spotPrice > 0 ? 1 - executionPrice / spotPrice : 0
+    };
+  }
+
+  /**
+   * Execute a swap against the simulated pool and build a synthetic receipt.
+   * Applies the same preconditions the contract enforces before swapping.
+   */
+  execute(request: PaperSwapRequest): PaperSwapResult {
+    const amountIn = BigInt(request.amountIn);
+    const amountOutMin = BigInt(request.amountOutMin);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (amountIn <= 0n) {
+      throw new Error('Amount must be greater than 0');
+    }
+    if (request.tokenIn.toLowerCase() === request.tokenOut.toLowerCase()) {
+      throw new Error('Tokens must be different');
+    }
+    if (request.deadline <= now) {
+      throw new Error('Deadline must be in future');
+    }
+    if (request.deadline > now + TRADE_DEADLINE_BUFFER) {
+      throw new Error('Deadline too far');
+    }
+
+    const { amountOut, spotPrice, priceImpact } = this.quote(
+      request.tokenIn,
+      request.tokenOut,
+      amountIn,
+      request.references
+    );
+
+    if (amountOut < amountOutMin) {
+      throw new Error('Pangolin: INSUFFICIENT_OUTPUT_AMOUNT');
+    }
+
+    const pool = this.getPool(request.tokenIn, request.tokenOut, request.references);
+    const keyIn = request.tokenIn.toLowerCase();
+    const keyOut = request.tokenOut.toLowerCase();
+    pool.reserves.set(keyIn, pool.reserves.get(keyIn)! + amountIn);
+    pool.reserves.set(keyOut, pool.reserves.get(keyOut)! - amountOut);
+
+    const receipt = this.buildReceipt(request, amountIn, amountOut);
+    this.receipts.set(receipt.transactionHash as string, receipt);
+
+    this.logger.info('Paper trade filled', {
+      trading: {
+        symbol: `${request.tokenIn}/${request.tokenOut}`,
+        action: 'paper_fill',
+        amount: Number(amountIn) / Number(WEI)
+      }
+    });
+
+    return {
+      receipt,
+      amountOut,
+      spotPrice,
+      executionPrice: toPrice(amountIn, amountOut, request.references),
+      priceImpact
+    };
+  }
+
+  /**
+   * Look up a synthetic receipt by its hash
+   */
+  getReceipt(txHash: string): TransactionReceipt | undefined {
+    return this.receipts.get(txHash);
+  }
+
+  /**
+   * Drop all simulated pools so the next trade re-seeds them from reference prices
+   */
+  resetPools(): void {
+    this.pools.clear();
+  }
+
+  private getPool(tokenIn: string, tokenOut: string, references: PoolReferences): SimulatedPool {
+    const keyIn = tokenIn.toLowerCase();
+    const keyOut = tokenOut.toLowerCase();
+    const poolKey = [keyIn, keyOut].sort().join(':');
+
+    let pool = this.pools.get(poolKey);
+    if (!pool) {
+      pool = this.seedPool(keyIn, keyOut, references);
+      this.pools.set(poolKey, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Seed a pool at its reference prices. Each side holds the configured AVAX
+   * depth's worth of its token, in the token's own decimals.
+   */
+  private seedPool(tokenIn: string, tokenOut: string, references: PoolReferences): SimulatedPool {
+    const avaxReserve = BigInt(this.envManager.getConfig('blockchain').paperTrading.avaxReserve) * WEI;
+    const reserves = new Map<string, bigint>();
+
+    for (const [token, reference] of [[tokenIn, references.tokenIn], [tokenOut, references.tokenOut]] as const) {
+      if (token === AVAX_ADDRESS) {
+        reserves.set(token, avaxReserve);
+        continue;
+      }
+      if (reference.avaxPrice <= 0n) {
+        throw new Error(`No reference price to seed a paper pool for ${token}`);
+      }
+      reserves.set(token, (avaxReserve * 10n ** BigInt(reference.decimals)) / reference.avaxPrice);
+    }
+
+    this.logger.info(`Seeded paper pool ${tokenIn}/${tokenOut}`);
+    return { reserves, createdAt: Date.now() };
+  }
+
+  private buildReceipt(request: PaperSwapRequest, amountIn: bigint, amountOut: bigint): TransactionReceipt {
+    const eventAbi = (AIPoweredTraderABI.abi as AbiEventFragment[]).find(
+      item => item.type === 'event' && item.name === 'TradeExecuted'
+    )!;
+
+    const transactionHash = `0x${crypto
+      .createHash('sha256')
+      .update(`${request.userAddress}:${request.tokenIn}:${request.tokenOut}:${request.amountIn}:${crypto.randomUUID()}`)
+      .digest('hex')}`;
+    const blockHash = `0x${crypto.createHash('sha256').update(`paper:${request.blockNumber}`).digest('hex')}`;
+    // estimateGas pads its result by 20%; report the unpadded figure as used
+    const gasUsed = BigInt(Math.ceil(request.gasLimit / 1.2));
+
+    const log = {
+      address: request.contractAddress,
+      topics: [
+        this.abi.encodeEventSignature(eventAbi),
+        this.abi.encodeParameter('address', request.userAddress),
+        this.abi.encodeParameter('address', request.tokenIn),
+        this.abi.encodeParameter('address', request.tokenOut)
+      ],
+      data: this.abi.encodeParameters(
+        ['uint256', 'uint256', 'uint256', 'uint256'],
+        [amountIn, amountOut, request.prediction.confidence, request.prediction.price]
+      ),
+      blockNumber: request.blockNumber,
+      blockHash,
+      transactionHash,
+      transactionIndex: 0n,
+      logIndex: 0n,
+      removed: false
+    };
+
+    return {
+      transactionHash,
+      transactionIndex: 0n,
+      blockHash,
+      blockNumber: request.blockNumber,
+      from: request.userAddress,
+      to: request.contractAddress,
+      cumulativeGasUsed: gasUsed,
+      gasUsed,
+      effectiveGasPrice: BigInt(request.gasPrice),
+      contractAddress: undefined,
+      logs: [log],
+      logsBloom: `0x${'0'.repeat(512)}`,
+      root: '0x',
+      status: 1n,
+      type: 0n
+    };
+  }
+}
+
+/**
+ * Whole tokens of tokenOut per whole token of tokenIn for raw amounts
+ */
+function toPrice(amountIn: bigint, amountOut: bigint, references: PoolReferences): number {
+  return (Number(amountOut) / Number(amountIn)) * 10 ** (references.tokenIn.decimals - references.tokenOut.decimals);
+}
@@ -237,6 +237,13 @@ export class SimpleAISystem {
     return this.historicalData[this.historicalData.length - 1].price;
   }
 
+  /**
+   * Market data the predictions are based on
+   */
+  getHistoricalData(): MarketDataPoint[] {
+    return this.historicalData;
+  }
+
   /**
    * Check if system is initialized
    */
@@ -0,0 +1,429 @@
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { WorkerPool } from '../utils/workerPool';
+import { AISystem } from './aiSystem';
+import { collectMarketData } from './dataCollection';
+import type { HistoricalBar, ModelSignal, StrategyConfig } from '../../src/utils/backtestEngine';
+import type {
+  PortfolioMetrics,
+  SweepConfig,
+  SweepParameter,
+  SweepStatus,
+  SweepTrial
+} from '../../src/shared/types';
+import type { BacktestTask, BacktestTaskResult } from '../workers/backtestWorker';
+
+export interface SweepRequest {
+  strategy: StrategyConfig;
+  startDate: Date;
+  endDate: Date;
+  initialCapital: number;
+  sweep: SweepConfig;
+}
+
+interface SweepRun {
+  status: SweepStatus;
+  pool: WorkerPool<BacktestTask, BacktestTaskResult> | null;
+}
+
+type ParameterSet = Record<SweepParameter, number>;
+
+const SWEEP_PARAMETERS: SweepParameter[] = ['aiConfidenceThreshold', 'stopLoss', 'takeProfit', 'maxTradesPerHour'];
+const MAX_TRIALS = 5000;
+const DEFAULT_SAMPLES = 50;
+// Tree-structured Parzen estimator settings for bayesian search
+const TPE_GOOD_FRACTION = 0.25;
+const TPE_CANDIDATES = 24;
+const TPE_BANDWIDTH = 0.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Finished sweeps are kept for a day, and only the most recent ones
+const FINISHED_SWEEP_TTL_MS = DAY_MS;
+const MAX_FINISHED_SWEEPS = 50;
+
+/**
+ * Strategy parameter optimizer
+ * Runs BacktestEngine over grid, random or bayesian (TPE) samples of
+ * TradingStrategy parameters on a worker pool. Bars and model signals are
+ * loaded once per sweep and shared by every trial.
+ */
+export class StrategyOptimizer {
+  private static instance: StrategyOptimizer;
+  private logger: Logger;
+  private sweeps: Map<string, SweepRun> = new Map();
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  public static getInstance(): StrategyOptimizer {
+    if (!StrategyOptimizer.instance) {
+      StrategyOptimizer.instance = new StrategyOptimizer();
+    }
+    return StrategyOptimizer.instance;
+  }
+
+  /**
+   * Start a sweep in the background and return its initial status
+   */
+  startSweep(request: SweepRequest): SweepStatus {
+    this.pruneSweeps();
+    const grid = request.sweep.method === 'grid' ? this.buildGrid(request) : null;
+    const total = grid ? grid.length : request.sweep.samples ?? DEFAULT_SAMPLES;
+    if (total === 0) {
+      throw new Error('Sweep space is empty');
+    }
+    if (total > MAX_TRIALS) {
+      throw new Error(`Sweep would run ${total} trials; the limit is ${MAX_TRIALS}`);
+    }
+
+    const status: SweepStatus = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      strategy: request.strategy.name,
+      config: request.sweep,
+      progress: { completed: 0, failed: 0, total },
+      trials: [],
+      paretoFront: [],
+      createdAt: Date.now()
+    };
+    const run: SweepRun = { status, pool: null };
+    this.sweeps.set(status.id, run);
+
+    this.runSweep(run, request, grid)
+      .then(() => {
+        if (status.status === 'running') {
+          status.status = 'completed';
+        }
+      })
+      .catch(error => {
+        status.status = 'failed';
+        status.error = (error as Error).message;
+        this.logger.error(`Sweep ${status.id} failed`, error as Error);
+      })
+      .finally(() => {
+        status.completedAt = Date.now();
+        status.paretoFront = this.paretoFront(status.trials);
+        run.pool?.destroy();
+        run.pool = null;
+      });
+
+    return status;
+  }
+
+  getSweep(id: string): SweepStatus | null {
+    this.pruneSweeps();
+    return this.sweeps.get(id)?.status ?? null;
+  }
+
+  listSweeps(): SweepStatus[] {
+    this.pruneSweeps();
+    return Array.from(this.sweeps.values())
+      .map(run => run.status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Stop dispatching new trials; trials already running finish and are kept
+   */
+  cancelSweep(id: string): SweepStatus | null {
+    const run = this.sweeps.get(id);
+    if (!run) return null;
+
+    if (run.status.status === 'running') {
+      run.status.status = 'cancelled';
+      run.pool?.clearQueue('Sweep cancelled');
+    }
+    return run.status;
+  }
+
+  /**
+   * Forget finished sweeps past their TTL or beyond the retention limit.
+   * Running sweeps are never evicted.
+   */
+  private pruneSweeps(now: number = Date.now()): void {
+    const finished = Array.from(this.sweeps.values())
+      .filter(run => run.status.completedAt !== undefined)
+      .sort((a, b) => b.status.completedAt! - a.status.completedAt!);
+
+    finished.forEach((run, i) => {
+      if (i >= MAX_FINISHED_SWEEPS || now - run.status.completedAt! > FINISHED_SWEEP_TTL_MS) {
+        this.sweeps.delete(run.status.id);
+      }
+    });
+  }
+
+  private async runSweep(run: SweepRun, request: SweepRequest, grid: ParameterSet[] | null): Promise<void> {
+    const { strategy, sweep } = request;
+    const bars = await this.loadBars(request.startDate, request.endDate);
+    const replay = await AISystem.getInstance().replay(bars, strategy.aiModel, strategy.modelVersion);
+    // Signals on bars the model was trained on would overfit the sweep
+    const signals: ModelSignal[] = replay.signals.filter(signal => !signal.inSample).map(signal => ({
+      timestamp: signal.timestamp,
+      predictedPrice: signal.predictedPrice,
+      direction: signal.direction,
+      confidence: signal.confidence,
+      modelVersion: replay.modelVersion
+    }));
+
+    const concurrency = Math.min(sweep.concurrency ?? Math.max(1, os.cpus().length - 1), os.cpus().length);
+    run.pool = new WorkerPool<BacktestTask, BacktestTaskResult>(this.workerScript(), concurrency);
+
+    this.logger.info(`Sweep ${run.status.id} started: ${run.status.progress.total} ${sweep.method} trials on ${run.pool.size} workers`, {
+      performance: {
+        duration: 0,
+        memoryUsage: bars.length
+      },
+      trading: {
+        symbol: strategy.name,
+        action: 'sweep_start',
+        amount: run.status.progress.total
+      }
+    });
+
+    const evaluate = (parameters: ParameterSet): Promise<void> =>
+      this.evaluate(run, request, bars, signals, parameters);
+
+    if (grid) {
+      await Promise.all(grid.map(evaluate));
+    } else if (sweep.method === 'random') {
+      await Promise.all(Array.from({ length: run.status.progress.total }, () => evaluate(this.sampleRandom(request))));
+    } else {
+      let proposed = 0;
+      const warmup = Math.min(run.status.progress.total, Math.max(5, Math.ceil(run.status.progress.total / 4)));
+      while (proposed < run.status.progress.total && run.status.status === 'running') {
+        const batchSize = Math.min(run.pool.size, run.status.progress.total - proposed);
+        const batch = proposed < warmup
+          ? Array.from({ length: Math.min(batchSize, warmup - proposed) }, () => this.sampleRandom(request))
+          : this.proposeBayesian(request, run.status.trials, batchSize);
+        proposed += batch.length;
+        await Promise.all(batch.map(evaluate));
+      }
+    }
+  }
+
+  private async evaluate(
+    run: SweepRun,
+    request: SweepRequest,
+    bars: HistoricalBar[],
+    signals: ModelSignal[],
+    parameters: ParameterSet
+  ): Promise<void> {
+    const { status } = run;
+    if (status.status !== 'running' || !run.pool) return;
+
+    try {
+      const result = await run.pool.run({
+        strategy: this.applyParameters(request.strategy, parameters),
+        config: {
+          startDate: request.startDate,
+          endDate: request.endDate,
+          initialCapital: request.initialCapital,
+          symbols: ['AVAX/USDT']
+        },
+        bars,
+        signals
+      });
+
+      // NaN compares false both ways, so it would mislead the TPE ranking and the Pareto front
+      const score = this.score(result.metrics, request.sweep);
+      const { sharpeRatio, maxDrawdown } = result.metrics;
+      if (![score, sharpeRatio, maxDrawdown].every(Number.isFinite)) {
+        throw new Error(`Non-finite trial result: score ${score}, Sharpe ratio ${sharpeRatio}, max drawdown ${maxDrawdown}`);
+      }
+
+      const trial: SweepTrial = {
+        id: status.progress.completed + status.progress.failed,
+        parameters,
+        metrics: result.metrics,
+        totalTrades: result.totalTrades,
+        score
+      };
+      status.progress.completed++;
+      status.trials.push(trial);
+      status.trials.sort((a, b) => b.score - a.score);
+    } catch (error) {
+      if (status.status !== 'running') return;
+      status.progress.failed++;
+      this.logger.warn(`Sweep ${status.id} trial failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Higher is better for every objective
+   */
+  private score(metrics: PortfolioMetrics, sweep: SweepConfig): number {
+    switch (sweep.objective) {
+      case 'sharpe':
+        return metrics.sharpeRatio;
+      case 'drawdown':
+        return -metrics.maxDrawdown;
+      case 'custom':
+        return Object.entries(sweep.objectiveWeights ?? {}).reduce(
+          (sum, [metric, weight]) => sum + (weight ?? 0) * metrics[metric as keyof PortfolioMetrics],
+          0
+        );
+    }
+  }
+
+  /**
+   * Trials not dominated on Sharpe ratio (higher) and max drawdown (lower)
+   */
+  private paretoFront(trials: SweepTrial[]): SweepTrial[] {
+    const dominates = (a: SweepTrial, b: SweepTrial): boolean =>
+      a.metrics.sharpeRatio >= b.metrics.sharpeRatio &&
+      a.metrics.maxDrawdown <= b.metrics.maxDrawdown &&
+      (a.metrics.sharpeRatio > b.metrics.sharpeRatio || a.metrics.maxDrawdown < b.metrics.maxDrawdown);
+
+    return trials
+      .filter(trial => !trials.some(other => dominates(other, trial)))
+      .sort((a, b) => b.metrics.sharpeRatio - a.metrics.sharpeRatio);
+  }
+
+  private buildGrid(request: SweepRequest): ParameterSet[] {
+    const base = this.baseParameters(request.strategy);
+    let grid: ParameterSet[] = [base];
+
+    for (const parameter of SWEEP_PARAMETERS) {
+      const values = request.sweep.space[parameter]?.values;
+      if (!values || values.length === 0) continue;
+      grid = grid.flatMap(point => values.map(value => ({ ...point, [parameter]: value })));
+    }
+    return grid;
+  }
+
+  private sampleRandom(request: SweepRequest): ParameterSet {
+    const parameters = this.baseParameters(request.strategy);
+
+    for (const parameter of SWEEP_PARAMETERS) {
+      const bounds = this.boundsOf(request, parameter);
+      if (!bounds) continue;
+      parameters[parameter] = this.clamp(parameter, bounds.min + Math.random() * (bounds.max - bounds.min), bounds);
+    }
+    return parameters;
+  }
+
+  /**
+   * Tree-structured Parzen estimator: split finished trials into good and bad
+   * by score, draw candidates around good trials and keep the ones with the
+   * highest good/bad density ratio
+   */
+  private proposeBayesian(request: SweepRequest, trials: SweepTrial[], count: number): ParameterSet[] {
+    if (trials.length < 2) {
+      return Array.from({ length: count }, () => this.sampleRandom(request));
+    }
+
+    const parameters = SWEEP_PARAMETERS.filter(parameter => this.boundsOf(request, parameter));
+    const ranked = [...trials].sort((a, b) => b.score - a.score);
+    const split = Math.max(1, Math.ceil(ranked.length * TPE_GOOD_FRACTION));
+    const good = ranked.slice(0, split).map(trial => trial.parameters);
+    const bad = ranked.slice(split).map(trial => trial.parameters);
+
+    const density = (point: ParameterSet, observed: ParameterSet[]): number => {
+      if (observed.length === 0) return 1e-12;
+      return observed.reduce((sum, other) => sum + parameters.reduce((product, parameter) => {
+        const bounds = this.boundsOf(request, parameter)!;
+        const sigma = Math.max((bounds.max - bounds.min) * TPE_BANDWIDTH, 1e-9);
+        const z = (point[parameter] - other[parameter]) / sigma;
+        return product * Math.exp(-0.5 * z * z);
+      }, 1), 0) / observed.length;
+    };
+
+    const proposals: ParameterSet[] = [];
+    for (let i = 0; i < count; i++) {
+      let best: { point: ParameterSet; ratio: number } | null = null;
+
+      for (let c = 0; c < TPE_CANDIDATES; c++) {
+        const anchor = good[Math.floor(Math.random() * good.length)];
+        const point = { ...anchor };
+        for (const parameter of parameters) {
+          const bounds = this.boundsOf(request, parameter)!;
+          const sigma = (bounds.max - bounds.min) * TPE_BANDWIDTH;
+          point[parameter] = this.clamp(parameter, anchor[parameter] + this.gaussian() * sigma, bounds);
+        }
+
+        const ratio = density(point, good) / (density(point, bad) + 1e-12);
+        if (!best || ratio > best.ratio) {
+          best = { point, ratio };
+        }
+      }
+      proposals.push(best!.point);
+    }
+    return proposals;
+  }
+
+  private boundsOf(request: SweepRequest, parameter: SweepParameter): { min: number; max: number } | null {
+    const range = request.sweep.space[parameter];
+    if (!range || range.min === undefined || range.max === undefined) return null;
+    return { min: range.min, max: range.max };
+  }
+
+  private clamp(parameter: SweepParameter, value: number, bounds: { min: number; max: number }): number {
+    const clamped = Math.min(bounds.max, Math.max(bounds.min, value));
+    return parameter === 'maxTradesPerHour' ? Math.round(clamped) : clamped;
+  }
+
+  private gaussian(): number {
+    // Box-Muller transform
+    const u = 1 - Math.random();
+    const v = Math.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * TradingStrategy values (percentages) for the engine's fractional settings
+   */
+  private baseParameters(strategy: StrategyConfig): ParameterSet {
+    return {
+      aiConfidenceThreshold: strategy.tradingParams.minConfidence * 100,
+      stopLoss: strategy.riskParams.stopLoss * 100,
+      takeProfit: strategy.riskParams.takeProfit * 100,
+      maxTradesPerHour: strategy.tradingParams.maxTradesPerHour ?? 0
+    };
+  }
+
+  private applyParameters(strategy: StrategyConfig, parameters: ParameterSet): StrategyConfig {
+    return {
+      ...strategy,
+      riskParams: {
+        ...strategy.riskParams,
+        stopLoss: parameters.stopLoss / 100,
+        takeProfit: parameters.takeProfit / 100
+      },
+      tradingParams: {
+        ...strategy.tradingParams,
+        minConfidence: parameters.aiConfidenceThreshold / 100,
+        maxTradesPerHour: parameters.maxTradesPerHour || undefined
+      }
+    };
+  }
+
+  private async loadBars(startDate: Date, endDate: Date): Promise<HistoricalBar[]> {
+    const days = Math.max(1, Math.ceil((Date.now() - startDate.getTime()) / DAY_MS));
+    const data = await collectMarketData(['pangolin', 'coingecko'], { hours: days * 24, days });
+    // Market data timestamps are Unix seconds
+    const start = startDate.getTime() / 1000;
+    const end = endDate.getTime() / 1000;
+    const bars = data
+      .filter(point => point.timestamp >= start && point.timestamp <= end)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .filter((point, i, sorted) => i === 0 || point.timestamp > sorted[i - 1].timestamp)
+      .map(point => ({
+        timestamp: point.timestamp,
+        close: point.close,
+        high: point.high,
+        low: point.low,
+        volume: point.volume
+      }));
+
+    if (bars.length < 2) {
+      throw new Error('Not enough market data in the requested period');
+    }
+    return bars;
+  }
+
+  private workerScript(): URL {
+    const extension = import.meta.url.endsWith('.ts') ? 'ts' : 'js';
+    return new URL(`../workers/backtestWorker.${extension}`, import.meta.url);
+  }
+}
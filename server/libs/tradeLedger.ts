@@ -0,0 +1,583 @@
+import type Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { openSqliteDatabase } from '../utils/sqlite';
+import { EnvironmentManager } from '../config/environment';
+
+export type TradeSource = 'live' | 'paper' | 'backtest';
+export type LedgerTradeType = 'BUY' | 'SELL' | 'HOLD';
+
+export interface LedgerTradeInput {
+  id?: string;
+  timestamp?: number;
+  source: TradeSource;
+  type: LedgerTradeType;
+  asset: string;
+  amount: number;
+  price: number;
+  profit?: number;
+  fees?: number;
+  slippage?: number | null;
+  gasUsed?: number | null;
+  gasPrice?: number | null;
+  txHash?: string | null;
+  status?: string;
+  aiSignal?: string | null;
+  confidence?: number | null;
+  aiPredictedPrice?: number | null;
+  userAddress?: string | null;
+  tokenIn?: string | null;
+  tokenOut?: string | null;
+  runId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface LedgerTrade {
+  id: string;
+  timestamp: string;
+  source: TradeSource;
+  type: LedgerTradeType;
+  asset: string;
+  amount: number;
+  price: number;
+  value: number;
+  profit: number;
+  fees: number;
+  slippage: number | null;
+  gasUsed: number;
+  gasPrice: number;
+  txHash: string | null;
+  status: string | null;
+  aiSignal: string | null;
+  confidence: number | null;
+  aiPredictedPrice: number | null;
+  userAddress: string | null;
+  tokenIn: string | null;
+  tokenOut: string | null;
+  runId: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface LedgerQuery {
+  source?: TradeSource | 'all';
+  type?: LedgerTradeType;
+  userAddress?: string;
+  runId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LedgerSummary {
+  totalTrades: number;
+  profitableTrades: number;
+  winRate: number;
+  totalProfit: number;
+  totalVolume: number;
+  totalFees: number;
+  averageTradeSize: number;
+  grossProfit: number;
+  grossLoss: number;
+}
+
+export interface LedgerSignalSummary {
+  /** Trades that carried an AI signal */
+  signalCount: number;
+  averageConfidence: number;
+  /** Share of signalled trades that closed in profit (0-1) */
+  winRate: number;
+  /** Pearson correlation between a trade's confidence and its profit */
+  confidenceCorrelation: number;
+}
+
+export interface LedgerHolding {
+  amount: number;
+  value: number;
+  allocation: number;
+  performance: number;
+  avgPrice: number;
+  lastPrice: number;
+}
+
+export interface LedgerSnapshot {
+  timestamp: string;
+  totalValue: number;
+  totalReturn: number;
+  dailyReturn: number;
+  realizedProfit: number;
+  unrealizedProfit: number;
+  fees: number;
+  volume: number;
+}
+
+interface TradeRow {
+  id: string;
+  timestamp: number;
+  source: TradeSource;
+  type: LedgerTradeType;
+  asset: string;
+  amount: number;
+  price: number;
+  value: number;
+  profit: number;
+  fees: number;
+  slippage: number | null;
+  gas_used: number | null;
+  gas_price: number | null;
+  tx_hash: string | null;
+  status: string | null;
+  ai_signal: string | null;
+  confidence: number | null;
+  ai_predicted_price: number | null;
+  user_address: string | null;
+  token_in: string | null;
+  token_out: string | null;
+  run_id: string | null;
+  metadata: string | null;
+}
+
+interface Position {
+  asset: string;
+  quantity: number;
+  avgPrice: number;
+}
+
+/**
+ * Open positions, each user's cost basis kept apart, and the last traded
+ * price of every asset
+ */
+interface Book {
+  positions: Map<string, Position>;
+  lastPrices: Map<string, number>;
+}
+
+/**
+ * Positions are per user and asset, so an unfiltered query never blends
+ * two users' cost bases
+ */
+function positionKey(userAddress: string | null, asset: string): string {
+  return `${userAddress ?? ''}:${asset}`;
+}
+
+/**
+ * Pearson correlation, 0 when either series is constant
+ */
+function correlation(xs: number[], ys: number[]): number {
+  if (xs.length < 2) return 0;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+/**
+ * Persistent trade ledger backed by SQLite
+ * Stores live fills, paper trades and backtest trades in one table so the
+ * portfolio API can page, filter and aggregate real rows.
+ */
+export class TradeLedger {
+  private static instance: TradeLedger;
+  private db: Database.Database;
+  private logger: Logger;
+  private envManager: EnvironmentManager;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.envManager = EnvironmentManager.getInstance();
+    this.db = this.openDatabase(this.envManager.getConfig('database').url);
+    this.migrate();
+  }
+
+  public static getInstance(): TradeLedger {
+    if (!TradeLedger.instance) {
+      TradeLedger.instance = new TradeLedger();
+    }
+    return TradeLedger.instance;
+  }
+
+  private openDatabase(url: string): Database.Database {
+    const db = openSqliteDatabase(url);
+    this.logger.info(`Trade ledger opened at ${db.name}`);
+    return db;
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS trades (
+        id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        type TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        amount REAL NOT NULL,
+        price REAL NOT NULL,
+        value REAL NOT NULL,
+        profit REAL NOT NULL DEFAULT 0,
+        fees REAL NOT NULL DEFAULT 0,
+        slippage REAL,
+        gas_used INTEGER,
+        gas_price REAL,
+        tx_hash TEXT,
+        status TEXT,
+        ai_signal TEXT,
+        confidence REAL,
+        ai_predicted_price REAL,
+        user_address TEXT,
+        token_in TEXT,
+        token_out TEXT,
+        run_id TEXT,
+        metadata TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades (timestamp);
+      CREATE INDEX IF NOT EXISTS idx_trades_source_type ON trades (source, type);
+      CREATE INDEX IF NOT EXISTS idx_trades_user ON trades (user_address);
+    `);
+  }
+
+  /**
+   * Record a single trade. SELL trades without an explicit profit are
+   * realized against the average cost of the open position.
+   */
+  public recordTrade(input: LedgerTradeInput): LedgerTrade {
+    const timestamp = input.timestamp ?? Date.now();
+    let profit = input.profit;
+
+    if (profit === undefined && input.type === 'SELL') {
+      const position = this.replayPositions(this.selectRows({
+        source: input.source,
+        userAddress: input.userAddress ?? undefined,
+        runId: input.runId ?? undefined
+      }, timestamp)).positions.get(positionKey(input.userAddress?.toLowerCase() ?? null, input.asset));
+      profit = position
+        ? (input.price - position.avgPrice) * Math.min(input.amount, position.quantity) - (input.fees ?? 0)
+        : 0;
+    }
+
+    const row: TradeRow = {
+      id: input.id ?? `${input.source}_${crypto.randomUUID()}`,
+      timestamp,
+      source: input.source,
+      type: input.type,
+      asset: input.asset,
+      amount: input.amount,
+      price: input.price,
+      value: input.amount * input.price,
+      profit: profit ?? 0,
+      fees: input.fees ?? 0,
+      slippage: input.slippage ?? null,
+      gas_used: input.gasUsed ?? null,
+      gas_price: input.gasPrice ?? null,
+      tx_hash: input.txHash ?? null,
+      status: input.status ?? 'CONFIRMED',
+      ai_signal: input.aiSignal ?? null,
+      confidence: input.confidence ?? null,
+      ai_predicted_price: input.aiPredictedPrice ?? null,
+      user_address: input.userAddress ? input.userAddress.toLowerCase() : null,
+      token_in: input.tokenIn ?? null,
+      token_out: input.tokenOut ?? null,
+      run_id: input.runId ?? null,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null
+    };
+
+    this.db.prepare(`
+      INSERT OR REPLACE INTO trades (
+        id, timestamp, source, type, asset, amount, price, value, profit, fees,
+        slippage, gas_used, gas_price, tx_hash, status, ai_signal, confidence,
+        ai_predicted_price, user_address, token_in, token_out, run_id, metadata
+      ) VALUES (
+        @id, @timestamp, @source, @type, @asset, @amount, @price, @value, @profit, @fees,
+        @slippage, @gas_used, @gas_price, @tx_hash, @status, @ai_signal, @confidence,
+        @ai_predicted_price, @user_address, @token_in, @token_out, @run_id, @metadata
+      )
+    `).run(row);
+
+    this.logger.info('Trade recorded in ledger', {
+      trading: {
+        symbol: row.asset,
+        action: `${row.source}_${row.type.toLowerCase()}`,
+        amount: row.amount
+      }
+    });
+
+    return this.toTrade(row);
+  }
+
+  /**
+   * Record a batch of trades in a single transaction
+   */
+  public recordTrades(inputs: LedgerTradeInput[]): LedgerTrade[] {
+    const insertAll = this.db.transaction((batch: LedgerTradeInput[]) =>
+      batch.map(input => this.recordTrade(input))
+    );
+    return insertAll(inputs);
+  }
+
+  /**
+   * Page through stored trades, newest first
+   */
+  public getTrades(query: LedgerQuery = {}): { trades: LedgerTrade[]; total: number } {
+    const { where, params } = this.buildFilter(query);
+    const limit = Math.max(0, query.limit ?? 50);
+    const offset = Math.max(0, query.offset ?? 0);
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM trades ${where}`)
+      .get(params) as { total: number };
+
+    const rows = this.db
+      .prepare(`SELECT * FROM trades ${where} ORDER BY timestamp DESC, id DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit, offset }) as TradeRow[];
+
+    return { trades: rows.map(row => this.toTrade(row)), total };
+  }
+
+  /**
+   * Aggregate summary statistics over all trades matching the filter
+   */
+  public getSummary(query: LedgerQuery = {}): LedgerSummary {
+    const { where, params } = this.buildFilter(query);
+    const clause = where ? `${where} AND type != 'HOLD'` : `WHERE type != 'HOLD'`;
+
+    const stats = this.db.prepare(`
+      SELECT
+        COUNT(*) AS totalTrades,
+        COALESCE(SUM(CASE WHEN profit > 0 THEN 1 ELSE 0 END), 0) AS profitableTrades,
+        COALESCE(SUM(profit), 0) AS totalProfit,
+        COALESCE(SUM(value), 0) AS totalVolume,
+        COALESCE(SUM(fees), 0) AS totalFees,
+        COALESCE(SUM(CASE WHEN profit > 0 THEN profit ELSE 0 END), 0) AS grossProfit,
+        COALESCE(SUM(CASE WHEN profit < 0 THEN -profit ELSE 0 END), 0) AS grossLoss
+      FROM trades ${clause}
+    `).get(params) as Omit<LedgerSummary, 'winRate' | 'averageTradeSize'>;
+
+    return {
+      ...stats,
+      winRate: stats.totalTrades > 0 ? (stats.profitableTrades / stats.totalTrades) * 100 : 0,
+      averageTradeSize: stats.totalTrades > 0 ? stats.totalVolume / stats.totalTrades : 0
+    };
+  }
+
+  /**
+   * How trades that carried an AI signal turned out
+   */
+  public getSignalSummary(query: LedgerQuery = {}): LedgerSignalSummary {
+    const rows = this.selectRows(query).filter(row => row.type !== 'HOLD' && row.ai_signal !== null);
+    const scored = rows.filter(row => row.confidence !== null);
+    const confidences = scored.map(row => row.confidence as number);
+    const profits = scored.map(row => row.profit);
+
+    return {
+      signalCount: rows.length,
+      averageConfidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : 0,
+      winRate: rows.length > 0 ? rows.filter(row => row.profit > 0).length / rows.length : 0,
+      confidenceCorrelation: correlation(confidences, profits)
+    };
+  }
+
+  /**
+   * Current holdings rebuilt from the trade history, valued at the last traded
+   * price. Each user's position keeps its own cost basis; holdings of the same
+   * asset are then summed across the users the query covers.
+   */
+  public getHoldings(query: LedgerQuery = {}): Record<string, LedgerHolding> {
+    const { positions, lastPrices } = this.replayPositions(this.selectRows({ ...query, type: undefined }));
+
+    const totals = new Map<string, { quantity: number; cost: number }>();
+    positions.forEach(position => {
+      if (position.quantity <= 0) return;
+      const total = totals.get(position.asset) ?? { quantity: 0, cost: 0 };
+      total.quantity += position.quantity;
+      total.cost += position.quantity * position.avgPrice;
+      totals.set(position.asset, total);
+    });
+
+    const valueOf = (asset: string, quantity: number) => quantity * (lastPrices.get(asset) ?? 0);
+    const totalValue = Array.from(totals.entries()).reduce((sum, [asset, total]) => sum + valueOf(asset, total.quantity), 0);
+
+    const holdings: Record<string, LedgerHolding> = {};
+    for (const [asset, total] of totals) {
+      const value = valueOf(asset, total.quantity);
+      const avgPrice = total.cost / total.quantity;
+      const lastPrice = lastPrices.get(asset) ?? 0;
+      holdings[asset] = {
+        amount: total.quantity,
+        value,
+        allocation: totalValue > 0 ? value / totalValue : 0,
+        performance: avgPrice > 0 ? lastPrice / avgPrice - 1 : 0,
+        avgPrice,
+        lastPrice
+      };
+    }
+
+    return holdings;
+  }
+
+  /**
+   * Daily portfolio snapshots produced by replaying stored trades
+   */
+  public getPerformanceHistory(query: LedgerQuery = {}): LedgerSnapshot[] {
+    const rows = this.selectRows({ ...query, type: undefined });
+    const book: Book = { positions: new Map(), lastPrices: new Map() };
+    const snapshots: LedgerSnapshot[] = [];
+    let realizedProfit = 0;
+    let fees = 0;
+    let invested = 0;
+    let dayVolume = 0;
+
+    const takeSnapshot = (day: string) => {
+      let marketValue = 0;
+      let unrealizedProfit = 0;
+      book.positions.forEach(position => {
+        const lastPrice = book.lastPrices.get(position.asset) ?? 0;
+        marketValue += position.quantity * lastPrice;
+        unrealizedProfit += position.quantity * (lastPrice - position.avgPrice);
+      });
+
+      const previous = snapshots[snapshots.length - 1];
+      const totalProfit = realizedProfit + unrealizedProfit;
+      const previousProfit = previous ? previous.realizedProfit + previous.unrealizedProfit : 0;
+      const previousValue = previous?.totalValue ?? 0;
+
+      snapshots.push({
+        timestamp: `${day}T00:00:00.000Z`,
+        totalValue: marketValue,
+        totalReturn: invested > 0 ? (totalProfit / invested) * 100 : 0,
+        dailyReturn: previousValue > 0 ? ((totalProfit - previousProfit) / previousValue) * 100 : 0,
+        realizedProfit,
+        unrealizedProfit,
+        fees,
+        volume: dayVolume
+      });
+      dayVolume = 0;
+    };
+
+    let currentDay: string | null = null;
+    for (const row of rows) {
+      const day = new Date(row.timestamp).toISOString().slice(0, 10);
+      if (currentDay && day !== currentDay) {
+        takeSnapshot(currentDay);
+      }
+      currentDay = day;
+
+      this.applyRow(book, row);
+      if (row.type === 'BUY') invested += row.value;
+      if (row.type === 'SELL') realizedProfit += row.profit;
+      fees += row.fees;
+      dayVolume += row.value;
+    }
+
+    if (currentDay) {
+      takeSnapshot(currentDay);
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  public close(): void {
+    this.db.close();
+  }
+
+  private selectRows(query: LedgerQuery, before?: number): TradeRow[] {
+    const { where, params } = this.buildFilter(query);
+    let clause = where;
+    if (before !== undefined) {
+      clause = where ? `${where} AND timestamp <= @before` : 'WHERE timestamp <= @before';
+      params.before = before;
+    }
+
+    return this.db
+      .prepare(`SELECT * FROM trades ${clause} ORDER BY timestamp ASC, id ASC`)
+      .all(params) as TradeRow[];
+  }
+
+  private buildFilter(query: LedgerQuery): { where: string; params: Record<string, unknown> } {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.source && query.source !== 'all') {
+      conditions.push('source = @source');
+      params.source = query.source;
+    }
+    if (query.type) {
+      conditions.push('type = @type');
+      params.type = query.type;
+    }
+    if (query.userAddress) {
+      conditions.push('user_address = @userAddress');
+      params.userAddress = query.userAddress.toLowerCase();
+    }
+    if (query.runId) {
+      conditions.push('run_id = @runId');
+      params.runId = query.runId;
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private replayPositions(rows: TradeRow[]): Book {
+    const book: Book = { positions: new Map(), lastPrices: new Map() };
+    rows.forEach(row => this.applyRow(book, row));
+    return book;
+  }
+
+  private applyRow(book: Book, row: TradeRow): void {
+    if (row.type === 'HOLD') return;
+
+    const key = positionKey(row.user_address, row.asset);
+    const position = book.positions.get(key) ?? { asset: row.asset, quantity: 0, avgPrice: 0 };
+    book.lastPrices.set(row.asset, row.price);
+
+    if (row.type === 'BUY') {
+      const totalCost = position.quantity * position.avgPrice + row.amount * row.price;
+      position.quantity += row.amount;
+      position.avgPrice = position.quantity > 0 ? totalCost / position.quantity : 0;
+    } else {
+      position.quantity = Math.max(0, position.quantity - row.amount);
+      if (position.quantity === 0) {
+        position.avgPrice = 0;
+      }
+    }
+
+    book.positions.set(key, position);
+  }
+
+  private toTrade(row: TradeRow): LedgerTrade {
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      source: row.source,
+      type: row.type,
+      asset: row.asset,
+      amount: row.amount,
+      price: row.price,
+      value: row.value,
+      profit: row.profit,
+      fees: row.fees,
+      slippage: row.slippage,
+      gasUsed: row.gas_used ?? 0,
+      gasPrice: row.gas_price ?? 0,
+      txHash: row.tx_hash,
+      status: row.status,
+      aiSignal: row.ai_signal,
+      confidence: row.confidence,
+      aiPredictedPrice: row.ai_predicted_price,
+      userAddress: row.user_address,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      runId: row.run_id,
+      metadata: row.metadata ? JSON.parse(row.metadata) : null
+    };
+  }
+}
@@ -1,11 +1,100 @@
 import Web3 from 'web3';
+import type { AbiEventFragment, Log, TransactionReceipt } from 'web3';
 import { AbiItem } from 'web3-utils';
 import { Logger } from '../utils/logger';
 import { CacheManager } from '../utils/cache';
 import { EnvironmentManager } from '../config/environment';
+import { LedgerTradeInput, TradeLedger, TradeSource } from './tradeLedger';
+import { PaperTradingEngine, ExecutionMode, PoolReferences } from './paperTrading';
+import { MAX_FORECAST_CONFIDENCE } from './aiSystem/forecastInterval';
+import { PredictionResult } from './aiSystem/types';
 import AIPoweredTraderABI from '../../src/utils/abis/AIPoweredTrader.json';
 import PriceOracleABI from '../../src/utils/abis/PriceOracle.json';
 
+const AVAX_ADDRESS = '0x0000000000000000000000000000000000000000';
+const WEI = 10n ** 18n;
+const INTENT_GAS_LIMIT = 400000;
+const RELAYER_FEE_BUFFER_PERCENT = 120n; // Cover gas price movement before the intent is mined
+const MODE_SIGNATURE_MAX_AGE = 300; // seconds
+
+const ROUTER_QUOTE_ABI = [
+  {
+    inputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'path', type: 'address[]' }
+    ],
+    name: 'getAmountsOut',
+    outputs: [{ name: 'amounts', type: 'uint256[]' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+export interface TradeParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOutMin: string;
+  deadline: number;
+  tradeType: 'AVAX_TO_TOKEN' | 'TOKEN_TO_AVAX' | 'TOKEN_TO_TOKEN';
+  expectedAmountOut?: string;
+  // Token-to-token route; defaults to a direct swap on the contract's Pangolin router
+  router?: string;
+  path?: string[];
+}
+
+/**
+ * Trade signed by a user for the relayer to submit; tokenOut is the zero
+ * address for AVAX. Amounts are in wei.
+ */
+export interface TradeIntent {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOutMin: string;
+  maxRelayerFee: string;
+  nonce: string;
+  deadline: number;
+}
+
+export interface RelayResult {
+  success: boolean;
+  txHash?: string;
+  relayerFee?: string;
+  error?: string;
+}
+
+interface QueuedIntent {
+  intent: TradeIntent;
+  signature: string;
+  relayerFee: string;
+  release: () => void;
+  resolve: (result: RelayResult) => void;
+}
+
+export interface TradeExecutionResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  mode: ExecutionMode;
+  simulation?: {
+    amountOut: string;
+    spotPrice: number;
+    executionPrice: number;
+    priceImpact: number;
+    gasUsed: number;
+    gasPrice: string;
+  };
+}
+
+/**
+ * Message an account signs to change its own execution mode
+ */
+export function executionModeMessage(userAddress: string, mode: ExecutionMode, timestamp: number): string {
+  return `Set AI trader execution mode for ${userAddress.toLowerCase()} to ${mode} at ${timestamp}`;
+}
+
 /**
  * Enhanced Web3 Server for blockchain integration
  * Phase 3: Blockchain Layer Enhancement
@@ -21,12 +110,26 @@ export class Web3Server {
   private isConnected: boolean = false;
   private gasPriceCache: { price: string; timestamp: number } | null = null;
   private gasPriceCacheDuration = 60000; // 1 minute
+  private accountModes: Map<string, ExecutionMode> = new Map();
+  private tokenDecimals: Map<string, number> = new Map();
+  private modeChangeTimestamps: Map<string, number> = new Map();
+  private wavaxAddress: string | null = null;
+  private relayerAddress: string | null = null;
+  private relayerNonce: bigint | null = null;
+  private relayQueue: QueuedIntent[] = [];
+  private pendingIntents: Map<string, number> = new Map(); // user -> intents queued or in flight
+  private isRelaying: boolean = false;
 
   private constructor() {
     this.logger = Logger.getInstance();
     this.cache = CacheManager.getInstance();
     this.envManager = EnvironmentManager.getInstance();
     this.web3 = new Web3();
+
+    const paperConfig = this.envManager.getConfig('blockchain').paperTrading;
+    paperConfig.accounts.forEach((account: string) => {
+      this.accountModes.set(account.toLowerCase(), 'paper');
+    });
   }
 
   public static getInstance(): Web3Server {
@@ -41,7 +144,7 @@ export class Web3Server {
    */
   async initialize(): Promise<void> {
     try {
-      const rpcUrl = this.envManager.getConfig('blockchain').rpcUrl;
+      const rpcUrl = this.envManager.getConfig('blockchain').avalancheRpcUrl;
       this.web3 = new Web3(new Web3.providers.HttpProvider(rpcUrl));
       
       // Test connection
@@ -76,6 +179,18 @@ export class Web3Server {
         priceOracleAddress
       );
 
+      // initialize() runs per request, so the relayer wallet is re-added to
+      // each new Web3 instance while its nonce tracking carries over
+      const relayerPrivateKey = this.envManager.getConfig('blockchain').relayerPrivateKey;
+      if (relayerPrivateKey) {
+        const relayer = this.web3.eth.accounts.privateKeyToAccount(relayerPrivateKey);
+        this.web3.eth.accounts.wallet.add(relayer);
+        if (this.relayerAddress !== relayer.address) {
+          this.relayerAddress = relayer.address;
+          this.relayerNonce = null;
+        }
+      }
+
       this.logger.info('Smart contracts initialized');
     } catch (error) {
       this.logger.error('Failed to initialize smart contracts', error as Error);
@@ -137,21 +252,63 @@ export class Web3Server {
   }
 
   /**
-   * Execute trade with enhanced error handling and retry logic
+   * Resolve the execution mode for an account, falling back to the configured default
+   */
+  getExecutionMode(userAddress: string): ExecutionMode {
+    return this.accountModes.get(userAddress.toLowerCase())
+      ?? this.envManager.getConfig('blockchain').paperTrading.defaultMode;
+  }
+
+  /**
+   * Pin an account to live or paper execution
+   */
+  setExecutionMode(userAddress: string, mode: ExecutionMode): void {
+    this.accountModes.set(userAddress.toLowerCase(), mode);
+    this.logger.info(`Execution mode for ${userAddress} set to ${mode}`);
+  }
+
+  /**
+   * Check that the account itself signed a request to change its execution mode.
+   * Each signature carries a timestamp that must be recent and newer than the
+   * last accepted one, so a captured request cannot be replayed.
+   */
+  verifyExecutionModeSignature(
+    userAddress: string,
+    mode: ExecutionMode,
+    timestamp: number,
+    signature: string
+  ): void {
+    const now = Math.floor(Date.now() / 1000);
+    if (timestamp > now + 60 || now - timestamp > MODE_SIGNATURE_MAX_AGE) {
+      throw new Error(`Signature timestamp must be within ${MODE_SIGNATURE_MAX_AGE} seconds of now`);
+    }
+
+    const account = userAddress.toLowerCase();
+    if (timestamp <= (this.modeChangeTimestamps.get(account) ?? 0)) {
+      throw new Error('Signature has already been used');
+    }
+
+    const signer = this.web3.eth.accounts.recover(executionModeMessage(userAddress, mode, timestamp), signature);
+    if (signer.toLowerCase() !== account) {
+      throw new Error('Signature was not made by the account');
+    }
+
+    this.modeChangeTimestamps.set(account, timestamp);
+  }
+
+  /**
+   * Execute trade with enhanced error handling and retry logic.
+   * An explicit mode overrides the account's configured execution mode.
    */
   async executeTrade(
-    tradeParams: {
-      tokenIn: string;
-      tokenOut: string;
-      amountIn: string;
-      amountOutMin: string;
-      deadline: number;
-      tradeType: 'AVAX_TO_TOKEN' | 'TOKEN_TO_AVAX' | 'TOKEN_TO_TOKEN';
-    },
-    userAddress: string
-  ): Promise<{ success: boolean; txHash?: string; error?: string }> {
+    tradeParams: TradeParams,
+    userAddress: string,
+    options: { mode?: ExecutionMode } = {}
+  ): Promise<TradeExecutionResult> {
+    const mode = options.mode ?? this.getExecutionMode(userAddress);
+
     try {
-      this.logger.info('Executing trade', {
+      this.logger.info(mode === 'paper' ? 'Executing paper trade' : 'Executing trade', {
         trading: {
           symbol: `${tradeParams.tokenIn}/${tradeParams.tokenOut}`,
           action: 'execute_trade',
@@ -160,11 +317,12 @@ export class Web3Server {
       });
 
       // Validate AI prediction before trade
-      const aiPredictionValid = await this.validateAIPrediction();
+      const aiPredictionValid = await this.validateAIPrediction(tradeParams.tokenIn, tradeParams.tokenOut);
       if (!aiPredictionValid) {
         return {
           success: false,
-          error: 'AI prediction validation failed'
+          error: 'AI prediction validation failed',
+          mode
         };
       }
 
@@ -178,6 +336,10 @@ export class Web3Server {
         gasPrice
       );
 
+      if (mode === 'paper') {
+        return await this.executePaperTrade(tradeParams, userAddress, transactionParams.params);
+      }
+
       // Execute transaction with retry logic
       const result = await this.executeTransactionWithRetry(transactionParams);
 
@@ -189,25 +351,169 @@ export class Web3Server {
             amount: parseFloat(tradeParams.amountIn)
           }
         });
+
+        await this.recordFill(tradeParams, userAddress, result.receipt, 'live');
       }
 
-      return result;
+      return {
+        success: result.success,
+        txHash: result.txHash,
+        error: result.error,
+        mode
+      };
     } catch (error) {
       this.logger.error('Trade execution failed', error as Error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mode
       };
     }
   }
 
   /**
-   * Validate AI prediction from smart contract
+   * Build swap parameters for a market order. Paper fills are priced by the
+   * simulated pool, so their minimum output is derived from its quote.
+   */
+  async buildTradeParams(
+    fromToken: string,
+    toToken: string,
+    amount: string,
+    slippage: number,
+    mode: ExecutionMode
+  ): Promise<TradeParams> {
+    const tradeParams: TradeParams = {
+      tokenIn: fromToken,
+      tokenOut: toToken,
+      amountIn: amount,
+      amountOutMin: (parseFloat(amount) * (1 - slippage / 100)).toString(),
+      deadline: Math.floor(Date.now() / 1000) + 1200, // 20 minutes
+      tradeType: fromToken === AVAX_ADDRESS ? 'AVAX_TO_TOKEN' :
+                 toToken === AVAX_ADDRESS ? 'TOKEN_TO_AVAX' : 'TOKEN_TO_TOKEN'
+    };
+
+    if (mode === 'paper') {
+      const quote = await this.getPaperQuote(fromToken, toToken, amount);
+      const slippageBps = BigInt(Math.round(slippage * 100));
+      tradeParams.expectedAmountOut = quote.amountOut;
+      tradeParams.amountOutMin = (BigInt(quote.amountOut) * (10000n - slippageBps) / 10000n).toString();
+    }
+
+    return tradeParams;
+  }
+
+  /**
+   * Quote a swap against the simulated pool seeded from reference prices
    */
-  private async validateAIPrediction(): Promise<boolean> {
+  async getPaperQuote(tokenIn: string, tokenOut: string, amountIn: string): Promise<{
+    amountOut: string;
+    spotPrice: number;
+    priceImpact: number;
+  }> {
+    const prediction = await this.getPairPrediction(tokenIn, tokenOut);
+    const quote = PaperTradingEngine.getInstance().quote(
+      tokenIn,
+      tokenOut,
+      BigInt(amountIn),
+      await this.getPaperReferences(tokenIn, tokenOut, BigInt(prediction.price))
+    );
+
+    return {
+      amountOut: quote.amountOut.toString(),
+      spotPrice: quote.spotPrice,
+      priceImpact: quote.priceImpact
+    };
+  }
+
+  /**
+   * Fill a trade against the simulated Pangolin pool.
+   * Reads the same oracle state the contract checks, so a paper fill is only
+   * possible when the live transaction would have passed AI validation.
+   */
+  private async executePaperTrade(
+    tradeParams: TradeParams,
+    userAddress: string,
+    txParams: { gas: number; gasPrice: string }
+  ): Promise<TradeExecutionResult> {
+    const isValid = await this.priceOracleContract.methods
+      .isPredictionValid(await this.oracleToken(tradeParams.tokenIn), await this.oracleToken(tradeParams.tokenOut))
+      .call();
+    if (!isValid) {
+      return {
+        success: false,
+        error: 'AI prediction is not valid on the price oracle',
+        mode: 'paper'
+      };
+    }
+
+    const prediction = await this.getPairPrediction(tradeParams.tokenIn, tradeParams.tokenOut);
+    const blockNumber = await this.web3.eth.getBlockNumber();
+
+    const fill = PaperTradingEngine.getInstance().execute({
+      tokenIn: tradeParams.tokenIn,
+      tokenOut: tradeParams.tokenOut,
+      amountIn: tradeParams.amountIn,
+      amountOutMin: tradeParams.amountOutMin,
+      deadline: tradeParams.deadline,
+      userAddress,
+      contractAddress: this.aiTraderContract.options.address,
+      gasLimit: txParams.gas,
+      gasPrice: txParams.gasPrice,
+      blockNumber: BigInt(blockNumber),
+      prediction: {
+        price: BigInt(prediction.price),
+        confidence: BigInt(prediction.confidence)
+      },
+      references: await this.getPaperReferences(tradeParams.tokenIn, tradeParams.tokenOut, BigInt(prediction.price))
+    });
+
+    await this.recordFill(tradeParams, userAddress, fill.receipt, 'paper');
+
+    return {
+      success: true,
+      txHash: fill.receipt.transactionHash as string,
+      mode: 'paper',
+      simulation: {
+        amountOut: fill.amountOut.toString(),
+        spotPrice: fill.spotPrice,
+        executionPrice: fill.executionPrice,
+        priceImpact: fill.priceImpact,
+        gasUsed: Number(fill.receipt.gasUsed),
+        gasPrice: txParams.gasPrice
+      }
+    };
+  }
+
+  /**
+   * AVAX prices and decimals that seed the paper pool for a pair. AVAX pairs
+   * are seeded at the oracle's AVAX price, the one the contract validates
+   * against; token/token pairs at each token's AVAX spot price.
+   */
+  private async getPaperReferences(tokenIn: string, tokenOut: string, predictedPrice: bigint): Promise<PoolReferences> {
+    const isAvaxPair = tokenIn === AVAX_ADDRESS || tokenOut === AVAX_ADDRESS;
+    const reference = async (token: string) => {
+      let avaxPrice: bigint;
+      if (!isAvaxPair) {
+        avaxPrice = await this.getAvaxReferencePrice(token);
+      } else if (token === AVAX_ADDRESS) {
+        avaxPrice = WEI;
+      } else {
+        // Without a prediction the pool starts at parity
+        avaxPrice = predictedPrice > 0n ? (WEI * WEI) / predictedPrice : WEI;
+      }
+      return { avaxPrice, decimals: await this.getTokenDecimals(token) };
+    };
+
+    return { tokenIn: await reference(tokenIn), tokenOut: await reference(tokenOut) };
+  }
+
+  /**
+   * Validate the AI prediction for the traded pair from smart contract
+   */
+  private async validateAIPrediction(tokenIn: string, tokenOut: string): Promise<boolean> {
     try {
       const predictionStatus = await this.aiTraderContract.methods
-        .getAIPredictionStatus()
+        .getAIPredictionStatus(await this.oracleToken(tokenIn), await this.oracleToken(tokenOut))
         .call();
 
       return predictionStatus.isValid;
@@ -218,7 +524,149 @@ export class Web3Server {
   }
 
   /**
-   * Prepare transaction parameters
+   * Oracle predictions are keyed by ERC20 address, so native AVAX maps to WAVAX
+   */
+  private async oracleToken(token: string): Promise<string> {
+    if (token !== AVAX_ADDRESS) return token;
+    if (!this.wavaxAddress) {
+      this.wavaxAddress = (await this.aiTraderContract.methods.WAVAX().call()) as string;
+    }
+    return this.wavaxAddress;
+  }
+
+  /**
+   * Oracle prediction for a pair, priced as AVAX in the other token for AVAX
+   * pairs so it can seed the paper pool
+   */
+  private async getPairPrediction(tokenIn: string, tokenOut: string) {
+    const [base, quote] = tokenOut === AVAX_ADDRESS ? [tokenOut, tokenIn] : [tokenIn, tokenOut];
+    return this.priceOracleContract.methods
+      .getPrediction(await this.oracleToken(base), await this.oracleToken(quote))
+      .call();
+  }
+
+  /**
+   * Submit a model forecast to PriceOracle as one of its reporters. The
+   * prediction is published once a quorum of reporters agree, which may be
+   * on this submission or a later one.
+   * The on-chain confidence is the one implied by the calibrated interval's
+   * width, capped and as a percentage; a zero-width band publishes 0.
+   */
+  async publishPrediction(
+    baseToken: string,
+    quoteToken: string,
+    prediction: PredictionResult,
+    validFor: number
+  ): Promise<{ txHash: string; confidence: number; published: boolean }> {
+    if (!prediction.interval) {
+      throw new Error('Prediction has no calibrated interval to derive confidence from');
+    }
+
+    const reporterPrivateKey = this.envManager.getConfig('blockchain').privateKey;
+    if (!reporterPrivateKey) {
+      throw new Error('PRIVATE_KEY is not configured for publishing predictions');
+    }
+    const reporter = this.web3.eth.accounts.privateKeyToAccount(reporterPrivateKey);
+    if (!(await this.priceOracleContract.methods.reporters(reporter.address).call())) {
+      throw new Error(`Account ${reporter.address} is not a PriceOracle reporter`);
+    }
+    this.web3.eth.accounts.wallet.add(reporter);
+
+    const confidence = Math.round(Math.min(prediction.confidence, MAX_FORECAST_CONFIDENCE) * 100);
+    const latestBlock = await this.web3.eth.getBlock('latest');
+    const method = this.priceOracleContract.methods.submitPrediction(
+      await this.oracleToken(baseToken),
+      await this.oracleToken(quoteToken),
+      this.web3.utils.toWei(prediction.price.toFixed(8), 'ether'),
+      confidence,
+      Number(latestBlock.timestamp) + validFor
+    );
+
+    const gasPrice = await this.getOptimizedGasPrice();
+    const gas = await this.estimateGas({
+      from: reporter.address,
+      to: this.priceOracleContract.options.address,
+      data: method.encodeABI()
+    });
+    const receipt = await method.send({ from: reporter.address, gas, gasPrice });
+    const published = receipt.events?.PredictionSet !== undefined;
+
+    this.logger.info(published ? 'Published prediction to PriceOracle' : 'Submitted prediction to PriceOracle', {
+      trading: {
+        symbol: `${baseToken}/${quoteToken}`,
+        action: 'publish_prediction',
+        amount: prediction.price
+      }
+    });
+
+    return { txHash: receipt.transactionHash as string, confidence, published };
+  }
+
+  /**
+   * Check a trade against the contract's risk limits before sending it, so a
+   * trade the contract would revert fails here with a readable error
+   */
+  private async checkRiskLimits(
+    router: string,
+    path: string[],
+    amountIn: string,
+    userAddress: string
+  ): Promise<void> {
+    const methods = this.aiTraderContract.methods;
+    const tokenIn = path[0];
+    const amount = BigInt(amountIn);
+
+    if (await methods.allowlistEnabled().call()) {
+      for (const token of path) {
+        if (!(await methods.allowedTokens(token).call())) {
+          throw new Error(`Token ${token} is not on the trading allowlist`);
+        }
+      }
+    }
+
+    const maxAmount = BigInt(await methods.maxTradeAmount(tokenIn).call());
+    if (maxAmount > 0n && amount > maxAmount) {
+      throw new Error(`Trade amount ${amount} exceeds the per-trade limit of ${maxAmount} for ${tokenIn}`);
+    }
+
+    const volumeCap = BigInt(await methods.dailyVolumeCap(tokenIn).call());
+    if (volumeCap > 0n) {
+      const volume = BigInt(await methods.rollingVolume(userAddress, tokenIn).call()) + amount;
+      if (volume > volumeCap) {
+        throw new Error(`Trade would bring 24h volume to ${volume}, above the limit of ${volumeCap} for ${tokenIn}`);
+      }
+    }
+
+    // Paper fills never reach the contract, so its direction check is repeated here
+    const tokenOut = path[path.length - 1];
+    const prediction = await this.priceOracleContract.methods.getPrediction(tokenIn, tokenOut).call();
+    const spot = await methods.getSpotPrice(router, path, amountIn).call();
+    if (!spot.available) {
+      throw new Error(`No spot price available for ${tokenIn}/${tokenOut}`);
+    }
+    if (BigInt(prediction.price) > BigInt(spot.spotPrice)) {
+      const pairKey = await this.priceOracleContract.methods.pairKey(tokenIn, tokenOut).call();
+      if (!(await methods.directionOverrides(pairKey).call())) {
+        throw new Error(
+          `Trade goes against the AI direction: predicted ${this.web3.utils.fromWei(prediction.price, 'ether')}, ` +
+          `spot ${this.web3.utils.fromWei(spot.spotPrice, 'ether')}`
+        );
+      }
+    }
+
+    const maxImpactBps = BigInt(await methods.maxPriceImpactBps().call());
+    if (maxImpactBps > 0n) {
+      const impact = await methods.getPriceImpact(router, path, amountIn).call();
+      if (impact.available && BigInt(impact.impactBps) > maxImpactBps) {
+        throw new Error(
+          `Price impact of ${Number(impact.impactBps) / 100}% exceeds the limit of ${Number(maxImpactBps) / 100}%`
+        );
+      }
+    }
+  }
+
+  /**
+   * Prepare transaction parameters, rejecting trades outside the risk limits
    */
   private async prepareTransaction(
     tradeParams: any,
@@ -226,12 +674,16 @@ export class Web3Server {
     gasPrice: string
   ): Promise<any> {
     const deadline = Math.floor(Date.now() / 1000) + 1200; // 20 minutes
+    const pangolinRouter: string = await this.aiTraderContract.methods.pangolinRouter().call();
 
     let method;
     let params;
+    let router = pangolinRouter;
+    let path: string[];
 
     switch (tradeParams.tradeType) {
       case 'AVAX_TO_TOKEN':
+        path = [await this.oracleToken(AVAX_ADDRESS), tradeParams.tokenOut];
         method = this.aiTraderContract.methods.tradeExactAVAXForTokens(
           tradeParams.tokenOut,
           tradeParams.amountOutMin,
@@ -245,6 +697,7 @@ export class Web3Server {
         break;
 
       case 'TOKEN_TO_AVAX':
+        path = [tradeParams.tokenIn, await this.oracleToken(AVAX_ADDRESS)];
         method = this.aiTraderContract.methods.tradeExactTokensForAVAX(
           tradeParams.tokenIn,
           tradeParams.amountIn,
@@ -258,9 +711,11 @@ export class Web3Server {
         break;
 
       case 'TOKEN_TO_TOKEN':
+        router = tradeParams.router ?? pangolinRouter;
+        path = tradeParams.path ?? [tradeParams.tokenIn, tradeParams.tokenOut];
         method = this.aiTraderContract.methods.tradeExactTokensForTokens(
-          tradeParams.tokenIn,
-          tradeParams.tokenOut,
+          router,
+          path,
           tradeParams.amountIn,
           tradeParams.amountOutMin,
           deadline
@@ -275,9 +730,12 @@ export class Web3Server {
         throw new Error('Invalid trade type');
     }
 
+    await this.checkRiskLimits(router, path, tradeParams.amountIn, userAddress);
+
     // Estimate gas
     const gasLimit = await this.estimateGas({
       ...params,
+      to: this.aiTraderContract.options.address,
       data: method.encodeABI()
     });
 
@@ -290,18 +748,204 @@ export class Web3Server {
     };
   }
 
+  /**
+   * Relayer account that submits gasless trade intents, if one is configured
+   */
+  getRelayerAddress(): string | null {
+    return this.relayerAddress;
+  }
+
+  /**
+   * Nonce the user's next intent must carry: the contract's nonce plus the
+   * user's intents that are queued or sent but not yet mined
+   */
+  async getIntentNonce(userAddress: string): Promise<bigint> {
+    const onChain = BigInt(await this.aiTraderContract.methods.nonces(userAddress).call());
+    return onChain + BigInt(this.pendingIntents.get(userAddress.toLowerCase()) ?? 0);
+  }
+
+  /**
+   * Count one more pending intent for the user. The returned callback drops
+   * it again once the intent is mined or fails, and is safe to call twice.
+   */
+  private holdIntentNonce(userAddress: string): () => void {
+    const user = userAddress.toLowerCase();
+    this.pendingIntents.set(user, (this.pendingIntents.get(user) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const pending = (this.pendingIntents.get(user) ?? 1) - 1;
+      if (pending > 0) {
+        this.pendingIntents.set(user, pending);
+      } else {
+        this.pendingIntents.delete(user);
+      }
+    };
+  }
+
+  /**
+   * Fee the relayer charges for an intent, in wei of the output token: the
+   * intent's gas cost at the current gas price, plus a buffer
+   */
+  async quoteRelayerFee(tokenOut: string): Promise<bigint> {
+    const gasPrice = BigInt(await this.getOptimizedGasPrice());
+    const gasCost = BigInt(INTENT_GAS_LIMIT) * gasPrice * RELAYER_FEE_BUFFER_PERCENT / 100n;
+    if (tokenOut === AVAX_ADDRESS) {
+      return gasCost;
+    }
+
+    const router = new this.web3.eth.Contract(
+      ROUTER_QUOTE_ABI,
+      await this.aiTraderContract.methods.pangolinRouter().call()
+    );
+    const amounts = await router.methods.getAmountsOut(gasCost, [await this.oracleToken(AVAX_ADDRESS), tokenOut]).call();
+    return BigInt(amounts[amounts.length - 1]);
+  }
+
+  /**
+   * Queue a signed trade intent for the relayer. Intents are checked against
+   * the relayer fee and the contract's risk limits up front, then submitted
+   * one at a time so the relayer's transaction nonces stay in order.
+   */
+  async submitTradeIntent(intent: TradeIntent, signature: string): Promise<RelayResult> {
+    try {
+      if (!this.relayerAddress) {
+        return { success: false, error: 'Relayer is not configured' };
+      }
+
+      if (intent.deadline <= Math.floor(Date.now() / 1000)) {
+        return { success: false, error: 'Intent deadline has passed' };
+      }
+
+      // Check and hold the nonce in one step, so a second intent checked
+      // while this one is queued or in flight has to carry the next nonce
+      const onChainNonce = BigInt(await this.aiTraderContract.methods.nonces(intent.user).call());
+      const expectedNonce = onChainNonce + BigInt(this.pendingIntents.get(intent.user.toLowerCase()) ?? 0);
+      if (BigInt(intent.nonce) !== expectedNonce) {
+        return { success: false, error: `Intent nonce ${intent.nonce} does not match the expected nonce ${expectedNonce}` };
+      }
+      const release = this.holdIntentNonce(intent.user);
+
+      try {
+        const relayerFee = await this.quoteRelayerFee(intent.tokenOut);
+        if (relayerFee > BigInt(intent.maxRelayerFee)) {
+          return {
+            success: false,
+            error: `Relayer fee of ${relayerFee} exceeds the intent's maximum of ${intent.maxRelayerFee}`
+          };
+        }
+
+        await this.checkRiskLimits(
+          await this.aiTraderContract.methods.pangolinRouter().call(),
+          [intent.tokenIn, await this.oracleToken(intent.tokenOut)],
+          intent.amountIn,
+          intent.user
+        );
+
+        return await new Promise<RelayResult>(resolve => {
+          this.relayQueue.push({ intent, signature, relayerFee: relayerFee.toString(), release, resolve });
+          void this.processRelayQueue();
+        });
+      } finally {
+        release();
+      }
+    } catch (error) {
+      this.logger.error('Failed to queue trade intent', error as Error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to queue trade intent'
+      };
+    }
+  }
+
+  /**
+   * Submit queued intents one at a time
+   */
+  private async processRelayQueue(): Promise<void> {
+    if (this.isRelaying) return;
+    this.isRelaying = true;
+
+    try {
+      while (this.relayQueue.length > 0) {
+        const item = this.relayQueue.shift()!;
+        item.resolve(await this.relayIntent(item));
+      }
+    } finally {
+      this.isRelaying = false;
+    }
+  }
+
+  /**
+   * Send one intent from the relayer account and record the fill
+   */
+  private async relayIntent(item: QueuedIntent): Promise<RelayResult> {
+    const { intent, signature, relayerFee } = item;
+
+    try {
+      const method = this.aiTraderContract.methods.executeTradeIntent(intent, signature, relayerFee);
+      const gasPrice = await this.getOptimizedGasPrice();
+      const gas = await this.estimateGas({
+        from: this.relayerAddress,
+        to: this.aiTraderContract.options.address,
+        data: method.encodeABI()
+      });
+
+      if (this.relayerNonce === null) {
+        this.relayerNonce = BigInt(await this.web3.eth.getTransactionCount(this.relayerAddress!, 'pending'));
+      }
+      const nonce = this.relayerNonce;
+      this.relayerNonce += 1n;
+
+      const receipt = await method.send({ from: this.relayerAddress, gas, gasPrice, nonce });
+      // The contract's nonce now covers this intent
+      item.release();
+
+      this.logger.info('Relayed trade intent', {
+        trading: {
+          symbol: `${intent.tokenIn}/${intent.tokenOut}`,
+          action: 'relay_intent',
+          amount: parseFloat(intent.amountIn)
+        }
+      });
+
+      await this.recordFill({
+        tokenIn: intent.tokenIn,
+        tokenOut: intent.tokenOut,
+        amountIn: intent.amountIn,
+        amountOutMin: intent.amountOutMin,
+        deadline: intent.deadline,
+        tradeType: intent.tokenOut === AVAX_ADDRESS ? 'TOKEN_TO_AVAX' : 'TOKEN_TO_TOKEN'
+      }, intent.user, receipt, 'live');
+
+      return { success: true, txHash: receipt.transactionHash as string, relayerFee };
+    } catch (error) {
+      // The transaction may never have been broadcast, so resync the nonce
+      this.relayerNonce = null;
+      item.release();
+      this.logger.error('Failed to relay trade intent', error as Error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to relay trade intent'
+      };
+    }
+  }
+
   /**
    * Execute transaction with retry logic
    */
   private async executeTransactionWithRetry(
     transactionParams: any,
     maxRetries: number = 3
-  ): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  ): Promise<{ success: boolean; txHash?: string; receipt?: any; error?: string }> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         this.logger.info(`Transaction attempt ${attempt}/${maxRetries}`);
 
-        const txHash = await transactionParams.method.send(transactionParams.params);
+        // web3 v4 resolves send() with the receipt rather than the hash
+        const sent = await transactionParams.method.send(transactionParams.params);
+        const txHash: string = typeof sent === 'string' ? sent : sent.transactionHash;
         
         // Wait for transaction confirmation
         const receipt = await this.waitForTransactionConfirmation(txHash);
@@ -309,7 +953,8 @@ export class Web3Server {
         if (receipt.status) {
           return {
             success: true,
-            txHash: txHash
+            txHash: txHash,
+            receipt
           };
         } else {
           throw new Error('Transaction failed on-chain');
@@ -336,6 +981,158 @@ export class Web3Server {
     };
   }
 
+  /**
+   * Record a confirmed fill in the trade ledger.
+   * Amounts are read from the TradeExecuted event so the ledger reflects
+   * what the router actually returned, not the requested minimum.
+   */
+  private async recordFill(
+    tradeParams: TradeParams,
+    userAddress: string,
+    receipt: TransactionReceipt,
+    source: TradeSource
+  ): Promise<void> {
+    try {
+      const event = this.decodeTradeExecuted(receipt);
+      const decimalsIn = await this.getTokenDecimals(tradeParams.tokenIn);
+      const decimalsOut = await this.getTokenDecimals(tradeParams.tokenOut);
+      const amountIn = Number(this.web3.utils.fromWei((event?.amountIn as bigint) ?? tradeParams.amountIn, decimalsIn));
+      const amountOut = Number(this.web3.utils.fromWei((event?.amountOut as bigint) ?? tradeParams.amountOutMin, decimalsOut));
+
+      // Every ledger price is in AVAX: the AVAX leg prices AVAX pairs, and a
+      // token/token swap is a SELL of tokenIn at its AVAX price plus a BUY of
+      // tokenOut for the same AVAX value
+      const avaxIn = tradeParams.tokenIn === AVAX_ADDRESS
+        ? amountIn
+        : tradeParams.tokenOut === AVAX_ADDRESS
+          ? amountOut
+          : amountIn * Number(this.web3.utils.fromWei(await this.getAvaxReferencePrice(tradeParams.tokenIn), 'ether'));
+
+      const gasUsed = Number(receipt.gasUsed);
+      const gasPriceWei = BigInt(receipt.effectiveGasPrice ?? 0);
+      const fees = Number(this.web3.utils.fromWei(BigInt(gasUsed) * gasPriceWei, 'ether'));
+
+      let slippage: number | null = null;
+      if (tradeParams.expectedAmountOut) {
+        const expected = Number(this.web3.utils.fromWei(tradeParams.expectedAmountOut, decimalsOut));
+        slippage = expected > 0 ? (expected - amountOut) / expected : null;
+      }
+
+      const fill = {
+        source,
+        gasUsed,
+        gasPrice: Number(this.web3.utils.fromWei(gasPriceWei, 'gwei')),
+        txHash: receipt.transactionHash as string,
+        status: 'CONFIRMED',
+        // The contract only emits the oracle prediction, not the signal behind the trade
+        aiSignal: null,
+        confidence: event ? Number(event.aiConfidence) : null,
+        aiPredictedPrice: event ? Number(this.web3.utils.fromWei(event.aiPredictedPrice as bigint, 'ether')) : null,
+        userAddress,
+        tokenIn: tradeParams.tokenIn,
+        tokenOut: tradeParams.tokenOut,
+        metadata: {
+          tradeType: tradeParams.tradeType,
+          blockNumber: Number(receipt.blockNumber),
+          quote: 'AVAX'
+        }
+      };
+      const legs: LedgerTradeInput[] = [];
+      if (tradeParams.tokenIn !== AVAX_ADDRESS) {
+        legs.push({
+          ...fill,
+          type: 'SELL',
+          asset: tradeParams.tokenIn,
+          amount: amountIn,
+          price: avaxIn / amountIn,
+          fees,
+          slippage: tradeParams.tokenOut === AVAX_ADDRESS ? slippage : null
+        });
+      }
+      if (tradeParams.tokenOut !== AVAX_ADDRESS) {
+        // Gas is charged once per swap, on the first leg
+        legs.push({
+          ...fill,
+          type: 'BUY',
+          asset: tradeParams.tokenOut,
+          amount: amountOut,
+          price: avaxIn / amountOut,
+          fees: legs.length > 0 ? 0 : fees,
+          slippage
+        });
+      }
+
+      TradeLedger.getInstance().recordTrades(legs);
+    } catch (error) {
+      // The trade already settled on-chain; a ledger failure must not turn it into an error
+      this.logger.error('Failed to record trade in ledger', error as Error);
+    }
+  }
+
+  /**
+   * Price of one whole token in AVAX, in wei, from the trader's spot price:
+   * a router quote, or the owner's reference price when the router has none
+   */
+  private async getAvaxReferencePrice(token: string): Promise<bigint> {
+    const wavax = await this.oracleToken(AVAX_ADDRESS);
+    if (token === AVAX_ADDRESS || token.toLowerCase() === wavax.toLowerCase()) return WEI;
+
+    const decimals = await this.getTokenDecimals(token);
+    const { spotPrice, available } = await this.aiTraderContract.methods.getSpotPrice(
+      await this.aiTraderContract.methods.pangolinRouter().call(),
+      [token, wavax],
+      10n ** BigInt(decimals)
+    ).call();
+    if (!available) {
+      throw new Error(`No AVAX price available for ${token}`);
+    }
+    return BigInt(spotPrice);
+  }
+
+  /**
+   * ERC20 decimals, cached per token; native AVAX has 18
+   */
+  private async getTokenDecimals(tokenAddress: string): Promise<number> {
+    if (tokenAddress === AVAX_ADDRESS) return 18;
+
+    const key = tokenAddress.toLowerCase();
+    const cached = this.tokenDecimals.get(key);
+    if (cached !== undefined) return cached;
+
+    const tokenContract = new this.web3.eth.Contract([
+      {
+        constant: true,
+        inputs: [],
+        name: 'decimals',
+        outputs: [{ name: '', type: 'uint8' }],
+        type: 'function'
+      }
+    ] as const, tokenAddress);
+    const decimals = Number(await tokenContract.methods.decimals().call());
+    this.tokenDecimals.set(key, decimals);
+    return decimals;
+  }
+
+  /**
+   * Decode the TradeExecuted event from a transaction receipt
+   */
+  private decodeTradeExecuted(receipt: TransactionReceipt): Record<string, unknown> | null {
+    const eventAbi = (AIPoweredTraderABI.abi as AbiItem[]).find(
+      item => item.type === 'event' && item.name === 'TradeExecuted'
+    ) as AbiEventFragment | undefined;
+    if (!eventAbi?.inputs || !receipt?.logs) return null;
+
+    const signature = this.web3.eth.abi.encodeEventSignature(eventAbi);
+    const log = receipt.logs.find((entry: Log) => entry.topics?.[0] === signature);
+    if (!log?.topics || !log.data) return null;
+
+    return this.web3.eth.abi.decodeLog(
+      [...eventAbi.inputs],
+      log.data as string,
+      (log.topics as string[]).slice(1)
+    );
+  }
+
   /**
    * Wait for transaction confirmation
    */
@@ -368,9 +1165,9 @@ export class Web3Server {
   }
 
   /**
-   * Get current AI prediction from smart contract
+   * Get current AI prediction for a token pair from smart contract
    */
-  async getAIPrediction(): Promise<{
+  async getAIPrediction(tokenA: string, tokenB: string): Promise<{
     price: number;
     confidence: number;
     timestamp: number;
@@ -378,7 +1175,7 @@ export class Web3Server {
   }> {
     try {
       const prediction = await this.priceOracleContract.methods
-        .getPrediction()
+        .getPrediction(await this.oracleToken(tokenA), await this.oracleToken(tokenB))
         .call();
 
       return {
@@ -432,7 +1229,8 @@ export class Web3Server {
     gasUsed?: number;
   }> {
     try {
-      const receipt = await this.web3.eth.getTransactionReceipt(txHash);
+      const receipt = PaperTradingEngine.getInstance().getReceipt(txHash)
+        ?? await this.web3.eth.getTransactionReceipt(txHash);
       
       if (!receipt) {
         return { status: 'pending' };
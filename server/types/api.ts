@@ -6,25 +6,68 @@ import type { ProcessedFeatures, MarketData } from '../../src/utils/aiModels';
  */
 
 // Predict API
+
+/**
+ * A market data bar with optional technical indicators. Indicators the
+ * model uses are computed from the history when a bar lacks them.
+ */
+export interface PredictDataPoint extends MarketData {
+  sma7?: number;
+  sma14?: number;
+  sma30?: number;
+  ema10?: number;
+  ema30?: number;
+  volatility?: number;
+  momentum?: number;
+  volumeSMA?: number;
+}
+
 export interface PredictRequest {
-  recentData?: MarketData[];
+  recentData?: PredictDataPoint[];
+  /** Bars ahead to forecast; defaults to every horizon the model was trained for */
+  horizons?: number[];
+  /** Pair or data source of recentData, e.g. AVAX/USDT; forecasts are only scored for accuracy when given */
+  series?: string;
+}
+
+export interface HorizonPrediction {
+  /** Bars ahead */
+  horizon: number;
+  price: number;
+  confidence: number;
+  interval?: { p10: number; p50: number; p90: number };
 }
 
 export interface PredictResponse {
   price: number;
+  /** Derived from the width of the calibrated interval when one is present (0-1) */
   confidence: number;
   timestamp: number;
+  /** 10th, 50th and 90th percentile price forecasts */
+  interval?: { p10: number; p50: number; p90: number };
+  /** Share of held-out outcomes the model's p10-p90 band contained */
+  calibration?: number;
+  /** Forecast per requested horizon, shortest first */
+  horizons?: HorizonPrediction[];
 }
 
 // Trade API
 export interface TradeRequest {
-  features: ProcessedFeatures;
+  /** Ignored: the state is encoded from `prices`. Still accepted from older clients */
+  features?: ProcessedFeatures;
+  /** Recent closing prices, oldest first, ending with the current bar */
+  prices: number[];
   portfolioRatio: number;
 }
 
 export interface TradeResponse {
   action: 'BUY' | 'SELL' | 'HOLD';
+  /** Margin of the chosen action over the runner-up, relative to the Q-value range (0-1) */
   confidence: number;
+  /** Q-value of each action in the looked-up state */
+  qValues: { BUY: number; SELL: number; HOLD: number };
+  /** Discretized market and portfolio state, e.g. overbought_calm_up_balanced */
+  state: string;
   timestamp: number;
 }
 
@@ -33,12 +76,51 @@ export interface BlockchainTradeRequest {
   fromToken: string;
   toToken: string;
   amount: string;
+  userAddress: string;
   slippage?: number;
+  mode?: 'live' | 'paper';
 }
 
 export interface BlockchainTradeResponse {
   txHash?: string;
   error?: string;
+  mode?: 'live' | 'paper';
+  simulation?: {
+    amountOut: string;
+    spotPrice: number;
+    executionPrice: number;
+    priceImpact: number;
+    gasUsed: number;
+    gasPrice: string;
+  };
+  timestamp: number;
+}
+
+// Gasless Relay API
+export interface RelayQuoteResponse {
+  relayer: string;
+  nonce: string;
+  relayerFee: string;
+  timestamp: number;
+}
+
+export interface RelayIntentRequest {
+  intent: {
+    user: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string;
+    amountOutMin: string;
+    maxRelayerFee: string;
+    nonce: string;
+    deadline: number;
+  };
+  signature: string;
+}
+
+export interface RelayIntentResponse {
+  txHash: string;
+  relayerFee: string;
   timestamp: number;
 }
 
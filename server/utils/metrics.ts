@@ -11,6 +11,8 @@ interface MetricsData {
   aiModel: {
     predictions: number;
     accuracy: number[];
+    /** Accuracy of scored forecasts, keyed by horizon in bars */
+    accuracyByHorizon: Record<string, number[]>;
     confidence: number[];
     trainingTime: number[];
     memoryUsage: number[];
@@ -78,6 +80,7 @@ export class MetricsCollector {
       aiModel: {
         predictions: 0,
         accuracy: [],
+        accuracyByHorizon: {},
         confidence: [],
         trainingTime: [],
         memoryUsage: []
@@ -131,7 +134,7 @@ export class MetricsCollector {
     this.aiPredictionAccuracy = new promClient.Gauge({
       name: 'ai_prediction_accuracy',
       help: 'Accuracy of AI predictions',
-      labelNames: ['model_type']
+      labelNames: ['model_type', 'horizon']
     });
 
     this.aiModelMemoryUsage = new promClient.Gauge({
@@ -213,10 +216,22 @@ export class MetricsCollector {
     this.logger.logPerformance(`API ${method} ${route}`, duration, this.getMemoryUsage());
   }
 
-  public recordAIModelPerformance(modelType: string, accuracy: number, confidence: number, duration: number, memoryUsage: number): void {
+  public recordAIModelPerformance(
+    modelType: string,
+    accuracy: number,
+    confidence: number,
+    duration: number,
+    memoryUsage: number,
+    horizon: number = 1
+  ): void {
     // Update internal metrics
     this.metrics.aiModel.predictions++;
     this.metrics.aiModel.accuracy.push(accuracy);
+    const byHorizon = this.metrics.aiModel.accuracyByHorizon;
+    if (!byHorizon[horizon]) {
+      byHorizon[horizon] = [];
+    }
+    byHorizon[horizon].push(accuracy);
     this.metrics.aiModel.confidence.push(confidence);
     this.metrics.aiModel.trainingTime.push(duration);
     this.metrics.aiModel.memoryUsage.push(memoryUsage);
@@ -227,7 +242,7 @@ export class MetricsCollector {
       .observe(duration / 1000);
 
     this.aiPredictionAccuracy
-      .labels(modelType)
+      .labels(modelType, String(horizon))
       .set(accuracy);
 
     this.aiModelMemoryUsage
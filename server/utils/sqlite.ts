@@ -0,0 +1,22 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Open the SQLite database behind a `sqlite:<file>` url, creating the
+ * containing directory if needed
+ */
+export function openSqliteDatabase(url: string): Database.Database {
+  if (!url.startsWith('sqlite:')) {
+    throw new Error(`Unsupported database url: ${url}`);
+  }
+
+  const filename = url.slice('sqlite:'.length);
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  return db;
+}
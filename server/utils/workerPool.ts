@@ -0,0 +1,132 @@
+import { Worker } from 'worker_threads';
+import { Logger } from './logger';
+
+interface PendingTask<TTask, TResult> {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker<TTask, TResult> {
+  worker: Worker;
+  current: PendingTask<TTask, TResult> | null;
+}
+
+export interface WorkerRequest<TTask> {
+  id: number;
+  task: TTask;
+}
+
+export type WorkerResponse<TResult> =
+  | { id: number; result: TResult }
+  | { id: number; error: string };
+
+/**
+ * Fixed-size pool of worker threads running the same script.
+ * Tasks are queued until a worker is free; a worker that crashes fails its
+ * current task and is replaced.
+ */
+export class WorkerPool<TTask, TResult> {
+  private logger = Logger.getInstance();
+  private workers: PoolWorker<TTask, TResult>[] = [];
+  private queue: PendingTask<TTask, TResult>[] = [];
+  private nextTaskId = 0;
+  private destroyed = false;
+
+  constructor(private scriptUrl: URL, size: number) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  run(task: TTask): Promise<TResult> {
+    if (this.destroyed) {
+      return Promise.reject(new Error('Worker pool has been destroyed'));
+    }
+
+    return new Promise<TResult>((resolve, reject) => {
+      this.queue.push({ id: this.nextTaskId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Drop queued tasks (rejecting them) without touching running ones
+   */
+  clearQueue(reason: string): void {
+    const queued = this.queue.splice(0);
+    queued.forEach(pending => pending.reject(new Error(reason)));
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    this.clearQueue('Worker pool has been destroyed');
+    const workers = this.workers.splice(0);
+    workers.forEach(entry => entry.current?.reject(new Error('Worker pool has been destroyed')));
+    await Promise.all(workers.map(entry => entry.worker.terminate()));
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (this.queue.length === 0) return;
+      if (entry.current) continue;
+
+      const pending = this.queue.shift()!;
+      entry.current = pending;
+      const request: WorkerRequest<TTask> = { id: pending.id, task: pending.task };
+      entry.worker.postMessage(request);
+    }
+  }
+
+  private spawn(): PoolWorker<TTask, TResult> {
+    const entry: PoolWorker<TTask, TResult> = { worker: this.createWorker(), current: null };
+
+    entry.worker.on('message', (response: WorkerResponse<TResult>) => {
+      const pending = entry.current;
+      if (!pending || pending.id !== response.id) return;
+
+      entry.current = null;
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+      this.dispatch();
+    });
+
+    entry.worker.on('error', error => {
+      this.logger.error('Worker thread crashed', error);
+      entry.current?.reject(error);
+      entry.current = null;
+    });
+
+    entry.worker.on('exit', () => {
+      const index = this.workers.indexOf(entry);
+      if (this.destroyed || index === -1) return;
+
+      entry.current?.reject(new Error('Worker thread exited'));
+      this.workers[index] = this.spawn();
+      this.dispatch();
+    });
+
+    return entry;
+  }
+
+  /**
+   * Under tsx the worker has to register the TypeScript loader itself
+   * before importing the script
+   */
+  private createWorker(): Worker {
+    if (!this.scriptUrl.pathname.endsWith('.ts')) {
+      return new Worker(this.scriptUrl);
+    }
+
+    const bootstrap = `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(this.scriptUrl.href)}); })`;
+    return new Worker(bootstrap, { eval: true });
+  }
+}
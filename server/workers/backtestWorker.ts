@@ -0,0 +1,38 @@
+import { parentPort } from 'worker_threads';
+import { BacktestEngine } from '../../src/utils/backtestEngine';
+import type { HistoricalBar, ModelSignal, StrategyConfig } from '../../src/utils/backtestEngine';
+import type { BacktestConfig, PortfolioMetrics } from '../../src/shared/types';
+import type { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+export interface BacktestTask {
+  strategy: StrategyConfig;
+  config: BacktestConfig;
+  bars: HistoricalBar[];
+  signals: ModelSignal[];
+}
+
+export interface BacktestTaskResult {
+  metrics: PortfolioMetrics;
+  totalTrades: number;
+}
+
+/**
+ * Runs a single backtest on bars and model signals supplied by the
+ * optimizer, so no worker touches the network or the models.
+ */
+parentPort!.on('message', async ({ id, task }: WorkerRequest<BacktestTask>) => {
+  let response: WorkerResponse<BacktestTaskResult>;
+
+  try {
+    const engine = new BacktestEngine({
+      loadBars: async () => task.bars,
+      loadSignals: async () => task.signals
+    });
+    const result = await engine.runBacktest(task.strategy, task.config);
+    response = { id, result: { metrics: result.metrics, totalTrades: result.trades.length } };
+  } catch (error) {
+    response = { id, error: (error as Error).message };
+  }
+
+  parentPort!.postMessage(response);
+});
@@ -1,19 +1,48 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useAITrading } from "@/hooks/useAITrading";
 import { useWeb3 } from "@/hooks/useWeb3";
+import { getPredictionAccuracy, resolveTokenAddress } from "@/utils/web3";
+
+type OracleAccuracy = Awaited<ReturnType<typeof getPredictionAccuracy>>;
 
 /**
  * AI Insights Component
- * Displays LSTM predictions, RL trading signals, and model confidence
- * for the AI-powered trading system
+ * Displays LSTM predictions, RL trading signals, model confidence and the
+ * price oracle's settled track record for the AI-powered trading system
  */
 const AIInsights: React.FC = () => {
   const { currentPrediction, currentSignal, isInitialized, isTraining } =
     useAITrading();
-  const { isConnected } = useWeb3();
+  const { isConnected, web3, networkId } = useWeb3();
+  const [oracleAccuracy, setOracleAccuracy] = useState<OracleAccuracy>(null);
+
+  // On-chain hit rate and error of settled AVAX/USDT predictions
+  useEffect(() => {
+    if (!web3 || !isConnected) return;
+
+    let cancelled = false;
+    const loadAccuracy = async () => {
+      try {
+        const chainId = parseInt(networkId || "43113");
+        const accuracy = await getPredictionAccuracy(
+          web3,
+          resolveTokenAddress("AVAX", chainId),
+          resolveTokenAddress("USDT", chainId)
+        );
+        if (!cancelled) setOracleAccuracy(accuracy);
+      } catch (error) {
+        console.error("Failed to load oracle accuracy:", error);
+      }
+    };
+
+    loadAccuracy();
+    return () => {
+      cancelled = true;
+    };
+  }, [web3, isConnected, networkId]);
 
   // Fallback mock data when AI is not ready
   const fallbackData = {
@@ -179,6 +208,66 @@ const AIInsights: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Forecast Term Structure */}
+      {currentPrediction?.horizons && currentPrediction.horizons.length > 0 && (
+        <Card className="bg-muted/30 border-border">
+          <CardContent className="p-4">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-foreground">
+                  Forecast Term Structure
+                </h3>
+                <Badge variant="secondary" className="text-xs">
+                  80% interval
+                </Badge>
+              </div>
+
+              <div className="space-y-2">
+                {currentPrediction.horizons.map((forecast) => {
+                  const change = currentPrediction.currentPrice
+                    ? ((forecast.price - currentPrediction.currentPrice) /
+                        currentPrediction.currentPrice) *
+                      100
+                    : null;
+                  return (
+                    <div key={forecast.horizon} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {forecast.horizon}h
+                        </span>
+                        <span className="text-foreground font-medium">
+                          ${forecast.price.toFixed(2)}
+                          {change !== null && (
+                            <span
+                              className={`ml-2 ${
+                                change >= 0 ? "text-profit" : "text-loss"
+                              }`}
+                            >
+                              {change >= 0 ? "+" : ""}
+                              {change.toFixed(1)}%
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span className="text-muted-foreground">
+                          {forecast.interval
+                            ? `$${forecast.interval.p10.toFixed(2)} – $${forecast.interval.p90.toFixed(2)}`
+                            : "No interval"}
+                        </span>
+                        <span className={getConfidenceColor(forecast.confidence)}>
+                          {forecast.confidence.toFixed(0)}%
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* RL Trading Signal */}
       <Card className="bg-gradient-dark/50 border-border">
         <CardContent className="p-4">
@@ -235,6 +324,52 @@ const AIInsights: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Oracle Track Record */}
+      <Card className="bg-muted/30 border-border">
+        <CardContent className="p-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-foreground">
+                Oracle Track Record
+              </h3>
+              <Badge variant="secondary" className="text-xs">
+                AVAX/USDT
+              </Badge>
+            </div>
+
+            {oracleAccuracy && oracleAccuracy.settled > 0 ? (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Hit Rate</span>
+                  <span className={getConfidenceColor(oracleAccuracy.hitRate)}>
+                    {oracleAccuracy.hitRate.toFixed(1)}%
+                  </span>
+                </div>
+                <Progress value={oracleAccuracy.hitRate} className="h-2" />
+
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Mean Abs. Error</span>
+                  <span className="text-foreground font-medium">
+                    {oracleAccuracy.meanAbsoluteError.toFixed(2)}%
+                  </span>
+                </div>
+
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Settled Predictions</span>
+                  <span className="text-foreground font-medium">
+                    {oracleAccuracy.settled}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground text-center">
+                No settled predictions yet
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Technical Analysis Summary */}
       <Card className="bg-muted/30 border-border">
         <CardContent className="p-4">
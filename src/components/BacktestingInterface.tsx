@@ -10,8 +10,10 @@ import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Alert, AlertDescription } from './ui/alert';
 import { Separator } from './ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { BacktestEngine } from '../utils/backtestEngine';
-import { BacktestConfig, BacktestResult, PortfolioMetrics } from '../shared/types';
+import { apiBacktestDataSource } from '../utils/backtestDataSource';
+import { BacktestConfig, BacktestResult, PortfolioMetrics, WalkForwardConfig } from '../shared/types';
 import { 
   Play, 
   BarChart3, 
@@ -39,10 +41,13 @@ interface StrategyTemplate {
   tradingParams: {
     minConfidence: number;
     rebalanceFrequency: number;
-    slippageModel: 'fixed' | 'volume' | 'volatility';
+    slippageModel: 'fixed' | 'volume' | 'volatility' | 'amm';
   };
 }
 
+// Backtested together on shared cash and rebalanced every rebalanceFrequency days
+const MULTI_ASSET_SYMBOLS = ['AVAX/USDT', 'JOE/USDT', 'BENQI/USDT', 'PANGOLIN-LP', 'JOE-LP'];
+
 const strategyTemplates: StrategyTemplate[] = [
   {
     name: 'Conservative LSTM',
@@ -94,6 +99,43 @@ const strategyTemplates: StrategyTemplate[] = [
   }
 ];
 
+/**
+ * Persist backtest trades in the server-side ledger so they can be
+ * queried alongside paper and live fills.
+ */
+const recordBacktestTrades = async (result: BacktestResult): Promise<void> => {
+  if (result.trades.length === 0) return;
+
+  const runId = `backtest_${Date.now()}`;
+  const trades = result.trades.map(trade => ({
+    id: `${runId}_${trade.id}`,
+    timestamp: trade.timestamp,
+    source: 'backtest' as const,
+    type: trade.type === 'buy' ? 'BUY' as const : 'SELL' as const,
+    asset: trade.symbol,
+    amount: trade.amount,
+    price: trade.price,
+    profit: trade.pnl,
+    fees: (trade.metadata?.fees ?? 0) + (trade.metadata?.gasCost ?? 0),
+    slippage: trade.metadata?.slippage ?? null,
+    aiSignal: trade.metadata?.signal?.direction.toUpperCase() ?? null,
+    confidence: trade.metadata?.signal?.confidence ?? null,
+    aiPredictedPrice: trade.metadata?.signal?.predictedPrice ?? null,
+    runId,
+    metadata: { strategy: result.strategy, modelVersion: trade.metadata?.signal?.modelVersion }
+  }));
+
+  const response = await fetch('/api/portfolio/trades', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trades })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: Failed to record backtest trades`);
+  }
+};
+
 export const BacktestingInterface: React.FC = () => {
   const [selectedStrategy, setSelectedStrategy] = useState<StrategyTemplate>(strategyTemplates[0]);
   const [backtestConfig, setBacktestConfig] = useState<BacktestConfig>({
@@ -106,7 +148,8 @@ export const BacktestingInterface: React.FC = () => {
   const [customParams, setCustomParams] = useState({
     maxPositionSize: selectedStrategy.riskParams.maxPositionSize,
     minConfidence: selectedStrategy.tradingParams.minConfidence,
-    maxDrawdown: selectedStrategy.riskParams.maxDrawdown
+    maxDrawdown: selectedStrategy.riskParams.maxDrawdown,
+    slippageModel: selectedStrategy.tradingParams.slippageModel
   });
   
   const [isRunning, setIsRunning] = useState(false);
@@ -114,8 +157,11 @@ export const BacktestingInterface: React.FC = () => {
   const [results, setResults] = useState<BacktestResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('setup');
+  const [evaluationMode, setEvaluationMode] = useState<'single' | WalkForwardConfig['method']>('single');
+  const [foldCount, setFoldCount] = useState(4);
+  const [modelVersion, setModelVersion] = useState('');
 
-  const backtestEngineRef = useRef(new BacktestEngine());
+  const backtestEngineRef = useRef(new BacktestEngine(apiBacktestDataSource));
 
   const handleStrategyChange = (strategyName: string) => {
     const strategy = strategyTemplates.find(s => s.name === strategyName);
@@ -124,7 +170,8 @@ export const BacktestingInterface: React.FC = () => {
       setCustomParams({
         maxPositionSize: strategy.riskParams.maxPositionSize,
         minConfidence: strategy.tradingParams.minConfidence,
-        maxDrawdown: strategy.riskParams.maxDrawdown
+        maxDrawdown: strategy.riskParams.maxDrawdown,
+        slippageModel: strategy.tradingParams.slippageModel
       });
     }
   };
@@ -149,6 +196,7 @@ export const BacktestingInterface: React.FC = () => {
 
       const strategy = {
         ...selectedStrategy,
+        modelVersion: selectedStrategy.aiModel !== 'ensemble' && modelVersion.trim() ? modelVersion.trim() : undefined,
         riskParams: {
           ...selectedStrategy.riskParams,
           maxPositionSize: customParams.maxPositionSize,
@@ -156,15 +204,25 @@ export const BacktestingInterface: React.FC = () => {
         },
         tradingParams: {
           ...selectedStrategy.tradingParams,
-          minConfidence: customParams.minConfidence
+          minConfidence: customParams.minConfidence,
+          slippageModel: customParams.slippageModel
         }
       };
 
-      const result = await backtestEngineRef.current.runBacktest(strategy, backtestConfig);
+      const result = evaluationMode === 'single'
+        ? await backtestEngineRef.current.runBacktest(strategy, backtestConfig)
+        : await backtestEngineRef.current.runWalkForward(strategy, backtestConfig, {
+            method: evaluationMode,
+            folds: foldCount
+          });
       
       clearInterval(progressInterval);
       setProgress(100);
       setResults(result);
+
+      recordBacktestTrades(result).catch(err => {
+        console.warn('Failed to record backtest trades:', err);
+      });
       
       // Reset progress after a delay
       setTimeout(() => setProgress(0), 2000);
@@ -174,7 +232,7 @@ export const BacktestingInterface: React.FC = () => {
     } finally {
       setIsRunning(false);
     }
-  }, [selectedStrategy, backtestConfig, customParams]);
+  }, [selectedStrategy, backtestConfig, customParams, evaluationMode, foldCount, modelVersion]);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -189,6 +247,10 @@ export const BacktestingInterface: React.FC = () => {
     return `${(value * 100).toFixed(2)}%`;
   };
 
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString();
+  };
+
   const getMetricColor = (value: number, threshold: number, reverse = false) => {
     const isGood = reverse ? value <= threshold : value >= threshold;
     return isGood ? 'text-green-600' : 'text-red-600';
@@ -221,9 +283,10 @@ export const BacktestingInterface: React.FC = () => {
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="setup">Setup</TabsTrigger>
               <TabsTrigger value="results" disabled={!results}>Results</TabsTrigger>
+              <TabsTrigger value="folds" disabled={!results?.walkForward}>Folds</TabsTrigger>
               <TabsTrigger value="comparison" disabled={!results}>Comparison</TabsTrigger>
             </TabsList>
 
@@ -256,9 +319,46 @@ export const BacktestingInterface: React.FC = () => {
                     <div className="flex items-center gap-2 p-3 border rounded-lg">
                       <Zap className="w-4 h-4" />
                       <span className="font-medium capitalize">{selectedStrategy.aiModel}</span>
-                      <Badge variant="outline">{selectedStrategy.tradingParams.slippageModel}</Badge>
+                      <Badge variant="outline">{customParams.slippageModel}</Badge>
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label>Model Version</Label>
+                    <Input
+                      placeholder="Live model"
+                      value={modelVersion}
+                      disabled={selectedStrategy.aiModel === 'ensemble'}
+                      onChange={(e) => setModelVersion(e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Replay a deployed model version instead of the live models (LSTM and RL only)
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Execution Model</Label>
+                    <Select
+                      value={customParams.slippageModel}
+                      onValueChange={(value) => setCustomParams(prev => ({
+                        ...prev,
+                        slippageModel: value as StrategyTemplate['tradingParams']['slippageModel']
+                      }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed slippage</SelectItem>
+                        <SelectItem value="volume">Volume-based slippage</SelectItem>
+                        <SelectItem value="volatility">Volatility-based slippage</SelectItem>
+                        <SelectItem value="amm">AMM (x*y=k, 0.3% LP fee, gas)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      The AMM model prices each fill against pool reserves, so large orders pay price impact
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -308,9 +408,9 @@ export const BacktestingInterface: React.FC = () => {
 
                   <div className="space-y-2">
                     <Label>Trading Pair</Label>
-                    <Select value={backtestConfig.symbols?.[0]} onValueChange={(value) => setBacktestConfig(prev => ({
+                    <Select value={backtestConfig.symbols.join(',')} onValueChange={(value) => setBacktestConfig(prev => ({
                       ...prev,
-                      symbols: [value]
+                      symbols: value.split(',')
                     }))}>
                       <SelectTrigger>
                         <SelectValue />
@@ -319,6 +419,7 @@ export const BacktestingInterface: React.FC = () => {
                         <SelectItem value="AVAX/USDT">AVAX/USDT</SelectItem>
                         <SelectItem value="AVAX/USDC">AVAX/USDC</SelectItem>
                         <SelectItem value="BTC/USDT">BTC/USDT</SelectItem>
+                        <SelectItem value={MULTI_ASSET_SYMBOLS.join(',')}>Multi-asset portfolio</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -370,6 +471,44 @@ export const BacktestingInterface: React.FC = () => {
                 </div>
               </div>
 
+              {/* Evaluation Method */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Evaluation</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Method</Label>
+                    <Select
+                      value={evaluationMode}
+                      onValueChange={(value) => setEvaluationMode(value as typeof evaluationMode)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">Single pass</SelectItem>
+                        <SelectItem value="walk_forward">Walk-forward</SelectItem>
+                        <SelectItem value="kfold">K-fold</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Walk-forward and k-fold tune min confidence and stop loss in-sample and score them out-of-sample
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Folds</Label>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={12}
+                      value={foldCount}
+                      disabled={evaluationMode === 'single'}
+                      onChange={(e) => setFoldCount(Math.min(12, Math.max(2, parseInt(e.target.value) || 4)))}
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Run Backtest */}
               <div className="space-y-4">
                 <Button 
@@ -499,6 +638,18 @@ export const BacktestingInterface: React.FC = () => {
                           <span>Total Trades</span>
                           <span className="font-medium">{results.trades.length}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Slippage Cost</span>
+                          <span className="font-medium">{formatCurrency(results.performanceAttribution.slippageImpact)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Fees</span>
+                          <span className="font-medium">{formatCurrency(results.performanceAttribution.feeImpact)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Gas</span>
+                          <span className="font-medium">{formatCurrency(results.performanceAttribution.gasImpact)}</span>
+                        </div>
                       </CardContent>
                     </Card>
 
@@ -526,6 +677,47 @@ export const BacktestingInterface: React.FC = () => {
                     </Card>
                   </div>
 
+                  {Object.keys(results.performanceAttribution.byAsset).length > 1 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Asset Attribution</CardTitle>
+                        <CardDescription>
+                          Realized PnL and execution costs per asset
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Asset</TableHead>
+                              <TableHead>Trades</TableHead>
+                              <TableHead>Realized PnL</TableHead>
+                              <TableHead>Signal Accuracy</TableHead>
+                              <TableHead>Slippage</TableHead>
+                              <TableHead>Fees</TableHead>
+                              <TableHead>Gas</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {Object.entries(results.performanceAttribution.byAsset).map(([symbol, attribution]) => (
+                              <TableRow key={symbol}>
+                                <TableCell className="font-medium">{symbol}</TableCell>
+                                <TableCell>{attribution.trades}</TableCell>
+                                <TableCell className={getMetricColor(attribution.realizedPnl, 0)}>
+                                  {formatCurrency(attribution.realizedPnl)}
+                                </TableCell>
+                                <TableCell>{formatPercentage(attribution.signalAccuracy)}</TableCell>
+                                <TableCell>{formatCurrency(attribution.slippageImpact)}</TableCell>
+                                <TableCell>{formatCurrency(attribution.feeImpact)}</TableCell>
+                                <TableCell>{formatCurrency(attribution.gasImpact)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </CardContent>
+                    </Card>
+                  )}
+
                   {/* Export Results */}
                   <div className="flex justify-end">
                     <Button onClick={exportResults} variant="outline">
@@ -537,6 +729,92 @@ export const BacktestingInterface: React.FC = () => {
               )}
             </TabsContent>
 
+            <TabsContent value="folds" className="space-y-6">
+              {results?.walkForward && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Card>
+                      <CardContent className="p-4">
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">Method</p>
+                          <p className="text-2xl font-bold">
+                            {results.walkForward.method === 'kfold' ? 'K-fold' : 'Walk-forward'}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardContent className="p-4">
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">Overfitting Score</p>
+                          <p className={cn("text-2xl font-bold", getMetricColor(results.walkForward.overfittingScore, 0.5, true))}>
+                            {formatPercentage(results.walkForward.overfittingScore)}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardContent className="p-4">
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">Walk-Forward Efficiency</p>
+                          <p className={cn("text-2xl font-bold", getMetricColor(results.walkForward.walkForwardEfficiency, 0.5))}>
+                            {formatPercentage(results.walkForward.walkForwardEfficiency)}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Fold Results</CardTitle>
+                      <CardDescription>
+                        Parameters chosen in-sample and their out-of-sample performance
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Fold</TableHead>
+                            <TableHead>Test Period</TableHead>
+                            <TableHead>Min Confidence</TableHead>
+                            <TableHead>Stop Loss</TableHead>
+                            <TableHead>IS Sharpe</TableHead>
+                            <TableHead>OOS Sharpe</TableHead>
+                            <TableHead>OOS Return</TableHead>
+                            <TableHead>OOS Trades</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {results.walkForward.folds.map((fold) => (
+                            <TableRow key={fold.index}>
+                              <TableCell className="font-medium">{fold.index + 1}</TableCell>
+                              <TableCell>
+                                {formatDate(fold.testPeriod.start)} - {formatDate(fold.testPeriod.end)}
+                              </TableCell>
+                              <TableCell>{formatPercentage(fold.parameters.minConfidence)}</TableCell>
+                              <TableCell>{formatPercentage(fold.parameters.stopLoss)}</TableCell>
+                              <TableCell>{fold.inSampleMetrics.sharpeRatio.toFixed(2)}</TableCell>
+                              <TableCell className={getMetricColor(fold.outOfSampleMetrics.sharpeRatio, 0)}>
+                                {fold.outOfSampleMetrics.sharpeRatio.toFixed(2)}
+                              </TableCell>
+                              <TableCell className={getMetricColor(fold.outOfSampleMetrics.totalReturn, 0)}>
+                                {formatPercentage(fold.outOfSampleMetrics.totalReturn)}
+                              </TableCell>
+                              <TableCell>{fold.outOfSampleTrades}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </>
+              )}
+            </TabsContent>
+
             <TabsContent value="comparison" className="space-y-6">
               {results && (
                 <div className="space-y-4">
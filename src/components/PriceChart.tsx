@@ -34,6 +34,12 @@ interface AIPrediction {
   price: number;
   confidence: number;
   timestamp: number;
+  // Calibrated 10th/50th/90th percentile forecast, when the trained models are loaded
+  interval?: {
+    p10: number;
+    p50: number;
+    p90: number;
+  };
 }
 
 interface AISignal {
@@ -112,6 +118,9 @@ const PriceChart: React.FC = () => {
           const sma7 = [];
           const sma30 = [];
           const predictions = [];
+          const upperBand = [];
+          const lowerBand = [];
+          const interval = data.success ? data.data.prediction.interval : undefined;
 
           // Generate 30 days of data with real current price as anchor
           const realCurrentPrice = data.success ? data.data.currentPrice : 23.07;
@@ -144,12 +153,17 @@ const PriceChart: React.FC = () => {
               sma30.push(null);
             }
 
-            // AI predictions using real prediction data
+            // AI predictions using real prediction data; the band is the
+            // trained model's, so it is drawn around that model's median
             if (i <= 5) {
               const predictionPrice = data.success ? data.data.prediction.price : realCurrentPrice * 0.98;
-              predictions.push(predictionPrice + (Math.random() - 0.5) * 0.5);
+              predictions.push(interval ? interval.p50 : predictionPrice + (Math.random() - 0.5) * 0.5);
+              upperBand.push(interval ? interval.p90 : null);
+              lowerBand.push(interval ? interval.p10 : null);
             } else {
               predictions.push(null);
+              upperBand.push(null);
+              lowerBand.push(null);
             }
           }
 
@@ -191,6 +205,28 @@ const PriceChart: React.FC = () => {
                 pointRadius: 3,
                 pointBackgroundColor: "#f59e0b",
               },
+              // 80% prediction interval, filled between p90 and p10
+              ...(interval
+                ? [
+                    {
+                      label: "AI p90",
+                      data: upperBand,
+                      borderColor: "rgba(245, 158, 11, 0.5)",
+                      backgroundColor: "rgba(245, 158, 11, 0.15)",
+                      borderWidth: 1,
+                      pointRadius: 0,
+                      fill: "+1",
+                    },
+                    {
+                      label: "AI p10",
+                      data: lowerBand,
+                      borderColor: "rgba(245, 158, 11, 0.5)",
+                      backgroundColor: "transparent",
+                      borderWidth: 1,
+                      pointRadius: 0,
+                    },
+                  ]
+                : []),
             ],
           };
         };
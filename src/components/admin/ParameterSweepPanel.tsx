@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Progress } from '../ui/progress';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { AlertTriangle, Download, Play, Square, Grid3X3 } from 'lucide-react';
+import type {
+  SweepMethod,
+  SweepObjective,
+  SweepParameter,
+  SweepParameterRange,
+  SweepStatus,
+  SweepTrial
+} from '../../shared/types';
+
+interface AxisSettings {
+  parameter: SweepParameter;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+const PARAMETER_LABELS: Record<SweepParameter, string> = {
+  aiConfidenceThreshold: 'AI Confidence (%)',
+  stopLoss: 'Stop Loss (%)',
+  takeProfit: 'Take Profit (%)',
+  maxTradesPerHour: 'Max Trades / Hour'
+};
+
+const POLL_INTERVAL = 2000;
+
+const adminHeaders = (): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-admin-api-key': process.env.REACT_APP_ADMIN_API_KEY || ''
+});
+
+const linspace = (axis: AxisSettings): number[] => {
+  if (axis.steps <= 1) return [axis.min];
+  const values = Array.from({ length: axis.steps }, (_, i) => axis.min + (i * (axis.max - axis.min)) / (axis.steps - 1));
+  return axis.parameter === 'maxTradesPerHour'
+    ? Array.from(new Set(values.map(Math.round)))
+    : values.map(value => Number(value.toFixed(2)));
+};
+
+/**
+ * Best score per heatmap cell. Grid sweeps land exactly on the axis values;
+ * sampled sweeps are binned to the nearest one.
+ */
+const buildHeatmap = (trials: SweepTrial[], xValues: number[], yValues: number[], x: SweepParameter, y: SweepParameter) => {
+  const nearest = (values: number[], value: number) =>
+    values.reduce((best, candidate, i) => Math.abs(candidate - value) < Math.abs(values[best] - value) ? i : best, 0);
+
+  const cells: Array<Array<SweepTrial | null>> = yValues.map(() => xValues.map(() => null));
+  trials.forEach(trial => {
+    const row = nearest(yValues, trial.parameters[y]);
+    const column = nearest(xValues, trial.parameters[x]);
+    const current = cells[row][column];
+    if (!current || trial.score > current.score) {
+      cells[row][column] = trial;
+    }
+  });
+  return cells;
+};
+
+const scoreColor = (score: number, min: number, max: number): string => {
+  const ratio = max > min ? (score - min) / (max - min) : 1;
+  return `hsl(${Math.round(ratio * 120)}, 70%, 45%)`;
+};
+
+const ParameterSweepPanel: React.FC = () => {
+  const [aiModel, setAiModel] = useState<'lstm' | 'reinforcement' | 'ensemble'>('ensemble');
+  const [method, setMethod] = useState<SweepMethod>('grid');
+  const [objective, setObjective] = useState<SweepObjective>('sharpe');
+  const [samples, setSamples] = useState(40);
+  const [days, setDays] = useState(30);
+  const [xAxis, setXAxis] = useState<AxisSettings>({ parameter: 'aiConfidenceThreshold', min: 50, max: 90, steps: 5 });
+  const [yAxis, setYAxis] = useState<AxisSettings>({ parameter: 'stopLoss', min: 2, max: 10, steps: 5 });
+  const [sweep, setSweep] = useState<SweepStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sweepId = sweep?.id;
+  const isRunning = sweep?.status === 'running';
+
+  useEffect(() => {
+    if (!sweepId || !isRunning) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/admin/optimizer/sweeps/${sweepId}`, { headers: adminHeaders() });
+        if (!response.ok) {
+          throw new Error('Failed to poll sweep');
+        }
+        const data = await response.json();
+        setSweep(data.sweep);
+      } catch (err) {
+        console.error('Error polling sweep:', err);
+      }
+    }, POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [sweepId, isRunning]);
+
+  const startSweep = async () => {
+    setError(null);
+
+    const rangeFor = (axis: AxisSettings): SweepParameterRange => method === 'grid'
+      ? { values: linspace(axis) }
+      : { min: axis.min, max: axis.max };
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+
+    try {
+      const response = await fetch('/api/admin/optimizer/sweeps', {
+        method: 'POST',
+        headers: adminHeaders(),
+        body: JSON.stringify({
+          strategy: {
+            name: `${aiModel} sweep`,
+            aiModel,
+            riskParams: { maxPositionSize: 0.2, stopLoss: 0.05, takeProfit: 0.15, maxDrawdown: 0.2 },
+            tradingParams: { minConfidence: 0.7, rebalanceFrequency: 1, slippageModel: 'fixed' }
+          },
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          sweep: {
+            method,
+            objective,
+            samples: method === 'grid' ? undefined : samples,
+            space: {
+              [xAxis.parameter]: rangeFor(xAxis),
+              [yAxis.parameter]: rangeFor(yAxis)
+            },
+            objectiveWeights: objective === 'custom' ? { sharpeRatio: 1, maxDrawdown: -2 } : undefined
+          }
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to start sweep');
+      }
+      setSweep(data.sweep);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start sweep');
+    }
+  };
+
+  const cancelSweep = async () => {
+    if (!sweep) return;
+    const response = await fetch(`/api/admin/optimizer/sweeps/${sweep.id}`, { method: 'DELETE', headers: adminHeaders() });
+    if (response.ok) {
+      const data = await response.json();
+      setSweep(data.sweep);
+    }
+  };
+
+  const exportPareto = async () => {
+    if (!sweep) return;
+    const response = await fetch(`/api/admin/optimizer/sweeps/${sweep.id}/pareto?format=csv`, { headers: adminHeaders() });
+    if (!response.ok) {
+      setError('Failed to export Pareto front');
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sweep-${sweep.id}-pareto.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const xValues = useMemo(() => linspace(xAxis), [xAxis]);
+  const yValues = useMemo(() => linspace(yAxis), [yAxis]);
+  const heatmap = useMemo(
+    () => buildHeatmap(sweep?.trials ?? [], xValues, yValues, xAxis.parameter, yAxis.parameter),
+    [sweep?.trials, xValues, yValues, xAxis.parameter, yAxis.parameter]
+  );
+  const scores = (sweep?.trials ?? []).map(trial => trial.score);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+
+  const renderAxisControls = (label: string, axis: AxisSettings, setAxis: (axis: AxisSettings) => void) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={axis.parameter}
+        onValueChange={(value) => setAxis({ ...axis, parameter: value as SweepParameter })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PARAMETER_LABELS) as SweepParameter[]).map(parameter => (
+            <SelectItem key={parameter} value={parameter}>{PARAMETER_LABELS[parameter]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="grid grid-cols-3 gap-2">
+        <Input type="number" value={axis.min} onChange={(e) => setAxis({ ...axis, min: parseFloat(e.target.value) || 0 })} />
+        <Input type="number" value={axis.max} onChange={(e) => setAxis({ ...axis, max: parseFloat(e.target.value) || 0 })} />
+        <Input
+          type="number"
+          min={1}
+          max={20}
+          value={axis.steps}
+          onChange={(e) => setAxis({ ...axis, steps: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">Min, max and steps</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Grid3X3 className="h-5 w-5 mr-2" />
+            Strategy Parameter Sweep
+          </CardTitle>
+          <CardDescription>
+            Backtest TradingStrategy parameters over a grid or sampled search and rank the results
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>AI Model</Label>
+              <Select value={aiModel} onValueChange={(value) => setAiModel(value as typeof aiModel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lstm">LSTM</SelectItem>
+                  <SelectItem value="reinforcement">Reinforcement</SelectItem>
+                  <SelectItem value="ensemble">Ensemble</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Search</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as SweepMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="grid">Grid</SelectItem>
+                  <SelectItem value="random">Random</SelectItem>
+                  <SelectItem value="bayesian">Bayesian</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Objective</Label>
+              <Select value={objective} onValueChange={(value) => setObjective(value as SweepObjective)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sharpe">Max Sharpe</SelectItem>
+                  <SelectItem value="drawdown">Min Drawdown</SelectItem>
+                  <SelectItem value="custom">Sharpe - 2x Drawdown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{method === 'grid' ? 'History (days)' : 'Samples / History (days)'}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={samples}
+                  disabled={method === 'grid'}
+                  onChange={(e) => setSamples(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={days}
+                  onChange={(e) => setDays(Math.max(1, parseInt(e.target.value) || 30))}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderAxisControls('X axis', xAxis, setXAxis)}
+            {renderAxisControls('Y axis', yAxis, setYAxis)}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={startSweep} disabled={isRunning || xAxis.parameter === yAxis.parameter}>
+              <Play className="h-4 w-4 mr-2" />
+              Start Sweep
+            </Button>
+            <Button variant="outline" onClick={cancelSweep} disabled={!isRunning}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={exportPareto} disabled={!sweep || sweep.paretoFront.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export Pareto Front
+            </Button>
+            {sweep && <Badge variant={sweep.status === 'failed' ? 'destructive' : 'outline'}>{sweep.status}</Badge>}
+          </div>
+
+          {error && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {sweep?.error && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{sweep.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {sweep && (
+            <div className="space-y-1">
+              <Progress value={(100 * (sweep.progress.completed + sweep.progress.failed)) / sweep.progress.total} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {sweep.progress.completed} of {sweep.progress.total} trials complete
+                {sweep.progress.failed > 0 && `, ${sweep.progress.failed} failed`}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sweep && sweep.trials.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Objective Heatmap</CardTitle>
+              <CardDescription>
+                Best score per cell: {PARAMETER_LABELS[xAxis.parameter]} vs. {PARAMETER_LABELS[yAxis.parameter]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div
+                className="grid gap-1 text-xs"
+                style={{ gridTemplateColumns: `auto repeat(${xValues.length}, minmax(0, 1fr))` }}
+              >
+                <div />
+                {xValues.map(value => (
+                  <div key={`x-${value}`} className="text-center text-muted-foreground">{value}</div>
+                ))}
+                {heatmap.map((row, i) => (
+                  <React.Fragment key={`y-${yValues[i]}`}>
+                    <div className="pr-2 text-right text-muted-foreground">{yValues[i]}</div>
+                    {row.map((trial, j) => (
+                      <div
+                        key={`${i}-${j}`}
+                        className="h-10 rounded flex items-center justify-center text-white"
+                        style={{ backgroundColor: trial ? scoreColor(trial.score, minScore, maxScore) : 'transparent' }}
+                        title={trial ? `Sharpe ${trial.metrics.sharpeRatio.toFixed(2)}, drawdown ${(trial.metrics.maxDrawdown * 100).toFixed(1)}%` : 'No trial'}
+                      >
+                        {trial ? trial.score.toFixed(2) : '-'}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Trials</CardTitle>
+              <CardDescription>{sweep.paretoFront.length} trials on the Sharpe / drawdown Pareto front</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Conf.</TableHead>
+                    <TableHead>SL</TableHead>
+                    <TableHead>TP</TableHead>
+                    <TableHead>Trades/h</TableHead>
+                    <TableHead>Sharpe</TableHead>
+                    <TableHead>Max DD</TableHead>
+                    <TableHead>Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sweep.trials.slice(0, 10).map(trial => (
+                    <TableRow key={trial.id}>
+                      <TableCell>{trial.parameters.aiConfidenceThreshold.toFixed(1)}</TableCell>
+                      <TableCell>{trial.parameters.stopLoss.toFixed(1)}</TableCell>
+                      <TableCell>{trial.parameters.takeProfit.toFixed(1)}</TableCell>
+                      <TableCell>{trial.parameters.maxTradesPerHour || '∞'}</TableCell>
+                      <TableCell>{trial.metrics.sharpeRatio.toFixed(2)}</TableCell>
+                      <TableCell>{(trial.metrics.maxDrawdown * 100).toFixed(1)}%</TableCell>
+                      <TableCell className="font-medium">
+                        {trial.score.toFixed(3)}
+                        {sweep.paretoFront.some(front => front.id === trial.id) && (
+                          <Badge variant="secondary" className="ml-2">Pareto</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterSweepPanel;
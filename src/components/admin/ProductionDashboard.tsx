@@ -20,6 +20,7 @@ import {
   BarChart3,
   Clock
 } from 'lucide-react';
+import ParameterSweepPanel from './ParameterSweepPanel';
 
 interface SystemHealth {
   status: string;
@@ -318,6 +319,7 @@ const ProductionDashboard: React.FC = () => {
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="models">Model Management</TabsTrigger>
           <TabsTrigger value="metrics">Metrics</TabsTrigger>
+          <TabsTrigger value="optimizer">Optimizer</TabsTrigger>
         </TabsList>
 
         <TabsContent value="health" className="space-y-4">
@@ -633,6 +635,10 @@ const ProductionDashboard: React.FC = () => {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="optimizer" className="space-y-4">
+          <ParameterSweepPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
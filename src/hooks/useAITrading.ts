@@ -16,6 +16,14 @@ export const useAITrading = () => {
   const [currentPrediction, setCurrentPrediction] = useState<{
     price: number;
     confidence: number;
+    currentPrice?: number;
+    // Term structure from the server models, one forecast per horizon in hours
+    horizons?: Array<{
+      horizon: number;
+      price: number;
+      confidence: number;
+      interval?: { p10: number; p50: number; p90: number };
+    }>;
   } | null>(null);
   const [currentSignal, setCurrentSignal] = useState<{
     action: string;
@@ -268,7 +276,9 @@ export const useAITrading = () => {
         // Update state with real AI predictions
         setCurrentPrediction({
           price: prediction.price,
-          confidence: prediction.confidence
+          confidence: prediction.confidence,
+          currentPrice: result.data.currentPrice,
+          horizons: prediction.horizons
         });
         
         setCurrentSignal({
@@ -7,6 +7,12 @@ import {
   performRiskAssessment,
   MarketConditions 
 } from '@/utils/riskManagement';
+import {
+  ExecutionAlgorithmService,
+  createWeb3Venue,
+  SlicedOrderConfig,
+  SlicedOrderReport
+} from '@/utils/executionAlgorithms';
 import { TradeParameters, TradeResult, TradeStatus } from '@/shared/types';
 
 interface PendingTrade extends TradeParameters {
@@ -80,6 +86,7 @@ export const useTradeExecution = () => {
   // Refs for optimization
   const executionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const queueProcessingRef = useRef<boolean>(false);
+  const slicerRef = useRef<ExecutionAlgorithmService | null>(null);
 
   // Calculate portfolio value
   const portfolioValue = avaxBalance + usdtBalance;
@@ -374,6 +381,25 @@ export const useTradeExecution = () => {
     return tradeId;
   }, [generateTradeId, queueTrade]);
 
+  // Slice a large swap into TWAP/VWAP child swaps
+  const executeSlicedTrade = useCallback((
+    config: SlicedOrderConfig,
+    onUpdate?: (report: SlicedOrderReport) => void
+  ): { id: string; done: Promise<SlicedOrderReport> } => {
+    if (!web3 || !isConnected) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!slicerRef.current) {
+      slicerRef.current = new ExecutionAlgorithmService(createWeb3Venue(web3));
+    }
+    return slicerRef.current.start(config, onUpdate);
+  }, [web3, isConnected]);
+
+  const cancelSlicedTrade = useCallback((orderId: string): boolean => {
+    return slicerRef.current?.cancel(orderId) ?? false;
+  }, []);
+
   // Cancel pending trade
   const cancelTrade = useCallback((tradeId: string): boolean => {
     const tradeExists = pendingTrades.some(t => t.id === tradeId);
@@ -479,6 +505,8 @@ export const useTradeExecution = () => {
     // Advanced functions
     batchTrades,
     scheduleDelayedTrade,
+    executeSlicedTrade,
+    cancelSlicedTrade,
     monitorTradeExecution,
     optimizeTradeExecution,
     
@@ -14,6 +14,7 @@ import {
   getPortfolioValueInUSDT,
   executeTrade,
   executeAITrade as executeAITradeOnChain,
+  executeGaslessAITrade,
   getAIPredictionStatus,
   getAIPrediction,
   getAIPoweredTraderContract,
@@ -365,12 +366,13 @@ export const useWeb3 = () => {
     }
   }, [web3, account, validateTrade, estimateGas, refreshBalances]);
 
-  // Execute AI-validated trade
+  // Execute AI-validated trade; gasless trades are signed and sent by the relayer
   const executeAIValidatedTrade = useCallback(async (
     fromToken: string,
     toToken: string,
     amount: number,
-    slippage: number = 0.5
+    slippage: number = 0.5,
+    gasless: boolean = false
   ): Promise<TradeResult | null> => {
     if (!web3 || !account) {
       setTradeError('Wallet not connected');
@@ -382,9 +384,9 @@ export const useWeb3 = () => {
     
     try {
       // Check AI prediction status
-      const aiStatus = await getAIPredictionStatus(web3);
+      const aiStatus = await getAIPredictionStatus(web3, fromToken, toToken);
       if (!aiStatus.isValid) {
-        setTradeError('AI prediction is not valid for trading');
+        setTradeError('AI prediction is not valid for this token pair');
         return null;
       }
       
@@ -405,13 +407,20 @@ export const useWeb3 = () => {
         return null;
       }
       
-      // Estimate gas for AI trade
-      const gas = await estimateGas(tradeParams);
-      setGasEstimate(gas);
-      
-      // Execute trade through smart contract
-      const gasLimit = gas ? Math.floor(gas * 1.2) : undefined;
-      const txHash = await executeAITradeOnChain(web3, fromToken, toToken, amount.toString(), slippage, gasLimit);
+      let gas: number | null = null;
+      let txHash: string | null;
+      if (gasless) {
+        // Sign instead of send: the relayer pays the gas
+        txHash = await executeGaslessAITrade(web3, fromToken, toToken, amount.toString(), slippage);
+      } else {
+        // Estimate gas for AI trade
+        gas = await estimateGas(tradeParams);
+        setGasEstimate(gas);
+
+        // Execute trade through smart contract
+        const gasLimit = gas ? Math.floor(gas * 1.2) : undefined;
+        txHash = await executeAITradeOnChain(web3, fromToken, toToken, amount.toString(), slippage, gasLimit);
+      }
       
       if (txHash) {
         // Monitor transaction for completion and gas usage
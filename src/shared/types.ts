@@ -503,12 +503,140 @@ export interface BacktestResult {
     depth: number;
     duration: number;
   }>;
-  performanceAttribution: {
-    signalAccuracy: number;
-    slippageImpact: number;
-    feeImpact: number;
-    timingImpact: number;
+  performanceAttribution: BacktestAttribution & {
+    byAsset: Record<string, AssetAttribution>;
   };
+  walkForward?: WalkForwardSummary;
+}
+
+export interface BacktestAttribution {
+  signalAccuracy: number;
+  slippageImpact: number;
+  feeImpact: number;
+  gasImpact: number;
+  timingImpact: number;
+}
+
+export interface AssetAttribution extends BacktestAttribution {
+  trades: number;
+  realizedPnl: number;
+}
+
+// Walk-forward / k-fold evaluation
+export interface WalkForwardConfig {
+  method: 'walk_forward' | 'kfold';
+  folds: number;
+  trainTestRatio?: number; // in-sample bars per out-of-sample bar (walk-forward only)
+  anchored?: boolean; // grow the in-sample window from the start instead of rolling it
+  parameterGrid?: {
+    minConfidence: number[];
+    stopLoss: number[];
+  };
+}
+
+export interface WalkForwardFold {
+  index: number;
+  trainPeriods: Array<{ start: number; end: number }>;
+  testPeriod: { start: number; end: number };
+  parameters: {
+    minConfidence: number;
+    stopLoss: number;
+  };
+  inSampleMetrics: PortfolioMetrics;
+  outOfSampleMetrics: PortfolioMetrics;
+  outOfSampleTrades: number;
+}
+
+export interface WalkForwardSummary {
+  method: WalkForwardConfig['method'];
+  folds: WalkForwardFold[];
+  overfittingScore: number; // 0 = out-of-sample matches in-sample, 1 = edge fully lost
+  walkForwardEfficiency: number; // out-of-sample / in-sample annualized return
+}
+
+// Strategy parameter sweeps
+// Parameters use TradingStrategy units: aiConfidenceThreshold, stopLoss and takeProfit in percent
+export type SweepParameter = 'aiConfidenceThreshold' | 'stopLoss' | 'takeProfit' | 'maxTradesPerHour';
+
+export type SweepMethod = 'grid' | 'random' | 'bayesian';
+
+export type SweepObjective = 'sharpe' | 'drawdown' | 'custom';
+
+export interface SweepParameterRange {
+  values?: number[]; // grid points (grid search)
+  min?: number; // sampling bounds (random / bayesian search)
+  max?: number;
+}
+
+export interface SweepConfig {
+  method: SweepMethod;
+  space: Partial<Record<SweepParameter, SweepParameterRange>>;
+  samples?: number; // trials for random / bayesian search
+  objective: SweepObjective;
+  objectiveWeights?: Partial<Record<keyof PortfolioMetrics, number>>; // custom objective
+  concurrency?: number;
+}
+
+export interface SweepTrial {
+  id: number;
+  parameters: Record<SweepParameter, number>;
+  metrics: PortfolioMetrics;
+  totalTrades: number;
+  score: number;
+}
+
+export interface SweepStatus {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  strategy: string;
+  config: SweepConfig;
+  progress: { completed: number; failed: number; total: number };
+  trials: SweepTrial[]; // ranked by objective, best first
+  paretoFront: SweepTrial[]; // non-dominated on Sharpe (max) and max drawdown (min)
+  createdAt: number;
+  completedAt?: number;
+  error?: string;
+}
+
+// Conditional orders
+// Trigger prices are AVAX/USD and are checked against the streamed AVAX/USDT price
+export type ConditionalOrderType = 'limit' | 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+export type ConditionalOrderStatus = 'pending' | 'triggered' | 'filled' | 'cancelled' | 'failed';
+
+export interface ConditionalOrderRequest {
+  type: ConditionalOrderType;
+  userAddress: string;
+  fromToken: string;
+  toToken: string;
+  amount: string; // input amount in base units
+  triggerPrice?: number; // required for every type except trailing_stop
+  trailingPercent?: number; // trailing_stop only
+  slippage?: number; // percent, defaults to 0.5
+  mode?: 'live' | 'paper';
+}
+
+export interface ConditionalOrder {
+  id: string;
+  type: ConditionalOrderType;
+  side: 'buy' | 'sell'; // buying or selling AVAX
+  status: ConditionalOrderStatus;
+  userAddress: string;
+  fromToken: string;
+  toToken: string;
+  amount: string;
+  triggerPrice: number | null;
+  trailingPercent: number | null;
+  referencePrice: number | null; // best price seen by a trailing stop
+  slippage: number;
+  mode: 'live' | 'paper' | null;
+  ocoGroupId: string | null; // orders sharing a group cancel each other once one triggers
+  createdAt: number;
+  updatedAt: number;
+  triggeredAt: number | null;
+  triggeredPrice: number | null;
+  txHash: string | null;
+  error: string | null;
 }
 
 // Rebalancing Types
@@ -565,6 +693,7 @@ export interface Trade {
     signal?: AISignal;
     slippage?: number;
     fees?: number;
+    gasCost?: number;
   };
 }
 
@@ -584,6 +713,8 @@ export interface AISignal {
     macd: number;
   };
   actualPrice?: number | null;
+  // Model version that produced the prediction, when replayed from a real model
+  modelVersion?: string;
 }
 
 // Portfolio History Types
@@ -608,6 +739,8 @@ export interface StrategyConfig {
   name: string;
   description: string;
   aiModel: 'lstm' | 'reinforcement' | 'ensemble';
+  // Versioned model from ModelVersionManager; the live models are used when omitted
+  modelVersion?: string;
   riskParams: {
     maxPositionSize: number;
     stopLoss: number;
@@ -617,7 +750,7 @@ export interface StrategyConfig {
   tradingParams: {
     minConfidence: number;
     rebalanceFrequency: number;
-    slippageModel: 'fixed' | 'volume' | 'volatility';
+    slippageModel: 'fixed' | 'volume' | 'volatility' | 'amm';
   };
 }
 
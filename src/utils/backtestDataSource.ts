@@ -0,0 +1,40 @@
+import type { BacktestDataSource, ModelSignal } from './backtestEngine';
+import { getHistoricalData } from './dataCollection';
+
+interface SignalReplayResponse {
+  data: {
+    modelVersion: string;
+    signals: Array<Omit<ModelSignal, 'modelVersion'> & { inSample: boolean }>;
+  };
+}
+
+/**
+ * Backtest data source for the browser: bars come from the market data
+ * collectors and predictions from the backend's model replay endpoint.
+ */
+export const apiBacktestDataSource: BacktestDataSource = {
+  loadBars: (startDate, endDate, symbol) => getHistoricalData(startDate, endDate, symbol),
+
+  async loadSignals(bars, model, modelVersion) {
+    const response = await fetch('/api/backtest/signals', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        bars: bars.map(bar => ({ timestamp: bar.timestamp, close: bar.close })),
+        model,
+        modelVersion
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Failed to load model signals: ${body?.message ?? response.statusText}`);
+    }
+
+    const { data } = await response.json() as SignalReplayResponse;
+    // Bars the model was trained on would make the backtest look better than live trading
+    return data.signals
+      .filter(signal => !signal.inSample)
+      .map(signal => ({ ...signal, modelVersion: data.modelVersion }));
+  }
+};
@@ -3,7 +3,11 @@ import {
   BacktestResult, 
   Trade, 
   AISignal,
-  PortfolioMetrics 
+  PortfolioMetrics,
+  BacktestAttribution,
+  AssetAttribution,
+  WalkForwardConfig,
+  WalkForwardFold
 } from '../shared/types';
 import { 
   calculateSharpeRatio, 
@@ -11,13 +15,14 @@ import {
   calculateVaR
 } from './riskManagement';
 import { calculateVolatilityPercentage } from './dataPreprocessing';
-import { getHistoricalData } from './dataCollection';
+import { PortfolioRebalancer, CurrentAllocation } from './portfolioRebalancer';
 
 interface BacktestTrade extends Trade {
   timestamp: number;
   signal: AISignal | null;
   slippage: number;
   fees: number;
+  gasCost: number;
 }
 
 interface BacktestPortfolio {
@@ -32,9 +37,10 @@ interface BacktestPortfolio {
   timestamps: number[];
 }
 
-interface StrategyConfig {
+export interface StrategyConfig {
   name: string;
   aiModel: 'lstm' | 'reinforcement' | 'ensemble';
+  modelVersion?: string;
   riskParams: {
     maxPositionSize: number;
     stopLoss: number;
@@ -44,17 +50,120 @@ interface StrategyConfig {
   tradingParams: {
     minConfidence: number;
     rebalanceFrequency: number;
-    slippageModel: 'fixed' | 'volume' | 'volatility';
+    slippageModel: 'fixed' | 'volume' | 'volatility' | 'amm';
+    maxTradesPerHour?: number;
   };
 }
 
+export interface HistoricalBar {
+  timestamp: number; // Unix seconds, as produced by the market data collectors
+  close: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  symbol?: string;
+  // Pool depth (both sides) in quote currency, used by the 'amm' slippage model
+  liquidity?: number;
+}
+
+export interface ModelSignal {
+  timestamp: number;
+  predictedPrice: number;
+  direction: 'up' | 'down' | 'neutral';
+  confidence: number;
+  modelVersion: string;
+}
+
+/**
+ * Where the engine gets its bars and model predictions from. The browser
+ * goes through the backend API; the server-side optimizer feeds both in
+ * directly so sweeps do not replay the models once per run.
+ */
+export interface BacktestDataSource {
+  loadBars(startDate: Date, endDate: Date, symbol: string): Promise<HistoricalBar[]>;
+  loadSignals(
+    bars: HistoricalBar[],
+    model: StrategyConfig['aiModel'],
+    modelVersion?: string
+  ): Promise<ModelSignal[]>;
+}
+
+/**
+ * One bar per traded symbol at a common timestamp
+ */
+interface MarketFrame {
+  timestamp: number;
+  bars: Record<string, HistoricalBar>;
+}
+
+interface SegmentRun {
+  trades: BacktestTrade[];
+  equity: number[];
+  timestamps: number[];
+  metrics: PortfolioMetrics;
+}
+
+interface FoldSplit {
+  train: Array<{ start: number; end: number }>;
+  test: { start: number; end: number };
+}
+
+/**
+ * Fill of a single order. Buys and sells both settle as
+ * quantity * price -/+ fees -/+ gasCost in quote currency.
+ */
+interface ExecutionFill {
+  price: number;
+  quantity: number;
+  slippage: number;
+  fees: number;
+  gasCost: number;
+}
+
+interface AmmPool {
+  base: number;
+  quote: number;
+  timestamp: number;
+}
+
+const DEFAULT_SYMBOL = 'AVAX/USDT';
+const DAY_SECONDS = 24 * 60 * 60;
+const YEAR_SECONDS = 365 * DAY_SECONDS; // Bar timestamps are Unix seconds
+
+// Same defaults the rebalancing UI uses for its recommendations
+const REBALANCE_RISK_PARAMS = {
+  maxVolatility: 0.25,
+  targetSharpeRatio: 1.2,
+  maxVaR: 0.05,
+  rebalanceThreshold: 5
+};
+
+const TRADING_FEE = 0.001; // 0.1% fee for the fixed/volume/volatility models
+const AMM_LP_FEE = 0.003; // Pangolin/Uniswap V2 LP fee on the input amount
+const AMM_DEFAULT_LIQUIDITY = 5_000_000;
+const AMM_SWAP_GAS_UNITS = 150_000;
+const AMM_GAS_PRICE_GWEI = 25;
+
+const DEFAULT_PARAMETER_GRID: NonNullable<WalkForwardConfig['parameterGrid']> = {
+  minConfidence: [0.5, 0.6, 0.7, 0.8],
+  stopLoss: [0.03, 0.05, 0.07, 0.1]
+};
+
 export class BacktestEngine {
-  private historicalData: any[] = [];
+  private historicalData: MarketFrame[] = [];
+  private symbols: string[] = [DEFAULT_SYMBOL];
   private portfolio: BacktestPortfolio;
-  private config: BacktestConfig;
-  private strategy: StrategyConfig;
+  private config!: BacktestConfig;
+  private strategy!: StrategyConfig;
+  private dataSource: BacktestDataSource;
+  private modelSignals: Map<string, Map<number, ModelSignal>> = new Map();
+  private ammPools: Map<string, AmmPool> = new Map();
+  private gasTokenPrice = 0;
+  private lastRebalance: number | null = null;
+  private rebalancer = new PortfolioRebalancer();
 
-  constructor() {
+  constructor(dataSource: BacktestDataSource) {
+    this.dataSource = dataSource;
     this.portfolio = {
       cash: 0,
       positions: {},
@@ -72,21 +181,18 @@ export class BacktestEngine {
     this.strategy = strategy;
     this.config = config;
     
-    // Initialize portfolio
-    this.portfolio = {
-      cash: config.initialCapital,
-      positions: {},
-      totalValue: config.initialCapital,
-      trades: [],
-      equity: [config.initialCapital],
-      timestamps: [config.startDate.getTime()]
-    };
-
     // Load historical data
     await this.loadHistoricalData();
+    await this.loadModelSignals();
+
+    // Initialize portfolio at the first bar, so the equity curve is timed in bar seconds
+    this.resetPortfolio(
+      config.initialCapital,
+      this.historicalData[0]?.timestamp ?? Math.floor(config.startDate.getTime() / 1000)
+    );
     
     // Run simulation
-    const results = await this.simulateTrading();
+    const results = await this.simulateTrading(this.historicalData);
     
     // Calculate metrics
     const metrics = this.calculateBacktestMetrics(results);
@@ -98,52 +204,318 @@ export class BacktestEngine {
       metrics,
       equity: results.equity,
       timestamps: results.timestamps,
-      drawdownPeriods: this.calculateDrawdownPeriods(results.equity),
+      drawdownPeriods: this.calculateDrawdownPeriods(results.equity, results.timestamps),
       performanceAttribution: this.calculatePerformanceAttribution(results.trades)
     };
   }
 
+  /**
+   * Walk-forward or k-fold evaluation.
+   * For each fold, minConfidence and stopLoss are tuned on the in-sample
+   * segment(s) by Sharpe ratio and then traded on the out-of-sample segment.
+   * Out-of-sample segments are chained on the previous fold's ending capital
+   * and stitched into a single result.
+   */
+  async runWalkForward(
+    strategy: StrategyConfig,
+    config: BacktestConfig,
+    walkForward: WalkForwardConfig
+  ): Promise<BacktestResult> {
+    this.strategy = strategy;
+    this.config = config;
+
+    await this.loadHistoricalData();
+    await this.loadModelSignals();
+
+    const splits = this.createFolds(this.historicalData.length, walkForward);
+    if (splits.length === 0) {
+      throw new Error(`Not enough historical data for ${walkForward.folds} folds`);
+    }
+
+    const grid = walkForward.parameterGrid ?? DEFAULT_PARAMETER_GRID;
+    const folds: WalkForwardFold[] = [];
+    const trades: BacktestTrade[] = [];
+    const equity: number[] = [];
+    const timestamps: number[] = [];
+    let capital = config.initialCapital;
+
+    for (const [index, split] of splits.entries()) {
+      let best: { strategy: StrategyConfig; score: number; metrics: PortfolioMetrics } | null = null;
+
+      for (const minConfidence of grid.minConfidence) {
+        for (const stopLoss of grid.stopLoss) {
+          const candidate = this.withParameters(strategy, minConfidence, stopLoss);
+          const runs: SegmentRun[] = [];
+          for (const range of split.train) {
+            runs.push(await this.runSegment(
+              candidate,
+              this.historicalData.slice(range.start, range.end),
+              config.initialCapital
+            ));
+          }
+
+          const metrics = this.averageMetrics(runs.map(run => run.metrics));
+          if (!best || metrics.sharpeRatio > best.score) {
+            best = { strategy: candidate, score: metrics.sharpeRatio, metrics };
+          }
+        }
+      }
+
+      const testRun = await this.runSegment(
+        best!.strategy,
+        this.historicalData.slice(split.test.start, split.test.end),
+        capital
+      );
+
+      // Each segment starts at the previous fold's closing equity, so drop the duplicate point
+      const skip = equity.length > 0 ? 1 : 0;
+      equity.push(...testRun.equity.slice(skip));
+      timestamps.push(...testRun.timestamps.slice(skip));
+      trades.push(...testRun.trades.map(trade => ({ ...trade, id: `fold${index}_${trade.id}` })));
+      capital = testRun.equity[testRun.equity.length - 1];
+
+      folds.push({
+        index,
+        trainPeriods: split.train.map(range => this.periodOf(range)),
+        testPeriod: this.periodOf(split.test),
+        parameters: {
+          minConfidence: best!.strategy.tradingParams.minConfidence,
+          stopLoss: best!.strategy.riskParams.stopLoss
+        },
+        inSampleMetrics: best!.metrics,
+        outOfSampleMetrics: testRun.metrics,
+        outOfSampleTrades: testRun.trades.length
+      });
+    }
+
+    this.strategy = strategy;
+    const results = { trades, equity, timestamps };
+
+    return {
+      strategy: strategy.name,
+      config,
+      trades,
+      metrics: this.calculateBacktestMetrics(results),
+      equity,
+      timestamps,
+      drawdownPeriods: this.calculateDrawdownPeriods(equity, timestamps),
+      performanceAttribution: this.calculatePerformanceAttribution(trades),
+      walkForward: {
+        method: walkForward.method,
+        folds,
+        overfittingScore: this.calculateOverfittingScore(folds),
+        walkForwardEfficiency: this.calculateWalkForwardEfficiency(folds)
+      }
+    };
+  }
+
+  /**
+   * Split bar indices into train/test ranges (end exclusive).
+   * Walk-forward keeps the test segments in chronological order after their
+   * training window; k-fold trains on the contiguous blocks either side of the test block.
+   */
+  private createFolds(length: number, walkForward: WalkForwardConfig): FoldSplit[] {
+    const folds = Math.max(1, Math.floor(walkForward.folds));
+    const splits: FoldSplit[] = [];
+
+    if (walkForward.method === 'kfold') {
+      const blockSize = Math.floor(length / folds);
+      if (blockSize < 2) return [];
+
+      for (let i = 0; i < folds; i++) {
+        const start = i * blockSize;
+        const end = i === folds - 1 ? length : start + blockSize;
+        const train = [{ start: 0, end: start }, { start: end, end: length }]
+          .filter(range => range.end - range.start >= 2);
+        if (train.length > 0) {
+          splits.push({ train, test: { start, end } });
+        }
+      }
+      return splits;
+    }
+
+    const ratio = walkForward.trainTestRatio ?? 3;
+    const testSize = Math.floor(length / (ratio + folds));
+    const trainSize = length - folds * testSize;
+    if (testSize < 2 || trainSize < 2) return [];
+
+    for (let i = 0; i < folds; i++) {
+      const start = trainSize + i * testSize;
+      const end = i === folds - 1 ? length : start + testSize;
+      splits.push({
+        train: [{ start: walkForward.anchored ? 0 : start - trainSize, end: start }],
+        test: { start, end }
+      });
+    }
+    return splits;
+  }
+
+  private async runSegment(strategy: StrategyConfig, data: MarketFrame[], initialCapital: number): Promise<SegmentRun> {
+    this.strategy = strategy;
+    this.resetPortfolio(initialCapital, data[0].timestamp);
+
+    const results = await this.simulateTrading(data);
+    return { ...results, metrics: this.calculateBacktestMetrics(results) };
+  }
+
+  private withParameters(strategy: StrategyConfig, minConfidence: number, stopLoss: number): StrategyConfig {
+    return {
+      ...strategy,
+      riskParams: { ...strategy.riskParams, stopLoss },
+      tradingParams: { ...strategy.tradingParams, minConfidence }
+    };
+  }
+
+  private periodOf(range: { start: number; end: number }): { start: number; end: number } {
+    return {
+      start: this.historicalData[range.start].timestamp,
+      end: this.historicalData[range.end - 1].timestamp
+    };
+  }
+
+  private averageMetrics(metrics: PortfolioMetrics[]): PortfolioMetrics {
+    const keys = Object.keys(metrics[0]) as Array<keyof PortfolioMetrics>;
+    return keys.reduce((average, key) => {
+      average[key] = metrics.reduce((sum, m) => sum + m[key], 0) / metrics.length;
+      return average;
+    }, {} as PortfolioMetrics);
+  }
+
+  /**
+   * Mean relative Sharpe degradation from in-sample to out-of-sample, clamped to [0, 1].
+   * Folds whose in-sample Sharpe is exactly zero (no trades) count as 0.
+   */
+  private calculateOverfittingScore(folds: WalkForwardFold[]): number {
+    if (folds.length === 0) return 0;
+
+    const degradation = folds.map(fold => {
+      const inSample = fold.inSampleMetrics.sharpeRatio;
+      if (inSample === 0) return 0;
+      const loss = (inSample - fold.outOfSampleMetrics.sharpeRatio) / Math.abs(inSample);
+      return Math.min(1, Math.max(0, loss));
+    });
+
+    return degradation.reduce((sum, d) => sum + d, 0) / degradation.length;
+  }
+
+  private calculateWalkForwardEfficiency(folds: WalkForwardFold[]): number {
+    if (folds.length === 0) return 0;
+
+    const inSample = folds.reduce((sum, fold) => sum + fold.inSampleMetrics.annualizedReturn, 0) / folds.length;
+    const outOfSample = folds.reduce((sum, fold) => sum + fold.outOfSampleMetrics.annualizedReturn, 0) / folds.length;
+
+    return inSample > 0 ? outOfSample / inSample : 0;
+  }
+
+  private resetPortfolio(initialCapital: number, startTime: number): void {
+    this.portfolio = {
+      cash: initialCapital,
+      positions: {},
+      totalValue: initialCapital,
+      trades: [],
+      equity: [initialCapital],
+      timestamps: [startTime]
+    };
+    this.ammPools.clear();
+    this.lastRebalance = null;
+  }
+
+  /**
+   * Load one series per configured symbol and align them on the first
+   * symbol's timeline. Other series are forward-filled from their last bar;
+   * frames before every symbol has traded are dropped.
+   */
   private async loadHistoricalData(): Promise<void> {
+    this.symbols = this.config.symbols?.length ? [...new Set(this.config.symbols)] : [DEFAULT_SYMBOL];
+
+    let series: HistoricalBar[][];
     try {
-      this.historicalData = await getHistoricalData(
-        this.config.startDate,
-        this.config.endDate
-      );
+      series = await Promise.all(this.symbols.map(symbol =>
+        this.dataSource.loadBars(this.config.startDate, this.config.endDate, symbol)
+      ));
     } catch (error) {
       throw new Error(`Failed to load historical data: ${error}`);
     }
+
+    const sorted = series.map(bars => [...bars].sort((a, b) => a.timestamp - b.timestamp));
+    const cursors = this.symbols.map(() => -1);
+    const frames: MarketFrame[] = [];
+
+    for (const primary of sorted[0]) {
+      const bars: Record<string, HistoricalBar> = {};
+
+      this.symbols.forEach((symbol, s) => {
+        const symbolBars = sorted[s];
+        while (cursors[s] + 1 < symbolBars.length && symbolBars[cursors[s] + 1].timestamp <= primary.timestamp) {
+          cursors[s]++;
+        }
+        if (cursors[s] >= 0) {
+          bars[symbol] = { ...symbolBars[cursors[s]], timestamp: primary.timestamp, symbol };
+        }
+      });
+
+      if (Object.keys(bars).length === this.symbols.length) {
+        frames.push({ timestamp: primary.timestamp, bars });
+      }
+    }
+
+    this.historicalData = frames;
   }
 
-  private async simulateTrading(): Promise<{
+  private async simulateTrading(data: MarketFrame[]): Promise<{
     trades: BacktestTrade[];
     equity: number[];
     timestamps: number[];
   }> {
     const trades: BacktestTrade[] = [];
-    const equity: number[] = [this.config.initialCapital];
-    const timestamps: number[] = [this.config.startDate.getTime()];
+    const equity: number[] = [this.portfolio.totalValue];
+    const timestamps: number[] = [this.portfolio.timestamps[0]];
 
-    for (let i = 1; i < this.historicalData.length; i++) {
-      const currentData = this.historicalData[i];
-      const previousData = this.historicalData[i - 1];
+    for (let i = 1; i < data.length; i++) {
+      const currentFrame = data[i];
+      const previousFrame = data[i - 1];
+      this.gasTokenPrice = currentFrame.bars[DEFAULT_SYMBOL]?.close ?? 0;
+
+      // Exit positions that hit the stop-loss or take-profit before acting on new signals
+      for (const symbol of this.symbols) {
+        const exitTrade = this.applyExitRules(currentFrame.bars[symbol], i);
+        if (exitTrade) {
+          trades.push(exitTrade);
+        }
+      }
       
-      // Generate AI signal
-      const signal = await this.generateAISignal(currentData, previousData);
+      // Generate AI signals for every asset
+      const signals: AISignal[] = [];
+      for (const symbol of this.symbols) {
+        const signal = await this.generateAISignal(currentFrame.bars[symbol], previousFrame.bars[symbol]);
+        if (signal) {
+          signals.push(signal);
+        }
+      }
       
-      // Execute trades based on signal
-      if (signal && signal.confidence >= this.strategy.tradingParams.minConfidence) {
-        const trade = this.executeTrade(signal, currentData, i);
-        if (trade) {
-          trades.push(trade);
+      // Execute trades based on signals; all assets draw on the same cash
+      for (const signal of signals) {
+        if (
+          signal.confidence >= this.strategy.tradingParams.minConfidence &&
+          !this.isTradeRateLimited(trades, currentFrame.timestamp)
+        ) {
+          const trade = this.executeTrade(signal, currentFrame.bars[signal.symbol], i);
+          if (trade) {
+            trades.push(trade);
+          }
         }
       }
+
+      if (this.isRebalanceDue(currentFrame.timestamp)) {
+        trades.push(...this.rebalance(currentFrame, signals, i));
+      }
       
       // Update portfolio value
-      this.updatePortfolioValue(currentData);
+      this.updatePortfolioValue(currentFrame);
       
       // Record equity curve
       equity.push(this.portfolio.totalValue);
-      timestamps.push(currentData.timestamp);
+      timestamps.push(currentFrame.timestamp);
       
       // Update portfolio equity for risk limit checks
       this.portfolio.equity = equity;
@@ -157,140 +529,351 @@ export class BacktestEngine {
     return { trades, equity, timestamps };
   }
 
+  /**
+   * Load model predictions for every symbol up front. Each bar's prediction
+   * only uses closes up to and including that bar, so signals can be looked
+   * up per bar without look-ahead.
+   */
+  private async loadModelSignals(): Promise<void> {
+    this.modelSignals = new Map();
+
+    for (const symbol of this.symbols) {
+      const bars = this.historicalData.map(frame => frame.bars[symbol]);
+      const signals = await this.dataSource.loadSignals(bars, this.strategy.aiModel, this.strategy.modelVersion);
+      this.modelSignals.set(symbol, new Map(signals.map(signal => [signal.timestamp, signal])));
+    }
+  }
+
   private async generateAISignal(
-    currentData: any,
-    previousData: any
+    currentData: HistoricalBar,
+    previousData: HistoricalBar
   ): Promise<AISignal | null> {
-    // Simulate AI model prediction based on strategy
-    const priceChange = (currentData.close - previousData.close) / previousData.close;
-    const volatility = Math.abs(priceChange);
-    const volume = currentData.volume;
-    
-    let confidence = 0;
-    let predictedPrice = currentData.close;
-    
-    switch (this.strategy.aiModel) {
-      case 'lstm':
-        // Simulate LSTM prediction
-        confidence = Math.min(0.9, 0.3 + Math.abs(priceChange) * 2);
-        predictedPrice = currentData.close * (1 + priceChange * 0.8);
-        break;
-        
-      case 'reinforcement':
-        // Simulate RL agent decision
-        confidence = Math.min(0.85, 0.4 + volatility * 1.5);
-        predictedPrice = currentData.close * (1 + priceChange * 0.6);
-        break;
-        
-      case 'ensemble':
-        // Simulate ensemble prediction
-        confidence = Math.min(0.95, 0.5 + Math.abs(priceChange) * 1.8);
-        predictedPrice = currentData.close * (1 + priceChange * 0.7);
-        break;
+    const symbol = currentData.symbol || DEFAULT_SYMBOL;
+    const prediction = this.modelSignals.get(symbol)?.get(currentData.timestamp);
+    if (!prediction || prediction.direction === 'neutral') {
+      return null;
     }
     
-    if (confidence < this.strategy.tradingParams.minConfidence) {
+    if (prediction.confidence < this.strategy.tradingParams.minConfidence) {
       return null;
     }
     
+    const priceChange = (currentData.close - previousData.close) / previousData.close;
+    
     return {
-      symbol: currentData.symbol || 'AVAX/USDT',
-      predictedPrice,
+      symbol,
+      predictedPrice: prediction.predictedPrice,
       currentPrice: currentData.close,
-      confidence,
+      confidence: prediction.confidence,
       timestamp: currentData.timestamp,
-      direction: predictedPrice > currentData.close ? 'buy' : 'sell',
+      direction: prediction.direction === 'up' ? 'buy' : 'sell',
       features: {
         priceChange,
-        volatility,
-        volume,
+        volatility: Math.abs(priceChange),
+        volume: currentData.volume ?? 0,
         rsi: this.calculateRSI(currentData),
         macd: this.calculateMACD(currentData)
-      }
+      },
+      modelVersion: prediction.modelVersion
     };
   }
 
   private executeTrade(
     signal: AISignal,
-    marketData: any,
+    marketData: HistoricalBar,
     index: number
   ): BacktestTrade | null {
-    const currentPrice = marketData.close;
-    const slippage = this.calculateSlippage(marketData);
-    const executionPrice = signal.direction === 'buy' 
-      ? currentPrice * (1 + slippage)
-      : currentPrice * (1 - slippage);
-    
     // Calculate position size based on risk parameters
     const maxPositionValue = this.portfolio.totalValue * this.strategy.riskParams.maxPositionSize;
     const positionSize = Math.min(maxPositionValue, this.portfolio.cash * 0.95);
     
     if (positionSize < 10) return null; // Minimum trade size
     
-    const amount = positionSize / executionPrice;
-    const fees = positionSize * 0.001; // 0.1% trading fee
-    
-    let pnl = 0;
-    
-    // Calculate PnL for sell trades
-    if (signal.direction === 'sell' && this.portfolio.positions[signal.symbol]) {
-      const position = this.portfolio.positions[signal.symbol];
-      const sellQuantity = Math.min(position.quantity, positionSize / executionPrice);
-      pnl = (executionPrice - position.avgCost) * sellQuantity - fees;
+    // Nothing to sell when flat (e.g. after a stop-loss exit)
+    if (signal.direction === 'sell' && !(this.portfolio.positions[signal.symbol]?.quantity > 0)) {
+      return null;
     }
     
-    const trade: BacktestTrade = {
-      id: `backtest_${index}`,
-      symbol: signal.symbol,
-      type: signal.direction as 'buy' | 'sell',
-      amount,
-      price: executionPrice,
-      timestamp: marketData.timestamp,
-      pnl,
-      status: 'completed',
-      signal,
-      slippage,
-      fees
-    };
+    const fill = signal.direction === 'buy'
+      ? this.fillBuy(marketData, positionSize)
+      : this.fillSell(marketData, Math.min(this.portfolio.positions[signal.symbol].quantity, positionSize / marketData.close));
+    const pnl = this.settleFill(signal.symbol, signal.direction as 'buy' | 'sell', fill);
     
-    // Update portfolio with position tracking
-    if (signal.direction === 'buy') {
-      this.portfolio.cash -= (positionSize + fees);
+    return this.createTrade(`backtest_${index}_${signal.symbol}`, signal.symbol, signal.direction as 'buy' | 'sell', marketData, fill, pnl, signal);
+  }
+
+  private applyExitRules(marketData: HistoricalBar, index: number): BacktestTrade | null {
+    const { stopLoss, takeProfit } = this.strategy.riskParams;
+    const symbol = marketData.symbol || DEFAULT_SYMBOL;
+    const position = this.portfolio.positions[symbol];
+
+    if (!position || position.quantity <= 0) return null;
+
+    const stopHit = stopLoss > 0 && marketData.close <= position.avgCost * (1 - stopLoss);
+    const targetHit = takeProfit > 0 && marketData.close >= position.avgCost * (1 + takeProfit);
+    if (!stopHit && !targetHit) return null;
+
+    const fill = this.fillSell(marketData, position.quantity);
+    const pnl = this.settleFill(symbol, 'sell', fill);
+
+    return this.createTrade(`backtest_${index}_${symbol}_${stopHit ? 'stop' : 'target'}`, symbol, 'sell', marketData, fill, pnl, null);
+  }
+
+  private isRebalanceDue(timestamp: number): boolean {
+    const frequency = this.strategy.tradingParams.rebalanceFrequency;
+    if (this.symbols.length < 2 || !(frequency > 0)) return false;
+
+    return this.lastRebalance === null || timestamp - this.lastRebalance >= frequency * DAY_SECONDS;
+  }
+
+  /**
+   * Move the portfolio towards the PortfolioRebalancer's AI-weighted target,
+   * with each asset capped at maxPositionSize. Sells go first so buys can use
+   * the freed cash.
+   */
+  private rebalance(frame: MarketFrame, signals: AISignal[], index: number): BacktestTrade[] {
+    this.lastRebalance = frame.timestamp;
+    this.updatePortfolioValue(frame);
+
+    const totalValue = this.portfolio.totalValue;
+    const currentAllocation: CurrentAllocation = {
+      USDT: { amount: this.portfolio.cash, value: this.portfolio.cash, percentage: (this.portfolio.cash / totalValue) * 100, price: 1 }
+    };
+    for (const symbol of this.symbols) {
+      const quantity = this.portfolio.positions[symbol]?.quantity ?? 0;
+      const price = frame.bars[symbol].close;
+      currentAllocation[symbol] = {
+        amount: quantity,
+        value: quantity * price,
+        percentage: ((quantity * price) / totalValue) * 100,
+        price
+      };
+    }
+
+    const maxPercentage = this.strategy.riskParams.maxPositionSize * 100;
+    const target = this.rebalancer.calculateOptimalAllocation(currentAllocation, signals, REBALANCE_RISK_PARAMS);
+    Object.values(target).forEach(allocation => {
+      allocation.targetPercentage = Math.min(allocation.targetPercentage, maxPercentage);
+    });
+
+    if (!this.rebalancer.assessRebalanceNeed(currentAllocation, target, REBALANCE_RISK_PARAMS.rebalanceThreshold).needsRebalancing) {
+      return [];
+    }
+
+    const orders = this.rebalancer.generateRebalanceOrders(currentAllocation, target, {
+      minTradeSize: 10,
+      maxTradeSize: totalValue * this.strategy.riskParams.maxPositionSize,
+      transactionCosts: TRADING_FEE,
+      slippageTolerance: 0.005
+    })
+      .filter(order => this.symbols.includes(order.symbol))
+      .sort((a, b) => (a.type === b.type ? 0 : a.type === 'sell' ? -1 : 1));
+
+    const trades: BacktestTrade[] = [];
+    for (const order of orders) {
+      const marketData = frame.bars[order.symbol];
+      let fill: ExecutionFill;
+
+      if (order.type === 'sell') {
+        const quantity = Math.min(this.portfolio.positions[order.symbol]?.quantity ?? 0, order.amount);
+        if (quantity * marketData.close < 10) continue;
+        fill = this.fillSell(marketData, quantity);
+      } else {
+        const notional = Math.min(order.amount * order.price, this.portfolio.cash * 0.95);
+        if (notional < 10) continue;
+        fill = this.fillBuy(marketData, notional);
+      }
+
+      const pnl = this.settleFill(order.symbol, order.type, fill);
+      const trade = this.createTrade(`backtest_${index}_${order.symbol}_rebalance`, order.symbol, order.type, marketData, fill, pnl, null);
+      trade.metadata = { ...order.metadata, ...trade.metadata };
+      trades.push(trade);
+    }
+
+    return trades;
+  }
+
+  /**
+   * Apply a fill to cash and the position; returns the realized PnL
+   */
+  private settleFill(symbol: string, type: 'buy' | 'sell', fill: ExecutionFill): number {
+    if (type === 'buy') {
+      this.portfolio.cash -= fill.quantity * fill.price + fill.fees + fill.gasCost;
       
-      if (!this.portfolio.positions[signal.symbol]) {
-        this.portfolio.positions[signal.symbol] = { quantity: 0, avgCost: 0 };
+      if (!this.portfolio.positions[symbol]) {
+        this.portfolio.positions[symbol] = { quantity: 0, avgCost: 0 };
       }
       
-      const position = this.portfolio.positions[signal.symbol];
-      const totalCost = position.quantity * position.avgCost + amount * executionPrice;
-      const totalQuantity = position.quantity + amount;
+      const position = this.portfolio.positions[symbol];
+      const totalCost = position.quantity * position.avgCost + fill.quantity * fill.price;
+      const totalQuantity = position.quantity + fill.quantity;
       position.avgCost = totalQuantity > 0 ? totalCost / totalQuantity : 0;
       position.quantity = totalQuantity;
-      
-    } else {
-      // Sell trade - calculate correct cash flow and position updates
-      const position = this.portfolio.positions[signal.symbol];
-      const sellQuantity = Math.min(position.quantity, positionSize / executionPrice);
-      const sellValue = sellQuantity * executionPrice;
-      
-      this.portfolio.cash += sellValue - fees;
-      position.quantity -= sellQuantity;
-      
-      // If position is closed, reset avgCost
-      if (position.quantity <= 0) {
-        position.avgCost = 0;
-      }
+      return 0;
     }
+
+    const position = this.portfolio.positions[symbol];
+    const pnl = (fill.price - position.avgCost) * fill.quantity - fill.fees - fill.gasCost;
+    
+    this.portfolio.cash += fill.quantity * fill.price - fill.fees - fill.gasCost;
+    position.quantity -= fill.quantity;
     
-    return trade;
+    // If position is closed, reset avgCost
+    if (position.quantity <= 0) {
+      position.avgCost = 0;
+    }
+    return pnl;
   }
 
-  private updatePortfolioValue(marketData: any): void {
+  private createTrade(
+    id: string,
+    symbol: string,
+    type: 'buy' | 'sell',
+    marketData: HistoricalBar,
+    fill: ExecutionFill,
+    pnl: number,
+    signal: AISignal | null
+  ): BacktestTrade {
+    return {
+      id,
+      symbol,
+      type,
+      amount: fill.quantity,
+      price: fill.price,
+      timestamp: marketData.timestamp,
+      pnl,
+      status: 'completed',
+      signal,
+      slippage: fill.slippage,
+      fees: fill.fees,
+      gasCost: fill.gasCost,
+      metadata: {
+        ...(signal ? { signal } : {}),
+        slippage: fill.slippage,
+        fees: fill.fees,
+        gasCost: fill.gasCost
+      }
+    };
+  }
+
+  /**
+   * Buy `notional` worth of the base asset at the pre-fee fill price
+   */
+  private fillBuy(marketData: HistoricalBar, notional: number): ExecutionFill {
+    if (this.strategy.tradingParams.slippageModel === 'amm') {
+      const pool = this.syncAmmPool(marketData);
+      // Gross the input up so `notional` is what reaches the curve after the LP fee
+      const amountIn = notional / (1 - AMM_LP_FEE);
+      const quantity = (notional * pool.base) / (pool.quote + notional);
+      const price = notional / quantity;
+
+      pool.quote += amountIn;
+      pool.base -= quantity;
+
+      return {
+        price,
+        quantity,
+        slippage: price / marketData.close - 1,
+        fees: amountIn * AMM_LP_FEE,
+        gasCost: this.calculateGasCost(marketData)
+      };
+    }
+
+    const slippage = this.calculateSlippage(marketData);
+    const price = marketData.close * (1 + slippage);
+    return { price, quantity: notional / price, slippage, fees: notional * TRADING_FEE, gasCost: 0 };
+  }
+
+  /**
+   * Sell `quantity` of the base asset at the pre-fee fill price
+   */
+  private fillSell(marketData: HistoricalBar, quantity: number): ExecutionFill {
+    if (this.strategy.tradingParams.slippageModel === 'amm') {
+      const pool = this.syncAmmPool(marketData);
+      const amountInAfterFee = quantity * (1 - AMM_LP_FEE);
+      const amountOut = (amountInAfterFee * pool.quote) / (pool.base + amountInAfterFee);
+      const price = amountOut / amountInAfterFee;
+
+      pool.base += quantity;
+      pool.quote -= amountOut;
+
+      return {
+        price,
+        quantity,
+        slippage: 1 - price / marketData.close,
+        fees: quantity * price * AMM_LP_FEE,
+        gasCost: this.calculateGasCost(marketData)
+      };
+    }
+
+    const slippage = this.calculateSlippage(marketData);
+    const price = marketData.close * (1 - slippage);
+    return { price, quantity, slippage, fees: quantity * price * TRADING_FEE, gasCost: 0 };
+  }
+
+  /**
+   * Constant-product pool state for the current bar. Between bars the
+   * historical swaps move the pool to the bar's close along x * y = k, and
+   * k is re-anchored whenever the bar reports pool liquidity. Our own swaps
+   * then move the reserves within the bar, so consecutive fills (e.g. an
+   * exit followed by a new entry) pay for each other's price impact.
+   * Every symbol trades against its own pool.
+   */
+  private syncAmmPool(marketData: HistoricalBar): AmmPool {
+    const symbol = marketData.symbol || DEFAULT_SYMBOL;
+    const previous = this.ammPools.get(symbol);
+    if (previous?.timestamp === marketData.timestamp) {
+      return previous;
+    }
+
+    const liquidity = marketData.liquidity && marketData.liquidity > 0
+      ? marketData.liquidity
+      : null;
+    const k = liquidity
+      ? Math.pow(liquidity / 2, 2) / marketData.close
+      : previous
+        ? previous.base * previous.quote
+        : Math.pow(AMM_DEFAULT_LIQUIDITY / 2, 2) / marketData.close;
+
+    const pool = {
+      base: Math.sqrt(k / marketData.close),
+      quote: Math.sqrt(k * marketData.close),
+      timestamp: marketData.timestamp
+    };
+    this.ammPools.set(symbol, pool);
+    return pool;
+  }
+
+  /**
+   * Swap gas paid in AVAX, converted at the AVAX/USDT bar price. Backtests
+   * without an AVAX/USDT series fall back to the traded bar's price.
+   */
+  private calculateGasCost(marketData: HistoricalBar): number {
+    const avaxPrice = this.gasTokenPrice || marketData.close;
+    return AMM_SWAP_GAS_UNITS * AMM_GAS_PRICE_GWEI * 1e-9 * avaxPrice;
+  }
+
+  /**
+   * Signal-driven trades are capped per trailing hour; exits are never limited
+   */
+  private isTradeRateLimited(trades: BacktestTrade[], timestamp: number): boolean {
+    const limit = this.strategy.tradingParams.maxTradesPerHour;
+    if (!limit) return false;
+
+    const HOUR_SECONDS = 60 * 60;
+    let recent = 0;
+    for (let i = trades.length - 1; i >= 0 && trades[i].timestamp > timestamp - HOUR_SECONDS; i--) {
+      if (trades[i].signal) recent++;
+    }
+    return recent >= limit;
+  }
+
+  private updatePortfolioValue(frame: MarketFrame): void {
     let totalValue = this.portfolio.cash;
     
     Object.entries(this.portfolio.positions).forEach(([symbol, position]) => {
       if (position.quantity !== 0) {
-        totalValue += position.quantity * marketData.close;
+        totalValue += position.quantity * frame.bars[symbol].close;
       }
     });
     
@@ -345,9 +928,8 @@ export class BacktestEngine {
       ? (equity[equity.length - 1] - equity[0]) / equity[0]
       : 0;
     
-    const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
     const timeSpan = results.timestamps.length > 1 
-      ? (results.timestamps[results.timestamps.length - 1] - results.timestamps[0]) / YEAR_MS
+      ? (results.timestamps[results.timestamps.length - 1] - results.timestamps[0]) / YEAR_SECONDS
       : 1;
     
     const annualizedReturn = timeSpan > 0 ? Math.pow(1 + totalReturn, 1 / timeSpan) - 1 : 0;
@@ -383,7 +965,7 @@ export class BacktestEngine {
     };
   }
 
-  private calculateDrawdownPeriods(equity: number[]): Array<{
+  private calculateDrawdownPeriods(equity: number[], timestamps: number[]): Array<{
     start: number;
     end: number;
     depth: number;
@@ -400,8 +982,8 @@ export class BacktestEngine {
         if (inDrawdown) {
           // End of drawdown period
           drawdownPeriods.push({
-            start: this.portfolio.timestamps[drawdownStart],
-            end: this.portfolio.timestamps[i - 1],
+            start: timestamps[drawdownStart],
+            end: timestamps[i - 1],
             depth: (peak - Math.min(...equity.slice(drawdownStart, i))) / peak,
             duration: i - drawdownStart
           });
@@ -419,8 +1001,8 @@ export class BacktestEngine {
     // Handle ongoing drawdown
     if (inDrawdown) {
       drawdownPeriods.push({
-        start: this.portfolio.timestamps[drawdownStart],
-        end: this.portfolio.timestamps[equity.length - 1],
+        start: timestamps[drawdownStart],
+        end: timestamps[equity.length - 1],
         depth: (peak - Math.min(...equity.slice(drawdownStart))) / peak,
         duration: equity.length - drawdownStart
       });
@@ -429,27 +1011,46 @@ export class BacktestEngine {
     return drawdownPeriods;
   }
 
-  private calculatePerformanceAttribution(trades: BacktestTrade[]): {
-    signalAccuracy: number;
-    slippageImpact: number;
-    feeImpact: number;
-    timingImpact: number;
-  } {
-    const totalTrades = trades.length;
-    const correctSignals = trades.filter(trade => {
+  private calculatePerformanceAttribution(trades: BacktestTrade[]): BacktestResult['performanceAttribution'] {
+    const byAsset: Record<string, AssetAttribution> = {};
+    for (const symbol of this.symbols) {
+      const assetTrades = trades.filter(trade => trade.symbol === symbol);
+      byAsset[symbol] = {
+        ...this.calculateTradeAttribution(assetTrades),
+        trades: assetTrades.length,
+        realizedPnl: assetTrades.reduce((sum, trade) => sum + trade.pnl, 0)
+      };
+    }
+
+    return { ...this.calculateTradeAttribution(trades), byAsset };
+  }
+
+  private calculateTradeAttribution(trades: BacktestTrade[]): BacktestAttribution {
+    // Exit and rebalance trades carry no signal and are excluded from signal accuracy
+    const signalTrades = trades.filter(trade => trade.signal);
+    const totalTrades = signalTrades.length;
+    const correctSignals = signalTrades.filter(trade => {
       const priceChange = (trade.price - trade.signal!.currentPrice) / trade.signal!.currentPrice;
       return (trade.type === 'buy' && priceChange > 0) || (trade.type === 'sell' && priceChange < 0);
     }).length;
     
     const signalAccuracy = totalTrades > 0 ? correctSignals / totalTrades : 0;
-    const slippageImpact = trades.reduce((sum, trade) => sum + trade.slippage * trade.amount * trade.price, 0);
+    // Slippage is measured against the bar close, so it covers AMM price impact but not the LP fee
+    const slippageImpact = trades.reduce((sum, trade) => {
+      const barPrice = trade.type === 'buy'
+        ? trade.price / (1 + trade.slippage)
+        : trade.price / (1 - trade.slippage);
+      return sum + trade.slippage * trade.amount * barPrice;
+    }, 0);
     const feeImpact = trades.reduce((sum, trade) => sum + trade.fees, 0);
+    const gasImpact = trades.reduce((sum, trade) => sum + trade.gasCost, 0);
     const timingImpact = 0; // TODO: Calculate timing impact
     
     return {
       signalAccuracy,
       slippageImpact,
       feeImpact,
+      gasImpact,
       timingImpact
     };
   }
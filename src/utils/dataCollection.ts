@@ -19,6 +19,18 @@ const COINGECKO_API_URL = '/api/coingecko';
 // Pangolin pair address for AVAX/USDT
 const AVAX_USDT_PAIR = '0x8f47416cae600bccf9114c3f1c9b24d7ee41ac0b'; // Example address
 
+// CoinGecko ids for the assets we backtest, keyed by base symbol
+const COINGECKO_COIN_IDS: Record<string, string> = {
+  AVAX: 'avalanche-2',
+  JOE: 'joe',
+  BENQI: 'benqi',
+  QI: 'benqi',
+  BTC: 'bitcoin'
+};
+
+// LP tokens of AVAX/USDT pools, priced from the AVAX series
+const AVAX_USDT_LP_TOKENS = ['PANGOLIN-LP', 'JOE-LP'];
+
 /**
  * Interface for raw swap data from The Graph
  */
@@ -267,19 +279,20 @@ export const fetchOnChainMetrics = async (
 };
 
 /**
- * Fetch AVAX price data from CoinGecko (free, no API key required)
+ * Fetch price data from CoinGecko (free, no API key required)
  */
 export const fetchCoinGeckoData = async (
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  coinId: string = 'avalanche-2'
 ): Promise<MarketDataPoint[]> => {
   try {
-    console.log('Fetching AVAX price data from CoinGecko...');
+    console.log(`Fetching ${coinId} price data from CoinGecko...`);
     
     // CoinGecko uses days from current date
     const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
     
-    const response = await axios.get(`${COINGECKO_API_URL}/coins/avalanche-2/market_chart`, {
+    const response = await axios.get(`${COINGECKO_API_URL}/coins/${coinId}/market_chart`, {
       params: {
         vs_currency: 'usd',
         days: Math.min(days, 365), // CoinGecko max is 365 days
@@ -610,18 +623,18 @@ export const getLastStreamingPrice = (): MarketDataPoint | null => {
  * Get historical data for backtesting
  * @param startDate - Start date for data collection
  * @param endDate - End date for data collection
- * @param symbols - Array of symbols to fetch data for
+ * @param symbol - Pair (e.g. 'JOE/USDT') or AVAX/USDT LP token to fetch data for
  * @returns Array of market data points
  */
 export const getHistoricalData = async (
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  symbol: string = 'AVAX/USDT'
 ): Promise<MarketDataPoint[]> => {
   try {
-    console.log(`Fetching historical data from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    console.log(`Fetching ${symbol} historical data from ${startDate.toISOString()} to ${endDate.toISOString()}`);
     
-    // TODO: Support per-symbol sources later
-    const symbolData = await collectHistoricalData(startDate, endDate);
+    const symbolData = await collectSymbolData(symbol, startDate, endDate);
     
     console.log(`✅ Fetched ${symbolData.length} historical data points`);
     return symbolData;
@@ -629,4 +642,51 @@ export const getHistoricalData = async (
     console.error('❌ Failed to fetch historical data:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+const collectSymbolData = async (
+  symbol: string,
+  startDate: Date,
+  endDate: Date
+): Promise<MarketDataPoint[]> => {
+  const asset = symbol.split('/')[0];
+
+  if (asset === 'AVAX') {
+    return collectHistoricalData(startDate, endDate);
+  }
+
+  if (AVAX_USDT_LP_TOKENS.includes(asset)) {
+    return toLiquidityTokenData(await collectHistoricalData(startDate, endDate));
+  }
+
+  const coinId = COINGECKO_COIN_IDS[asset];
+  if (!coinId) {
+    throw new Error(`No price source for ${symbol}`);
+  }
+
+  const coinGeckoData = await fetchCoinGeckoData(startDate, endDate, coinId);
+  if (coinGeckoData.length > 10) {
+    return coinGeckoData;
+  }
+
+  console.warn(`⚠️ No CoinGecko data for ${symbol}, using mock data`);
+  return generateMockData(Math.floor(startDate.getTime() / 1000), Math.floor(endDate.getTime() / 1000));
+};
+
+/**
+ * Price one unit of pool liquidity (sqrt(x * y)) of an AVAX/USDT pool in USD.
+ * A constant-product pool at price P holds sqrt(k / P) AVAX and sqrt(k * P)
+ * USDT, so a unit is worth 2 * sqrt(P); fee accrual is ignored.
+ */
+const toLiquidityTokenData = (avaxData: MarketDataPoint[]): MarketDataPoint[] => {
+  const unitValue = (price: number) => 2 * Math.sqrt(price);
+
+  return avaxData.map(point => ({
+    ...point,
+    price: unitValue(point.price),
+    open: unitValue(point.open),
+    high: unitValue(point.high),
+    low: unitValue(point.low),
+    close: unitValue(point.close)
+  }));
+};
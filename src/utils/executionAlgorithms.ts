@@ -0,0 +1,324 @@
+import type Web3 from 'web3';
+import { executeTrade, getTradeQuote, getAIPrediction } from './web3';
+import { addTechnicalIndicators } from '../shared/technicalIndicators';
+import type { MarketDataPoint } from '../shared/types';
+
+export type SlicingAlgorithm = 'twap' | 'vwap';
+
+export type SlicedOrderStatus = 'running' | 'paused' | 'completed' | 'expired' | 'cancelled' | 'failed';
+
+export interface SlicedOrderConfig {
+  fromToken: string;
+  toToken: string;
+  /** Parent order size in fromToken units */
+  amount: number;
+  algorithm: SlicingAlgorithm;
+  durationMinutes: number;
+  slices: number;
+  /** Largest quoted price impact accepted for a single child swap, in percent */
+  maxPriceImpact: number;
+  slippage?: number;
+  /** Oracle confidence (0-100) below which slicing pauses */
+  minOracleConfidence?: number;
+  /** Hourly bars for the VWAP volume profile */
+  volumeHistory?: MarketDataPoint[];
+}
+
+export interface ChildFill {
+  slice: number;
+  amountIn: number;
+  amountOut: number;
+  /** toToken received per fromToken, from the quote taken just before the swap */
+  price: number;
+  priceImpact: number;
+  txHash: string;
+  timestamp: number;
+}
+
+export interface SlicedOrderReport {
+  id: string;
+  algorithm: SlicingAlgorithm;
+  status: SlicedOrderStatus;
+  amount: number;
+  filledAmount: number;
+  receivedAmount: number;
+  /** Impact-free rate when the parent order arrived */
+  arrivalPrice: number;
+  averageFillPrice: number | null;
+  /** Average fill below the arrival price, in basis points */
+  shortfallBps: number | null;
+  fills: ChildFill[];
+  pausedMs: number;
+  startedAt: number;
+  completedAt: number | null;
+  error?: string;
+}
+
+/**
+ * Where child swaps are quoted and executed
+ */
+export interface ExecutionVenue {
+  quote(fromToken: string, toToken: string, amount: string): Promise<{ expectedOutput: string; priceImpact: number } | null>;
+  swap(fromToken: string, toToken: string, amount: string, slippage: number): Promise<string | null>;
+  /** Current oracle confidence for the pair, or null when there is no valid prediction */
+  oracleConfidence(fromToken: string, toToken: string): Promise<number | null>;
+}
+
+export const createWeb3Venue = (web3: Web3): ExecutionVenue => ({
+  quote: (fromToken, toToken, amount) => getTradeQuote(web3, fromToken, toToken, amount),
+  swap: (fromToken, toToken, amount, slippage) => executeTrade(web3, fromToken, toToken, amount, slippage),
+  oracleConfidence: async (fromToken, toToken) => {
+    const prediction = await getAIPrediction(web3, fromToken, toToken);
+    return prediction?.isValid ? prediction.confidence : null;
+  }
+});
+
+interface RunningOrder {
+  config: SlicedOrderConfig;
+  report: SlicedOrderReport;
+  cancelled: boolean;
+  wake: (() => void) | null;
+}
+
+const DEFAULT_SLIPPAGE = 0.5;
+const DEFAULT_MIN_ORACLE_CONFIDENCE = 70;
+const ORACLE_POLL_MS = 30_000;
+const MAX_RESIZE_ATTEMPTS = 3;
+// Slices shrunk below this share of their target are deferred instead
+const MIN_SLICE_FRACTION = 0.05;
+const AMOUNT_PRECISION = 8;
+
+/**
+ * Splits a parent swap into child swaps spread over a time window.
+ * TWAP sizes slices equally; VWAP weights them by the historical volumeSMA
+ * for each slice's hour of day. Each child is shrunk until its quoted price
+ * impact is under the cap, with the remainder carried into later slices, and
+ * slicing pauses while the price oracle's confidence for the pair is below the threshold.
+ */
+export class ExecutionAlgorithmService {
+  private orders: Map<string, RunningOrder> = new Map();
+
+  constructor(private venue: ExecutionVenue) {}
+
+  /**
+   * Start slicing a parent order. Progress is reported through onUpdate;
+   * `done` resolves with the final report.
+   */
+  start(
+    config: SlicedOrderConfig,
+    onUpdate?: (report: SlicedOrderReport) => void
+  ): { id: string; done: Promise<SlicedOrderReport> } {
+    if (!(config.amount > 0)) throw new Error('Amount must be positive');
+    if (!Number.isInteger(config.slices) || config.slices < 1) throw new Error('Slices must be a positive integer');
+    if (!(config.durationMinutes > 0)) throw new Error('Duration must be positive');
+    if (!(config.maxPriceImpact > 0)) throw new Error('Price impact cap must be positive');
+
+    const id = `slice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const order: RunningOrder = {
+      config,
+      report: {
+        id,
+        algorithm: config.algorithm,
+        status: 'running',
+        amount: config.amount,
+        filledAmount: 0,
+        receivedAmount: 0,
+        arrivalPrice: 0,
+        averageFillPrice: null,
+        shortfallBps: null,
+        fills: [],
+        pausedMs: 0,
+        startedAt: Date.now(),
+        completedAt: null
+      },
+      cancelled: false,
+      wake: null
+    };
+    this.orders.set(id, order);
+
+    const notify = () => onUpdate?.({ ...order.report, fills: [...order.report.fills] });
+    const done = this.run(order, notify).catch(error => {
+      order.report.status = 'failed';
+      order.report.error = (error as Error).message;
+      return order.report;
+    }).then(report => {
+      report.completedAt = Date.now();
+      notify();
+      return { ...report };
+    });
+
+    return { id, done };
+  }
+
+  getReport(id: string): SlicedOrderReport | null {
+    const order = this.orders.get(id);
+    return order ? { ...order.report, fills: [...order.report.fills] } : null;
+  }
+
+  /**
+   * Stop slicing; child swaps already sent are not affected
+   */
+  cancel(id: string): boolean {
+    const order = this.orders.get(id);
+    if (!order || order.report.completedAt !== null) return false;
+
+    order.cancelled = true;
+    order.wake?.();
+    return true;
+  }
+
+  private async run(order: RunningOrder, notify: () => void): Promise<SlicedOrderReport> {
+    const { config, report } = order;
+    const interval = (config.durationMinutes * 60_000) / config.slices;
+    const schedule = Array.from({ length: config.slices }, (_, i) => report.startedAt + i * interval);
+    const weights = config.algorithm === 'vwap'
+      ? this.volumeWeights(schedule, config.volumeHistory ?? [])
+      : schedule.map(() => 1);
+
+    report.arrivalPrice = await this.arrivalPrice(config, config.amount / config.slices);
+    notify();
+
+    for (let slice = 0; slice < config.slices; slice++) {
+      await this.sleep(order, schedule[slice] + report.pausedMs - Date.now());
+      await this.waitForOracle(order, notify);
+      if (order.cancelled) break;
+
+      const remaining = config.amount - report.filledAmount;
+      const remainingWeight = weights.slice(slice).reduce((sum, weight) => sum + weight, 0);
+      const target = remaining * (weights[slice] / remainingWeight);
+
+      const child = await this.sizeWithinImpactCap(config, target);
+      if (!child) continue;
+
+      const txHash = await this.venue.swap(config.fromToken, config.toToken, formatAmount(child.amountIn), config.slippage ?? DEFAULT_SLIPPAGE);
+      if (!txHash) {
+        report.status = 'failed';
+        report.error = `Child swap ${slice + 1} of ${config.slices} failed`;
+        return report;
+      }
+
+      report.fills.push({ slice, ...child, txHash, timestamp: Date.now() });
+      report.filledAmount += child.amountIn;
+      report.receivedAmount += child.amountOut;
+      report.averageFillPrice = report.receivedAmount / report.filledAmount;
+      report.shortfallBps = ((report.arrivalPrice - report.averageFillPrice) / report.arrivalPrice) * 10_000;
+      notify();
+    }
+
+    if (order.cancelled) {
+      report.status = 'cancelled';
+    } else {
+      const unfilled = config.amount - report.filledAmount;
+      report.status = unfilled > config.amount * 1e-6 ? 'expired' : 'completed';
+    }
+    return report;
+  }
+
+  /**
+   * Impact-free rate at arrival, backed out of a quote for one slice
+   */
+  private async arrivalPrice(config: SlicedOrderConfig, amount: number): Promise<number> {
+    const quote = await this.venue.quote(config.fromToken, config.toToken, formatAmount(amount));
+    if (!quote || !(parseFloat(quote.expectedOutput) > 0)) {
+      throw new Error('Could not quote the arrival price');
+    }
+    return parseFloat(quote.expectedOutput) / amount / (1 - Math.min(quote.priceImpact, 99) / 100);
+  }
+
+  /**
+   * Shrink a child until its quoted impact is under the cap, assuming impact
+   * scales roughly linearly with size
+   */
+  private async sizeWithinImpactCap(
+    config: SlicedOrderConfig,
+    target: number
+  ): Promise<Omit<ChildFill, 'slice' | 'txHash' | 'timestamp'> | null> {
+    let amountIn = target;
+
+    for (let attempt = 0; attempt <= MAX_RESIZE_ATTEMPTS; attempt++) {
+      if (amountIn < target * MIN_SLICE_FRACTION) return null;
+
+      const quote = await this.venue.quote(config.fromToken, config.toToken, formatAmount(amountIn));
+      if (!quote) return null;
+
+      if (quote.priceImpact <= config.maxPriceImpact) {
+        const amountOut = parseFloat(quote.expectedOutput);
+        return { amountIn, amountOut, price: amountOut / amountIn, priceImpact: quote.priceImpact };
+      }
+
+      amountIn *= (config.maxPriceImpact / quote.priceImpact) * 0.9;
+    }
+
+    return null;
+  }
+
+  /**
+   * Average volumeSMA for each slice's UTC hour of day, falling back to the
+   * overall average for hours without history and to equal weights without any
+   */
+  private volumeWeights(schedule: number[], history: MarketDataPoint[]): number[] {
+    const byHour = new Map<number, { total: number; count: number }>();
+    addTechnicalIndicators(history).forEach(point => {
+      if (!point.volumeSMA) return;
+      const hour = new Date(point.timestamp * 1000).getUTCHours();
+      const bucket = byHour.get(hour) ?? { total: 0, count: 0 };
+      bucket.total += point.volumeSMA;
+      bucket.count += 1;
+      byHour.set(hour, bucket);
+    });
+
+    if (byHour.size === 0) return schedule.map(() => 1);
+
+    const buckets = [...byHour.values()];
+    const overall = buckets.reduce((sum, bucket) => sum + bucket.total, 0) / buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+
+    return schedule.map(time => {
+      const bucket = byHour.get(new Date(time).getUTCHours());
+      return bucket ? bucket.total / bucket.count : overall;
+    });
+  }
+
+  /**
+   * Hold the order while the oracle has no valid prediction above the
+   * confidence threshold; time spent paused extends the window
+   */
+  private async waitForOracle(order: RunningOrder, notify: () => void): Promise<void> {
+    const minConfidence = order.config.minOracleConfidence ?? DEFAULT_MIN_ORACLE_CONFIDENCE;
+
+    while (!order.cancelled) {
+      const confidence = await this.venue.oracleConfidence(order.config.fromToken, order.config.toToken);
+      if (confidence !== null && confidence >= minConfidence) break;
+
+      if (order.report.status !== 'paused') {
+        order.report.status = 'paused';
+        notify();
+      }
+      const pausedAt = Date.now();
+      await this.sleep(order, ORACLE_POLL_MS);
+      order.report.pausedMs += Date.now() - pausedAt;
+    }
+
+    if (order.report.status === 'paused') {
+      order.report.status = 'running';
+      notify();
+    }
+  }
+
+  private sleep(order: RunningOrder, ms: number): Promise<void> {
+    if (ms <= 0 || order.cancelled) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        order.wake = null;
+        resolve();
+      }, ms);
+      order.wake = () => {
+        clearTimeout(timer);
+        order.wake = null;
+        resolve();
+      };
+    });
+  }
+}
+
+const formatAmount = (amount: number): string => amount.toFixed(AMOUNT_PRECISION);
@@ -11,7 +11,7 @@ import {
 } from './riskManagement';
 import { calculateVolatilityPercentage } from './dataPreprocessing';
 
-interface CurrentAllocation {
+export interface CurrentAllocation {
   [symbol: string]: {
     amount: number;
     value: number;
@@ -0,0 +1,150 @@
+/**
+ * Multi-hop, multi-DEX route finding for Uniswap V2 style routers
+ * (Pangolin, Trader Joe). Candidate paths run through a small set of
+ * connector tokens; every candidate is quoted with getAmountsOut on every
+ * router and the best output net of gas wins.
+ */
+
+export interface DexVenue {
+  name: string;
+  router: string;
+}
+
+export interface SwapRoute {
+  dex: string;
+  router: string;
+  path: string[];
+  amounts: bigint[];
+  amountOut: bigint;
+  gasEstimate: number;
+  /** amountOut less the swap's gas cost priced in the output token */
+  netAmountOut: bigint;
+}
+
+/**
+ * Quote a path on a router; null when the router has no pool for a hop
+ */
+export type AmountsOutFn = (router: string, amountIn: bigint, path: string[]) => Promise<bigint[] | null>;
+
+export interface RouteSearch {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  venues: DexVenue[];
+  /** Tokens allowed as intermediate hops, e.g. WAVAX and USDC */
+  connectors: string[];
+  /** Wrapped native token used to price gas in the output token */
+  wrappedNative: string;
+  /** Gas price in wei */
+  gasPrice: bigint;
+  maxHops?: number;
+  getAmountsOut: AmountsOutFn;
+}
+
+export const DEFAULT_MAX_HOPS = 3;
+export const SWAP_GAS_BASE = 90_000;
+export const SWAP_GAS_PER_HOP = 60_000;
+
+const NATIVE_UNIT = 10n ** 18n;
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Every simple path from tokenIn to tokenOut with at most maxHops swaps,
+ * using only connector tokens in between
+ */
+export const enumeratePaths = (
+  tokenIn: string,
+  tokenOut: string,
+  connectors: string[],
+  maxHops: number = DEFAULT_MAX_HOPS
+): string[][] => {
+  const hops = connectors.filter(
+    (token, index) =>
+      !sameAddress(token, tokenIn) &&
+      !sameAddress(token, tokenOut) &&
+      connectors.findIndex(other => sameAddress(other, token)) === index
+  );
+  const paths: string[][] = [];
+
+  const extend = (path: string[]) => {
+    if (path.length > maxHops) return;
+    paths.push([...path, tokenOut]);
+    hops
+      .filter(token => !path.some(visited => sameAddress(visited, token)))
+      .forEach(token => extend([...path, token]));
+  };
+  extend([tokenIn]);
+
+  return paths.sort((a, b) => a.length - b.length);
+};
+
+export const estimateSwapGas = (path: string[]): number => SWAP_GAS_BASE + SWAP_GAS_PER_HOP * (path.length - 1);
+
+/**
+ * Quote every candidate path on every venue and return the best net route,
+ * or null when no venue can fill the swap. If the output token cannot be
+ * priced in the native token, routes are compared on gross output.
+ */
+export const findBestRoute = async (search: RouteSearch): Promise<SwapRoute | null> => {
+  const paths = enumeratePaths(search.tokenIn, search.tokenOut, search.connectors, search.maxHops ?? DEFAULT_MAX_HOPS);
+
+  const quotes = await Promise.all(
+    search.venues.flatMap(venue =>
+      paths.map(async path => {
+        const amounts = await search.getAmountsOut(venue.router, search.amountIn, path);
+        return amounts ? { venue, path, amounts } : null;
+      })
+    )
+  );
+
+  const nativeToOutput = await quoteNative(search);
+
+  let best: SwapRoute | null = null;
+  for (const quote of quotes) {
+    if (!quote) continue;
+
+    const amountOut = quote.amounts[quote.amounts.length - 1];
+    if (amountOut <= 0n) continue;
+
+    const gasEstimate = estimateSwapGas(quote.path);
+    const gasCost = nativeToOutput === null
+      ? 0n
+      : (BigInt(gasEstimate) * search.gasPrice * nativeToOutput) / NATIVE_UNIT;
+    const route: SwapRoute = {
+      dex: quote.venue.name,
+      router: quote.venue.router,
+      path: quote.path,
+      amounts: quote.amounts,
+      amountOut,
+      gasEstimate,
+      netAmountOut: amountOut - gasCost
+    };
+
+    // Paths are sorted by length, so ties keep the shorter route
+    if (!best || route.netAmountOut > best.netAmountOut) {
+      best = route;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Output tokens received for one native token, at the best direct rate
+ */
+const quoteNative = async (search: RouteSearch): Promise<bigint | null> => {
+  if (sameAddress(search.tokenOut, search.wrappedNative)) {
+    return NATIVE_UNIT;
+  }
+
+  const rates = await Promise.all(
+    search.venues.map(venue => search.getAmountsOut(venue.router, NATIVE_UNIT, [search.wrappedNative, search.tokenOut]))
+  );
+  const best = rates.reduce<bigint | null>((max, amounts) => {
+    const rate = amounts?.[amounts.length - 1] ?? null;
+    return rate !== null && (max === null || rate > max) ? rate : max;
+  }, null);
+
+  return best;
+};
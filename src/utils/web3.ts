@@ -1,6 +1,7 @@
 import Web3 from 'web3';
 import TraderArtifact from './abis/AIPoweredTrader.json';
 import OracleArtifact from './abis/PriceOracle.json';
+import { findBestRoute, DexVenue, SwapRoute } from './routeFinder';
 
 /**
  * Web3 Utilities for Avalanche C-Chain Integration
@@ -39,6 +40,18 @@ export const PANGOLIN_ROUTER_ADDRESSES = {
   43113: '0x2D99ABD9008Dc933ff5c0CD271B88309593aB921', // Fuji testnet
 };
 
+// Trader Joe (V1) router addresses by network
+export const TRADER_JOE_ROUTER_ADDRESSES = {
+  43114: '0x60aE616a2155Ee3d9A68541Ba4544862310933d4', // Avalanche mainnet
+  43113: '0xd7f655E3376cE2D7A2b08fF01Eb3B1023191A901', // Fuji testnet
+};
+
+// USDC, used alongside WAVAX as an intermediate hop for multi-hop routes
+export const USDC_ADDRESSES = {
+  43114: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', // Avalanche mainnet
+  43113: '0x5425890298aed601595a70AB815c96711a31Bc65', // Fuji testnet
+};
+
 // Token addresses for AVAX/USDT pair by network
 export const TOKEN_ADDRESSES = {
   43114: { 
@@ -96,7 +109,8 @@ export const isWAVAX = (address: string, chainId: number): boolean => {
  */
 export const toUnits = (amount: string | number, decimals: number): string => {
   const amountNum = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return (amountNum * Math.pow(10, decimals)).toString();
+  // Integer string, so large amounts do not come out in exponent notation
+  return BigInt(Math.floor(amountNum * Math.pow(10, decimals))).toString();
 };
 
 /**
@@ -115,6 +129,56 @@ export const getPangolinRouterAddress = (chainId: number): string => {
          PANGOLIN_ROUTER_ADDRESSES[43113]; // Default to Fuji
 };
 
+/**
+ * DEX routers searched for swap routes on a given chain
+ */
+export const getDexVenues = (chainId: number): DexVenue[] => {
+  const venues: DexVenue[] = [{ name: 'pangolin', router: getPangolinRouterAddress(chainId) }];
+  const joeRouter = TRADER_JOE_ROUTER_ADDRESSES[chainId as keyof typeof TRADER_JOE_ROUTER_ADDRESSES];
+  if (joeRouter) {
+    venues.push({ name: 'traderjoe', router: joeRouter });
+  }
+  return venues;
+};
+
+/**
+ * Find the best route for a swap across Pangolin and Trader Joe, including
+ * multi-hop paths through WAVAX and USDC
+ * @param amountIn - Amount in token units
+ * @param venues - Routers to search, defaults to every known DEX on the chain
+ */
+export const findSwapRoute = async (
+  web3: Web3,
+  fromToken: string,
+  toToken: string,
+  amountIn: string,
+  venues?: DexVenue[]
+): Promise<SwapRoute | null> => {
+  const chainId = Number(await web3.eth.getChainId());
+  const wavax = resolveTokenAddress('AVAX', chainId);
+  const usdc = USDC_ADDRESSES[chainId as keyof typeof USDC_ADDRESSES];
+
+  return findBestRoute({
+    tokenIn: fromToken,
+    tokenOut: toToken,
+    amountIn: BigInt(amountIn),
+    venues: venues ?? getDexVenues(chainId),
+    connectors: usdc ? [wavax, usdc] : [wavax],
+    wrappedNative: wavax,
+    gasPrice: BigInt(await web3.eth.getGasPrice()),
+    getAmountsOut: async (routerAddress, amount, path) => {
+      try {
+        const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
+        const amounts = await router.methods.getAmountsOut(amount.toString(), path).call();
+        return Array.isArray(amounts) ? amounts.map(value => BigInt(String(value))) : null;
+      } catch {
+        // Routers revert when a hop has no pool
+        return null;
+      }
+    }
+  });
+};
+
 /**
  * Initialize Web3 connection
  */
@@ -427,38 +491,38 @@ export const getPortfolioValueInUSDT = async (
 };
 
 /**
- * Get trade quote (expected output amount)
+ * Get trade quote (expected output amount) along the best available route
  */
 export const getTradeQuote = async (
   web3: Web3,
   fromToken: string,
   toToken: string,
   amount: string
-): Promise<{ expectedOutput: string; priceImpact: number } | null> => {
+): Promise<{ expectedOutput: string; priceImpact: number; route: SwapRoute } | null> => {
   try {
-    const chainId = Number(await web3.eth.getChainId());
-    const routerAddress = getPangolinRouterAddress(chainId);
-    const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
-    
     // Get token decimals
     const fromDecimals = await getTokenDecimals(web3, fromToken);
     const toDecimals = await getTokenDecimals(web3, toToken);
     
     const amountIn = toUnits(amount, fromDecimals);
-    const path = [fromToken, toToken];
-    const deadline = Math.floor(Date.now() / 1000) + 60 * 20;
-    
-    // Get amounts out
-    const amounts = await router.methods.getAmountsOut(amountIn, path).call();
-    if (!amounts || !Array.isArray(amounts) || amounts.length < 2) {
-      throw new Error('Failed to get trade amounts');
+    const route = await findSwapRoute(web3, fromToken, toToken, amountIn);
+    if (!route) {
+      throw new Error('No swap route found');
     }
-    const expectedOutput = fromUnits(amounts[1], toDecimals);
-    
-    // Calculate price impact (simplified)
-    const priceImpact = 0.1; // Placeholder - would need price oracle for accurate calculation
-    
-    return { expectedOutput, priceImpact };
+    const expectedOutput = fromUnits(route.amountOut.toString(), toDecimals);
+
+    // Price impact against the marginal rate of the same route, from a quote 1/1000th the size
+    const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, route.router);
+    const referenceIn = BigInt(amountIn) / 1000n > 0n ? BigInt(amountIn) / 1000n : 1n;
+    const referenceAmounts = await router.methods.getAmountsOut(referenceIn.toString(), route.path).call();
+    if (!Array.isArray(referenceAmounts)) {
+      throw new Error('Failed to get reference amounts');
+    }
+    const marginalRate = Number(referenceAmounts[referenceAmounts.length - 1]) / Number(referenceIn);
+    const executionRate = Number(route.amountOut) / Number(amountIn);
+    const priceImpact = marginalRate > 0 ? Math.max(0, (1 - executionRate / marginalRate) * 100) : 0;
+
+    return { expectedOutput, priceImpact, route };
   } catch (error) {
     console.error('Failed to get trade quote:', error);
     return null;
@@ -586,27 +650,25 @@ export const executeTrade = async (
     if (!account) throw new Error('No wallet connected');
 
     const chainId = Number(await web3.eth.getChainId());
-    const routerAddress = getPangolinRouterAddress(chainId);
-    const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
     const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes
 
     // Get token decimals
     const fromDecimals = await getTokenDecimals(web3, fromToken);
-    const toDecimals = await getTokenDecimals(web3, toToken);
     
     // Convert amount to token units
     const amountIn = toUnits(amount, fromDecimals);
     
-    // Get expected output amount
-    const path = [fromToken, toToken];
-    const amounts = await router.methods.getAmountsOut(amountIn, path).call();
-    if (!amounts || !Array.isArray(amounts) || amounts.length < 2) {
-      throw new Error('Failed to get trade amounts');
+    // Pick the best route across Pangolin and Trader Joe
+    const route = await findSwapRoute(web3, fromToken, toToken, amountIn);
+    if (!route) {
+      throw new Error('No swap route found');
     }
-    const expectedOut = amounts[amounts.length - 1];
+    const routerAddress = route.router;
+    const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
+    const path = route.path;
     
     // Calculate minimum amount out with slippage
-    const amountOutMin = BigInt(expectedOut) * BigInt(10000 - Math.floor(slippage * 100)) / BigInt(10000);
+    const amountOutMin = route.amountOut * BigInt(10000 - Math.floor(slippage * 100)) / BigInt(10000);
 
     const WAVAX = resolveTokenAddress('AVAX', chainId);
     
@@ -620,7 +682,7 @@ export const executeTrade = async (
     }
     
     let tx;
-    const gasLimit = gasOverride ? Math.floor(gasOverride * 1.2) : 300000;
+    const gasLimit = gasOverride ? Math.floor(gasOverride * 1.2) : Math.max(300000, Math.floor(route.gasEstimate * 1.5));
     
     if (fromToken === WAVAX) {
       // Swapping AVAX for tokens
@@ -679,12 +741,12 @@ export const getPriceOracleContract = (web3: Web3) => {
 };
 
 /**
- * Get current AI prediction status
+ * Get current AI prediction status for a token pair
  */
-export const getAIPredictionStatus = async (web3: Web3) => {
+export const getAIPredictionStatus = async (web3: Web3, tokenA: string, tokenB: string) => {
   try {
     const contract = getAIPoweredTraderContract(web3);
-    const status = await contract.methods.getAIPredictionStatus().call();
+    const status = await contract.methods.getAIPredictionStatus(tokenA, tokenB).call();
     return {
       isValid: status[0],
       confidence: parseInt(status[1])
@@ -696,12 +758,12 @@ export const getAIPredictionStatus = async (web3: Web3) => {
 };
 
 /**
- * Get current AI prediction data
+ * Get current AI prediction data for a token pair, priced as tokenA in tokenB
  */
-export const getAIPrediction = async (web3: Web3) => {
+export const getAIPrediction = async (web3: Web3, tokenA: string, tokenB: string) => {
   try {
     const contract = getPriceOracleContract(web3);
-    const prediction = await contract.methods.getPrediction().call();
+    const prediction = await contract.methods.getPrediction(tokenA, tokenB).call();
     return {
       price: web3.utils.fromWei(prediction[0], 'ether'),
       confidence: parseInt(prediction[1]),
@@ -715,6 +777,25 @@ export const getAIPrediction = async (web3: Web3) => {
   }
 };
 
+/**
+ * Get the oracle's rolling accuracy for a token pair, over its most recent
+ * settled predictions
+ */
+export const getPredictionAccuracy = async (web3: Web3, tokenA: string, tokenB: string) => {
+  try {
+    const contract = getPriceOracleContract(web3);
+    const accuracy = await contract.methods.getAccuracy(tokenA, tokenB).call();
+    return {
+      settled: parseInt(accuracy[0]),
+      hitRate: parseInt(accuracy[1]) / 100, // Basis points to percent
+      meanAbsoluteError: parseInt(accuracy[2]) / 100 // Basis points to percent
+    };
+  } catch (error) {
+    console.error('Failed to get prediction accuracy:', error);
+    return null;
+  }
+};
+
 /**
  * Execute AI-validated trade through smart contract
  */
@@ -740,21 +821,36 @@ export const executeAITrade = async (
     // Convert amount to token units
     const amountIn = toUnits(amount, fromDecimals);
     
-    // Get expected output amount from router
     const chainId = Number(await web3.eth.getChainId());
-    const routerAddress = getPangolinRouterAddress(chainId);
-    const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
-    const path = [fromToken, toToken];
-    const amounts = await router.methods.getAmountsOut(amountIn, path).call();
-    if (!amounts || !Array.isArray(amounts) || amounts.length < 2) {
-      throw new Error('Failed to get trade amounts');
+    const WAVAX = resolveTokenAddress('AVAX', chainId);
+
+    // AVAX legs swap directly on Pangolin; token-to-token trades may take any
+    // route through a router the contract has approved
+    let route: SwapRoute | null = null;
+    let expectedOut: bigint;
+    if (fromToken === WAVAX || toToken === WAVAX) {
+      const routerAddress = getPangolinRouterAddress(chainId);
+      const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, routerAddress);
+      const amounts = await router.methods.getAmountsOut(amountIn, [fromToken, toToken]).call();
+      if (!amounts || !Array.isArray(amounts) || amounts.length < 2) {
+        throw new Error('Failed to get trade amounts');
+      }
+      expectedOut = BigInt(amounts[amounts.length - 1]);
+    } else {
+      const approvals = await Promise.all(
+        getDexVenues(chainId).map(async venue =>
+          (await contract.methods.approvedRouters(venue.router).call()) ? venue : null
+        )
+      );
+      route = await findSwapRoute(web3, fromToken, toToken, amountIn, approvals.filter((venue): venue is DexVenue => venue !== null));
+      if (!route) {
+        throw new Error('No swap route found');
+      }
+      expectedOut = route.amountOut;
     }
-    const expectedOut = amounts[amounts.length - 1];
     
     // Calculate minimum amount out with slippage
-    const amountOutMin = BigInt(expectedOut) * BigInt(10000 - Math.floor(slippage * 100)) / BigInt(10000);
-
-    const WAVAX = resolveTokenAddress('AVAX', chainId);
+    const amountOutMin = expectedOut * BigInt(10000 - Math.floor(slippage * 100)) / BigInt(10000);
     
     // Check and approve token if needed
     if (fromToken !== WAVAX) {
@@ -788,7 +884,7 @@ export const executeAITrade = async (
     } else {
       // Swapping tokens for tokens
       tx = await contract.methods
-        .tradeExactTokensForTokens(fromToken, toToken, amountIn, amountOutMin.toString(), deadline)
+        .tradeExactTokensForTokens(route!.router, route!.path, amountIn, amountOutMin.toString(), deadline)
         .send({
           from: account,
           gas: gasLimit.toString(),
@@ -802,6 +898,115 @@ export const executeAITrade = async (
   }
 };
 
+const RELAY_API_URL = 'http://localhost:5001/api/blockchain/relay';
+
+const TRADE_INTENT_TYPES = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' }
+  ],
+  TradeIntent: [
+    { name: 'user', type: 'address' },
+    { name: 'tokenIn', type: 'address' },
+    { name: 'tokenOut', type: 'address' },
+    { name: 'amountIn', type: 'uint256' },
+    { name: 'amountOutMin', type: 'uint256' },
+    { name: 'maxRelayerFee', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+/**
+ * Sign an AI-validated trade as an EIP-712 intent and hand it to the backend
+ * relayer, which pays the gas and takes its fee from the output. The user
+ * only needs the token they sell, already approved for the AI contract.
+ * Selling AVAX is not supported, as a user with AVAX can pay gas.
+ */
+export const executeGaslessAITrade = async (
+  web3: Web3,
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  slippage: number = 0.5
+): Promise<string | null> => {
+  const account = await getCurrentAccount(web3);
+  if (!account) throw new Error('No wallet connected');
+
+  const chainId = Number(await web3.eth.getChainId());
+  const WAVAX = resolveTokenAddress('AVAX', chainId);
+  if (fromToken === WAVAX) {
+    throw new Error('Gasless trades must sell a token, not AVAX');
+  }
+
+  const contract = getAIPoweredTraderContract(web3);
+  const fromDecimals = await getTokenDecimals(web3, fromToken);
+  const amountIn = toUnits(amount, fromDecimals);
+
+  // Approving the contract costs gas, so it has to be in place already
+  const allowance = await checkTokenAllowance(web3, fromToken, account, contract.options.address);
+  if (allowance < parseFloat(amount)) {
+    throw new Error('Approve the token for the AI contract before trading without gas');
+  }
+
+  // Intents pay out native AVAX when the user is buying AVAX
+  const tokenOut = toToken === WAVAX ? '0x0000000000000000000000000000000000000000' : toToken;
+  const quoteResponse = await fetch(`${RELAY_API_URL}/quote?user=${account}&tokenOut=${tokenOut}`);
+  const quote = await quoteResponse.json();
+  if (!quoteResponse.ok) {
+    throw new Error(quote.message || 'Failed to get a relayer quote');
+  }
+
+  const router = new web3.eth.Contract(PANGOLIN_ROUTER_ABI, getPangolinRouterAddress(chainId));
+  const amounts = await router.methods.getAmountsOut(amountIn, [fromToken, toToken]).call();
+  if (!amounts || !Array.isArray(amounts) || amounts.length < 2) {
+    throw new Error('Failed to get trade amounts');
+  }
+  const expectedOut = BigInt(amounts[amounts.length - 1]);
+  const relayerFee = BigInt(quote.relayerFee);
+
+  // The fee comes out of the output, so the user's minimum is net of it
+  const grossMin = expectedOut * BigInt(10000 - Math.floor(slippage * 100)) / BigInt(10000);
+  if (grossMin <= relayerFee) {
+    throw new Error('Trade is too small to cover the relayer fee');
+  }
+
+  const intent = {
+    user: account,
+    tokenIn: fromToken,
+    tokenOut,
+    amountIn,
+    amountOutMin: (grossMin - relayerFee).toString(),
+    maxRelayerFee: relayerFee.toString(),
+    nonce: quote.nonce,
+    deadline: Math.floor(Date.now() / 1000) + 60 * 10 // 10 minutes, within the contract's deadline buffer
+  };
+
+  const signature: string = await window.ethereum!.request({
+    method: 'eth_signTypedData_v4',
+    params: [account, JSON.stringify({
+      types: TRADE_INTENT_TYPES,
+      primaryType: 'TradeIntent',
+      domain: { name: 'AIPoweredTrader', version: '1', chainId, verifyingContract: contract.options.address },
+      message: intent
+    })]
+  });
+
+  const relayResponse = await fetch(RELAY_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ intent, signature })
+  });
+  const relayed = await relayResponse.json();
+  if (!relayResponse.ok) {
+    throw new Error(relayed.message || 'Relayer rejected the trade');
+  }
+
+  return relayed.txHash;
+};
+
 // Type definitions for MetaMask
 declare global {
   interface Window {
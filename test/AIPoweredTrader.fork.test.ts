@@ -39,7 +39,10 @@ describe("AIPoweredTrader - Mainnet Fork Tests", function () {
     const price = ethers.parseEther("25.00");
     const confidence = 80;
     const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes from now
-    await priceOracle.setPrediction(price, confidence, expiry);
+    await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+
+    // These tests exercise Pangolin integration, not the forked AVAX price
+    await aiPoweredTrader.setDirectionOverride(WAVAX, USDT, true);
   });
 
   describe("Deployment on Fork", function () {
@@ -50,7 +53,7 @@ describe("AIPoweredTrader - Mainnet Fork Tests", function () {
     });
 
     it("Should have valid AI prediction", async function () {
-      const status = await aiPoweredTrader.getAIPredictionStatus();
+      const status = await aiPoweredTrader.getAIPredictionStatus(WAVAX, USDT);
       expect(status[0]).to.be.true; // isValid
       expect(status[1]).to.equal(80); // confidence
     });
@@ -108,8 +111,8 @@ describe("AIPoweredTrader - Mainnet Fork Tests", function () {
       // This will fail due to insufficient token balance, but we can verify the function structure
       await expect(
         aiPoweredTrader.connect(user).tradeExactTokensForTokens(
-          USDT,
-          WAVAX,
+          PANGOLIN_ROUTER,
+          [USDT, WAVAX],
           amountIn,
           amountOutMin,
           deadline
@@ -121,7 +124,7 @@ describe("AIPoweredTrader - Mainnet Fork Tests", function () {
   describe("AI Validation on Fork", function () {
     it("Should reject trades with invalid AI prediction", async function () {
       // Invalidate the prediction
-      await priceOracle.invalidatePrediction();
+      await priceOracle.invalidatePrediction(WAVAX, USDT);
 
       const amountOutMin = ethers.parseEther("0.001");
       const deadline = Math.floor(Date.now() / 1000) + 600; // 10 minutes
@@ -142,7 +145,7 @@ describe("AIPoweredTrader - Mainnet Fork Tests", function () {
       const price = ethers.parseEther("25.00");
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) - 1; // Already expired
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
 
       const amountOutMin = ethers.parseEther("0.001");
       const deadline = Math.floor(Date.now() / 1000) + 600; // 10 minutes
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import pkg from 'hardhat';
 const { ethers } = pkg;
+import type { Contract } from "ethers";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs.js";
 
 describe("AIPoweredTrader", function () {
   let aiPoweredTrader: any;
@@ -13,6 +15,8 @@ describe("AIPoweredTrader", function () {
 
   // Mock WAVAX address
   const MOCK_WAVAX_ADDRESS = "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7";
+  // Token traded against AVAX; predictions are set for the AVAX/token pair
+  const MOCK_TOKEN_ADDRESS = "0x1234567890123456789012345678901234567890";
 
   beforeEach(async function () {
     [owner, user, user2] = await ethers.getSigners();
@@ -88,7 +92,7 @@ describe("AIPoweredTrader", function () {
 
   describe("getAIPredictionStatus", function () {
     it("Should return false for empty prediction", async function () {
-      const status = await aiPoweredTrader.getAIPredictionStatus();
+      const status = await aiPoweredTrader.getAIPredictionStatus(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
       expect(status[0]).to.be.false; // isValid
       expect(status[1]).to.equal(0); // confidence
     });
@@ -98,9 +102,9 @@ describe("AIPoweredTrader", function () {
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, price, confidence, expiry);
       
-      const status = await aiPoweredTrader.getAIPredictionStatus();
+      const status = await aiPoweredTrader.getAIPredictionStatus(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
       expect(status[0]).to.be.true; // isValid
       expect(status[1]).to.equal(confidence);
     });
@@ -110,9 +114,9 @@ describe("AIPoweredTrader", function () {
       const confidence = 60; // Below threshold
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, price, confidence, expiry);
       
-      const status = await aiPoweredTrader.getAIPredictionStatus();
+      const status = await aiPoweredTrader.getAIPredictionStatus(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
       expect(status[0]).to.be.false; // isValid
       expect(status[1]).to.equal(confidence);
     });
@@ -155,13 +159,13 @@ describe("AIPoweredTrader", function () {
       const price = ethers.parseEther("25.00");
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, price, confidence, expiry);
     });
 
     describe("tradeExactAVAXForTokens", function () {
       it("Should revert when AI validation fails", async function () {
         // Invalidate the prediction
-        await priceOracle.invalidatePrediction();
+        await priceOracle.invalidatePrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
 
         const tokenOut = "0x1234567890123456789012345678901234567890";
         const amountOutMin = ethers.parseEther("0.1");
@@ -257,7 +261,7 @@ describe("AIPoweredTrader", function () {
     describe("tradeExactTokensForAVAX", function () {
       it("Should revert when AI validation fails", async function () {
         // Invalidate the prediction
-        await priceOracle.invalidatePrediction();
+        await priceOracle.invalidatePrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
 
         const tokenIn = "0x1234567890123456789012345678901234567890";
         const amountIn = ethers.parseEther("1.0");
@@ -307,8 +311,7 @@ describe("AIPoweredTrader", function () {
 
     describe("tradeExactTokensForTokens", function () {
       it("Should revert when AI validation fails", async function () {
-        // Invalidate the prediction
-        await priceOracle.invalidatePrediction();
+        // Only AVAX/token has a prediction, so this pair is not covered
 
         const tokenIn = "0x1234567890123456789012345678901234567890";
         const tokenOut = "0x0987654321098765432109876543210987654321";
@@ -318,8 +321,8 @@ describe("AIPoweredTrader", function () {
 
         await expect(
           aiPoweredTrader.connect(user).tradeExactTokensForTokens(
-            tokenIn,
-            tokenOut,
+            await mockRouter.getAddress(),
+            [tokenIn, tokenOut],
             amountIn,
             amountOutMin,
             deadline
@@ -335,14 +338,501 @@ describe("AIPoweredTrader", function () {
 
         await expect(
           aiPoweredTrader.connect(user).tradeExactTokensForTokens(
-            tokenIn,
-            tokenIn, // Same token
+            await mockRouter.getAddress(),
+            [tokenIn, tokenIn], // Same token
             amountIn,
             amountOutMin,
             deadline
           )
         ).to.be.revertedWith("Tokens must be different");
       });
+
+      it("Should revert with an unapproved router", async function () {
+        const tokenIn = "0x1234567890123456789012345678901234567890";
+        const tokenOut = "0x0987654321098765432109876543210987654321";
+        const deadline = Math.floor(Date.now() / 1000) + 600; // 10 minutes
+
+        await expect(
+          aiPoweredTrader.connect(user).tradeExactTokensForTokens(
+            user2.address,
+            [tokenIn, tokenOut],
+            ethers.parseEther("1.0"),
+            0,
+            deadline
+          )
+        ).to.be.revertedWith("Router not approved");
+      });
+
+      it("Should revert with a path that is too short or too long", async function () {
+        const tokenIn = "0x1234567890123456789012345678901234567890";
+        const tokenOut = "0x0987654321098765432109876543210987654321";
+        const hop = "0x1111111111111111111111111111111111111111";
+        const deadline = Math.floor(Date.now() / 1000) + 600; // 10 minutes
+        const routerAddress = await mockRouter.getAddress();
+
+        await expect(
+          aiPoweredTrader.connect(user).tradeExactTokensForTokens(routerAddress, [tokenIn], ethers.parseEther("1.0"), 0, deadline)
+        ).to.be.revertedWith("Invalid path length");
+
+        await expect(
+          aiPoweredTrader.connect(user).tradeExactTokensForTokens(
+            routerAddress,
+            [tokenIn, hop, hop, hop, tokenOut],
+            ethers.parseEther("1.0"),
+            0,
+            deadline
+          )
+        ).to.be.revertedWith("Invalid path length");
+      });
+    });
+  });
+
+  describe("Router Approval", function () {
+    it("Should approve the Pangolin router on deployment", async function () {
+      expect(await aiPoweredTrader.approvedRouters(await mockRouter.getAddress())).to.equal(true);
+    });
+
+    it("Should allow owner to approve and revoke routers", async function () {
+      await expect(aiPoweredTrader.setRouterApproval(user2.address, true))
+        .to.emit(aiPoweredTrader, "RouterApprovalUpdated")
+        .withArgs(user2.address, true);
+      expect(await aiPoweredTrader.approvedRouters(user2.address)).to.equal(true);
+
+      await aiPoweredTrader.setRouterApproval(user2.address, false);
+      expect(await aiPoweredTrader.approvedRouters(user2.address)).to.equal(false);
+    });
+
+    it("Should not allow non-owner to approve routers", async function () {
+      await expect(
+        aiPoweredTrader.connect(user).setRouterApproval(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Direction Validation", function () {
+    // Other suites move chain time forward, so work from the latest block
+    const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+    const deadline = async () => (await latestTime()) + 600; // 10 minutes
+
+    const setPrediction = async (price: string) => {
+      const expiry = (await latestTime()) + 1800; // 30 minutes
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther(price), 80, expiry);
+    };
+
+    const buyTokens = async () =>
+      aiPoweredTrader.connect(user).tradeExactAVAXForTokens(
+        MOCK_TOKEN_ADDRESS,
+        ethers.parseEther("0.1"),
+        await deadline(),
+        { value: ethers.parseEther("1.0") }
+      );
+
+    beforeEach(async function () {
+      // ~29.9 tokens per AVAX for a 1 AVAX trade
+      await mockRouter.setReserves(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("1000"), ethers.parseEther("30000"));
+    });
+
+    it("Should quote the spot price from the router", async function () {
+      const [spotPrice, available] = await aiPoweredTrader.getSpotPrice(
+        await mockRouter.getAddress(),
+        [MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS],
+        ethers.parseEther("1.0")
+      );
+
+      expect(available).to.equal(true);
+      expect(spotPrice).to.be.closeTo(ethers.parseEther("29.88"), ethers.parseEther("0.01"));
+    });
+
+    it("Should revert when buying against a bearish forecast", async function () {
+      await setPrediction("40.00"); // AVAX expected to rise, so selling it now is against the AI
+
+      await expect(buyTokens())
+        .to.be.revertedWithCustomError(aiPoweredTrader, "AIDirectionMismatch")
+        .withArgs(ethers.parseEther("40.00"), anyValue);
+    });
+
+    it("Should revert when selling tokens the AI expects to rise", async function () {
+      await setPrediction("25.00"); // Tokens expected to gain against AVAX
+
+      await expect(
+        aiPoweredTrader.connect(user).tradeExactTokensForAVAX(
+          MOCK_TOKEN_ADDRESS,
+          ethers.parseEther("30"),
+          0,
+          await deadline()
+        )
+      ).to.be.revertedWithCustomError(aiPoweredTrader, "AIDirectionMismatch");
+    });
+
+    it("Should execute trades in line with the forecast", async function () {
+      await setPrediction("25.00");
+
+      await expect(buyTokens()).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should fall back to the reference price when the router has no pool", async function () {
+      await mockRouter.setReserves(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, 0, 0);
+      await setPrediction("25.00");
+
+      await expect(buyTokens())
+        .to.be.revertedWithCustomError(aiPoweredTrader, "SpotPriceUnavailable")
+        .withArgs(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
+
+      // Stored the other way round: 0.05 AVAX per token is 20 tokens per AVAX
+      await expect(aiPoweredTrader.setReferencePrice(MOCK_TOKEN_ADDRESS, MOCK_WAVAX_ADDRESS, ethers.parseEther("0.05")))
+        .to.emit(aiPoweredTrader, "ReferencePriceUpdated")
+        .withArgs(await priceOracle.pairKey(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS), MOCK_TOKEN_ADDRESS, ethers.parseEther("0.05"));
+
+      await expect(buyTokens())
+        .to.be.revertedWithCustomError(aiPoweredTrader, "AIDirectionMismatch")
+        .withArgs(ethers.parseEther("25.00"), ethers.parseEther("20.00"));
+
+      await aiPoweredTrader.setReferencePrice(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("30.00"));
+      await expect(buyTokens()).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should let counter-trend trades through on an owner override", async function () {
+      await setPrediction("40.00");
+
+      await expect(aiPoweredTrader.setDirectionOverride(MOCK_TOKEN_ADDRESS, MOCK_WAVAX_ADDRESS, true))
+        .to.emit(aiPoweredTrader, "DirectionOverrideUpdated")
+        .withArgs(await priceOracle.pairKey(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS), true);
+
+      await expect(buyTokens())
+        .to.emit(aiPoweredTrader, "TradeRejected")
+        .withArgs(user.address, MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("40.00"), anyValue)
+        .and.to.emit(aiPoweredTrader, "TradeExecuted");
+
+      await aiPoweredTrader.setDirectionOverride(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, false);
+      await expect(buyTokens()).to.be.revertedWithCustomError(aiPoweredTrader, "AIDirectionMismatch");
+    });
+
+    it("Should only allow the owner to set reference prices and overrides", async function () {
+      await expect(
+        aiPoweredTrader.connect(user).setReferencePrice(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("30.00"))
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+
+      await expect(
+        aiPoweredTrader.connect(user).setDirectionOverride(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Accuracy Requirement", function () {
+    const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+    const publish = async (expiresIn: number) =>
+      priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("25.00"), 80, (await latestTime()) + expiresIn);
+
+    const buyTokens = async () =>
+      aiPoweredTrader.connect(user).tradeExactAVAXForTokens(
+        MOCK_TOKEN_ADDRESS,
+        ethers.parseEther("0.1"),
+        (await latestTime()) + 600,
+        { value: ethers.parseEther("1.0") }
+      );
+
+    beforeEach(async function () {
+      await mockRouter.setReserves(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("1000"), ethers.parseEther("30000"));
+      await expect(aiPoweredTrader.setAccuracyRequirement(2, 5000))
+        .to.emit(aiPoweredTrader, "AccuracyRequirementUpdated")
+        .withArgs(2, 5000);
+    });
+
+    it("Should reject trades until the oracle has a track record", async function () {
+      await publish(1800);
+
+      await expect(buyTokens())
+        .to.be.revertedWithCustomError(aiPoweredTrader, "AIAccuracyTooLow")
+        .withArgs(0, 0);
+    });
+
+    it("Should allow trades once the recent hit rate is high enough", async function () {
+      await publish(60);
+      await publish(60);
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await priceOracle.settlePrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, 0, ethers.parseEther("25.00"));
+      await priceOracle.settlePrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, 1, ethers.parseEther("30.00"));
+
+      await publish(1800);
+      await expect(buyTokens()).to.emit(aiPoweredTrader, "TradeExecuted");
+
+      await aiPoweredTrader.setAccuracyRequirement(2, 7500);
+      await expect(buyTokens())
+        .to.be.revertedWithCustomError(aiPoweredTrader, "AIAccuracyTooLow")
+        .withArgs(2, 5000);
+    });
+
+    it("Should skip the check when disabled", async function () {
+      await aiPoweredTrader.setAccuracyRequirement(0, 0);
+      await publish(1800);
+
+      await expect(buyTokens()).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should validate the requirement", async function () {
+      await expect(aiPoweredTrader.setAccuracyRequirement(21, 5000)).to.be.revertedWith("Exceeds accuracy window");
+      await expect(aiPoweredTrader.setAccuracyRequirement(2, 10001)).to.be.revertedWith("Invalid hit rate");
+      await expect(
+        aiPoweredTrader.connect(user).setAccuracyRequirement(2, 5000)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Risk Limits", function () {
+    const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+    const buyTokens = async (amount: string, trader: SignerWithAddress = user) =>
+      aiPoweredTrader.connect(trader).tradeExactAVAXForTokens(
+        MOCK_TOKEN_ADDRESS,
+        0,
+        (await latestTime()) + 600,
+        { value: ethers.parseEther(amount) }
+      );
+
+    beforeEach(async function () {
+      await mockRouter.setReserves(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("1000"), ethers.parseEther("30000"));
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("25.00"), 80, (await latestTime()) + 3600);
+    });
+
+    it("Should only trade allowlisted tokens once the allowlist is enabled", async function () {
+      await expect(aiPoweredTrader.setAllowlistEnabled(true))
+        .to.emit(aiPoweredTrader, "AllowlistEnabledUpdated")
+        .withArgs(true);
+
+      await expect(buyTokens("1.0"))
+        .to.be.revertedWithCustomError(aiPoweredTrader, "TokenNotAllowed")
+        .withArgs(MOCK_WAVAX_ADDRESS);
+
+      await expect(aiPoweredTrader.setTokenAllowed(MOCK_WAVAX_ADDRESS, true))
+        .to.emit(aiPoweredTrader, "TokenAllowlistUpdated")
+        .withArgs(MOCK_WAVAX_ADDRESS, true);
+      await expect(buyTokens("1.0"))
+        .to.be.revertedWithCustomError(aiPoweredTrader, "TokenNotAllowed")
+        .withArgs(MOCK_TOKEN_ADDRESS);
+
+      await aiPoweredTrader.setTokenAllowed(MOCK_TOKEN_ADDRESS, true);
+      await expect(buyTokens("1.0")).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should cap the amount sold in a single trade", async function () {
+      await expect(aiPoweredTrader.setTradeLimits(MOCK_WAVAX_ADDRESS, ethers.parseEther("1.0"), 0))
+        .to.emit(aiPoweredTrader, "TradeLimitsUpdated")
+        .withArgs(MOCK_WAVAX_ADDRESS, ethers.parseEther("1.0"), 0);
+
+      await expect(buyTokens("2.0"))
+        .to.be.revertedWithCustomError(aiPoweredTrader, "TradeAmountTooLarge")
+        .withArgs(MOCK_WAVAX_ADDRESS, ethers.parseEther("2.0"), ethers.parseEther("1.0"));
+      await expect(buyTokens("1.0")).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should cap each user's volume over a rolling 24 hours", async function () {
+      await aiPoweredTrader.setTradeLimits(MOCK_WAVAX_ADDRESS, 0, ethers.parseEther("2.5"));
+
+      await buyTokens("1.0");
+      await buyTokens("1.0");
+      expect(await aiPoweredTrader.rollingVolume(user.address, MOCK_WAVAX_ADDRESS)).to.equal(ethers.parseEther("2.0"));
+
+      await expect(buyTokens("1.0"))
+        .to.be.revertedWithCustomError(aiPoweredTrader, "DailyVolumeExceeded")
+        .withArgs(MOCK_WAVAX_ADDRESS, ethers.parseEther("3.0"), ethers.parseEther("2.5"));
+
+      // Volume is tracked per user
+      await expect(buyTokens("1.0", user2)).to.emit(aiPoweredTrader, "TradeExecuted");
+
+      // Other suites price predictions off the wall clock, so undo the time jump afterwards
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await ethers.provider.send("evm_increaseTime", [25 * 3600]);
+      await ethers.provider.send("evm_mine", []);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("25.00"), 80, (await latestTime()) + 1800);
+
+      expect(await aiPoweredTrader.rollingVolume(user.address, MOCK_WAVAX_ADDRESS)).to.equal(0);
+      await expect(buyTokens("1.0")).to.emit(aiPoweredTrader, "TradeExecuted");
+      await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Should reject trades with too much price impact", async function () {
+      await expect(aiPoweredTrader.setMaxPriceImpact(100))
+        .to.emit(aiPoweredTrader, "MaxPriceImpactUpdated")
+        .withArgs(100);
+
+      const path = [MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS];
+      const [impactBps, available] = await aiPoweredTrader.getPriceImpact(await mockRouter.getAddress(), path, ethers.parseEther("50"));
+      expect(available).to.equal(true);
+      expect(impactBps).to.be.closeTo(476n, 2n); // 50 AVAX into a 1000 AVAX pool
+
+      await expect(buyTokens("50.0"))
+        .to.be.revertedWithCustomError(aiPoweredTrader, "PriceImpactTooHigh")
+        .withArgs(impactBps, 100);
+      await expect(buyTokens("1.0")).to.emit(aiPoweredTrader, "TradeExecuted");
+    });
+
+    it("Should validate the limits", async function () {
+      await expect(aiPoweredTrader.setMaxPriceImpact(10001)).to.be.revertedWith("Invalid price impact");
+      await expect(aiPoweredTrader.setTokenAllowed(ethers.ZeroAddress, true)).to.be.revertedWith("Invalid token address");
+      await expect(aiPoweredTrader.setTradeLimits(ethers.ZeroAddress, 1, 1)).to.be.revertedWith("Invalid token address");
+      await expect(
+        aiPoweredTrader.connect(user).setAllowlistEnabled(true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(
+        aiPoweredTrader.connect(user).setTradeLimits(MOCK_WAVAX_ADDRESS, 1, 1)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Trade Intents", function () {
+    let trader: Contract;
+    let router: Contract;
+    let usdt: Contract;
+    let wavax: Contract;
+    let relayer: SignerWithAddress;
+
+    const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+    const intentTypes = {
+      TradeIntent: [
+        { name: "user", type: "address" },
+        { name: "tokenIn", type: "address" },
+        { name: "tokenOut", type: "address" },
+        { name: "amountIn", type: "uint256" },
+        { name: "amountOutMin", type: "uint256" },
+        { name: "maxRelayerFee", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+
+    const buildIntent = async (overrides: Record<string, unknown> = {}) => ({
+      user: user.address,
+      tokenIn: await usdt.getAddress(),
+      tokenOut: ethers.ZeroAddress,
+      amountIn: ethers.parseEther("100"),
+      amountOutMin: ethers.parseEther("3.5"),
+      maxRelayerFee: ethers.parseEther("0.05"),
+      nonce: await trader.nonces(user.address),
+      deadline: (await latestTime()) + 600,
+      ...overrides
+    });
+
+    const sign = async (signer: SignerWithAddress, intent: Record<string, unknown>) => {
+      const domain = {
+        name: "AIPoweredTrader",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await trader.getAddress()
+      };
+      return signer.signTypedData(domain, intentTypes, intent);
+    };
+
+    beforeEach(async function () {
+      relayer = user2;
+
+      const TokenFactory = await ethers.getContractFactory("MockERC20");
+      usdt = await TokenFactory.deploy("Tether USD", "USDT");
+      wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+
+      // 25 USDT per AVAX, with the router holding AVAX and WAVAX to pay out
+      const MockRouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+      router = await MockRouterFactory.deploy(await wavax.getAddress());
+      await router.setLiquidAVAXSwaps(true);
+      await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), ethers.parseEther("1000"), ethers.parseEther("25000"));
+      await wavax.mint(await router.getAddress(), ethers.parseEther("100"));
+      await owner.sendTransaction({ to: await router.getAddress(), value: ethers.parseEther("100") });
+
+      const AIPoweredTraderFactory = await ethers.getContractFactory("AIPoweredTrader");
+      trader = await AIPoweredTraderFactory.deploy(await router.getAddress(), await priceOracle.getAddress());
+
+      // AVAX expected to rise, so selling USDT for it is in line with the AI
+      await priceOracle.setPrediction(await wavax.getAddress(), await usdt.getAddress(), ethers.parseEther("30.00"), 80, (await latestTime()) + 1800);
+
+      await usdt.mint(user.address, ethers.parseEther("1000"));
+      await usdt.connect(user).approve(await trader.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should execute a signed intent and pay the relayer from the output", async function () {
+      const intent = await buildIntent();
+      const signature = await sign(user, intent);
+      const fee = ethers.parseEther("0.01");
+      const expectedOut = (await router.getAmountsOut(intent.amountIn, [await usdt.getAddress(), await wavax.getAddress()]))[1];
+
+      const userBalance = await ethers.provider.getBalance(user.address);
+      const relayerBalance = await ethers.provider.getBalance(relayer.address);
+
+      const tx = trader.connect(relayer).executeTradeIntent(intent, signature, fee);
+      await expect(tx)
+        .to.emit(trader, "IntentExecuted")
+        .withArgs(user.address, relayer.address, 0, fee);
+      await expect(tx)
+        .to.emit(trader, "TradeExecuted")
+        .withArgs(user.address, await usdt.getAddress(), ethers.ZeroAddress, intent.amountIn, expectedOut - fee, 80, anyValue);
+
+      // The user paid no gas
+      expect(await ethers.provider.getBalance(user.address)).to.equal(userBalance + expectedOut - fee);
+      expect(await ethers.provider.getBalance(relayer.address)).to.be.closeTo(relayerBalance + fee, ethers.parseEther("0.001"));
+      expect(await usdt.balanceOf(user.address)).to.equal(ethers.parseEther("900"));
+      expect(await trader.nonces(user.address)).to.equal(1);
+    });
+
+    it("Should execute token-to-token intents", async function () {
+      const intent = await buildIntent({ tokenOut: await wavax.getAddress() });
+      const fee = ethers.parseEther("0.02");
+
+      await trader.connect(relayer).executeTradeIntent(intent, await sign(user, intent), fee);
+
+      expect(await wavax.balanceOf(relayer.address)).to.equal(fee);
+      expect(await wavax.balanceOf(user.address)).to.be.gt(intent.amountOutMin);
+    });
+
+    it("Should reject replayed, forged and overcharged intents", async function () {
+      const intent = await buildIntent();
+      const signature = await sign(user, intent);
+
+      await expect(
+        trader.connect(relayer).executeTradeIntent(intent, signature, ethers.parseEther("0.06"))
+      ).to.be.revertedWith("Relayer fee too high");
+
+      await expect(
+        trader.connect(relayer).executeTradeIntent(intent, await sign(relayer, intent), 0)
+      ).to.be.revertedWith("Invalid signature");
+
+      const tampered = { ...intent, amountOutMin: 0n };
+      await expect(
+        trader.connect(relayer).executeTradeIntent(tampered, signature, 0)
+      ).to.be.revertedWith("Invalid signature");
+
+      await trader.connect(relayer).executeTradeIntent(intent, signature, 0);
+      await expect(
+        trader.connect(relayer).executeTradeIntent(intent, signature, 0)
+      ).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should leave the user their minimum output after the fee", async function () {
+      const expectedOut = (await router.getAmountsOut(ethers.parseEther("100"), [await usdt.getAddress(), await wavax.getAddress()]))[1];
+      const intent = await buildIntent({ amountOutMin: expectedOut - ethers.parseEther("0.01") });
+
+      await expect(
+        trader.connect(relayer).executeTradeIntent(intent, await sign(user, intent), ethers.parseEther("0.02"))
+      ).to.be.revertedWith("Mock: insufficient output amount");
+    });
+
+    it("Should apply AI validation and risk limits to the signer", async function () {
+      await trader.setTradeLimits(await usdt.getAddress(), 0, ethers.parseEther("150"));
+
+      const first = await buildIntent();
+      await trader.connect(relayer).executeTradeIntent(first, await sign(user, first), 0);
+      expect(await trader.rollingVolume(user.address, await usdt.getAddress())).to.equal(ethers.parseEther("100"));
+      expect(await trader.rollingVolume(relayer.address, await usdt.getAddress())).to.equal(0);
+
+      const second = await buildIntent();
+      await expect(trader.connect(relayer).executeTradeIntent(second, await sign(user, second), 0))
+        .to.be.revertedWithCustomError(trader, "DailyVolumeExceeded");
+
+      await priceOracle.invalidatePrediction(await wavax.getAddress(), await usdt.getAddress());
+      await trader.setTradeLimits(await usdt.getAddress(), 0, 0);
+      await expect(trader.connect(relayer).executeTradeIntent(second, await sign(user, second), 0))
+        .to.be.revertedWithCustomError(trader, "AIPredictionInvalid");
     });
   });
 
@@ -372,7 +862,10 @@ describe("AIPoweredTrader", function () {
       const price = ethers.parseEther("25.00");
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, price, confidence, expiry);
+
+      // Spot is ~29.9 tokens per AVAX, so the forecast of 25 favours selling AVAX
+      await mockRouter.setReserves(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, ethers.parseEther("1000"), ethers.parseEther("30000"));
     });
 
     it("Should execute tradeExactAVAXForTokens successfully and emit TradeExecuted event", async function () {
@@ -401,6 +894,25 @@ describe("AIPoweredTrader", function () {
         );
     });
 
+    it("Should not let the AVAX/token prediction authorize another pair", async function () {
+      const otherToken = "0x0987654321098765432109876543210987654321";
+      const deadline = Math.floor(Date.now() / 1000) + 600; // 10 minutes
+
+      await expect(
+        aiPoweredTrader.connect(user).tradeExactAVAXForTokens(
+          otherToken,
+          ethers.parseEther("0.1"),
+          deadline,
+          { value: ethers.parseEther("1.0") }
+        )
+      )
+        .to.be.revertedWithCustomError(aiPoweredTrader, "AIPredictionInvalid")
+        .withArgs(0);
+
+      const status = await aiPoweredTrader.getAIPredictionStatus(MOCK_WAVAX_ADDRESS, otherToken);
+      expect(status[0]).to.equal(false); // isValid
+    });
+
     it("Should execute tradeExactTokensForAVAX successfully and emit TradeExecuted event", async function () {
       // This test requires real token contracts, so we'll skip it for now
       // In a real scenario, the user would need to approve and transfer tokens
@@ -420,12 +932,12 @@ describe("AIPoweredTrader", function () {
       const price = ethers.parseEther("25.00");
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS, price, confidence, expiry);
     });
 
     it("Should emit TradeRejected event when AI validation fails", async function () {
       // Invalidate the prediction
-      await priceOracle.invalidatePrediction();
+      await priceOracle.invalidatePrediction(MOCK_WAVAX_ADDRESS, MOCK_TOKEN_ADDRESS);
 
       const tokenOut = "0x1234567890123456789012345678901234567890";
       const amountOutMin = ethers.parseEther("0.1");
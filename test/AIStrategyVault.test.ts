@@ -0,0 +1,304 @@
+import { expect } from "chai";
+import pkg from 'hardhat';
+const { ethers } = pkg;
+import type { Contract } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+
+describe("AIStrategyVault", function () {
+  let vault: Contract;
+  let trader: Contract;
+  let priceOracle: Contract;
+  let router: Contract;
+  let usdt: Contract;
+  let wavax: Contract;
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  const units = (amount: string) => ethers.parseEther(amount);
+  const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+  const depositUSDT = async (user: SignerWithAddress, amount: string) => {
+    await usdt.mint(user.address, units(amount));
+    await usdt.connect(user).approve(await vault.getAddress(), units(amount));
+    await vault.connect(user).deposit(units(amount), user.address);
+  };
+
+  // Raise the share price by sending the vault assets it did not pay for
+  const donate = async (amount: string) => {
+    await usdt.mint(await vault.getAddress(), units(amount));
+  };
+
+  // What Pangolin pays in USDT for an amount of AVAX
+  const quote = async (avax: string): Promise<bigint> =>
+    (await router.getAmountsOut(units(avax), [await wavax.getAddress(), await usdt.getAddress()]))[1];
+
+  const setPrediction = async (price: string) => {
+    await priceOracle.setPrediction(await wavax.getAddress(), await usdt.getAddress(), units(price), 80, (await latestTime()) + 1800);
+  };
+
+  beforeEach(async function () {
+    [owner, alice, bob, keeper, treasury] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("MockERC20");
+    usdt = await TokenFactory.deploy("Tether USD", "USDT");
+    wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+
+    // 25 USDT per AVAX, with the router holding both sides of the pool
+    const RouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+    router = await RouterFactory.deploy(await wavax.getAddress());
+    await router.setLiquidAVAXSwaps(true);
+    await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), units("1000"), units("25000"));
+    await usdt.mint(await router.getAddress(), units("25000"));
+    await owner.sendTransaction({ to: await router.getAddress(), value: units("100") });
+
+    const PriceOracleFactory = await ethers.getContractFactory("PriceOracle");
+    priceOracle = await PriceOracleFactory.deploy();
+
+    const TraderFactory = await ethers.getContractFactory("AIPoweredTrader");
+    trader = await TraderFactory.deploy(await router.getAddress(), await priceOracle.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("AIStrategyVault");
+    vault = await VaultFactory.deploy(await usdt.getAddress(), await trader.getAddress(), treasury.address);
+  });
+
+  describe("Deployment", function () {
+    it("Should wire up the trader, router and asset", async function () {
+      expect(await vault.asset()).to.equal(await usdt.getAddress());
+      expect(await vault.trader()).to.equal(await trader.getAddress());
+      expect(await vault.pangolinRouter()).to.equal(await router.getAddress());
+      expect(await vault.WAVAX()).to.equal(await wavax.getAddress());
+      expect(await vault.feeRecipient()).to.equal(treasury.address);
+      expect(await vault.performanceFeeBps()).to.equal(1000);
+    });
+  });
+
+  describe("Deposits", function () {
+    it("Should mint shares one-to-one for the first asset deposit", async function () {
+      await depositUSDT(alice, "1000");
+
+      expect(await vault.balanceOf(alice.address)).to.equal(units("1000"));
+      expect(await vault.totalAssets()).to.equal(units("1000"));
+      expect(await vault.sharePrice()).to.equal(units("1"));
+    });
+
+    it("Should value AVAX deposits at the Pangolin quote", async function () {
+      await depositUSDT(alice, "1000");
+      const value = await quote("1");
+
+      await expect(vault.connect(bob).depositAVAX(bob.address, { value: units("1") }))
+        .to.emit(vault, "Deposit")
+        .withArgs(bob.address, bob.address, value, value);
+
+      expect(await vault.balanceOf(bob.address)).to.equal(value);
+      expect(await vault.sharePrice()).to.equal(units("1"));
+    });
+
+    it("Should price large AVAX deposits against the AVAX already held", async function () {
+      await depositUSDT(alice, "1000");
+      await vault.connect(alice).depositAVAX(alice.address, { value: units("20") });
+
+      // 200 AVAX is a fifth of the pool, and on top of the 20 held it is worth less still
+      const value = (await quote("220")) - (await quote("20"));
+      expect(value).to.be.lt(await quote("200"));
+
+      await vault.connect(bob).depositAVAX(bob.address, { value: units("200") });
+
+      // Spot prices round down to the wei, losing up to a wei per AVAX valued
+      expect(await vault.balanceOf(bob.address)).to.be.closeTo(value, 250n);
+      expect(await vault.totalAssets()).to.be.closeTo(units("1000") + (await quote("220")), 250n);
+      expect(await vault.sharePrice()).to.equal(units("1"));
+    });
+
+    it("Should keep valuing AVAX without a valid AI prediction", async function () {
+      await setPrediction("25.00");
+      await vault.connect(alice).depositAVAX(alice.address, { value: units("1") });
+
+      await priceOracle.invalidatePrediction(await wavax.getAddress(), await usdt.getAddress());
+
+      expect(await vault.totalAssets()).to.equal(await quote("1"));
+      await vault.connect(bob).depositAVAX(bob.address, { value: units("1") });
+      expect(await vault.totalAssets()).to.be.closeTo(await quote("2"), 2n);
+    });
+
+    it("Should fall back to the trader's reference price when the pool cannot quote", async function () {
+      await depositUSDT(alice, "1000");
+      await vault.connect(alice).depositAVAX(alice.address, { value: units("20") });
+      await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), 0, 0);
+
+      await expect(vault.totalAssets()).to.be.revertedWith("No AVAX price");
+
+      await trader.setReferencePrice(await wavax.getAddress(), await usdt.getAddress(), units("25"));
+      expect(await vault.totalAssets()).to.equal(units("1500"));
+    });
+
+    it("Should reject empty AVAX deposits", async function () {
+      await expect(vault.connect(bob).depositAVAX(bob.address)).to.be.revertedWith("Must send AVAX");
+    });
+  });
+
+  describe("Strategy trades", function () {
+    beforeEach(async function () {
+      await depositUSDT(alice, "1000");
+      await vault.setKeeper(keeper.address, true);
+    });
+
+    it("Should trade pooled funds through AI validation", async function () {
+      const deadline = (await latestTime()) + 600;
+
+      await expect(
+        vault.connect(keeper).tradeAssetForAVAX(units("500"), 0, deadline)
+      ).to.be.revertedWithCustomError(trader, "AIPredictionInvalid");
+
+      await setPrediction("30.00"); // AVAX expected to rise, so buying it is in line
+      await expect(vault.connect(keeper).tradeAssetForAVAX(units("500"), 0, deadline))
+        .to.emit(vault, "StrategyTrade")
+        .and.to.emit(trader, "TradeExecuted");
+
+      expect(await usdt.balanceOf(await vault.getAddress())).to.equal(units("500"));
+      expect(await ethers.provider.getBalance(await vault.getAddress())).to.be.gt(units("19"));
+    });
+
+    it("Should sell AVAX back into the asset", async function () {
+      await setPrediction("30.00");
+      await vault.connect(keeper).tradeAssetForAVAX(units("500"), 0, (await latestTime()) + 600);
+      const avax = await ethers.provider.getBalance(await vault.getAddress());
+
+      await setPrediction("20.00");
+      await expect(vault.connect(keeper).tradeAVAXForAsset(avax, 0, (await latestTime()) + 600))
+        .to.emit(vault, "StrategyTrade");
+
+      expect(await ethers.provider.getBalance(await vault.getAddress())).to.equal(0);
+      expect(await usdt.balanceOf(await vault.getAddress())).to.be.closeTo(units("1000"), units("5"));
+    });
+
+    it("Should only let keepers and the owner trade", async function () {
+      await expect(
+        vault.connect(alice).tradeAssetForAVAX(units("500"), 0, (await latestTime()) + 600)
+      ).to.be.revertedWith("Caller is not a keeper");
+
+      await expect(
+        vault.connect(alice).setKeeper(alice.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Withdrawals", function () {
+    beforeEach(async function () {
+      await depositUSDT(alice, "1000");
+      await setPrediction("30.00");
+      // Selling the AVAX back would return less, so no gain is charged a fee
+      await vault.tradeAssetForAVAX(units("600"), 0, (await latestTime()) + 600);
+    });
+
+    it("Should limit standard withdrawals to the asset held", async function () {
+      expect(await vault.maxWithdraw(alice.address)).to.equal(units("400"));
+
+      await expect(
+        vault.connect(alice).withdraw(units("500"), alice.address, alice.address)
+      ).to.be.revertedWith("ERC4626: withdraw more than max");
+
+      await vault.connect(alice).withdraw(units("400"), alice.address, alice.address);
+      expect(await usdt.balanceOf(alice.address)).to.equal(units("400"));
+    });
+
+    it("Should redeem a pro-rata slice of the asset and AVAX", async function () {
+      const avaxHeld = await ethers.provider.getBalance(await vault.getAddress());
+      const shares = (await vault.balanceOf(alice.address)) / 4n;
+
+      await expect(vault.connect(alice).redeemProRata(shares, bob.address, alice.address))
+        .to.emit(vault, "ProRataRedeemed")
+        .withArgs(alice.address, bob.address, shares, units("100"), avaxHeld / 4n);
+
+      expect(await usdt.balanceOf(bob.address)).to.equal(units("100"));
+      expect(await vault.balanceOf(alice.address)).to.equal(units("750"));
+    });
+
+    it("Should redeem pro-rata when the AVAX held cannot be priced", async function () {
+      const avaxHeld = await ethers.provider.getBalance(await vault.getAddress());
+      await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), 0, 0);
+
+      await expect(vault.connect(alice).redeemProRata(units("500"), bob.address, alice.address))
+        .to.emit(vault, "ProRataRedeemed")
+        .withArgs(alice.address, bob.address, units("500"), units("200"), avaxHeld / 2n);
+    });
+
+    it("Should need an allowance to redeem someone else's shares", async function () {
+      await expect(
+        vault.connect(bob).redeemProRata(units("100"), bob.address, alice.address)
+      ).to.be.revertedWith("ERC20: insufficient allowance");
+
+      await vault.connect(alice).approve(bob.address, units("100"));
+      await vault.connect(bob).redeemProRata(units("100"), bob.address, alice.address);
+      expect(await vault.balanceOf(alice.address)).to.equal(units("900"));
+    });
+  });
+
+  describe("Performance fees", function () {
+    it("Should charge the fee on gains above the high-water mark when withdrawing", async function () {
+      await depositUSDT(alice, "1000");
+      await donate("100"); // Share price 1.10
+
+      const feeShares = await vault.pendingPerformanceFee(alice.address);
+      expect(await vault.convertToAssets(feeShares)).to.be.closeTo(units("10"), 10n);
+
+      await expect(vault.connect(alice).redeem(await vault.maxRedeem(alice.address), alice.address, alice.address))
+        .to.emit(vault, "PerformanceFeeCharged")
+        .withArgs(alice.address, feeShares, units("1.1"));
+
+      expect(await usdt.balanceOf(alice.address)).to.be.closeTo(units("1090"), 10n);
+      expect(await vault.balanceOf(treasury.address)).to.equal(feeShares);
+      expect(await vault.highWaterMark(alice.address)).to.equal(units("1.1"));
+    });
+
+    it("Should keep a separate high-water mark per user", async function () {
+      await depositUSDT(alice, "1000");
+      await donate("100"); // 1.10
+      await depositUSDT(bob, "1100");
+      expect(await vault.highWaterMark(bob.address)).to.equal(units("1.1"));
+
+      await donate("200"); // 1.20
+      const aliceFee = await vault.convertToAssets(await vault.pendingPerformanceFee(alice.address));
+      const bobFee = await vault.convertToAssets(await vault.pendingPerformanceFee(bob.address));
+
+      expect(aliceFee).to.be.closeTo(units("20"), 10n); // 10% of 0.20 on 1000 shares
+      expect(bobFee).to.be.closeTo(units("10"), 10n); // 10% of 0.10 on 1000 shares
+    });
+
+    it("Should not charge again until the share price passes the mark", async function () {
+      await depositUSDT(alice, "1000");
+      await donate("100");
+      await vault.connect(alice).redeem(units("100"), alice.address, alice.address);
+
+      expect(await vault.pendingPerformanceFee(alice.address)).to.equal(0);
+      await expect(
+        vault.connect(alice).redeem(units("100"), alice.address, alice.address)
+      ).to.not.emit(vault, "PerformanceFeeCharged");
+    });
+
+    it("Should carry the sender's mark with transferred shares", async function () {
+      await depositUSDT(alice, "1000");
+      await donate("100"); // 1.10
+      await depositUSDT(bob, "1100");
+
+      await vault.connect(alice).transfer(bob.address, units("1000"));
+
+      // Half of bob's shares came in at 1.00 and half at 1.10
+      expect(await vault.highWaterMark(bob.address)).to.equal(units("1.05"));
+    });
+
+    it("Should let the owner update the fee within bounds", async function () {
+      await expect(vault.setPerformanceFee(2000, bob.address))
+        .to.emit(vault, "PerformanceFeeUpdated")
+        .withArgs(2000, bob.address);
+
+      await expect(vault.setPerformanceFee(3001, bob.address)).to.be.revertedWith("Fee too high");
+      await expect(vault.setPerformanceFee(1000, ethers.ZeroAddress)).to.be.revertedWith("Invalid fee recipient");
+      await expect(
+        vault.connect(alice).setPerformanceFee(0, alice.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});
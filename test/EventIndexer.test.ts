@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import hre from 'hardhat';
+const { ethers } = hre;
+import type { Contract } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+import Database from "better-sqlite3";
+import Web3 from "web3";
+import { EventIndexer } from "../server/libs/eventIndexer.ts";
+import type { EventIndexerOptions } from "../server/libs/eventIndexer.ts";
+
+describe("EventIndexer", function () {
+  let trader: Contract;
+  let priceOracle: Contract;
+  let router: Contract;
+  let usdt: Contract;
+  let wavax: Contract;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let db: Database.Database;
+  let startBlock: number;
+
+  // One client over Hardhat's in-process node; each Web3 adds a provider listener
+  const web3 = new Web3(hre.network.provider);
+
+  const units = (amount: string) => ethers.parseEther(amount);
+  const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+  const mine = (blocks: number) => hre.network.provider.send("hardhat_mine", [`0x${blocks.toString(16)}`]);
+
+  const createIndexer = async (options: Partial<EventIndexerOptions> = {}) => new EventIndexer({
+    web3,
+    db,
+    traderAddress: await trader.getAddress(),
+    oracleAddress: await priceOracle.getAddress(),
+    startBlock,
+    confirmations: 0,
+    ...options
+  });
+
+  const buyUSDT = async (avax: string) => {
+    await trader.connect(user).tradeExactAVAXForTokens(
+      await usdt.getAddress(), 0, (await latestTime()) + 600, { value: units(avax) }
+    );
+  };
+
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+    db = new Database(":memory:");
+
+    const TokenFactory = await ethers.getContractFactory("MockERC20");
+    usdt = await TokenFactory.deploy("Tether USD", "USDT");
+    wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+
+    // 25 USDT per AVAX, with the router holding the USDT side
+    const RouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+    router = await RouterFactory.deploy(await wavax.getAddress());
+    await router.setReserves(await wavax.getAddress(), await usdt.getAddress(), units("1000"), units("25000"));
+    await usdt.mint(await router.getAddress(), units("25000"));
+
+    const PriceOracleFactory = await ethers.getContractFactory("PriceOracle");
+    priceOracle = await PriceOracleFactory.deploy();
+    const TraderFactory = await ethers.getContractFactory("AIPoweredTrader");
+    trader = await TraderFactory.deploy(await router.getAddress(), await priceOracle.getAddress());
+
+    startBlock = await ethers.provider.getBlockNumber();
+
+    // AVAX expected to fall, so selling it for USDT is in line
+    await priceOracle.setPrediction(
+      await wavax.getAddress(), await usdt.getAddress(), units("20"), 80, (await latestTime()) + 1800
+    );
+  });
+
+  afterEach(function () {
+    db.close();
+  });
+
+  describe("Backfill", function () {
+    it("Should decode TradeExecuted, PredictionSet and EmergencyWithdraw from the start block", async function () {
+      await buyUSDT("1");
+      await usdt.mint(await trader.getAddress(), units("5"));
+      await trader.emergencyWithdraw(await usdt.getAddress(), owner.address);
+
+      const indexer = await createIndexer();
+      const result = await indexer.sync();
+
+      expect(result.trades).to.equal(1);
+      expect(result.predictions).to.equal(1);
+      expect(result.emergencyWithdrawals).to.equal(1);
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+
+      const { trades, total } = indexer.getTrades();
+      expect(total).to.equal(1);
+      expect(trades[0].user).to.equal(user.address.toLowerCase());
+      expect(trades[0].tokenIn).to.equal(ethers.ZeroAddress);
+      expect(trades[0].tokenOut).to.equal((await usdt.getAddress()).toLowerCase());
+      expect(trades[0].amountIn).to.equal(units("1").toString());
+      expect(trades[0].aiConfidence).to.equal(80);
+      expect(trades[0].aiPredictedPrice).to.equal(units("20").toString());
+      expect(trades[0].timestamp).to.be.gt(0);
+
+      const [prediction] = indexer.getPredictions();
+      expect(prediction.pairKey).to.equal(await priceOracle.pairKey(await wavax.getAddress(), await usdt.getAddress()));
+      expect(prediction.baseToken).to.equal((await wavax.getAddress()).toLowerCase());
+      expect(prediction.price).to.equal(units("20").toString());
+
+      const [withdrawal] = indexer.getEmergencyWithdrawals();
+      expect(withdrawal.amount).to.equal(units("5").toString());
+      expect(withdrawal.recipient).to.equal(owner.address.toLowerCase());
+    });
+
+    it("Should page through blocks in batches", async function () {
+      await buyUSDT("1");
+      await mine(10);
+      await buyUSDT("2");
+
+      const indexer = await createIndexer({ batchSize: 3 });
+      const result = await indexer.sync();
+
+      expect(result.trades).to.equal(2);
+      expect(indexer.getTrades().trades.map(trade => trade.amountIn))
+        .to.deep.equal([units("2").toString(), units("1").toString()]);
+    });
+
+    it("Should filter trades by user", async function () {
+      await buyUSDT("1");
+      await trader.connect(owner).tradeExactAVAXForTokens(
+        await usdt.getAddress(), 0, (await latestTime()) + 600, { value: units("1") }
+      );
+
+      const indexer = await createIndexer();
+      await indexer.sync();
+
+      expect(indexer.getTrades({ user: user.address }).total).to.equal(1);
+      expect(indexer.getTrades({ user: owner.address.toUpperCase().replace("0X", "0x") }).total).to.equal(1);
+      expect(indexer.getTrades().total).to.equal(2);
+    });
+  });
+
+  describe("Following the chain", function () {
+    it("Should only store events behind the confirmation depth", async function () {
+      await buyUSDT("1");
+
+      const indexer = await createIndexer({ confirmations: 3 });
+      await indexer.sync();
+      expect(indexer.getTrades().total).to.equal(0);
+
+      await mine(3);
+      const result = await indexer.sync();
+      expect(result.trades).to.equal(1);
+      expect(indexer.getStatus().lastIndexedBlock).to.equal((await ethers.provider.getBlockNumber()) - 3);
+    });
+
+    it("Should pick up new blocks without re-indexing old ones", async function () {
+      await buyUSDT("1");
+      const indexer = await createIndexer();
+      await indexer.sync();
+
+      await buyUSDT("2");
+      const result = await indexer.sync();
+
+      expect(result.fromBlock).to.equal((await ethers.provider.getBlockNumber()));
+      expect(result.trades).to.equal(1);
+      expect(indexer.getTrades().total).to.equal(2);
+
+      const idle = await indexer.sync();
+      expect(idle.toBlock).to.be.lt(idle.fromBlock);
+    });
+
+    it("Should resume from the stored checkpoint in a new instance", async function () {
+      await buyUSDT("1");
+      await (await createIndexer()).sync();
+
+      await buyUSDT("2");
+      const restarted = await createIndexer();
+      const result = await restarted.sync();
+
+      expect(result.trades).to.equal(1);
+      expect(restarted.getTrades().total).to.equal(2);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should drop events from replaced blocks and index the new branch", async function () {
+      await buyUSDT("1");
+      const indexer = await createIndexer();
+      await indexer.sync();
+      const forkPoint = await ethers.provider.getBlockNumber();
+
+      const snapshot = await hre.network.provider.send("evm_snapshot", []);
+      await buyUSDT("2");
+      await indexer.sync();
+      expect(indexer.getTrades().total).to.equal(2);
+
+      // Replace the block holding the second trade with one holding a third
+      await hre.network.provider.send("evm_revert", [snapshot]);
+      await buyUSDT("3");
+
+      const result = await indexer.sync();
+      expect(result.reorgedTo).to.equal(forkPoint);
+      expect(result.trades).to.equal(1);
+      expect(indexer.getTrades().trades.map(trade => trade.amountIn))
+        .to.deep.equal([units("3").toString(), units("1").toString()]);
+    });
+
+    it("Should rewind to the start block when no checkpoint survives", async function () {
+      const snapshot = await hre.network.provider.send("evm_snapshot", []);
+      await buyUSDT("1");
+      const indexer = await createIndexer({ startBlock: startBlock + 2 });
+      await indexer.sync();
+      expect(indexer.getTrades().total).to.equal(1);
+
+      await hre.network.provider.send("evm_revert", [snapshot]);
+      await mine(2);
+
+      const result = await indexer.sync();
+      expect(result.reorgedTo).to.equal(startBlock + 1);
+      expect(indexer.getTrades().total).to.equal(0);
+    });
+  });
+});
@@ -10,6 +10,11 @@ describe("PriceOracle", function () {
   let user: SignerWithAddress;
   let user2: SignerWithAddress;
 
+  // Predictions are keyed by token pair
+  const WAVAX = "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7";
+  const USDT = "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7";
+  const QI = "0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5";
+
   beforeEach(async function () {
     [owner, user, user2] = await ethers.getSigners();
     
@@ -25,6 +30,7 @@ describe("PriceOracle", function () {
     it("Should have correct constants and initial values", async function () {
       expect(await priceOracle.minConfidenceThreshold()).to.equal(70);
       expect(await priceOracle.PREDICTION_EXPIRY_TIME()).to.equal(3600); // 1 hour
+      expect(await priceOracle.MAX_PREDICTION_EXPIRY_TIME()).to.equal(86400); // 1 day
       expect(await priceOracle.MAX_CONFIDENCE()).to.equal(100);
     });
   });
@@ -35,11 +41,11 @@ describe("PriceOracle", function () {
     const validExpiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes from now
 
     it("Should allow owner to set prediction", async function () {
-      await expect(priceOracle.setPrediction(validPrice, validConfidence, validExpiry))
+      await expect(priceOracle.setPrediction(WAVAX, USDT, validPrice, validConfidence, validExpiry))
         .to.emit(priceOracle, "PredictionSet")
-        .withArgs(validPrice, validConfidence, anyValue, validExpiry);
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), WAVAX, validPrice, validConfidence, anyValue, validExpiry);
 
-      const prediction = await priceOracle.getPrediction();
+      const prediction = await priceOracle.getPrediction(WAVAX, USDT);
       expect(prediction[0]).to.equal(validPrice);
       expect(prediction[1]).to.equal(validConfidence);
       expect(prediction[2]).to.be.gt(0); // timestamp
@@ -49,52 +55,52 @@ describe("PriceOracle", function () {
 
     it("Should not allow non-owner to set prediction", async function () {
       await expect(
-        priceOracle.connect(user).setPrediction(validPrice, validConfidence, validExpiry)
+        priceOracle.connect(user).setPrediction(WAVAX, USDT, validPrice, validConfidence, validExpiry)
       ).to.be.revertedWith("Ownable: caller is not the owner");
     });
 
     it("Should reject zero price", async function () {
       await expect(
-        priceOracle.setPrediction(0, validConfidence, validExpiry)
+        priceOracle.setPrediction(WAVAX, USDT, 0, validConfidence, validExpiry)
       ).to.be.revertedWith("Price must be greater than 0");
     });
 
     it("Should reject confidence above 100", async function () {
       await expect(
-        priceOracle.setPrediction(validPrice, 101, validExpiry)
+        priceOracle.setPrediction(WAVAX, USDT, validPrice, 101, validExpiry)
       ).to.be.revertedWith("Confidence cannot exceed 100");
     });
 
     it("Should reject past expiry", async function () {
       const pastExpiry = Math.floor(Date.now() / 1000) - 3600; // 1 hour ago
       await expect(
-        priceOracle.setPrediction(validPrice, validConfidence, pastExpiry)
+        priceOracle.setPrediction(WAVAX, USDT, validPrice, validConfidence, pastExpiry)
       ).to.be.revertedWith("Expiry must be in the future");
     });
 
     it("Should reject expiry more than 1 hour in future", async function () {
       const farExpiry = Math.floor(Date.now() / 1000) + 2 * 3600; // 2 hours
       await expect(
-        priceOracle.setPrediction(validPrice, validConfidence, farExpiry)
-      ).to.be.revertedWith("Expiry cannot exceed 1 hour maximum validity");
+        priceOracle.setPrediction(WAVAX, USDT, validPrice, validConfidence, farExpiry)
+      ).to.be.revertedWith("Expiry exceeds maximum validity");
     });
 
     it("Should allow confidence of 100", async function () {
       await expect(
-        priceOracle.setPrediction(validPrice, 100, validExpiry)
+        priceOracle.setPrediction(WAVAX, USDT, validPrice, 100, validExpiry)
       ).to.not.be.reverted;
     });
 
     it("Should allow confidence of 0", async function () {
       await expect(
-        priceOracle.setPrediction(validPrice, 0, validExpiry)
+        priceOracle.setPrediction(WAVAX, USDT, validPrice, 0, validExpiry)
       ).to.not.be.reverted;
     });
   });
 
   describe("getPrediction", function () {
     it("Should return empty prediction initially", async function () {
-      const prediction = await priceOracle.getPrediction();
+      const prediction = await priceOracle.getPrediction(WAVAX, USDT);
       expect(prediction[0]).to.equal(0); // price
       expect(prediction[1]).to.equal(0); // confidence
       expect(prediction[2]).to.equal(0); // timestamp
@@ -107,8 +113,8 @@ describe("PriceOracle", function () {
       const confidence = 90;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      const prediction = await priceOracle.getPrediction();
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      const prediction = await priceOracle.getPrediction(WAVAX, USDT);
 
       expect(prediction[0]).to.equal(price);
       expect(prediction[1]).to.equal(confidence);
@@ -120,7 +126,7 @@ describe("PriceOracle", function () {
 
   describe("isPredictionValid", function () {
     it("Should return false for empty prediction", async function () {
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
 
     it("Should return true for valid prediction", async function () {
@@ -128,8 +134,8 @@ describe("PriceOracle", function () {
       const confidence = 80; // Above 70% threshold
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      expect(await priceOracle.isPredictionValid()).to.be.true;
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.true;
     });
 
     it("Should return false for low confidence", async function () {
@@ -137,8 +143,8 @@ describe("PriceOracle", function () {
       const confidence = 60; // Below 70% threshold
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
 
     it("Should return false for expired prediction", async function () {
@@ -146,13 +152,13 @@ describe("PriceOracle", function () {
       const confidence = 80;
       const expiry = Math.floor(Date.now() / 1000) + 1800; // 30 minutes from now
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
       // Wait for expiry
       await ethers.provider.send("evm_increaseTime", [3601]);
       await ethers.provider.send("evm_mine", []);
 
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
 
     it("Should return false for old prediction (beyond 1 hour)", async function () {
@@ -161,13 +167,13 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
       // Wait more than 1 hour
       await ethers.provider.send("evm_increaseTime", [3601]);
       await ethers.provider.send("evm_mine", []);
 
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
 
     it("Should return false for invalidated prediction", async function () {
@@ -176,10 +182,10 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      await priceOracle.invalidatePrediction();
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      await priceOracle.invalidatePrediction(WAVAX, USDT);
 
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
   });
 
@@ -221,16 +227,16 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      expect(await priceOracle.isPredictionValid()).to.be.true; // Above 70% default
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.true; // Above 70% default
 
       // Increase threshold to 80%
       await priceOracle.updateConfidenceThreshold(80);
-      expect(await priceOracle.isPredictionValid()).to.be.false; // Below 80%
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false; // Below 80%
 
       // Decrease threshold to 70%
       await priceOracle.updateConfidenceThreshold(70);
-      expect(await priceOracle.isPredictionValid()).to.be.true; // Above 70%
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.true; // Above 70%
     });
   });
 
@@ -240,26 +246,26 @@ describe("PriceOracle", function () {
       const confidence = 75;
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
     });
 
     it("Should return true for threshold below confidence", async function () {
-      expect(await priceOracle.isConfidenceAboveThreshold(70)).to.be.true;
-      expect(await priceOracle.isConfidenceAboveThreshold(75)).to.be.true;
+      expect(await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 70)).to.be.true;
+      expect(await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 75)).to.be.true;
     });
 
     it("Should return false for threshold above confidence", async function () {
-      expect(await priceOracle.isConfidenceAboveThreshold(80)).to.be.false;
-      expect(await priceOracle.isConfidenceAboveThreshold(100)).to.be.false;
+      expect(await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 80)).to.be.false;
+      expect(await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 100)).to.be.false;
     });
 
     it("Should return true for threshold equal to confidence", async function () {
-      expect(await priceOracle.isConfidenceAboveThreshold(75)).to.be.true;
+      expect(await priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 75)).to.be.true;
     });
 
     it("Should reject threshold above 100", async function () {
       await expect(
-        priceOracle.isConfidenceAboveThreshold(101)
+        priceOracle.isConfidenceAboveThreshold(WAVAX, USDT, 101)
       ).to.be.revertedWith("Threshold cannot exceed 100");
     });
   });
@@ -271,26 +277,26 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
-      expect(await priceOracle.isPredictionValid()).to.be.true;
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.true;
 
-      await expect(priceOracle.invalidatePrediction())
+      await expect(priceOracle.invalidatePrediction(WAVAX, USDT))
         .to.emit(priceOracle, "PredictionValidated")
-        .withArgs(false, confidence, anyValue);
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), false, confidence, anyValue);
 
-      expect(await priceOracle.isPredictionValid()).to.be.false;
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.be.false;
     });
 
     it("Should not allow non-owner to invalidate prediction", async function () {
       await expect(
-        priceOracle.connect(user).invalidatePrediction()
+        priceOracle.connect(user).invalidatePrediction(WAVAX, USDT)
       ).to.be.revertedWith("Ownable: caller is not the owner");
     });
   });
 
   describe("getPredictionAge", function () {
     it("Should return 0 for empty prediction", async function () {
-      expect(await priceOracle.getPredictionAge()).to.equal(0);
+      expect(await priceOracle.getPredictionAge(WAVAX, USDT)).to.equal(0);
     });
 
     it("Should return correct age for prediction", async function () {
@@ -299,20 +305,20 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
       // Wait 5 seconds
       await ethers.provider.send("evm_increaseTime", [5]);
       await ethers.provider.send("evm_mine", []);
 
-      const age = await priceOracle.getPredictionAge();
+      const age = await priceOracle.getPredictionAge(WAVAX, USDT);
       expect(age).to.be.gte(5);
     });
   });
 
   describe("getTimeUntilExpiry", function () {
     it("Should return 0 for empty prediction", async function () {
-      expect(await priceOracle.getTimeUntilExpiry()).to.equal(0);
+      expect(await priceOracle.getTimeUntilExpiry(WAVAX, USDT)).to.equal(0);
     });
 
     it("Should return correct time until expiry", async function () {
@@ -321,9 +327,9 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600; // 1 hour
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
-      const timeUntilExpiry = await priceOracle.getTimeUntilExpiry();
+      const timeUntilExpiry = await priceOracle.getTimeUntilExpiry(WAVAX, USDT);
       expect(timeUntilExpiry).to.be.gte(3590); // At least 59 minutes 50 seconds
       expect(timeUntilExpiry).to.be.lte(3600); // At most 1 hour
     });
@@ -334,13 +340,549 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600; // 1 hour
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
       // Wait for expiry
       await ethers.provider.send("evm_increaseTime", [3601]);
       await ethers.provider.send("evm_mine", []);
 
-      expect(await priceOracle.getTimeUntilExpiry()).to.equal(0);
+      expect(await priceOracle.getTimeUntilExpiry(WAVAX, USDT)).to.equal(0);
+    });
+  });
+
+  describe("Per-pair predictions", function () {
+    const price = ethers.parseEther("25.00");
+
+    const latestExpiry = async (seconds: number) => {
+      const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+      return currentTime + seconds;
+    };
+
+    it("Should derive the same key regardless of token order", async function () {
+      expect(await priceOracle.pairKey(WAVAX, USDT)).to.equal(await priceOracle.pairKey(USDT, WAVAX));
+      expect(await priceOracle.pairKey(WAVAX, USDT)).to.not.equal(await priceOracle.pairKey(QI, USDT));
+    });
+
+    it("Should not let one pair's prediction validate another pair", async function () {
+      await priceOracle.setPrediction(WAVAX, USDT, price, 80, await latestExpiry(1800));
+
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(true);
+      expect(await priceOracle.isPredictionValid(USDT, WAVAX)).to.equal(true);
+      expect(await priceOracle.isPredictionValid(QI, USDT)).to.equal(false);
+      expect(await priceOracle.isPredictionValid(QI, WAVAX)).to.equal(false);
+    });
+
+    it("Should keep separate confidence and expiry per pair", async function () {
+      await priceOracle.setPrediction(WAVAX, USDT, price, 80, await latestExpiry(3600));
+      await priceOracle.setPrediction(QI, USDT, ethers.parseEther("0.01"), 60, await latestExpiry(600));
+
+      const avax = await priceOracle.getPrediction(WAVAX, USDT);
+      const qi = await priceOracle.getPrediction(QI, USDT);
+      expect(avax[1]).to.equal(80);
+      expect(qi[1]).to.equal(60);
+      expect(avax[3]).to.not.equal(qi[3]);
+
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(true);
+      expect(await priceOracle.isPredictionValid(QI, USDT)).to.equal(false); // Below the 70% default
+    });
+
+    it("Should quote the price in the order the pair is asked for", async function () {
+      await priceOracle.setPrediction(WAVAX, USDT, price, 80, await latestExpiry(1800));
+
+      expect((await priceOracle.getPrediction(WAVAX, USDT))[0]).to.equal(price);
+      expect((await priceOracle.getPrediction(USDT, WAVAX))[0]).to.equal(ethers.parseEther("0.04"));
+    });
+
+    it("Should only invalidate the given pair", async function () {
+      await priceOracle.setPrediction(WAVAX, USDT, price, 80, await latestExpiry(1800));
+      await priceOracle.setPrediction(QI, USDT, ethers.parseEther("0.01"), 80, await latestExpiry(1800));
+
+      await priceOracle.invalidatePrediction(QI, USDT);
+
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(true);
+      expect(await priceOracle.isPredictionValid(QI, USDT)).to.equal(false);
+    });
+
+    it("Should reject invalid token pairs", async function () {
+      const expiry = await latestExpiry(1800);
+
+      await expect(
+        priceOracle.setPrediction(WAVAX, WAVAX, price, 80, expiry)
+      ).to.be.revertedWith("Tokens must be different");
+
+      await expect(
+        priceOracle.setPrediction(ethers.ZeroAddress, USDT, price, 80, expiry)
+      ).to.be.revertedWith("Invalid token address");
+    });
+  });
+
+  describe("setPairConfig", function () {
+    const price = ethers.parseEther("0.01");
+    const twoHours = 2 * 3600;
+
+    const latestExpiry = async (seconds: number) => {
+      const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+      return currentTime + seconds;
+    };
+
+    it("Should apply a pair's own threshold and maximum validity", async function () {
+      await expect(priceOracle.setPairConfig(QI, USDT, 50, twoHours))
+        .to.emit(priceOracle, "PairConfigUpdated")
+        .withArgs(await priceOracle.pairKey(QI, USDT), 50, twoHours);
+
+      const config = await priceOracle.getPairConfig(USDT, QI);
+      expect(config[0]).to.equal(50);
+      expect(config[1]).to.equal(twoHours);
+
+      // Longer expiry and lower confidence are fine for QI/USDT...
+      await priceOracle.setPrediction(QI, USDT, price, 60, await latestExpiry(twoHours - 60));
+      expect(await priceOracle.isPredictionValid(QI, USDT)).to.equal(true);
+
+      // ...but not for pairs on the defaults
+      await expect(
+        priceOracle.setPrediction(WAVAX, USDT, price, 60, await latestExpiry(twoHours - 60))
+      ).to.be.revertedWith("Expiry exceeds maximum validity");
+      await priceOracle.setPrediction(WAVAX, USDT, price, 60, await latestExpiry(1800));
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(false);
+    });
+
+    it("Should keep a pair's prediction valid past the default hour when configured", async function () {
+      await priceOracle.setPairConfig(QI, USDT, 70, twoHours);
+      await priceOracle.setPrediction(QI, USDT, price, 80, await latestExpiry(twoHours - 60));
+
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await priceOracle.isPredictionValid(QI, USDT)).to.equal(true);
+    });
+
+    it("Should fall back to the defaults after clearing", async function () {
+      await priceOracle.setPairConfig(QI, USDT, 50, twoHours);
+      await priceOracle.clearPairConfig(QI, USDT);
+
+      const config = await priceOracle.getPairConfig(QI, USDT);
+      expect(config[0]).to.equal(70);
+      expect(config[1]).to.equal(3600);
+    });
+
+    it("Should reject invalid settings", async function () {
+      await expect(priceOracle.setPairConfig(QI, USDT, 101, twoHours)).to.be.revertedWith("Threshold cannot exceed 100");
+      await expect(priceOracle.setPairConfig(QI, USDT, 50, 0)).to.be.revertedWith("Invalid maximum validity");
+      await expect(priceOracle.setPairConfig(QI, USDT, 50, 86401)).to.be.revertedWith("Invalid maximum validity");
+      await expect(priceOracle.setPairConfig(QI, QI, 50, twoHours)).to.be.revertedWith("Tokens must be different");
+    });
+
+    it("Should not allow non-owner to configure pairs", async function () {
+      await expect(
+        priceOracle.connect(user).setPairConfig(QI, USDT, 50, twoHours)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Reporter quorum", function () {
+    let reporters: SignerWithAddress[];
+
+    const latestExpiry = async (seconds: number) => {
+      const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+      return currentTime + seconds;
+    };
+
+    const submit = async (reporter: SignerWithAddress, price: string, confidence = 80, expiresIn = 1800) =>
+      priceOracle.connect(reporter).submitPrediction(WAVAX, USDT, ethers.parseEther(price), confidence, await latestExpiry(expiresIn));
+
+    beforeEach(async function () {
+      reporters = (await ethers.getSigners()).slice(3, 6);
+      for (const reporter of reporters) {
+        await priceOracle.setReporter(reporter.address, true);
+      }
+      await priceOracle.setQuorumConfig(2, 100, 900); // 2-of-3 within 1%, 15 minute rounds
+    });
+
+    it("Should let the owner manage reporters", async function () {
+      expect(await priceOracle.reporterCount()).to.equal(3);
+
+      await expect(priceOracle.setReporter(reporters[0].address, false))
+        .to.emit(priceOracle, "ReporterUpdated")
+        .withArgs(reporters[0].address, false);
+
+      expect(await priceOracle.reporters(reporters[0].address)).to.equal(false);
+      expect(await priceOracle.reporterCount()).to.equal(2);
+
+      await expect(
+        priceOracle.connect(user).setReporter(user.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should stop the owner publishing without a quorum once reporters are set", async function () {
+      await expect(
+        priceOracle.setPrediction(WAVAX, USDT, ethers.parseEther("25"), 80, await latestExpiry(1800))
+      ).to.be.revertedWith("Reporters must reach quorum");
+    });
+
+    it("Should not let removals leave fewer reporters than the quorum", async function () {
+      await priceOracle.setReporter(reporters[0].address, false);
+      await expect(priceOracle.setReporter(reporters[1].address, false))
+        .to.be.revertedWith("Reporters would fall below quorum");
+
+      // Removing the last reporter hands publishing back to the owner
+      await priceOracle.setQuorumConfig(1, 100, 900);
+      await priceOracle.setReporter(reporters[1].address, false);
+      await priceOracle.setReporter(reporters[2].address, false);
+      await expect(priceOracle.setPrediction(WAVAX, USDT, ethers.parseEther("25"), 80, await latestExpiry(1800)))
+        .to.emit(priceOracle, "PredictionSet");
+    });
+
+    it("Should reject submissions from non-reporters", async function () {
+      await expect(
+        priceOracle.connect(user).submitPrediction(WAVAX, USDT, ethers.parseEther("25"), 80, await latestExpiry(1800))
+      ).to.be.revertedWith("Caller is not a reporter");
+    });
+
+    it("Should publish the median once a quorum agrees", async function () {
+      await expect(submit(reporters[0], "25.00", 80))
+        .to.emit(priceOracle, "PredictionSubmitted")
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), reporters[0].address, 0, WAVAX, ethers.parseEther("25.00"), 80, anyValue)
+        .and.not.to.emit(priceOracle, "PredictionSet");
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(false);
+
+      await expect(submit(reporters[1], "25.10", 90, 900))
+        .to.emit(priceOracle, "PredictionSet");
+
+      const prediction = await priceOracle.getPrediction(WAVAX, USDT);
+      expect(prediction[0]).to.equal(ethers.parseEther("25.05"));
+      expect(prediction[1]).to.equal(85);
+      expect(prediction[3]).to.be.lte(await latestExpiry(900)); // Earliest expiry wins
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(true);
+
+      const round = await priceOracle.getReportRound(WAVAX, USDT);
+      expect(round[0]).to.equal(1);
+      expect(round[2]).to.equal(0);
+    });
+
+    it("Should leave out reports outside the tolerance", async function () {
+      await submit(reporters[0], "25.00");
+      await expect(submit(reporters[1], "30.00")).to.not.emit(priceOracle, "PredictionSet");
+
+      await expect(submit(reporters[2], "25.10")).to.emit(priceOracle, "PredictionSet");
+      expect((await priceOracle.getPrediction(WAVAX, USDT))[0]).to.equal(ethers.parseEther("25.05"));
+    });
+
+    it("Should discard a round every reporter answered without agreement", async function () {
+      await submit(reporters[0], "25.00");
+      await submit(reporters[1], "30.00");
+
+      await expect(submit(reporters[2], "35.00"))
+        .to.emit(priceOracle, "RoundDiscarded")
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), 0);
+
+      expect(await priceOracle.isPredictionValid(WAVAX, USDT)).to.equal(false);
+      expect((await priceOracle.getReportRound(WAVAX, USDT))[0]).to.equal(1);
+    });
+
+    it("Should only accept one report per reporter per round", async function () {
+      await submit(reporters[0], "25.00");
+      await expect(submit(reporters[0], "25.10")).to.be.revertedWith("Already reported this round");
+    });
+
+    it("Should discard rounds older than the round duration", async function () {
+      await submit(reporters[0], "25.00");
+
+      await ethers.provider.send("evm_increaseTime", [901]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(submit(reporters[1], "25.00"))
+        .to.emit(priceOracle, "RoundDiscarded")
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), 0)
+        .and.not.to.emit(priceOracle, "PredictionSet");
+
+      const round = await priceOracle.getReportRound(WAVAX, USDT);
+      expect(round[0]).to.equal(1);
+      expect(round[2]).to.equal(1);
+    });
+
+    it("Should combine reports quoted in either token order", async function () {
+      await submit(reporters[0], "25.00");
+      await priceOracle.connect(reporters[1]).submitPrediction(USDT, WAVAX, ethers.parseEther("0.04"), 80, await latestExpiry(1800));
+
+      expect((await priceOracle.getPrediction(WAVAX, USDT))[0]).to.equal(ethers.parseEther("25.00"));
+    });
+
+    it("Should ignore reports from reporters removed mid-round", async function () {
+      await submit(reporters[0], "25.00");
+      await priceOracle.setReporter(reporters[0].address, false);
+
+      await expect(submit(reporters[1], "25.00")).to.not.emit(priceOracle, "PredictionSet");
+      await expect(submit(reporters[2], "25.00")).to.emit(priceOracle, "PredictionSet");
+    });
+
+    it("Should validate the quorum configuration", async function () {
+      await expect(priceOracle.setQuorumConfig(0, 100, 900)).to.be.revertedWith("Invalid quorum");
+      await expect(priceOracle.setQuorumConfig(4, 100, 900)).to.be.revertedWith("Invalid quorum");
+      await expect(priceOracle.setQuorumConfig(2, 10001, 900)).to.be.revertedWith("Invalid price tolerance");
+      await expect(priceOracle.setQuorumConfig(2, 100, 0)).to.be.revertedWith("Invalid round duration");
+
+      await expect(priceOracle.setQuorumConfig(3, 50, 600))
+        .to.emit(priceOracle, "QuorumUpdated")
+        .withArgs(3, 50, 600);
+
+      await expect(
+        priceOracle.connect(user).setQuorumConfig(2, 100, 900)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Signed reports", function () {
+    let reporters: SignerWithAddress[];
+
+    const signReport = async (signer: SignerWithAddress, price: string, round = 0) => {
+      const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+      const report = {
+        baseToken: WAVAX,
+        quoteToken: USDT,
+        price: ethers.parseEther(price),
+        confidence: 80,
+        expiresAt: currentTime + 1800,
+        round
+      };
+      const domain = {
+        name: "PriceOracle",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await priceOracle.getAddress()
+      };
+      const types = {
+        PredictionReport: [
+          { name: "baseToken", type: "address" },
+          { name: "quoteToken", type: "address" },
+          { name: "price", type: "uint256" },
+          { name: "confidence", type: "uint256" },
+          { name: "expiresAt", type: "uint256" },
+          { name: "round", type: "uint256" }
+        ]
+      };
+      return { report, signature: await signer.signTypedData(domain, types, report) };
+    };
+
+    beforeEach(async function () {
+      reporters = (await ethers.getSigners()).slice(3, 6);
+      for (const reporter of reporters) {
+        await priceOracle.setReporter(reporter.address, true);
+      }
+      await priceOracle.setQuorumConfig(2, 100, 900);
+    });
+
+    it("Should publish a relayed batch of signed reports", async function () {
+      const signed = [
+        await signReport(reporters[0], "25.00"),
+        await signReport(reporters[1], "25.20")
+      ];
+
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions(signed.map(s => s.report), signed.map(s => s.signature))
+      )
+        .to.emit(priceOracle, "PredictionSubmitted")
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), reporters[1].address, 0, WAVAX, ethers.parseEther("25.20"), 80, anyValue)
+        .and.to.emit(priceOracle, "PredictionSet");
+
+      expect((await priceOracle.getPrediction(WAVAX, USDT))[0]).to.equal(ethers.parseEther("25.10"));
+    });
+
+    it("Should skip reports for a round that already closed", async function () {
+      const signed = [
+        await signReport(reporters[0], "25.00"),
+        await signReport(reporters[1], "25.00"),
+        await signReport(reporters[2], "25.00")
+      ];
+      const reports = signed.map(s => s.report);
+      const signatures = signed.map(s => s.signature);
+
+      await priceOracle.connect(user).submitSignedPredictions(reports, signatures);
+      expect((await priceOracle.getReportRound(WAVAX, USDT))[2]).to.equal(0);
+
+      // Replaying the batch does nothing
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions(reports, signatures)
+      ).to.not.emit(priceOracle, "PredictionSubmitted");
+    });
+
+    it("Should skip a reporter's repeat report in the same round", async function () {
+      const signed = [
+        await signReport(reporters[0], "25.00"),
+        await signReport(reporters[0], "25.10"),
+        await signReport(reporters[1], "25.00")
+      ];
+
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions(signed.map(s => s.report), signed.map(s => s.signature))
+      ).to.emit(priceOracle, "PredictionSet");
+
+      expect((await priceOracle.getPrediction(WAVAX, USDT))[0]).to.equal(ethers.parseEther("25.00"));
+    });
+
+    it("Should reject reports not signed by a reporter", async function () {
+      const signed = await signReport(user, "25.00");
+
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions([signed.report], [signed.signature])
+      ).to.be.revertedWith("Signer is not a reporter");
+    });
+
+    it("Should reject tampered reports", async function () {
+      const signed = await signReport(reporters[0], "25.00");
+
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions(
+          [{ ...signed.report, price: ethers.parseEther("50.00") }],
+          [signed.signature]
+        )
+      ).to.be.revertedWith("Signer is not a reporter");
+    });
+
+    it("Should reject mismatched batches", async function () {
+      const signed = await signReport(reporters[0], "25.00");
+
+      await expect(
+        priceOracle.connect(user).submitSignedPredictions([signed.report], [])
+      ).to.be.revertedWith("Length mismatch");
+    });
+  });
+
+  describe("Prediction history", function () {
+    const latestExpiry = async (seconds: number) => {
+      const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+      return currentTime + seconds;
+    };
+
+    const publish = async (price: string, expiresIn = 60) =>
+      priceOracle.setPrediction(WAVAX, USDT, ethers.parseEther(price), 80, await latestExpiry(expiresIn));
+
+    const expireAll = async () => {
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    it("Should record each published prediction", async function () {
+      await publish("25.00");
+      await publish("26.00");
+
+      const key = await priceOracle.pairKey(WAVAX, USDT);
+      expect(await priceOracle.historyLength(key)).to.equal(2);
+
+      const record = await priceOracle.getPredictionRecord(USDT, WAVAX, 0);
+      expect(record.price).to.equal(ethers.parseEther("25.00"));
+      expect(record.baseToken).to.equal(WAVAX);
+      expect(record.settled).to.equal(false);
+    });
+
+    it("Should keep only the most recent predictions", async function () {
+      const size = Number(await priceOracle.HISTORY_SIZE());
+      for (let i = 0; i <= size; i++) {
+        await publish((20 + i).toFixed(2));
+      }
+
+      await expect(priceOracle.getPredictionRecord(WAVAX, USDT, 0)).to.be.revertedWith("Prediction no longer in history");
+      expect((await priceOracle.getPredictionRecord(WAVAX, USDT, 1)).price).to.equal(ethers.parseEther("21.00"));
+      await expect(priceOracle.getPredictionRecord(WAVAX, USDT, size + 1)).to.be.revertedWith("Unknown prediction");
+    });
+
+    it("Should settle an expired prediction and score it", async function () {
+      await publish("25.00");
+
+      await expect(
+        priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.25"))
+      ).to.be.revertedWith("Prediction has not expired");
+
+      await expireAll();
+
+      await expect(priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.25")))
+        .to.emit(priceOracle, "PredictionSettled")
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), 0, ethers.parseEther("25.25"), 99, true);
+
+      const accuracy = await priceOracle.getAccuracy(WAVAX, USDT);
+      expect(accuracy[0]).to.equal(1);
+      expect(accuracy[1]).to.equal(10000);
+      expect(accuracy[2]).to.equal(99);
+
+      await expect(
+        priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.25"))
+      ).to.be.revertedWith("Prediction already settled");
+    });
+
+    it("Should accept realized prices quoted in either token order", async function () {
+      await publish("25.00");
+      await expireAll();
+
+      await priceOracle.settlePrediction(USDT, WAVAX, 0, ethers.parseEther("0.04"));
+
+      const record = await priceOracle.getPredictionRecord(WAVAX, USDT, 0);
+      expect(record.realizedPrice).to.equal(ethers.parseEther("25.00"));
+      expect((await priceOracle.getAccuracy(WAVAX, USDT))[2]).to.equal(0);
+    });
+
+    it("Should track hit rate and mean absolute error", async function () {
+      await publish("25.00");
+      await publish("25.00");
+      await expireAll();
+
+      await priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.00"));
+      await priceOracle.settlePrediction(WAVAX, USDT, 1, ethers.parseEther("20.00")); // 25% off
+
+      const accuracy = await priceOracle.getAccuracy(WAVAX, USDT);
+      expect(accuracy[0]).to.equal(2);
+      expect(accuracy[1]).to.equal(5000);
+      expect(accuracy[2]).to.equal(1250);
+      expect((await priceOracle.getAccuracy(QI, USDT))[0]).to.equal(0);
+    });
+
+    it("Should only score the most recent settlements", async function () {
+      const window = Number(await priceOracle.ACCURACY_WINDOW());
+      for (let i = 0; i <= window; i++) {
+        await publish("25.00");
+      }
+      await expireAll();
+
+      await priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("20.00")); // Miss
+      for (let i = 1; i <= window; i++) {
+        await priceOracle.settlePrediction(WAVAX, USDT, i, ethers.parseEther("25.00"));
+      }
+
+      const accuracy = await priceOracle.getAccuracy(WAVAX, USDT);
+      expect(accuracy[0]).to.equal(window);
+      expect(accuracy[1]).to.equal(10000);
+      expect(accuracy[2]).to.equal(0);
+    });
+
+    it("Should only let keepers and the owner settle", async function () {
+      await publish("25.00");
+      await expireAll();
+
+      await expect(
+        priceOracle.connect(user).settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.00"))
+      ).to.be.revertedWith("Caller is not a keeper");
+
+      await expect(priceOracle.setKeeper(user.address, true))
+        .to.emit(priceOracle, "KeeperUpdated")
+        .withArgs(user.address, true);
+      await expect(
+        priceOracle.connect(user).settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.00"))
+      ).to.emit(priceOracle, "PredictionSettled");
+
+      await expect(
+        priceOracle.connect(user).setKeeper(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should let the owner change the hit tolerance", async function () {
+      await expect(priceOracle.updateHitTolerance(50))
+        .to.emit(priceOracle, "HitToleranceUpdated")
+        .withArgs(200, 50);
+
+      await publish("25.00");
+      await expireAll();
+      await priceOracle.settlePrediction(WAVAX, USDT, 0, ethers.parseEther("25.25")); // 99 bps off
+
+      expect((await priceOracle.getAccuracy(WAVAX, USDT))[1]).to.equal(0);
+      await expect(priceOracle.updateHitTolerance(10001)).to.be.revertedWith("Invalid hit tolerance");
     });
   });
 
@@ -351,9 +893,9 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await expect(priceOracle.setPrediction(price, confidence, expiry))
+      await expect(priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry))
         .to.emit(priceOracle, "PredictionSet")
-        .withArgs(price, confidence, anyValue, expiry);
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), WAVAX, price, confidence, anyValue, expiry);
     });
 
     it("Should emit PredictionValidated event on invalidation", async function () {
@@ -362,11 +904,11 @@ describe("PriceOracle", function () {
       const currentTime = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
       const expiry = currentTime + 3600;
 
-      await priceOracle.setPrediction(price, confidence, expiry);
+      await priceOracle.setPrediction(WAVAX, USDT, price, confidence, expiry);
       
-      await expect(priceOracle.invalidatePrediction())
+      await expect(priceOracle.invalidatePrediction(WAVAX, USDT))
         .to.emit(priceOracle, "PredictionValidated")
-        .withArgs(false, confidence, anyValue);
+        .withArgs(await priceOracle.pairKey(WAVAX, USDT), false, confidence, anyValue);
     });
 
     it("Should emit ConfidenceThresholdUpdated event", async function () {
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import pkg from 'hardhat';
+const { ethers } = pkg;
+import type { Contract } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+import { findBestRoute, enumeratePaths } from "../src/utils/routeFinder.ts";
+import type { RouteSearch } from "../src/utils/routeFinder.ts";
+
+describe("Route finding", function () {
+  let pangolin: Contract;
+  let joe: Contract;
+  let wavax: Contract;
+  let usdc: Contract;
+  let joeToken: Contract;
+  let qi: Contract;
+  let user: SignerWithAddress;
+
+  const units = (amount: string) => ethers.parseEther(amount);
+
+  const search = async (overrides: Partial<RouteSearch>): Promise<RouteSearch> => {
+    const routers: Record<string, Contract> = {
+      [await pangolin.getAddress()]: pangolin,
+      [await joe.getAddress()]: joe
+    };
+
+    return {
+      tokenIn: await joeToken.getAddress(),
+      tokenOut: await qi.getAddress(),
+      amountIn: units("10"),
+      venues: [
+        { name: "pangolin", router: await pangolin.getAddress() },
+        { name: "traderjoe", router: await joe.getAddress() }
+      ],
+      connectors: [await wavax.getAddress(), await usdc.getAddress()],
+      wrappedNative: await wavax.getAddress(),
+      gasPrice: 0n,
+      getAmountsOut: async (router, amountIn, path) => {
+        try {
+          return Array.from(await routers[router].getAmountsOut(amountIn, path)) as bigint[];
+        } catch {
+          return null;
+        }
+      },
+      ...overrides
+    };
+  };
+
+  beforeEach(async function () {
+    [, user] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("MockERC20");
+    wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+    usdc = await TokenFactory.deploy("USD Coin", "USDC");
+    joeToken = await TokenFactory.deploy("JoeToken", "JOE");
+    qi = await TokenFactory.deploy("BENQI", "QI");
+
+    const RouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+    pangolin = await RouterFactory.deploy(await wavax.getAddress());
+    joe = await RouterFactory.deploy(await wavax.getAddress());
+
+    // Pangolin: a JOE/QI pool at par plus JOE -> WAVAX -> QI pools slightly above par
+    await pangolin.setReserves(await joeToken.getAddress(), await qi.getAddress(), units("1000000"), units("1000000"));
+    await pangolin.setReserves(await joeToken.getAddress(), await wavax.getAddress(), units("1000000"), units("100000"));
+    await pangolin.setReserves(await wavax.getAddress(), await qi.getAddress(), units("100000"), units("1010000"));
+  });
+
+  describe("enumeratePaths", function () {
+    it("Should list direct and multi-hop paths through connectors, shortest first", function () {
+      const paths = enumeratePaths("0xIn", "0xOut", ["0xA", "0xB", "0xIn"], 3);
+
+      expect(paths[0]).to.deep.equal(["0xIn", "0xOut"]);
+      expect(paths).to.deep.include(["0xIn", "0xA", "0xOut"]);
+      expect(paths).to.deep.include(["0xIn", "0xB", "0xA", "0xOut"]);
+      expect(paths).to.have.length(5);
+    });
+
+    it("Should respect the hop limit", function () {
+      const paths = enumeratePaths("0xIn", "0xOut", ["0xA", "0xB"], 1);
+      expect(paths).to.deep.equal([["0xIn", "0xOut"]]);
+    });
+  });
+
+  describe("findBestRoute", function () {
+    it("Should route through WAVAX when it beats the direct pool", async function () {
+      const route = await findBestRoute(await search({}));
+
+      expect(route?.dex).to.equal("pangolin");
+      expect(route?.path).to.deep.equal([await joeToken.getAddress(), await wavax.getAddress(), await qi.getAddress()]);
+    });
+
+    it("Should route through the direct pool when gas outweighs the extra hop", async function () {
+      const route = await findBestRoute(await search({ gasPrice: ethers.parseUnits("500", "gwei") }));
+
+      expect(route?.path).to.deep.equal([await joeToken.getAddress(), await qi.getAddress()]);
+      expect(route!.netAmountOut).to.be.lt(route!.amountOut);
+    });
+
+    it("Should pick the DEX with the best output", async function () {
+      await joe.setReserves(await joeToken.getAddress(), await wavax.getAddress(), units("1000000"), units("110000"));
+      await joe.setReserves(await wavax.getAddress(), await qi.getAddress(), units("110000"), units("1111000"));
+
+      const route = await findBestRoute(await search({}));
+
+      expect(route?.dex).to.equal("traderjoe");
+      expect(route?.router).to.equal(await joe.getAddress());
+    });
+
+    it("Should return null when no venue has a route", async function () {
+      const route = await findBestRoute(await search({ tokenOut: await usdc.getAddress() }));
+      expect(route).to.equal(null);
+    });
+  });
+
+  describe("Execution through AIPoweredTrader", function () {
+    it("Should execute the chosen multi-hop route on an approved router", async function () {
+      // Other suites move chain time forward, so work from the latest block
+      const now = await ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+      const PriceOracleFactory = await ethers.getContractFactory("PriceOracle");
+      const priceOracle = await PriceOracleFactory.deploy();
+      // JOE expected at par with QI, below the ~1.09 QI the route pays now
+      await priceOracle.setPrediction(await joeToken.getAddress(), await qi.getAddress(), units("1.00"), 80, now + 1800);
+
+      const TraderFactory = await ethers.getContractFactory("AIPoweredTrader");
+      const trader = await TraderFactory.deploy(await pangolin.getAddress(), await priceOracle.getAddress());
+
+      await joe.setReserves(await joeToken.getAddress(), await wavax.getAddress(), units("1000000"), units("110000"));
+      await joe.setReserves(await wavax.getAddress(), await qi.getAddress(), units("110000"), units("1111000"));
+      await trader.setRouterApproval(await joe.getAddress(), true);
+
+      const amountIn = units("10");
+      await joeToken.mint(user.address, amountIn);
+      await joeToken.connect(user).approve(await trader.getAddress(), amountIn);
+      await qi.mint(await joe.getAddress(), units("1000"));
+
+      const route = await findBestRoute(await search({ amountIn }));
+      expect(route?.path).to.have.length(3);
+
+      const deadline = now + 600; // 10 minutes
+      await expect(
+        trader.connect(user).tradeExactTokensForTokens(route!.router, route!.path, amountIn, route!.amountOut, deadline)
+      )
+        .to.emit(trader, "TradeExecuted")
+        .withArgs(
+          user.address,
+          await joeToken.getAddress(),
+          await qi.getAddress(),
+          amountIn,
+          route!.amountOut,
+          80,
+          units("1.00")
+        );
+
+      expect(await qi.balanceOf(user.address)).to.equal(route!.amountOut);
+      expect(await joeToken.balanceOf(await joe.getAddress())).to.equal(amountIn);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { expect } from "chai";
+import hre from 'hardhat';
+const { ethers } = hre;
+import type { Contract } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers.js";
+import {
+  compareStorageLayouts,
+  deployUUPSProxy,
+  getImplementationAddress,
+  getStorageLayout,
+  upgradeUUPSProxy
+} from "../scripts/upgrades.ts";
+import type { StorageSlot } from "../scripts/upgrades.ts";
+
+describe("Upgrades", function () {
+  let priceOracle: Contract;
+  let trader: Contract;
+  let router: Contract;
+  let usdt: Contract;
+  let wavax: Contract;
+  let owner: SignerWithAddress;
+  let newOwner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let oracleLayout: StorageSlot[];
+  let traderLayout: StorageSlot[];
+
+  const units = (amount: string) => ethers.parseEther(amount);
+  const latestTime = () => ethers.provider.getBlock("latest").then(block => block!.timestamp);
+
+  beforeEach(async function () {
+    [owner, newOwner, user] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("MockERC20");
+    usdt = await TokenFactory.deploy("Tether USD", "USDT");
+    wavax = await TokenFactory.deploy("Wrapped AVAX", "WAVAX");
+
+    const RouterFactory = await ethers.getContractFactory("MockPangolinRouter");
+    router = await RouterFactory.deploy(await wavax.getAddress());
+
+    priceOracle = (await deployUUPSProxy(hre, "PriceOracle", [], [])).contract;
+    const routerAddress = await router.getAddress();
+    const oracleAddress = await priceOracle.getAddress();
+    trader = (await deployUUPSProxy(
+      hre,
+      "AIPoweredTrader",
+      [routerAddress, oracleAddress],
+      [routerAddress, oracleAddress]
+    )).contract;
+
+    oracleLayout = await getStorageLayout(hre, "PriceOracle");
+    traderLayout = await getStorageLayout(hre, "AIPoweredTrader");
+  });
+
+  describe("Proxy deployment", function () {
+    it("Should initialize the proxies with the deployer as owner and default settings", async function () {
+      expect(await priceOracle.owner()).to.equal(owner.address);
+      expect(await priceOracle.minConfidenceThreshold()).to.equal(70);
+      expect(await priceOracle.quorum()).to.equal(1);
+
+      expect(await trader.owner()).to.equal(owner.address);
+      expect(await trader.pangolinRouter()).to.equal(await router.getAddress());
+      expect(await trader.priceOracle()).to.equal(await priceOracle.getAddress());
+      expect(await trader.WAVAX()).to.equal(await wavax.getAddress());
+      expect(await trader.approvedRouters(await router.getAddress())).to.equal(true);
+    });
+
+    it("Should not initialize twice", async function () {
+      await expect(priceOracle.initialize()).to.be.revertedWith("Initializable: contract is already initialized");
+      await expect(
+        trader.initialize(await router.getAddress(), await priceOracle.getAddress())
+      ).to.be.revertedWith("Initializable: contract is already initialized");
+    });
+
+    it("Should lock the implementations against initialization", async function () {
+      const implementation = await ethers.getContractAt(
+        "PriceOracle",
+        await getImplementationAddress(hre, await priceOracle.getAddress())
+      );
+      await expect(implementation.connect(user).initialize())
+        .to.be.revertedWith("Initializable: contract is already initialized");
+    });
+  });
+
+  describe("Upgrading", function () {
+    it("Should keep the oracle's threshold, owner and predictions across an upgrade", async function () {
+      const expiresAt = (await latestTime()) + 1800;
+      await priceOracle.updateConfidenceThreshold(85);
+      await priceOracle.setPrediction(await wavax.getAddress(), await usdt.getAddress(), units("25"), 90, expiresAt);
+      await priceOracle.transferOwnership(newOwner.address);
+
+      const proxyAddress = await priceOracle.getAddress();
+      const upgraded = await ethers.getContractAt("PriceOracleV2Mock", proxyAddress, newOwner);
+      const V2Factory = await ethers.getContractFactory("PriceOracleV2Mock");
+      const implementation = await V2Factory.deploy();
+      await expect(upgraded.upgradeTo(await implementation.getAddress()))
+        .to.emit(upgraded, "Upgraded")
+        .withArgs(await implementation.getAddress());
+
+      expect(await upgraded.version()).to.equal("2");
+      expect(await upgraded.owner()).to.equal(newOwner.address);
+      expect(await upgraded.minConfidenceThreshold()).to.equal(85);
+      const prediction = await upgraded.getPrediction(await wavax.getAddress(), await usdt.getAddress());
+      expect(prediction.price).to.equal(units("25"));
+      expect(prediction.confidence).to.equal(90);
+
+      // New state starts empty and lives after the old variables
+      await upgraded.incrementUpgradeCounter();
+      expect(await upgraded.upgradeCounter()).to.equal(1);
+      expect(await upgraded.minConfidenceThreshold()).to.equal(85);
+    });
+
+    it("Should keep the trader's pause status, owner and limits across an upgrade", async function () {
+      await trader.setTradeLimits(await usdt.getAddress(), units("1000"), units("5000"));
+      await trader.setMaxPriceImpact(300);
+      await trader.pause();
+
+      const proxyAddress = await trader.getAddress();
+      const constructorArgs = [await router.getAddress(), await priceOracle.getAddress()];
+      const { implementation, storageLayout } = await upgradeUUPSProxy(
+        hre,
+        proxyAddress,
+        "AIPoweredTraderV2Mock",
+        constructorArgs,
+        traderLayout
+      );
+
+      expect(await getImplementationAddress(hre, proxyAddress)).to.equal(implementation.address);
+      expect(storageLayout.length).to.equal(traderLayout.length + 1);
+
+      const upgraded = await ethers.getContractAt("AIPoweredTraderV2Mock", proxyAddress);
+      expect(await upgraded.version()).to.equal("2");
+      expect(await upgraded.paused()).to.equal(true);
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.maxTradeAmount(await usdt.getAddress())).to.equal(units("1000"));
+      expect(await upgraded.dailyVolumeCap(await usdt.getAddress())).to.equal(units("5000"));
+      expect(await upgraded.maxPriceImpactBps()).to.equal(300);
+      expect(await upgraded.pangolinRouter()).to.equal(await router.getAddress());
+
+      await upgraded.unpause();
+      expect(await upgraded.paused()).to.equal(false);
+    });
+
+    it("Should only let the owner upgrade", async function () {
+      const V2Factory = await ethers.getContractFactory("AIPoweredTraderV2Mock");
+      const implementation = await V2Factory.deploy(await router.getAddress(), await priceOracle.getAddress());
+
+      await expect(
+        trader.connect(user).upgradeTo(await implementation.getAddress())
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+
+      // Ownership transfers carry the upgrade right with them
+      await priceOracle.transferOwnership(newOwner.address);
+      const OracleV2Factory = await ethers.getContractFactory("PriceOracleV2Mock");
+      const oracleImplementation = await OracleV2Factory.deploy();
+      await expect(
+        priceOracle.upgradeTo(await oracleImplementation.getAddress())
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Storage layout checks", function () {
+    it("Should accept layouts that only append variables", async function () {
+      const v2Layout = await getStorageLayout(hre, "PriceOracleV2Mock");
+
+      expect(compareStorageLayouts(oracleLayout, v2Layout)).to.deep.equal([]);
+      expect(v2Layout[v2Layout.length - 1].label).to.equal("upgradeCounter");
+    });
+
+    it("Should report reordered, retyped and removed variables", async function () {
+      const swapped = [oracleLayout[1], oracleLayout[0], ...oracleLayout.slice(2)];
+      expect(compareStorageLayouts(oracleLayout, swapped)).to.have.length(2);
+
+      const retyped = oracleLayout.map((entry, index) =>
+        index === 0 ? { ...entry, type: "uint128" } : entry
+      );
+      expect(compareStorageLayouts(oracleLayout, retyped)[0]).to.contain(oracleLayout[0].label);
+
+      const removed = compareStorageLayouts(oracleLayout, oracleLayout.slice(0, -1));
+      expect(removed).to.deep.equal([`${oracleLayout[oracleLayout.length - 1].label} (slot ${oracleLayout[oracleLayout.length - 1].slot}) was removed`]);
+    });
+
+    it("Should accept struct members appended inside mappings", async function () {
+      const index = oracleLayout.findIndex(entry => entry.label === "predictions");
+      const predictions = oracleLayout[index];
+      expect(predictions.type).to.match(/^mapping\(bytes32 => struct PriceOracle\.Prediction\{.*\}\)$/);
+
+      const grown = oracleLayout.map((entry, i) =>
+        i === index ? { ...entry, type: predictions.type.replace(/\}\)$/, ",source:address@99+0})") } : entry
+      );
+      expect(compareStorageLayouts(oracleLayout, grown)).to.deep.equal([]);
+      expect(compareStorageLayouts(grown, oracleLayout)).to.have.length(1);
+
+      const reordered = oracleLayout.map((entry, i) =>
+        i === index ? { ...entry, type: predictions.type.replace("{", "{source:address@0+0,") } : entry
+      );
+      expect(compareStorageLayouts(oracleLayout, reordered)[0]).to.contain("predictions");
+    });
+
+    it("Should not let structs inside arrays grow", function () {
+      const previous: StorageSlot[] = [
+        { label: "records", slot: "0", offset: 0, type: "struct Record{value:uint256@0+0}[]" }
+      ];
+      const next: StorageSlot[] = [
+        { label: "records", slot: "0", offset: 0, type: "struct Record{value:uint256@0+0,extra:uint256@1+0}[]" }
+      ];
+
+      expect(compareStorageLayouts(previous, next)).to.have.length(1);
+    });
+
+    it("Should refuse to upgrade to an incompatible layout", async function () {
+      const tampered = traderLayout.map((entry, index) =>
+        index === traderLayout.length - 1 ? { ...entry, label: "renamed" } : entry
+      );
+      const before = await getImplementationAddress(hre, await trader.getAddress());
+
+      let message = "";
+      try {
+        await upgradeUUPSProxy(
+          hre,
+          await trader.getAddress(),
+          "AIPoweredTrader",
+          [await router.getAddress(), await priceOracle.getAddress()],
+          tampered
+        );
+      } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
+      }
+      expect(message).to.contain("Storage layout of AIPoweredTrader is incompatible");
+
+      expect(await getImplementationAddress(hre, await trader.getAddress())).to.equal(before);
+    });
+  });
+});